@@ -43,6 +43,34 @@ async function buildAll() {
             outfile: 'dist/main.cjs',
             sourcemap: true,
         },
+        {
+            absWorkingDir: __dirname,
+            entryPoints: ['src/validationWorker.mts'],
+            bundle: true,
+            minify,
+            platform: 'node',
+            outfile: 'dist/validationWorker.cjs',
+            sourcemap: true,
+        },
+        {
+            absWorkingDir: __dirname,
+            entryPoints: ['src/regExpWorker.mts'],
+            bundle: true,
+            minify,
+            platform: 'node',
+            outfile: 'dist/regExpWorker.cjs',
+            sourcemap: true,
+        },
+        {
+            absWorkingDir: __dirname,
+            entryPoints: ['src/cli/main.mts'],
+            bundle: true,
+            minify,
+            platform: 'node',
+            outfile: 'dist/cli.cjs',
+            sourcemap: true,
+            banner: { js: '#!/usr/bin/env node' },
+        },
         {
             absWorkingDir: __dirname,
             entryPoints: ['src/api.ts'],
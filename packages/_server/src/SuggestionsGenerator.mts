@@ -17,11 +17,17 @@ export interface GetSettingsResult {
     dictionary: SpellingDictionaryCollection;
 }
 
+/**
+ * Get the settings and dictionary for a document.
+ * The `offset` of the word is used to select the settings of a region with its own locale.
+ */
+export type GetSettingsFn<DocInfo> = (doc: DocInfo, offset?: number) => GetSettingsResult | Promise<GetSettingsResult>;
+
 export class SuggestionGenerator<DocInfo> {
-    constructor(readonly getSettings: (doc: DocInfo) => GetSettingsResult | Promise<GetSettingsResult>) {}
+    constructor(readonly getSettings: GetSettingsFn<DocInfo>) {}
 
-    async genSuggestions(doc: DocInfo, word: string): Promise<SuggestionResult[]> {
-        const { settings, dictionary } = await this.getSettings(doc);
+    async genSuggestions(doc: DocInfo, word: string, offset?: number): Promise<SuggestionResult[]> {
+        const { settings, dictionary } = await this.getSettings(doc, offset);
         const { numSuggestions = defaultNumSuggestions } = settings;
 
         if (word.length > maxWordLengthForSuggestions) {
@@ -41,7 +47,7 @@ export class SuggestionGenerator<DocInfo> {
         return dictionary.suggest(word, options).map((s) => ({ ...s, word: s.word.replace(regexJoinedWords, '') }));
     }
 
-    async genWordSuggestions(doc: DocInfo, word: string): Promise<Suggestion[]> {
-        return (await this.genSuggestions(doc, word)).map(({ word, isPreferred }) => ({ word, isPreferred }));
+    async genWordSuggestions(doc: DocInfo, word: string, offset?: number): Promise<Suggestion[]> {
+        return (await this.genSuggestions(doc, word, offset)).map(({ word, isPreferred }) => ({ word, isPreferred }));
     }
 }
@@ -3,12 +3,15 @@ import { describe, expect, test } from 'vitest';
 
 import { maxNumberOfSuggestionsForLongWords, SuggestionGenerator } from './SuggestionsGenerator.mjs';
 
+// cspell:ignore neighbourr neighbour
+
 const timeout = 30000;
 
 describe('Validate Suggestions', () => {
     interface DocInfo {
         languageId: string;
         text?: string;
+        locale?: string;
     }
 
     test(
@@ -37,8 +40,30 @@ describe('Validate Suggestions', () => {
         timeout,
     );
 
+    test(
+        'genWordSuggestions uses the settings for the offset',
+        async () => {
+            const calls: (number | undefined)[] = [];
+            const gen = new SuggestionGenerator((doc: DocInfo, offset?: number) => {
+                calls.push(offset);
+                return getSettings({ ...doc, locale: offset ? 'en-GB' : 'en' });
+            });
+            const doc = { languageId: 'plaintext', text: '' };
+            const result = await gen.genWordSuggestions(doc, 'neighbourr');
+            const resultGB = await gen.genWordSuggestions(doc, 'neighbourr', 42);
+            expect(calls).toEqual([undefined, 42]);
+            expect(result.map((s) => s.word)).not.toContain('neighbour');
+            expect(resultGB.map((s) => s.word)).toContain('neighbour');
+        },
+        timeout,
+    );
+
     async function getSettings(doc: DocInfo) {
-        const settings = await cspell.constructSettingsForText(cspell.getDefaultSettings(), doc.text || '', doc.languageId);
+        const settings = await cspell.constructSettingsForText(
+            { ...cspell.getDefaultSettings(), language: doc.locale },
+            doc.text || '',
+            doc.languageId,
+        );
         const dictionary = await cspell.getDictionary(settings);
         return { settings, dictionary };
     }
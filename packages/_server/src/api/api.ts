@@ -13,14 +13,35 @@ import type {
 import { createClientApi, createServerApi } from 'json-rpc-api';
 
 import type {
+    CheckDocumentOptions,
+    CheckDocumentResult,
+    CheckTextRequest,
+    CheckWorkspaceRequest,
+    CheckWorkspaceResult,
+    FindWordInDictionariesRequest,
+    FindWordInDictionariesResult,
     GetConfigurationForDocumentRequest,
     GetConfigurationForDocumentResult,
+    GetDictionariesForDocumentResult,
+    GetVocabularyReportRequest,
+    GetVocabularyReportResult,
     IsSpellCheckEnabledResult,
+    LintSettingsRequest,
+    LintSettingsResult,
     OnSpellCheckDocumentStep,
+    OnWorkspaceCheckProgress,
     PublishDiagnostics,
+    RegExpProfile,
+    RuntimeDictionaryDefinition,
+    SetDocumentLocaleRequest,
     SpellingSuggestionsResult,
     SplitTextIntoWordsResult,
     TextDocumentInfo,
+    TextMateGrammarDefinition,
+    TraceWordRequest,
+    TraceWordResult,
+    UpdateBaselineRequest,
+    UpdateBaselineResult,
     WorkspaceConfigForDocumentRequest,
     WorkspaceConfigForDocumentResponse,
 } from './apiModels.js';
@@ -29,16 +50,49 @@ export type { Logger, MessageConnection } from 'json-rpc-api';
 
 /** Requests that can be made to the server */
 export interface ServerRequestsAPI {
+    /**
+     * Spell check a document without opening it.
+     * If `text` is not given, the text of the open document or the file is used.
+     */
+    checkDocument(doc: TextDocumentInfo, options?: CheckDocumentOptions): CheckDocumentResult;
+    /** Spell check some text using the settings for a document. */
+    checkText(req: CheckTextRequest): CheckDocumentResult;
+    checkWorkspace(req: CheckWorkspaceRequest): CheckWorkspaceResult;
+    /** Find the dictionaries used with a document that contain a word. */
+    findWordInDictionaries(req: FindWordInDictionariesRequest): FindWordInDictionariesResult;
     getConfigurationForDocument(req: GetConfigurationForDocumentRequest): GetConfigurationForDocumentResult;
+    /** List the dictionaries used with a document. */
+    getDictionariesForDocument(req: Partial<TextDocumentInfo>): GetDictionariesForDocumentResult;
+    /** The time each pattern of `ignoreRegExpList` and `includeRegExpList` took on the open documents, see `regExpProfiler`. */
+    getRegExpProfile(): RegExpProfile;
+    /** List the words used in the workspace with their frequency and the dictionaries that accept them. */
+    getVocabularyReport(req: GetVocabularyReportRequest): GetVocabularyReportResult;
     isSpellCheckEnabled(req: TextDocumentInfo): IsSpellCheckEnabledResult;
-    splitTextIntoWords(req: string): SplitTextIntoWordsResult;
+    /** Find problems in the settings of a cspell config file or a VS Code settings file. */
+    lintSettings(req: LintSettingsRequest): LintSettingsResult;
+    /**
+     * Split text into the words to check.
+     * The `identifierRules` for the document are used if a document is given.
+     */
+    splitTextIntoWords(text: string, doc?: TextDocumentInfo): SplitTextIntoWordsResult;
     spellingSuggestions(word: string, doc?: TextDocumentInfo): SpellingSuggestionsResult;
+    /** Explain why a word is accepted or flagged. */
+    traceWord(req: TraceWordRequest): TraceWordResult;
+    /** Record the known issues in the baseline files of the workspace folders. */
+    updateBaseline(req: UpdateBaselineRequest): UpdateBaselineResult;
 }
 
 /** Notifications that can be sent to the server */
 export interface ServerNotificationsAPI {
+    cancelWorkspaceCheck: () => void;
     notifyConfigChange: () => void;
     registerConfigurationFile: (path: string) => void;
+    /** Replace the dictionaries registered at runtime. */
+    setRuntimeDictionaries: (dictionaries: RuntimeDictionaryDefinition[]) => void;
+    /** Choose the locale of a document instead of detecting it. */
+    setDocumentLocale: (req: SetDocumentLocaleRequest) => void;
+    /** Replace the TextMate grammars of the installed extensions. */
+    setTextMateGrammars: (grammars: TextMateGrammarDefinition[]) => void;
 }
 
 /**
@@ -53,6 +107,9 @@ export interface ClientRequestsAPI {
 export interface ClientNotificationsAPI {
     onSpellCheckDocument(step: OnSpellCheckDocumentStep): void;
     onDiagnostics(pub: PublishDiagnostics): void;
+    onWorkspaceCheckProgress(progress: OnWorkspaceCheckProgress): void;
+    /** Sent when the profiler disabled or enabled a pattern. */
+    onRegExpProfile(profile: RegExpProfile): void;
 }
 
 export interface SpellCheckerServerAPI extends RpcAPI {
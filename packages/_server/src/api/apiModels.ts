@@ -1,7 +1,11 @@
 import type { PublishDiagnosticsParams } from 'vscode-languageserver';
+import type { Position, Range } from 'vscode-languageserver-types';
 
 import type { ConfigScopeVScode, ConfigTarget } from '../config/configTargets.mjs';
 import type * as config from '../config/cspellConfig/index.mjs';
+import type { SettingsProblem } from '../config/settingsLinter.mjs';
+import type { SettingsProvenance } from '../config/settingsProvenance.mjs';
+import type { SpellingDiagnostic } from './models/Diagnostic.mjs';
 import type { Suggestion } from './models/Suggestion.mjs';
 import type { ExtensionId } from './models/types.mjs';
 
@@ -13,6 +17,15 @@ export type {
     ConfigTargetDictionary,
     ConfigTargetVSCode,
 } from '../config/configTargets.mjs';
+export type { SettingsProblem, SettingsProblemCode, SettingsProblemFix, SettingsProblemSeverity } from '../config/settingsLinter.mjs';
+export type {
+    ElementProvenance,
+    ProvenanceRef,
+    SettingSource,
+    SettingSourceKind,
+    SettingsProvenance,
+} from '../config/settingsProvenance.mjs';
+export type { PatternDefinition, PatternListKey, RegExpProfile, RegExpProfileEntry } from '../regExpProfiler.mjs';
 export type { Position, Range } from 'vscode-languageserver-types';
 
 export interface BlockedFileReason {
@@ -57,6 +70,30 @@ export interface IsSpellCheckEnabledResult {
     gitignored: boolean | undefined;
     gitignoreInfo: GitignoreInfo | undefined;
     blockedReason: BlockedFileReason | undefined;
+    /** The locale used with the document, only set when `detectLocale` is enabled. */
+    documentLocale?: DocumentLocale | undefined;
+}
+
+export interface DocumentLocale {
+    /** The locale used to check the document. */
+    locale: string | undefined;
+    /** The name of the locale, i.e. `German (Germany)` */
+    name: string | undefined;
+    /**
+     * How the locale was chosen:
+     * - `detected` - it was detected from the text of the document.
+     * - `override` - it was chosen by the user.
+     * - `settings` - the locale from the settings, it was not possible to detect a locale.
+     */
+    source: 'detected' | 'override' | 'settings';
+    /** The locales from the `language` setting. */
+    candidates: string[];
+}
+
+export interface SetDocumentLocaleRequest {
+    uri: DocumentUri;
+    /** The locale to use, undefined to detect it. */
+    locale: string | undefined;
 }
 
 export interface SplitTextIntoWordsResult {
@@ -77,6 +114,8 @@ export interface GetConfigurationForDocumentResult extends IsSpellCheckEnabledRe
     docSettings: config.CSpellUserSettings | undefined;
     configFiles: UriString[];
     configTargets: ConfigTarget[];
+    /** The source of each field of `docSettings`, or of `settings` if there isn't a document. */
+    provenance?: SettingsProvenance | undefined;
 }
 
 export interface TextDocumentRef {
@@ -150,6 +189,267 @@ export interface OnSpellCheckDocumentStep extends NotificationInfo {
     done?: boolean;
 }
 
+export interface CheckWorkspaceRequest {
+    /**
+     * The folder used to store the issue cache.
+     * If undefined, the results are not cached.
+     */
+    cacheFolderUri?: UriString;
+}
+
+export interface CheckWorkspaceResult {
+    /** Number of files validated. */
+    filesChecked: number;
+    /** Number of files where the cached results were used. */
+    filesFromCache: number;
+    /** Number of files with at least one issue. */
+    filesWithIssues: number;
+    /** Total number of issues found. */
+    numIssues: number;
+    /** The check was cancelled before it finished. */
+    cancelled: boolean;
+}
+
+export type UpdateBaselineMode = 'refresh' | 'prune';
+
+export interface UpdateBaselineRequest {
+    /**
+     * - `refresh` - record all the known issues, replacing the existing baseline.
+     * - `prune` - remove the recorded issues that have been fixed.
+     *
+     * Only the issues of files that have been checked are known, check the workspace first.
+     */
+    mode: UpdateBaselineMode;
+}
+
+export interface UpdateBaselineResult {
+    /** The baseline files that were written. */
+    baselineFiles: UriString[];
+    /** Number of files with issues in the baseline. */
+    numFiles: number;
+    /** Total number of issues in the baseline. */
+    numIssues: number;
+}
+
+export interface CheckDocumentOptions {
+    /**
+     * Check the text even if spell checking is not enabled for the document,
+     * i.e. the language is not enabled or the file is excluded.
+     */
+    forceCheck?: boolean;
+}
+
+export interface CheckTextRequest extends CheckDocumentOptions {
+    text: string;
+    /** The language of the text. Defaults to `plaintext`. */
+    languageId?: string;
+    /**
+     * Used to look up the settings. The text does not need to match the file.
+     * If undefined, the workspace settings are used.
+     */
+    uri?: DocumentUri;
+}
+
+export interface CheckDocumentResult {
+    uri: DocumentUri;
+    /** The issues found. The suggestions are in `data.suggestions`. */
+    issues: SpellingDiagnostic[];
+    /** The document was not checked. */
+    skipped: boolean;
+    /** The document was not checked because it looks minified or generated. */
+    blockedReason?: BlockedFileReason | undefined;
+}
+
+/**
+ * A dictionary registered at runtime, i.e. by another extension.
+ * It is added to the settings of every document.
+ */
+export interface RuntimeDictionaryDefinition {
+    /** The name of the dictionary, it must be unique. */
+    name: string;
+    /** Optional description to show in the dictionary lists. */
+    description?: string;
+    /** The absolute path to a word list (`.txt`) or `.trie` file. */
+    path: string;
+    /** Only use the dictionary for these languages, e.g. `typescript`. Defaults to all languages. */
+    languageId?: string | string[];
+    /** Only use the dictionary for these locales, e.g. `en-US`. Defaults to all locales. */
+    locale?: string | string[];
+}
+
+/**
+ * A TextMate grammar contributed by an extension, used to find the scopes listed in `checkScopes`.
+ */
+export interface TextMateGrammarDefinition {
+    /** The language of the grammar, i.e. `typescript`. */
+    languageId: string;
+    /** The top level scope of the grammar, i.e. `source.ts`. */
+    scopeName: string;
+    /** The absolute path to the `.tmLanguage.json` file. */
+    path: string;
+}
+
+/**
+ * Where a dictionary was defined:
+ * - `user`, `workspace`, `folder` - VS Code settings.
+ * - `config` - a cspell configuration file.
+ * - `extension` - registered by another extension.
+ * - `builtIn` - bundled with the spell checker.
+ */
+export type DictionarySource = 'user' | 'workspace' | 'folder' | 'config' | 'extension' | 'builtIn' | 'other';
+
+export interface DictionaryInfo {
+    name: string;
+    description?: string | undefined;
+    /** The dictionary file, undefined for inline dictionaries. */
+    uri?: UriString | undefined;
+    source: DictionarySource;
+    /** The configuration file that defines the dictionary. */
+    configUri?: UriString | undefined;
+    /** The dictionary is a word list (`.txt`) that can be edited. */
+    editable: boolean;
+}
+
+export interface GetDictionariesForDocumentResult {
+    /** The dictionaries used to check the document. */
+    dictionaries: DictionaryInfo[];
+}
+
+export interface FindWordInDictionariesRequest {
+    word: string;
+    /** The document used to look up the dictionaries. */
+    uri?: DocumentUri;
+    languageId?: string;
+}
+
+export interface WordInDictionary {
+    /** Name of the dictionary */
+    name: string;
+    /** The form of the word found. */
+    foundWord?: string | undefined;
+    forbidden: boolean;
+    noSuggest: boolean;
+}
+
+export interface FindWordInDictionariesResult {
+    word: string;
+    /** The dictionaries used with the document that contain the word. */
+    found: WordInDictionary[];
+}
+
+export interface TraceWordRequest {
+    uri: DocumentUri;
+    /** The word at this position is traced. */
+    position: Position;
+    /** Trace this word instead of the word found at the position. */
+    word?: string;
+}
+
+/**
+ * - `ok` - the word is found in a dictionary.
+ * - `ignored` - the word is in `ignoreWords` or the text is excluded by a pattern.
+ * - `forbidden` - the word is flagged.
+ * - `unknown` - the word is not found.
+ */
+export type TraceWordStatus = 'ok' | 'ignored' | 'forbidden' | 'unknown';
+
+export interface TraceWordDictionary {
+    name: string;
+    /** The dictionary file, undefined for words from the settings. */
+    uri?: UriString | undefined;
+    /** The configuration file that defines the dictionary. */
+    configUri?: UriString | undefined;
+    /** The dictionary is used with the document. */
+    active: boolean;
+    /** The form of the word found, it can differ in case or accents. */
+    foundWord?: string | undefined;
+    forbidden: boolean;
+    noSuggest: boolean;
+}
+
+export interface TraceWordPatternMatch {
+    /** The name of the pattern or the regular expression. */
+    name: string;
+    regexp: string;
+    /** The range of the matching text. */
+    range: Range;
+}
+
+export interface TraceWordResult {
+    uri: DocumentUri;
+    word: string;
+    /** The range of the word in the document, undefined if the word was given. */
+    range?: Range | undefined;
+    status: TraceWordStatus;
+    /** Spell checking is case sensitive for the document. */
+    caseSensitive: boolean;
+    /** The dictionaries that contain the word. */
+    dictionaries: TraceWordDictionary[];
+    /** The `flagWords` entries that match the word. */
+    flagWords: string[];
+    /** The `ignoreWords` entries that match the word. */
+    ignoreWords: string[];
+    /** The `ignoreRegExpList` patterns that cover the word. */
+    ignoredBy: TraceWordPatternMatch[];
+    /** The `includeRegExpList` is in use and none of the patterns cover the word. */
+    notIncluded: boolean;
+    /** The lists set by `cspell:` directives in the document that contain the word. */
+    inDocument: ('words' | 'ignoreWords' | 'flagWords')[];
+}
+
+export interface GetVocabularyReportRequest {
+    /** The files to include, all the files in the workspace if not set. */
+    uris?: DocumentUri[] | undefined;
+}
+
+export type VocabularyWordStatus = 'known' | 'unknown' | 'forbidden';
+
+export interface VocabularyEntry {
+    /** The most common spelling of the word, words that only differ in case are counted together. */
+    word: string;
+    /** The number of times the word appears. */
+    count: number;
+    /** The files that contain the word. */
+    files: DocumentUri[];
+    status: VocabularyWordStatus;
+    /** The dictionaries that accepted the word, like `en_us`, `[words]` or `[ignoreWords]`. */
+    dictionaries: string[];
+    /** The word is only accepted because of a `words`, `userWords` or `ignoreWords` entry in the settings. */
+    onlyInSettings: boolean;
+    /** Other spellings of the word found in the workspace, like `color` for `colour`. */
+    variants: string[];
+}
+
+export interface GetVocabularyReportResult {
+    /** Sorted by count, most frequent first. */
+    words: VocabularyEntry[];
+    filesChecked: number;
+}
+
+export interface LintSettingsRequest {
+    /** The cspell config file or the VS Code settings file. */
+    uri: DocumentUri;
+    /** The settings found in the file. */
+    settings: config.CSpellUserSettings;
+    /** The folder used to resolve relative paths and globs, the folder of the file if not set. */
+    baseUri?: DocumentUri | undefined;
+}
+
+export interface LintSettingsResult {
+    problems: SettingsProblem[];
+}
+
+export interface OnWorkspaceCheckProgress extends NotificationInfo {
+    /** Number of files found to check so far. */
+    filesFound: number;
+    /** Number of files processed so far. */
+    filesProcessed: number;
+    /** The file that was just processed. */
+    uri?: DocumentUri;
+    /** true if it is finished */
+    done: boolean;
+}
+
 export interface NotificationInfo {
     /**
      * Sequence number.
@@ -12,7 +12,21 @@ export interface SpellCheckerDiagnosticData {
     isFlagged?: boolean | undefined;
     /** The issue is a suggested change, but is not considered an error. */
     isSuggestion?: boolean | undefined;
+    /** The issue is recorded in the baseline file. It is not reported as a problem. */
+    isBaselined?: boolean | undefined;
     suggestions?: Suggestion[] | undefined;
+    /**
+     * The misspelled words, when the issue covers more than the words, like a whole identifier.
+     * The offset is relative to the start of `text`.
+     */
+    words?: IssueWord[] | undefined;
+    /** The issue covers a whole identifier, see `reportWholeIdentifier`. Fixing it renames the identifier. */
+    isWholeIdentifier?: boolean | undefined;
+}
+
+export interface IssueWord {
+    text: string;
+    offset: number;
 }
 
 export interface SpellingDiagnostic extends Diagnostic {
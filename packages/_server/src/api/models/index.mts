@@ -1,2 +1,2 @@
-export type { SpellCheckerDiagnosticData, SpellingDiagnostic } from './Diagnostic.mjs';
+export type { IssueWord, SpellCheckerDiagnosticData, SpellingDiagnostic } from './Diagnostic.mjs';
 export type { DiagnosticSource, ExtensionId } from './types.mjs';
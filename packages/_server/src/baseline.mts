@@ -0,0 +1,271 @@
+import { log } from '@internal/common-utils/log';
+import { toUri } from '@internal/common-utils/uriHelper';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Diagnostic } from 'vscode-languageserver-types';
+
+import type { DocumentUri, SpellCheckerDiagnosticData, UpdateBaselineRequest, UpdateBaselineResult, UriString } from './api.js';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+
+/**
+ * Bump this when the format of the baseline file changes.
+ */
+const baselineFormatVersion = 1;
+
+export const defaultBaselineFilename = '.cspell-baseline.json';
+
+export interface BaselineEntry {
+    word: string;
+    /** Hash of the line containing the issue. It does not change when the line moves. */
+    context: string;
+    /** Number of times the word is found on lines with the same context. */
+    count: number;
+}
+
+export interface BaselineFile {
+    version: number;
+    /** The issues by file. The file paths are relative to the workspace folder and use `/`. */
+    files: Record<string, BaselineEntry[]>;
+}
+
+export interface BaselineDependencies {
+    getWorkspaceFolders(): Promise<UriString[]>;
+    /** Find the workspace folder that contains a document. */
+    findWorkspaceFolder(uri: DocumentUri): Promise<UriString | undefined>;
+    /** The settings for a workspace folder, used to find the baseline file. */
+    getSettings(uri: UriString): Promise<CSpellUserSettings>;
+}
+
+export interface BaselineManager {
+    /**
+     * Mark the diagnostics recorded in the baseline with `isBaselined`.
+     * The issues are remembered to be able to update the baseline.
+     */
+    applyBaseline<T extends Diagnostic>(doc: TextDocument, settings: CSpellUserSettings, diagnostics: T[]): Promise<T[]>;
+    /**
+     * Check if the issues of a document are compared to the baseline.
+     * The issues are also used to update the baseline, so every issue of the document is needed.
+     */
+    isActive(doc: TextDocument): boolean;
+    /**
+     * Write the known issues to the baseline files.
+     */
+    updateBaseline(req: UpdateBaselineRequest): Promise<UpdateBaselineResult>;
+    /** Forget the issues of a document, used when it is closed or deleted. */
+    delete(uri: DocumentUri): void;
+    /** Forget the loaded baseline files and the known issues, needed when the settings change. */
+    clear(): void;
+}
+
+interface IssueKey {
+    word: string;
+    context: string;
+}
+
+interface LoadedBaseline {
+    mtimeMs: number;
+    files: Map<string, BaselineEntry[]>;
+}
+
+export function createBaselineManager(deps: BaselineDependencies): BaselineManager {
+    const loaded = new Map<string, Promise<LoadedBaseline | undefined>>();
+    /** The issues found in each document the last time it was checked. */
+    const knownIssues = new Map<DocumentUri, IssueKey[]>();
+
+    function isActive(doc: TextDocument): boolean {
+        return toUri(doc.uri).scheme === 'file';
+    }
+
+    async function applyBaseline<T extends Diagnostic>(doc: TextDocument, settings: CSpellUserSettings, diagnostics: T[]): Promise<T[]> {
+        if (!isActive(doc)) return diagnostics;
+        const issues = diagnostics.map((diag) => toIssueKey(doc, diag));
+        knownIssues.set(doc.uri, issues);
+        if (!diagnostics.length) return diagnostics;
+
+        const folder = await deps.findWorkspaceFolder(doc.uri);
+        if (!folder) return diagnostics;
+        const baseline = await loadBaseline(baselineFilename(folder, settings));
+        const entries = baseline?.files.get(relativePath(folder, doc.uri));
+        if (!entries?.length) return diagnostics;
+
+        const remaining = new Map(entries.map((entry) => [entryKey(entry), entry.count]));
+        return diagnostics.map((diag, i) => {
+            const key = entryKey(issues[i]);
+            const count = remaining.get(key);
+            if (!count) return diag;
+            remaining.set(key, count - 1);
+            const data: SpellCheckerDiagnosticData = { ...diag.data, isBaselined: true };
+            return { ...diag, data };
+        });
+    }
+
+    async function updateBaseline(req: UpdateBaselineRequest): Promise<UpdateBaselineResult> {
+        const result: UpdateBaselineResult = { baselineFiles: [], numFiles: 0, numIssues: 0 };
+        const issuesByFolder = await groupKnownIssuesByFolder();
+
+        for (const folder of await deps.getWorkspaceFolders()) {
+            if (toUri(folder).scheme !== 'file') continue;
+            const filename = baselineFilename(folder, await deps.getSettings(folder));
+            const known = issuesByFolder.get(folder) || new Map<string, BaselineEntry[]>();
+            const previous = await loadBaseline(filename);
+            if (req.mode === 'prune' && !previous) continue;
+            const files =
+                req.mode === 'refresh' ? await refreshBaseline(folder, known) : await pruneBaseline(folder, previous?.files, known);
+            await saveBaseline(filename, files);
+            result.baselineFiles.push(toUri(filename).toString());
+            for (const entries of files.values()) {
+                result.numFiles += 1;
+                result.numIssues += entries.reduce((sum, entry) => sum + entry.count, 0);
+            }
+        }
+
+        log(`Update Baseline (${req.mode}): ${JSON.stringify(result)}`);
+        return result;
+    }
+
+    async function groupKnownIssuesByFolder(): Promise<Map<UriString, Map<string, BaselineEntry[]>>> {
+        const byFolder = new Map<UriString, Map<string, BaselineEntry[]>>();
+        for (const [uri, issues] of knownIssues) {
+            const folder = await deps.findWorkspaceFolder(uri);
+            if (!folder) continue;
+            const files = byFolder.get(folder) || new Map<string, BaselineEntry[]>();
+            byFolder.set(folder, files);
+            files.set(relativePath(folder, uri), toEntries(issues));
+        }
+        return byFolder;
+    }
+
+    /**
+     * Record the known issues of the files that still exist.
+     */
+    async function refreshBaseline(folder: UriString, known: Map<string, BaselineEntry[]>): Promise<Map<string, BaselineEntry[]>> {
+        const files = new Map<string, BaselineEntry[]>();
+        for (const [file, entries] of known) {
+            if (entries.length && (await fileExists(path.join(toUri(folder).fsPath, file)))) files.set(file, entries);
+        }
+        return files;
+    }
+
+    /**
+     * Keep the recorded issues that are still found.
+     * Files that have not been checked are kept as long as they exist.
+     */
+    async function pruneBaseline(
+        folder: UriString,
+        previous: Map<string, BaselineEntry[]> = new Map(),
+        known: Map<string, BaselineEntry[]>,
+    ): Promise<Map<string, BaselineEntry[]>> {
+        const files = new Map<string, BaselineEntry[]>();
+        for (const [file, entries] of previous) {
+            const found = known.get(file);
+            if (!found) {
+                if (await fileExists(path.join(toUri(folder).fsPath, file))) files.set(file, entries);
+                continue;
+            }
+            const counts = new Map(found.map((entry) => [entryKey(entry), entry.count]));
+            const kept = entries
+                .map((entry) => ({ ...entry, count: Math.min(entry.count, counts.get(entryKey(entry)) || 0) }))
+                .filter((entry) => entry.count > 0);
+            if (kept.length) files.set(file, kept);
+        }
+        return files;
+    }
+
+    function loadBaseline(filename: string): Promise<LoadedBaseline | undefined> {
+        const pending = loaded.get(filename);
+        const result = (async () => {
+            const stat = await fs.stat(filename).catch(() => undefined);
+            if (!stat) return undefined;
+            const current = await pending;
+            if (current?.mtimeMs === stat.mtimeMs) return current;
+            return readBaselineFile(filename, stat.mtimeMs);
+        })();
+        loaded.set(filename, result);
+        return result;
+    }
+
+    async function saveBaseline(filename: string, files: Map<string, BaselineEntry[]>): Promise<void> {
+        const sorted = [...files].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        const data: BaselineFile = { version: baselineFormatVersion, files: Object.fromEntries(sorted) };
+        await fs.writeFile(filename, JSON.stringify(data, undefined, 2) + '\n');
+        loaded.delete(filename);
+    }
+
+    return {
+        applyBaseline,
+        isActive,
+        updateBaseline,
+        delete: (uri) => knownIssues.delete(uri),
+        clear: () => {
+            loaded.clear();
+            knownIssues.clear();
+        },
+    };
+}
+
+export function isBaselined(diag: Diagnostic): boolean {
+    return !!(diag.data as SpellCheckerDiagnosticData | undefined)?.isBaselined;
+}
+
+/**
+ * Calculate the context hash of the line containing a diagnostic.
+ * Leading, trailing and repeated whitespace is ignored, so indenting or moving the line does not change the hash.
+ */
+export function calcContextHash(lineText: string): string {
+    const normalized = lineText.trim().replace(/\s+/g, ' ');
+    return createHash('sha1').update(normalized).digest('hex').slice(0, 16);
+}
+
+async function readBaselineFile(filename: string, mtimeMs: number): Promise<LoadedBaseline | undefined> {
+    try {
+        const data: BaselineFile = JSON.parse(await fs.readFile(filename, 'utf8'));
+        if (data.version !== baselineFormatVersion) {
+            log(`Unsupported baseline file version: ${data.version}`, filename);
+            return undefined;
+        }
+        return { mtimeMs, files: new Map(Object.entries(data.files || {})) };
+    } catch (e) {
+        log(`Unable to read the baseline file: ${e instanceof Error ? e.message : e}`, filename);
+        return undefined;
+    }
+}
+
+function toIssueKey(doc: TextDocument, diag: Diagnostic): IssueKey {
+    const line = diag.range.start.line;
+    const lineText = doc.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } });
+    const word = (diag.data as SpellCheckerDiagnosticData | undefined)?.text ?? doc.getText(diag.range);
+    return { word, context: calcContextHash(lineText) };
+}
+
+function toEntries(issues: IssueKey[]): BaselineEntry[] {
+    const entries = new Map<string, BaselineEntry>();
+    for (const issue of issues) {
+        const key = entryKey(issue);
+        const entry = entries.get(key) || { word: issue.word, context: issue.context, count: 0 };
+        entry.count += 1;
+        entries.set(key, entry);
+    }
+    return [...entries.values()];
+}
+
+function entryKey(issue: IssueKey): string {
+    return `${issue.word}\0${issue.context}`;
+}
+
+function baselineFilename(folder: UriString, settings: CSpellUserSettings): string {
+    return path.resolve(toUri(folder).fsPath, settings.baselineFile || defaultBaselineFilename);
+}
+
+function relativePath(folder: UriString, uri: DocumentUri): string {
+    return path.relative(toUri(folder).fsPath, toUri(uri).fsPath).split(path.sep).join('/');
+}
+
+async function fileExists(filename: string): Promise<boolean> {
+    try {
+        return (await fs.stat(filename)).isFile();
+    } catch (e) {
+        return false;
+    }
+}
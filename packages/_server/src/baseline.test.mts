@@ -0,0 +1,185 @@
+import { toFileUri } from '@internal/common-utils/uriHelper';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterAll, beforeEach, describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Diagnostic } from 'vscode-languageserver-types';
+
+import type { SpellCheckerDiagnosticData } from './api.js';
+import type { BaselineDependencies, BaselineFile } from './baseline.mjs';
+import { calcContextHash, createBaselineManager, defaultBaselineFilename } from './baseline.mjs';
+
+// cspell:ignore recieve teh
+
+const folderDir = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(folderDir, 'temp/baseline');
+const folderUri = toFileUri(tempDir).toString();
+const baselineFile = path.join(tempDir, defaultBaselineFilename);
+
+const sampleText = `\
+We recieve the data.
+    Then teh data is stored.
+We recieve the data.
+`;
+
+const movedText = `\
+New line.
+We recieve the data.
+Then teh data is stored.
+  We recieve the data.
+We recieve teh data.
+`;
+
+describe('baseline', () => {
+    beforeEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+        await fs.mkdir(path.join(tempDir, 'src'), { recursive: true });
+        await fs.writeFile(path.join(tempDir, 'src/sample.txt'), sampleText);
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('calcContextHash', () => {
+        expect(calcContextHash('  a  b ')).toBe(calcContextHash('a b'));
+        expect(calcContextHash('a b')).not.toBe(calcContextHash('a c'));
+        expect(calcContextHash('a b')).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    test('no baseline file', async () => {
+        const manager = createBaselineManager(createDeps());
+        const doc = sampleDoc(sampleText);
+        const diags = findIssues(doc);
+        expect(await manager.applyBaseline(doc, {}, diags)).toEqual(diags);
+        await expect(manager.updateBaseline({ mode: 'prune' })).resolves.toEqual({ baselineFiles: [], numFiles: 0, numIssues: 0 });
+    });
+
+    test('refresh and apply', async () => {
+        const manager = createBaselineManager(createDeps());
+        const doc = sampleDoc(sampleText);
+        await manager.applyBaseline(doc, {}, findIssues(doc));
+        const result = await manager.updateBaseline({ mode: 'refresh' });
+        expect(result).toEqual({ baselineFiles: [toFileUri(baselineFile).toString()], numFiles: 1, numIssues: 3 });
+
+        const data: BaselineFile = JSON.parse(await fs.readFile(baselineFile, 'utf8'));
+        expect(Object.keys(data.files)).toEqual(['src/sample.txt']);
+        expect(data.files['src/sample.txt']).toEqual([
+            { word: 'recieve', context: calcContextHash('We recieve the data.'), count: 2 },
+            { word: 'teh', context: calcContextHash('Then teh data is stored.'), count: 1 },
+        ]);
+
+        // Lines are moved and indented, a new issue is added.
+        const changed = sampleDoc(movedText, 2);
+        const applied = await manager.applyBaseline(changed, {}, findIssues(changed));
+        expect(applied.map((d) => [d.range.start.line, text(d), isBaselined(d)])).toEqual([
+            [1, 'recieve', true],
+            [2, 'teh', true],
+            [3, 'recieve', true],
+            [4, 'recieve', false],
+            [4, 'teh', false],
+        ]);
+    });
+
+    test('only the recorded number of issues are baselined', async () => {
+        const manager = createBaselineManager(createDeps());
+        const doc = sampleDoc('We recieve the data.\n');
+        await manager.applyBaseline(doc, {}, findIssues(doc));
+        await manager.updateBaseline({ mode: 'refresh' });
+
+        const changed = sampleDoc('We recieve the data.\nWe recieve the data.\n', 2);
+        const applied = await manager.applyBaseline(changed, {}, findIssues(changed));
+        expect(applied.map(isBaselined)).toEqual([true, false]);
+    });
+
+    test('prune', async () => {
+        const manager = createBaselineManager(createDeps());
+        const doc = sampleDoc(sampleText);
+        await manager.applyBaseline(doc, {}, findIssues(doc));
+        const other = TextDocument.create(toFileUri(path.join(tempDir, 'other.txt')).toString(), 'plaintext', 1, 'teh\n');
+        await manager.applyBaseline(other, {}, findIssues(other));
+        await fs.writeFile(path.join(tempDir, 'other.txt'), 'teh\n');
+        await manager.updateBaseline({ mode: 'refresh' });
+
+        // Fix one of the issues, `other.txt` is not checked again.
+        const fixed = sampleDoc('We receive the data.\n    Then teh data is stored.\nWe recieve the data.\n', 2);
+        const prunedManager = createBaselineManager(createDeps());
+        await prunedManager.applyBaseline(fixed, {}, findIssues(fixed));
+        const result = await prunedManager.updateBaseline({ mode: 'prune' });
+        expect(result).toEqual(expect.objectContaining({ numFiles: 2, numIssues: 3 }));
+
+        // Deleted files are removed.
+        await fs.rm(path.join(tempDir, 'other.txt'));
+        const result2 = await prunedManager.updateBaseline({ mode: 'prune' });
+        expect(result2).toEqual(expect.objectContaining({ numFiles: 1, numIssues: 2 }));
+        const data: BaselineFile = JSON.parse(await fs.readFile(baselineFile, 'utf8'));
+        expect(data.files['src/sample.txt'].map((e) => [e.word, e.count])).toEqual([
+            ['recieve', 1],
+            ['teh', 1],
+        ]);
+    });
+
+    test('refresh only records the known issues of existing files', async () => {
+        const manager = createBaselineManager(createDeps());
+        const doc = sampleDoc(sampleText);
+        const deleted = TextDocument.create(toFileUri(path.join(tempDir, 'deleted.txt')).toString(), 'plaintext', 1, 'teh\n');
+        await manager.applyBaseline(doc, {}, findIssues(doc));
+        await manager.applyBaseline(deleted, {}, findIssues(deleted));
+        await expect(manager.updateBaseline({ mode: 'refresh' })).resolves.toEqual(expect.objectContaining({ numFiles: 1 }));
+
+        manager.delete(doc.uri);
+        await expect(manager.updateBaseline({ mode: 'refresh' })).resolves.toEqual(expect.objectContaining({ numFiles: 0 }));
+
+        await manager.applyBaseline(doc, {}, findIssues(doc));
+        manager.clear();
+        await expect(manager.updateBaseline({ mode: 'refresh' })).resolves.toEqual(expect.objectContaining({ numFiles: 0 }));
+    });
+
+    test('baselineFile setting', async () => {
+        const deps = createDeps({ getSettings: async () => ({ baselineFile: 'config/baseline.json' }) });
+        await fs.mkdir(path.join(tempDir, 'config'), { recursive: true });
+        const manager = createBaselineManager(deps);
+        const doc = sampleDoc(sampleText);
+        await manager.applyBaseline(doc, {}, findIssues(doc));
+        const result = await manager.updateBaseline({ mode: 'refresh' });
+        expect(result.baselineFiles).toEqual([toFileUri(path.join(tempDir, 'config/baseline.json')).toString()]);
+
+        const applied = await manager.applyBaseline(doc, { baselineFile: 'config/baseline.json' }, findIssues(doc));
+        expect(applied.every(isBaselined)).toBe(true);
+        const notApplied = await manager.applyBaseline(doc, {}, findIssues(doc));
+        expect(notApplied.some(isBaselined)).toBe(false);
+    });
+});
+
+function createDeps(overrides: Partial<BaselineDependencies> = {}): BaselineDependencies {
+    return {
+        getWorkspaceFolders: async () => [folderUri],
+        findWorkspaceFolder: async (uri) => (uri.startsWith(folderUri + '/') ? folderUri : undefined),
+        getSettings: async () => ({}),
+        ...overrides,
+    };
+}
+
+function sampleDoc(content: string, version = 1): TextDocument {
+    return TextDocument.create(toFileUri(path.join(tempDir, 'src/sample.txt')).toString(), 'plaintext', version, content);
+}
+
+/**
+ * Find the known misspelled words in a document.
+ */
+function findIssues(doc: TextDocument): Diagnostic[] {
+    const text = doc.getText();
+    return [...text.matchAll(/\b(recieve|teh)\b/g)].map((m) => {
+        const data: SpellCheckerDiagnosticData = { text: m[0] };
+        const range = { start: doc.positionAt(m.index || 0), end: doc.positionAt((m.index || 0) + m[0].length) };
+        return { range, message: 'Unknown word', data };
+    });
+}
+
+function text(diag: Diagnostic): string | undefined {
+    return (diag.data as SpellCheckerDiagnosticData | undefined)?.text;
+}
+
+function isBaselined(diag: Diagnostic): boolean {
+    return !!(diag.data as SpellCheckerDiagnosticData | undefined)?.isBaselined;
+}
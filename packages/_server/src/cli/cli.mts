@@ -0,0 +1,172 @@
+import { GlobMatcher } from 'cspell-glob';
+import { existsSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { createBaselineManager, isBaselined } from '../baseline.mjs';
+import type { CSpellUserSettings } from '../config/cspellConfig/index.mjs';
+import { applyDefaultSettings, defaultSettings } from '../config/defaultSettings.mjs';
+import { DocumentSettings } from '../config/documentSettings.mjs';
+import { createDocumentPipeline } from '../documentPipeline.mjs';
+import { createChangedLinesFilter } from '../gitChangedLines.mjs';
+import { createLocaleDetector } from '../localeDetector.mjs';
+import { createScopeFilter } from '../textMateScopes.mjs';
+import { isTextLikelyMinifiedForSettings } from '../utils/analysis.mjs';
+import * as Validator from '../validator.mjs';
+import { createWorkspaceChecker } from '../workspaceChecker.mjs';
+import type { FileIssues, ReportFormat } from './reporters.mjs';
+import { formatReport, reportFormats } from './reporters.mjs';
+import {
+    createHeadlessConnection,
+    headlessApi,
+    readDefaultSettings,
+    readGrammarContributions,
+    readVSCodeWorkspace,
+} from './vscodeWorkspace.mjs';
+
+export const exitCodes = {
+    success: 0,
+    issuesFound: 1,
+    error: 2,
+} as const;
+
+export interface CliOptions {
+    /** The settings JSON schema, used for the default values of the settings. */
+    schemaFile: string;
+    cwd?: string;
+    /** The home directory, `--extensions-dir` defaults to `.vscode/extensions` in it. */
+    homeDir?: string;
+    stdout?: (text: string) => void;
+    stderr?: (text: string) => void;
+}
+
+const usage = `\
+Usage: cli [options] [globs...]
+
+Spell check the files in a VS Code workspace using the same settings as the extension.
+Only files in the workspace folders that match the globs are checked.
+
+Options:
+  -c, --config <file>    A .vscode/settings.json or .code-workspace file.
+                         Defaults to .vscode/settings.json in the current directory.
+  -f, --format <format>  The report format: ${reportFormats.join(', ')}. Defaults to text.
+  --extensions-dir <dir> The VS Code extensions, their TextMate grammars are used for cSpell.checkScopes.
+                         Defaults to ~/.vscode/extensions.
+  -h, --help             Show this help.
+
+Exit codes: ${exitCodes.success} no issues, ${exitCodes.issuesFound} issues found, ${exitCodes.error} error.
+`;
+
+/**
+ * Run the spell checker from the command line.
+ * @param args - the command line arguments, without the node and script names.
+ * @returns the exit code.
+ */
+export async function run(args: string[], options: CliOptions): Promise<number> {
+    const { schemaFile, cwd = process.cwd(), homeDir = os.homedir(), stdout = writeStdout, stderr = writeStderr } = options;
+
+    let values: { config?: string; format?: string; 'extensions-dir'?: string; help?: boolean };
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseArgs({
+            args,
+            options: {
+                config: { type: 'string', short: 'c' },
+                format: { type: 'string', short: 'f', default: 'text' },
+                'extensions-dir': { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+            },
+            allowPositionals: true,
+        }));
+    } catch (e) {
+        stderr(`${e instanceof Error ? e.message : e}\n\n${usage}`);
+        return exitCodes.error;
+    }
+
+    if (values.help) {
+        stdout(usage);
+        return exitCodes.success;
+    }
+
+    const format = values.format as ReportFormat;
+    if (!reportFormats.includes(format)) {
+        stderr(`Unknown format: ${values.format}\n\n${usage}`);
+        return exitCodes.error;
+    }
+
+    try {
+        const configFile = values.config ?? findDefaultConfig(cwd);
+        const workspace = await readVSCodeWorkspace(configFile, cwd);
+        const defaults = await readDefaultSettings(schemaFile);
+        const documentSettings = new DocumentSettings(createHeadlessConnection(workspace, defaults), headlessApi, defaultSettings);
+        const globMatcher = positionals.length ? new GlobMatcher(positionals, { root: cwd, mode: 'include' }) : undefined;
+        const files: FileIssues[] = [];
+
+        const scopeFilter = createScopeFilter();
+        const extensionsDir = path.resolve(cwd, values['extensions-dir'] ?? path.join(homeDir, '.vscode', 'extensions'));
+        scopeFilter.setGrammars(await readGrammarContributions(extensionsDir));
+        const baselineManager = createBaselineManager({
+            getWorkspaceFolders: async () => workspace.folders.map((f) => f.uri),
+            findWorkspaceFolder: async (uri) => (await documentSettings.matchingFoldersForUri(uri))[0]?.uri,
+            getSettings: (uri) => documentSettings.getUriSettings(uri),
+        });
+        const documentPipeline = createDocumentPipeline({
+            localeDetector: createLocaleDetector(),
+            scopeFilter,
+            changedLinesFilter: createChangedLinesFilter({ fetchRepoRoot: (uri) => documentSettings.fetchRepoRootForFile(uri) }),
+            baselineManager,
+        });
+
+        const checker = createWorkspaceChecker({
+            getWorkspaceFolders: async () => workspace.folders.map((f) => f.uri),
+            calcIncludeExclude: async (uri) => {
+                const ie = await documentSettings.calcIncludeExclude(uri);
+                return globMatcher && !globMatcher.match(uri.fsPath) ? { ...ie, include: false } : ie;
+            },
+            getSettings: (uri) => documentSettings.getUriSettings(uri),
+            isBlocked,
+            validate: async (doc) => {
+                const baseSettings = applyDefaultSettings(await documentSettings.getUriSettings(doc.uri));
+                const settings = await documentPipeline.calcSettings(doc, baseSettings);
+                if (!settings.enabled) return [];
+                const validationSettings = documentPipeline.calcValidationSettings(doc, settings);
+                const diagnostics = await Validator.validateTextDocument(doc, validationSettings);
+                // The issues recorded in the baseline file are not reported.
+                return (await documentPipeline.filterDiagnostics(doc, settings, diagnostics)).filter((diag) => !isBaselined(diag));
+            },
+            isOpen: () => false,
+            isBusy: () => false,
+            publishDiagnostics: (uri, diagnostics) => {
+                if (diagnostics.length) files.push({ uri, diagnostics });
+            },
+            reportProgress: () => undefined,
+            throttleMs: 0,
+        });
+
+        const result = await checker.checkWorkspace({});
+        stdout(formatReport(format, { files, result, cwd }));
+        return result.numIssues ? exitCodes.issuesFound : exitCodes.success;
+    } catch (e) {
+        stderr(`${e instanceof Error ? e.message : e}\n`);
+        return exitCodes.error;
+    }
+}
+
+function findDefaultConfig(cwd: string): string | undefined {
+    const file = path.join(cwd, '.vscode', 'settings.json');
+    return existsSync(file) ? file : undefined;
+}
+
+function isBlocked(doc: TextDocument, settings: CSpellUserSettings): boolean {
+    return !!isTextLikelyMinifiedForSettings(doc.getText(), settings);
+}
+
+function writeStdout(text: string) {
+    process.stdout.write(text);
+}
+
+function writeStderr(text: string) {
+    process.stderr.write(text);
+}
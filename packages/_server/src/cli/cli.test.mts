@@ -0,0 +1,191 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import { calcContextHash, defaultBaselineFilename } from '../baseline.mjs';
+import { exitCodes, run } from './cli.mjs';
+
+// cSpell:ignore brouwn jumpps wrongg qwzx
+
+const pathServer = path.resolve(__dirname, '../..');
+const schemaFile = path.join(pathServer, 'spell-checker-config.schema.json');
+
+const timeout = 30000; // 30 seconds
+
+describe('cli', () => {
+    // The workspace is outside of the repository, so the repository `cspell.json` and `.gitignore` do not apply.
+    let tempDir = '';
+
+    beforeAll(async () => {
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cspell-cli-'));
+        await writeFiles(tempDir, {
+            '.vscode/settings.json': JSON.stringify({
+                'cSpell.words': ['brouwn'],
+                'cSpell.ignorePaths': ['ignored/**'],
+                'cSpell.diagnosticLevel': 'Warning',
+                'cSpell.checkScopes': { typescript: ['comment'] },
+            }),
+            'README.md': 'The quick brouwn fox jumpps.\n',
+            'src/code.ts': 'const wrongg = 1;\n',
+            'ignored/notes.md': 'wrongg\n',
+            'clean/clean.md': 'The quick brown fox.\n',
+            'scoped/scoped.ts': 'const wrongg = 1; // a qwzx comment\n',
+            'ignored/extensions/demo/package.json': JSON.stringify({
+                contributes: { grammars: [{ language: 'typescript', scopeName: 'source.ts', path: './demo.tmLanguage.json' }] },
+            }),
+            'ignored/extensions/demo/demo.tmLanguage.json': JSON.stringify({
+                scopeName: 'source.ts',
+                patterns: [{ name: 'comment.line.double-slash.ts', match: '//.*$' }],
+            }),
+        });
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test(
+        'text',
+        async () => {
+            const { code, stdout } = await runCli(tempDir, []);
+            expect(code).toBe(exitCodes.issuesFound);
+            expect(stdout).toContain(`${path.join('src', 'code.ts')}:1:7 - "wrongg": Unknown word.`);
+            expect(stdout).toContain('README.md:1:22 - "jumpps": Unknown word.');
+            expect(stdout).not.toContain('brouwn');
+            expect(stdout).not.toContain('notes.md');
+        },
+        timeout,
+    );
+
+    test(
+        'json with globs',
+        async () => {
+            const { code, stdout } = await runCli(tempDir, ['--format', 'json', 'src/**']);
+            expect(code).toBe(exitCodes.issuesFound);
+            const report = JSON.parse(stdout);
+            expect(report.files).toEqual([
+                expect.objectContaining({
+                    file: path.join('src', 'code.ts'),
+                    issues: [expect.objectContaining({ text: 'wrongg', severity: 'warning' })],
+                }),
+            ]);
+            expect(report.summary).toEqual({ filesChecked: 1, filesWithIssues: 1, numIssues: 1 });
+        },
+        timeout,
+    );
+
+    test(
+        'sarif',
+        async () => {
+            const { stdout } = await runCli(tempDir, ['-f', 'sarif', 'README.md']);
+            const sarif = JSON.parse(stdout);
+            expect(sarif.version).toBe('2.1.0');
+            expect(sarif.runs[0].results).toEqual([
+                {
+                    ruleId: 'unknown-word',
+                    level: 'warning',
+                    message: { text: '"jumpps": Unknown word.' },
+                    locations: [
+                        {
+                            physicalLocation: {
+                                artifactLocation: { uri: 'README.md', uriBaseId: '%SRCROOT%' },
+                                region: { startLine: 1, startColumn: 22, endLine: 1, endColumn: 28 },
+                            },
+                        },
+                    ],
+                },
+            ]);
+        },
+        timeout,
+    );
+
+    test(
+        'no issues',
+        async () => {
+            const { code, stdout } = await runCli(tempDir, ['clean/**']);
+            expect(code).toBe(exitCodes.success);
+            expect(stdout).toBe('Files checked: 1, Issues found: 0 in 0 files.\n');
+        },
+        timeout,
+    );
+
+    test(
+        'checkScopes uses the grammars of the extensions',
+        async () => {
+            const { stdout } = await runCli(tempDir, ['--extensions-dir', 'ignored/extensions', 'scoped/**']);
+            expect(stdout).toContain('"qwzx": Unknown word.');
+            expect(stdout).not.toContain('wrongg');
+
+            // Without a grammar, everything is checked.
+            const all = await runCli(tempDir, ['scoped/**']);
+            expect(all.stdout).toContain('"wrongg": Unknown word.');
+        },
+        timeout,
+    );
+
+    test(
+        'issues in the baseline are not reported',
+        async () => {
+            const baselineFile = path.join(tempDir, defaultBaselineFilename);
+            const entry = { word: 'jumpps', context: calcContextHash('The quick brouwn fox jumpps.'), count: 1 };
+            await fs.writeFile(baselineFile, JSON.stringify({ version: 1, files: { 'README.md': [entry] } }));
+            try {
+                const { code, stdout } = await runCli(tempDir, ['README.md']);
+                expect(code).toBe(exitCodes.success);
+                expect(stdout).not.toContain('jumpps');
+            } finally {
+                await fs.rm(baselineFile);
+            }
+        },
+        timeout,
+    );
+
+    test.each`
+        args                            | expected
+        ${['--format', 'xml']}          | ${'Unknown format: xml'}
+        ${['--unknown']}                | ${"Unknown option '--unknown'"}
+        ${['--config', 'missing.json']} | ${'missing.json'}
+    `('errors $args', async ({ args, expected }) => {
+        const { code, stderr } = await runCli(tempDir, args);
+        expect(code).toBe(exitCodes.error);
+        expect(stderr).toContain(expected);
+    });
+
+    test(
+        'translation files',
+        async () => {
+            const workspace = path.join(tempDir, 'ignored/translations');
+            await writeFiles(workspace, {
+                '.vscode/settings.json': JSON.stringify({ 'cSpell.checkTranslationFiles': true }),
+                'locales/en.json': JSON.stringify({ wrongg: 'The quick fox jumpps.' }),
+            });
+            const { stdout } = await runCli(workspace, []);
+            expect(stdout).toContain('"jumpps": Unknown word.');
+            // Only the translations are checked.
+            expect(stdout).not.toContain('wrongg');
+        },
+        timeout,
+    );
+});
+
+async function runCli(cwd: string, args: string[]) {
+    let stdout = '';
+    let stderr = '';
+    const code = await run(args, {
+        schemaFile,
+        cwd,
+        homeDir: cwd,
+        stdout: (text) => (stdout += text),
+        stderr: (text) => (stderr += text),
+    });
+    return { code, stdout, stderr };
+}
+
+async function writeFiles(dir: string, files: Record<string, string>) {
+    for (const [file, content] of Object.entries(files)) {
+        const filename = path.join(dir, file);
+        await fs.mkdir(path.dirname(filename), { recursive: true });
+        await fs.writeFile(filename, content);
+    }
+}
@@ -0,0 +1,28 @@
+import { logger, LogLevel } from '@internal/common-utils/log';
+import * as path from 'path';
+
+import { exitCodes, run } from './cli.mjs';
+
+// The cli is bundled into `dist/cli.cjs`, see `build.mjs`.
+const schemaFile = path.join(__dirname, '..', 'spell-checker-config.schema.json');
+
+// Only report errors, the server logs everything by default.
+logger.level = LogLevel.ERROR;
+logger.setConnection({
+    console: {
+        error: (msg) => console.error(msg),
+        warn: (msg) => console.error(msg),
+        info: (msg) => console.error(msg),
+        log: (msg) => console.error(msg),
+    },
+    onExit: () => undefined,
+});
+
+async function main() {
+    process.exitCode = await run(process.argv.slice(2), { schemaFile });
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = exitCodes.error;
+});
@@ -0,0 +1,134 @@
+import { toFileUri, toUri } from '@internal/common-utils/uriHelper';
+import * as path from 'path';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import { DiagnosticSeverity } from 'vscode-languageserver/node.js';
+
+import type { CheckWorkspaceResult, DocumentUri, SpellCheckerDiagnosticData } from '../api.js';
+
+export const reportFormats = ['text', 'json', 'sarif'] as const;
+export type ReportFormat = (typeof reportFormats)[number];
+
+export interface FileIssues {
+    uri: DocumentUri;
+    diagnostics: Diagnostic[];
+}
+
+export interface Report {
+    /** Files with issues. */
+    files: FileIssues[];
+    result: CheckWorkspaceResult;
+    /** File paths are reported relative to this directory. */
+    cwd: string;
+}
+
+const informationUri = 'https://streetsidesoftware.github.io/vscode-spell-checker';
+const ruleUnknownWord = 'unknown-word';
+const ruleFlaggedWord = 'flagged-word';
+
+export function formatReport(format: ReportFormat, report: Report): string {
+    switch (format) {
+        case 'json':
+            return formatJson(report);
+        case 'sarif':
+            return formatSarif(report);
+        default:
+            return formatText(report);
+    }
+}
+
+/**
+ * One line per issue: `file:line:column - message`, followed by a summary.
+ */
+export function formatText(report: Report): string {
+    const lines = report.files.flatMap(({ uri, diagnostics }) => {
+        const file = relativePath(report.cwd, uri);
+        return diagnostics.map((d) => `${file}:${d.range.start.line + 1}:${d.range.start.character + 1} - ${d.message}`);
+    });
+    const { filesChecked, filesWithIssues, numIssues } = report.result;
+    lines.push(`Files checked: ${filesChecked}, Issues found: ${numIssues} in ${filesWithIssues} files.`);
+    return lines.join('\n') + '\n';
+}
+
+export function formatJson(report: Report): string {
+    const files = report.files.map(({ uri, diagnostics }) => ({
+        file: relativePath(report.cwd, uri),
+        uri,
+        issues: diagnostics.map((d) => ({
+            text: data(d).text,
+            isFlagged: !!data(d).isFlagged,
+            message: d.message,
+            severity: severityToLevel(d.severity),
+            range: d.range,
+        })),
+    }));
+    const { filesChecked, filesWithIssues, numIssues } = report.result;
+    return JSON.stringify({ files, summary: { filesChecked, filesWithIssues, numIssues } }, undefined, 2) + '\n';
+}
+
+/**
+ * [SARIF 2.1.0](https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html) for code scanning tools.
+ * Lines and columns are 1 based, columns count UTF-16 code units, the SARIF default.
+ */
+export function formatSarif(report: Report): string {
+    const results = report.files.flatMap(({ uri, diagnostics }) =>
+        diagnostics.map((d) => ({
+            ruleId: data(d).isFlagged ? ruleFlaggedWord : ruleUnknownWord,
+            level: severityToLevel(d.severity),
+            message: { text: d.message },
+            locations: [
+                {
+                    physicalLocation: {
+                        artifactLocation: { uri: relativePath(report.cwd, uri).split(path.sep).join('/'), uriBaseId: '%SRCROOT%' },
+                        region: {
+                            startLine: d.range.start.line + 1,
+                            startColumn: d.range.start.character + 1,
+                            endLine: d.range.end.line + 1,
+                            endColumn: d.range.end.character + 1,
+                        },
+                    },
+                },
+            ],
+        })),
+    );
+    const sarif = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: 'Code Spell Checker',
+                        informationUri,
+                        rules: [
+                            { id: ruleUnknownWord, shortDescription: { text: 'Unknown word.' } },
+                            { id: ruleFlaggedWord, shortDescription: { text: 'Forbidden word.' } },
+                        ],
+                    },
+                },
+                originalUriBaseIds: { '%SRCROOT%': { uri: toFileUri(report.cwd).toString() + '/' } },
+                results,
+            },
+        ],
+    };
+    return JSON.stringify(sarif, undefined, 2) + '\n';
+}
+
+function severityToLevel(severity: DiagnosticSeverity | undefined): 'error' | 'warning' | 'note' {
+    switch (severity) {
+        case DiagnosticSeverity.Error:
+            return 'error';
+        case DiagnosticSeverity.Warning:
+            return 'warning';
+        default:
+            return 'note';
+    }
+}
+
+function data(d: Diagnostic): Partial<SpellCheckerDiagnosticData> {
+    return (d.data || {}) as Partial<SpellCheckerDiagnosticData>;
+}
+
+function relativePath(cwd: string, uri: DocumentUri): string {
+    const u = toUri(uri);
+    return u.scheme === 'file' ? path.relative(cwd, u.fsPath) : uri;
+}
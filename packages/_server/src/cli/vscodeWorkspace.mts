@@ -0,0 +1,191 @@
+import { toFileUri, toUri } from '@internal/common-utils/uriHelper';
+import { parse as parseJsonc } from 'comment-json';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ConfigurationItem, WorkspaceFolder } from 'vscode-languageserver/node.js';
+
+import type { TextMateGrammarDefinition } from '../api.js';
+import type { DocumentSettingsApi } from '../config/documentSettings.mjs';
+import type { ConfigurationConnection } from '../config/vscode.config.mjs';
+
+/**
+ * VS Code settings nested by section, i.e. `"cSpell.words"` is stored as `{ cSpell: { words } }`.
+ */
+export type VSCodeSettings = Record<string, unknown>;
+
+export interface VSCodeWorkspace {
+    folders: WorkspaceFolder[];
+    /** The settings from `.vscode/settings.json` or the `settings` of a `.code-workspace` file. */
+    settings: VSCodeSettings;
+    /** The `.vscode/settings.json` of each folder in a `.code-workspace`, keyed by the folder uri. */
+    folderSettings: Map<string, VSCodeSettings>;
+}
+
+interface CodeWorkspaceFile {
+    folders?: { path: string; name?: string }[];
+    settings?: Record<string, unknown>;
+}
+
+const workspaceFileExt = '.code-workspace';
+const settingsFile = path.join('.vscode', 'settings.json');
+
+/**
+ * Read a `.vscode/settings.json` or `.code-workspace` file.
+ * @param file - the settings file. If undefined, `cwd` is used as the only folder.
+ * @param cwd - the current working directory.
+ */
+export async function readVSCodeWorkspace(file: string | undefined, cwd: string): Promise<VSCodeWorkspace> {
+    if (!file) {
+        return { folders: [toWorkspaceFolder(cwd)], settings: {}, folderSettings: new Map() };
+    }
+    const filename = path.resolve(cwd, file);
+    if (filename.endsWith(workspaceFileExt)) {
+        return readCodeWorkspaceFile(filename);
+    }
+    const dir = path.dirname(filename);
+    const root = path.basename(dir) === '.vscode' ? path.dirname(dir) : dir;
+    const settings = toNestedSettings(await readJsonc<Record<string, unknown>>(filename));
+    return { folders: [toWorkspaceFolder(root)], settings, folderSettings: new Map() };
+}
+
+async function readCodeWorkspaceFile(filename: string): Promise<VSCodeWorkspace> {
+    const dir = path.dirname(filename);
+    const ws = await readJsonc<CodeWorkspaceFile>(filename);
+    const folders = (ws.folders || []).map((f) => toWorkspaceFolder(path.resolve(dir, f.path), f.name));
+    const folderSettings = new Map<string, VSCodeSettings>();
+    for (const folder of folders) {
+        const folderSettingsFile = path.join(toUri(folder.uri).fsPath, settingsFile);
+        const settings = await readJsonc<Record<string, unknown>>(folderSettingsFile).catch(() => undefined);
+        if (settings) folderSettings.set(folder.uri, toNestedSettings(settings));
+    }
+    return { folders, settings: toNestedSettings(ws.settings || {}), folderSettings };
+}
+
+/**
+ * Read the default values of the extension settings from the settings JSON schema.
+ * VS Code provides these defaults to the server.
+ * @param schemaFile - `spell-checker-config.schema.json`
+ */
+export async function readDefaultSettings(schemaFile: string): Promise<VSCodeSettings> {
+    interface Schema {
+        items: { properties: Record<string, { default?: unknown }> }[];
+    }
+    const schema = JSON.parse(await fs.readFile(schemaFile, 'utf8')) as Schema;
+    const defaults: Record<string, unknown> = {};
+    for (const item of schema.items) {
+        for (const [key, def] of Object.entries(item.properties)) {
+            if (def.default !== undefined) defaults[key] = def.default;
+        }
+    }
+    return toNestedSettings(defaults);
+}
+
+/**
+ * Get a configuration section the way VS Code does.
+ * The default, workspace and folder settings are merged in that order.
+ */
+export function getConfigurationSection(
+    workspace: VSCodeWorkspace,
+    defaults: VSCodeSettings,
+    section: string | undefined,
+    scopeUri?: string,
+): unknown {
+    const folder = scopeUri ? findFolder(workspace.folders, scopeUri) : undefined;
+    const folderSettings = (folder && workspace.folderSettings.get(folder.uri)) || {};
+    const layers = [defaults, workspace.settings, folderSettings].map((s) => (section ? getSection(s, section) : s));
+    return layers.reduce(mergeSettingValues, undefined);
+}
+
+/**
+ * Create a connection that answers the configuration requests normally made to the client.
+ */
+export function createHeadlessConnection(workspace: VSCodeWorkspace, defaults: VSCodeSettings): ConfigurationConnection {
+    return {
+        workspace: {
+            getConfiguration: async (items: ConfigurationItem[]) =>
+                items.map((item) => getConfigurationSection(workspace, defaults, item.section, item.scopeUri)),
+            getWorkspaceFolders: async () => workspace.folders,
+        },
+    };
+}
+
+/**
+ * Read the TextMate grammars contributed by the extensions installed in a directory, like `~/.vscode/extensions`.
+ * The grammars built into VS Code are not found this way.
+ * @param extensionsDir - the directory with an extension in each sub directory.
+ * @returns the grammars, empty if the directory does not exist.
+ */
+export async function readGrammarContributions(extensionsDir: string): Promise<TextMateGrammarDefinition[]> {
+    interface PackageJson {
+        contributes?: { grammars?: { language?: unknown; scopeName?: unknown; path?: unknown }[] };
+    }
+    const dirs = await fs.readdir(extensionsDir, { withFileTypes: true }).catch(() => []);
+    const grammars: TextMateGrammarDefinition[] = [];
+    for (const dir of dirs.filter((d) => d.isDirectory())) {
+        const extensionDir = path.join(extensionsDir, dir.name);
+        const pkg = await readJsonc<PackageJson>(path.join(extensionDir, 'package.json')).catch(() => undefined);
+        const contributions = pkg?.contributes?.grammars;
+        if (!Array.isArray(contributions)) continue;
+        for (const { language, scopeName, path: grammarPath } of contributions) {
+            if (!language || typeof language !== 'string' || typeof scopeName !== 'string' || typeof grammarPath !== 'string') continue;
+            grammars.push({ languageId: language, scopeName, path: path.resolve(extensionDir, grammarPath) });
+        }
+    }
+    return grammars;
+}
+
+export const headlessApi: DocumentSettingsApi = {
+    clientRequest: {
+        onWorkspaceConfigForDocumentRequest: async () => {
+            throw new Error('Workspace configuration targets are not available without VS Code.');
+        },
+    },
+};
+
+/**
+ * Convert the dotted keys of a settings file into nested objects.
+ * Language specific settings like `"[markdown]"` are not supported and are skipped.
+ */
+export function toNestedSettings(settings: Record<string, unknown>): VSCodeSettings {
+    let result: VSCodeSettings = {};
+    for (const [key, value] of Object.entries(settings)) {
+        if (key.startsWith('[')) continue;
+        const nested = key.split('.').reduceRight<unknown>((value, part) => ({ [part]: value }), value) as VSCodeSettings;
+        result = mergeSettingValues(result, nested) as VSCodeSettings;
+    }
+    return result;
+}
+
+function getSection(settings: VSCodeSettings, section: string): unknown {
+    return section.split('.').reduce<unknown>((s, part) => (isObject(s) ? s[part] : undefined), settings);
+}
+
+/**
+ * Objects are merged, everything else, including arrays, is replaced.
+ */
+function mergeSettingValues(a: unknown, b: unknown): unknown {
+    if (b === undefined) return a;
+    if (!isObject(a) || !isObject(b)) return b;
+    const result: Record<string, unknown> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+        result[key] = mergeSettingValues(result[key], value);
+    }
+    return result;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+    return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function findFolder(folders: WorkspaceFolder[], uri: string): WorkspaceFolder | undefined {
+    return folders.filter((f) => uri === f.uri || uri.startsWith(f.uri + '/')).sort((a, b) => b.uri.length - a.uri.length)[0];
+}
+
+function toWorkspaceFolder(dir: string, name?: string): WorkspaceFolder {
+    return { uri: toFileUri(dir).toString(), name: name || path.basename(dir) };
+}
+
+async function readJsonc<T>(filename: string): Promise<T> {
+    // Remove the comment symbols added by `comment-json`.
+    return JSON.parse(JSON.stringify(parseJsonc(await fs.readFile(filename, 'utf8')))) as T;
+}
@@ -0,0 +1,117 @@
+import { toFileUri } from '@internal/common-utils/uriHelper';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterAll, beforeEach, describe, expect, test } from 'vitest';
+
+import {
+    createHeadlessConnection,
+    getConfigurationSection,
+    readDefaultSettings,
+    readGrammarContributions,
+    readVSCodeWorkspace,
+    toNestedSettings,
+} from './vscodeWorkspace.mjs';
+
+const pathServer = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(pathServer, 'temp/vscodeWorkspace');
+const schemaFile = path.join(pathServer, 'spell-checker-config.schema.json');
+
+describe('vscodeWorkspace', () => {
+    beforeEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('toNestedSettings', () => {
+        expect(
+            toNestedSettings({
+                'cSpell.words': ['one'],
+                'cSpell.advanced.feature.useReferenceProviderRemove': '/^#+\\s/',
+                'search.exclude': { '**/dist': true },
+                '[markdown]': { 'cSpell.enabled': false },
+            }),
+        ).toEqual({
+            cSpell: { words: ['one'], advanced: { feature: { useReferenceProviderRemove: '/^#+\\s/' } } },
+            search: { exclude: { '**/dist': true } },
+        });
+    });
+
+    test('readDefaultSettings', async () => {
+        const defaults = await readDefaultSettings(schemaFile);
+        expect(defaults).toEqual({ cSpell: expect.objectContaining({ enabled: true, diagnosticLevel: 'Information' }) });
+    });
+
+    test('readVSCodeWorkspace settings.json', async () => {
+        const root = path.join(tempDir, 'project');
+        await writeFiles({ 'project/.vscode/settings.json': '{\n  // A comment\n  "cSpell.words": ["one"],\n}\n' });
+        const ws = await readVSCodeWorkspace('project/.vscode/settings.json', tempDir);
+        expect(ws.folders).toEqual([{ uri: toFileUri(root).toString(), name: 'project' }]);
+        expect(ws.settings).toEqual({ cSpell: { words: ['one'] } });
+    });
+
+    test('readVSCodeWorkspace .code-workspace', async () => {
+        await writeFiles({
+            'ws.code-workspace': JSON.stringify({
+                folders: [{ path: 'a' }, { path: 'b', name: 'Folder B' }],
+                settings: { 'cSpell.words': ['one'], 'cSpell.language': 'en' },
+            }),
+            'b/.vscode/settings.json': JSON.stringify({ 'cSpell.words': ['two'] }),
+        });
+        const ws = await readVSCodeWorkspace('ws.code-workspace', tempDir);
+        const [folderA, folderB] = ws.folders;
+        expect(ws.folders.map((f) => f.name)).toEqual(['a', 'Folder B']);
+
+        const defaults = toNestedSettings({ 'cSpell.enabled': true, 'cSpell.language': 'en-US' });
+        const section = (uri?: string) => getConfigurationSection(ws, defaults, 'cSpell', uri);
+        expect(section()).toEqual({ enabled: true, language: 'en', words: ['one'] });
+        expect(section(folderA.uri + '/file.txt')).toEqual({ enabled: true, language: 'en', words: ['one'] });
+        expect(section(folderB.uri + '/file.txt')).toEqual({ enabled: true, language: 'en', words: ['two'] });
+
+        const connection = createHeadlessConnection(ws, defaults);
+        await expect(connection.workspace.getWorkspaceFolders()).resolves.toBe(ws.folders);
+        await expect(connection.workspace.getConfiguration([{ section: 'cSpell' }, { section: 'search' }])).resolves.toEqual([
+            section(),
+            undefined,
+        ]);
+    });
+
+    test('readGrammarContributions', async () => {
+        await writeFiles({
+            'extensions/demo/package.json': JSON.stringify({
+                contributes: {
+                    grammars: [
+                        { language: 'demo', scopeName: 'source.demo', path: './syntaxes/demo.tmLanguage.json' },
+                        { scopeName: 'text.injection', path: './syntaxes/injection.json' },
+                    ],
+                },
+            }),
+            'extensions/other/package.json': '{}',
+            'extensions/readme.md': '',
+        });
+        const extensionsDir = path.join(tempDir, 'extensions');
+        expect(await readGrammarContributions(extensionsDir)).toEqual([
+            { languageId: 'demo', scopeName: 'source.demo', path: path.join(extensionsDir, 'demo/syntaxes/demo.tmLanguage.json') },
+        ]);
+        expect(await readGrammarContributions(path.join(tempDir, 'missing'))).toEqual([]);
+    });
+
+    test('readVSCodeWorkspace without a file', async () => {
+        const ws = await readVSCodeWorkspace(undefined, tempDir);
+        expect(ws).toEqual({
+            folders: [{ uri: toFileUri(tempDir).toString(), name: 'vscodeWorkspace' }],
+            settings: {},
+            folderSettings: new Map(),
+        });
+    });
+});
+
+async function writeFiles(files: Record<string, string>) {
+    for (const [file, content] of Object.entries(files)) {
+        const filename = path.join(tempDir, file);
+        await fs.mkdir(path.dirname(filename), { recursive: true });
+        await fs.writeFile(filename, content);
+    }
+}
@@ -16,6 +16,8 @@ import { ConfigKinds, ConfigScopes } from './config/configTargets.mjs';
 import { calculateConfigTargets } from './config/configTargetsHelper.mjs';
 import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
 import { isUriAllowed } from './config/documentSettings.mjs';
+import { suggestionsForText } from './identifiers.mjs';
+import { calcRegionSettings, findLocaleRegions, findRegionAt } from './localeRegions.mjs';
 import type { GetSettingsResult } from './SuggestionsGenerator.mjs';
 import { SuggestionGenerator } from './SuggestionsGenerator.mjs';
 import { uniqueFilter } from './utils/index.mjs';
@@ -56,6 +58,8 @@ interface CacheEntry {
     docVersion: number;
     settingsVersion: number;
     settings: Promise<SettingsDictPair>;
+    /** The settings of the regions with their own locale, by locale. */
+    regions: Map<string, Promise<SettingsDictPair>>;
 }
 
 class CodeActionHandler {
@@ -67,18 +71,37 @@ class CodeActionHandler {
         readonly dependencies: CodeActionHandlerDependencies,
     ) {
         this.settingsCache = new Map<string, CacheEntry>();
-        this.sugGen = new SuggestionGenerator((doc) => this.getSettings(doc));
+        this.sugGen = new SuggestionGenerator((doc, offset) => this.getSettings(doc, offset));
     }
 
-    async getSettings(doc: TextDocument): Promise<GetSettingsResult> {
+    /**
+     * Get the settings for a document.
+     * @param doc - the document
+     * @param offset - the offset of a word, used to get the settings of a region with its own locale.
+     */
+    async getSettings(doc: TextDocument, offset?: number): Promise<GetSettingsResult> {
+        const entry = this.getCacheEntry(doc);
+        if (offset === undefined) return entry.settings;
+        const { settings } = await entry.settings;
+        const region = findRegionAt(findLocaleRegions(doc.getText(), doc.languageId, settings.localeRegions), offset);
+        if (!region) return entry.settings;
+        const cached = entry.regions.get(region.locale);
+        if (cached) return cached;
+        const regionSettings = this.constructRegionSettings(settings, region.locale, doc.languageId);
+        entry.regions.set(region.locale, regionSettings);
+        return regionSettings;
+    }
+
+    private getCacheEntry(doc: TextDocument): CacheEntry {
         const cached = this.settingsCache.get(doc.uri);
         const settingsVersion = this.dependencies.getSettingsVersion(doc);
         if (cached?.docVersion === doc.version && cached.settingsVersion === settingsVersion) {
-            return cached.settings;
+            return cached;
         }
         const settings = this.constructSettings(doc);
-        this.settingsCache.set(doc.uri, { docVersion: doc.version, settings, settingsVersion });
-        return settings;
+        const entry: CacheEntry = { docVersion: doc.version, settings, settingsVersion, regions: new Map() };
+        this.settingsCache.set(doc.uri, entry);
+        return entry;
     }
 
     private async constructSettings(doc: TextDocument): Promise<SettingsDictPair> {
@@ -87,6 +110,12 @@ class CodeActionHandler {
         return { settings, dictionary };
     }
 
+    private async constructRegionSettings(docSettings: CSpellUserSettings, locale: string, languageId: string): Promise<SettingsDictPair> {
+        const settings = calcRegionSettings(docSettings, locale, languageId);
+        const dictionary = await getDictionary(settings);
+        return { settings, dictionary };
+    }
+
     public async handler(params: CodeActionParams): Promise<CodeAction[]> {
         const {
             context,
@@ -140,8 +169,8 @@ class CodeActionHandler {
             return TextEdit.replace(range, text || '');
         }
 
-        const getSuggestions = (word: string) => {
-            return this.sugGen.genWordSuggestions(textDocument, word);
+        const getSuggestions = (word: string, offset: number) => {
+            return this.sugGen.genWordSuggestions(textDocument, word, offset);
         };
 
         async function genCodeActionsForSuggestions(_dictionary: SpellingDictionary) {
@@ -149,11 +178,18 @@ class CodeActionHandler {
             let isSpellingIssue: boolean | undefined;
             let diagWord: string | undefined;
             for (const diag of spellCheckerDiags) {
-                const { issueType = IssueType.spelling, suggestions } = extractDiagnosticData(diag);
+                const { issueType = IssueType.spelling, suggestions, words } = extractDiagnosticData(diag);
                 isSpellingIssue = isSpellingIssue || issueType === IssueType.spelling;
                 const srcWord = extractText(textDocument, diag.range);
-                diagWord = diagWord || srcWord;
-                const sugs: Suggestion[] = suggestions ?? (await getSuggestions(srcWord));
+                // The issue can cover a whole identifier, the word to add is the misspelled word.
+                const misspelled = words?.[0];
+                diagWord = diagWord || misspelled?.text || srcWord;
+                const offset = textDocument.offsetAt(diag.range.start);
+                const sugs: Suggestion[] =
+                    suggestions ??
+                    (misspelled
+                        ? suggestionsForText(srcWord, misspelled, await getSuggestions(misspelled.text, offset + misspelled.offset))
+                        : await getSuggestions(srcWord, offset));
                 sugs.map(({ word, isPreferred }) => ({ word: Text.isLowerCase(word) ? Text.matchCase(srcWord, word) : word, isPreferred }))
                     .filter(uniqueFilter())
                     .forEach((sug) => {
@@ -0,0 +1,83 @@
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI as Uri, Utils as UriUtils } from 'vscode-uri';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { isScmUri } from './config/docUriHelper.mjs';
+
+export type CommitMessageKind = 'message' | 'rebase-todo';
+
+const kindByLanguageId: Record<string, CommitMessageKind | undefined> = {
+    'git-commit': 'message',
+    'git-rebase': 'rebase-todo',
+};
+
+/** The files git opens in an editor to write a message. */
+const kindByFilename: Record<string, CommitMessageKind | undefined> = {
+    COMMIT_EDITMSG: 'message',
+    MERGE_MSG: 'message',
+    SQUASH_MSG: 'message',
+    TAG_EDITMSG: 'message',
+    'git-rebase-todo': 'rebase-todo',
+};
+
+/**
+ * Text in a commit message that is not prose.
+ */
+const messagePatterns: string[] = [
+    // Conventional commit prefix: `feat:`, `fix(server)!:`
+    String.raw`/^\w+(?:\([^)\n]*\))?!?:(?=\s)/g`,
+    // Issue references: `#123`, `owner/repo#123`, `GH-123`, `JIRA-123`
+    String.raw`/(?:\b[\w.-]+\/[\w.-]+)?#\d+\b/g`,
+    String.raw`/\b[A-Z][A-Z0-9]+-\d+\b/g`,
+    // Trailers: `Co-authored-by: Name <name@example.com>`, `Signed-off-by: ...`
+    String.raw`/^[A-Z][\w-]*-by:.*$/gim`,
+    // File paths: `src/server.mts`, `./README.md`, `package.json`
+    String.raw`/(?:\.{0,2}\/)?(?:[\w.@-]+\/)+[\w.@-]+/g`,
+    String.raw`/\b[\w-]+\.(?:[cm]?[jt]sx?|json|md|ya?ml|toml|lock|html?|css|scss|py|rs|go|java|kt|cs|cpp|h|sh|txt)\b/g`,
+    // Comment lines written by git and the diff shown with `git commit -v`.
+    String.raw`/^# -+ >8 -+$[\s\S]*/gm`,
+    String.raw`/^#.*$/gm`,
+    'CommitHash',
+    'Email',
+    'Urls',
+];
+
+/**
+ * The commands and commit hashes in an interactive rebase todo list.
+ */
+const rebaseTodoPatterns: string[] = [
+    String.raw`/^(?:p|pick|r|reword|e|edit|s|squash|f|fixup|d|drop)\s+(?:-[cC]\s+)?[0-9a-f]{4,40}\b/gm`,
+    String.raw`/^(?:x|exec|b|break|l|label|t|reset|m|merge|u|update-ref)\b.*$/gm`,
+    String.raw`/^#.*$/gm`,
+];
+
+/**
+ * Determine if a document is a commit message.
+ * The Source Control input box and the files git opens in an editor are commit messages.
+ * @returns undefined if it is not a commit message.
+ */
+export function detectCommitMessage(doc: Pick<TextDocument, 'uri' | 'languageId'>): CommitMessageKind | undefined {
+    if (isScmUri(doc.uri)) return 'message';
+    return kindByLanguageId[doc.languageId] || kindByFilename[UriUtils.basename(Uri.parse(doc.uri))];
+}
+
+/**
+ * Calculate the settings to check a commit message.
+ * @param doc - the document
+ * @param settings - the settings for the document.
+ * @returns undefined if `commitMessageProfile` is turned off or it is not a commit message.
+ */
+export function calcCommitMessageSettings(
+    doc: Pick<TextDocument, 'uri' | 'languageId'>,
+    settings: CSpellUserSettings,
+): CSpellUserSettings | undefined {
+    if (settings.commitMessageProfile === false) return undefined;
+    const kind = detectCommitMessage(doc);
+    if (!kind) return undefined;
+    const { dictionaries = [], ignoreRegExpList = [], commitMessageDictionaries = [] } = settings;
+    return {
+        ...settings,
+        dictionaries: [...dictionaries, ...commitMessageDictionaries],
+        ignoreRegExpList: [...ignoreRegExpList, ...(kind === 'message' ? messagePatterns : rebaseTodoPatterns)],
+    };
+}
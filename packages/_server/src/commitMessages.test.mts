@@ -0,0 +1,77 @@
+import { constructSettingsForText, getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { calcCommitMessageSettings, detectCommitMessage } from './commitMessages.mjs';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import * as Validator from './validator.mjs';
+
+// cspell:ignore recieve wrogn dependabot lzxcv srvr confg scrpts qwzx plonk
+
+const scmUri = 'vscode-scm:git/scm0/input?rootUri%3Dfile%253A%252F%252F%252Fproject';
+
+const sampleMessage = `feat(srvr)!: recieve the config from srvr/confg/loader.mts
+
+Fixes #123 and acme/widgets#45, see PROJ-678 and abc1234def.
+Update lzxcv.json and ./scrpts/build.sh
+
+Co-authored-by: Qwzx Plonk <qwzx@example.com>
+Signed-off-by: dependabot[bot] <support@github.com>
+# Please enter the commit message for your changes. Lines starting
+# with '#' will be ignored, and an empty message aborts the commit.
+# ------------------------ >8 ------------------------
+diff --git a/wrogn.txt b/wrogn.txt
++wrogn
+`;
+
+const sampleRebaseTodo = `pick 1a2b3c4 feat: add the wrogn parser
+r 5d6e7f8 fix: recieve the config
+exec npm run lzxcv
+# Rebase 0a1b2c3..5d6e7f8 onto 0a1b2c3 (2 commands)
+`;
+
+describe('commitMessages', () => {
+    test.each`
+        uri                                       | languageId      | expected
+        ${scmUri}                                 | ${'scminput'}   | ${'message'}
+        ${'file:///project/.git/COMMIT_EDITMSG'}  | ${'git-commit'} | ${'message'}
+        ${'file:///project/.git/COMMIT_EDITMSG'}  | ${'plaintext'}  | ${'message'}
+        ${'file:///project/.git/MERGE_MSG'}       | ${'plaintext'}  | ${'message'}
+        ${'file:///project/.git/git-rebase-todo'} | ${'git-rebase'} | ${'rebase-todo'}
+        ${'file:///project/.git/rebase/todo'}     | ${'git-rebase'} | ${'rebase-todo'}
+        ${'file:///project/docs/COMMIT_GUIDE.md'} | ${'markdown'}   | ${undefined}
+        ${'untitled:Untitled-1'}                  | ${'plaintext'}  | ${undefined}
+    `('detectCommitMessage $uri $languageId', ({ uri, languageId, expected }) => {
+        expect(detectCommitMessage({ uri, languageId })).toBe(expected);
+    });
+
+    test('calcCommitMessageSettings', () => {
+        const settings: CSpellUserSettings = { dictionaries: ['companies'], ignoreRegExpList: ['Urls'] };
+        const doc = { uri: scmUri, languageId: 'scminput' };
+        expect(calcCommitMessageSettings({ uri: 'file:///project/README.md', languageId: 'markdown' }, settings)).toBeUndefined();
+        expect(calcCommitMessageSettings(doc, { ...settings, commitMessageProfile: false })).toBeUndefined();
+
+        const result = calcCommitMessageSettings(doc, { ...settings, commitMessageDictionaries: ['project-words'] });
+        expect(result?.dictionaries).toEqual(['companies', 'project-words']);
+        expect(result?.ignoreRegExpList?.[0]).toBe('Urls');
+        expect(result?.ignoreRegExpList?.length).toBeGreaterThan(1);
+    });
+
+    test.each`
+        uri                                       | languageId      | text                | expected
+        ${scmUri}                                 | ${'scminput'}   | ${sampleMessage}    | ${['recieve']}
+        ${'file:///project/.git/COMMIT_EDITMSG'}  | ${'git-commit'} | ${sampleMessage}    | ${['recieve']}
+        ${'file:///project/.git/git-rebase-todo'} | ${'git-rebase'} | ${sampleRebaseTodo} | ${['wrogn', 'recieve']}
+    `(
+        'validate commit message $uri',
+        async ({ uri, languageId, text, expected }) => {
+            const doc = TextDocument.create(uri, languageId, 1, text);
+            const baseSettings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en' };
+            const fileSettings = calcCommitMessageSettings(doc, baseSettings) || baseSettings;
+            const settings = constructSettingsForText(fileSettings, text, languageId);
+            const results = await Validator.validateTextDocument(doc, settings);
+            expect(results.map((diag) => diag.data?.text)).toEqual(expected);
+        },
+        30000,
+    );
+});
@@ -69,6 +69,66 @@ export interface SpellCheckerSettings extends SpellCheckerShouldCheckDocSettings
      */
     diagnosticLevelSCM?: DiagnosticLevelExt;
 
+    /**
+     * Check commit messages with rules made for them. It applies to the Source Control input box
+     * and to the files git opens in an editor, like `COMMIT_EDITMSG` and `git-rebase-todo`.
+     *
+     * Conventional commit prefixes, issue references, trailers like `Co-authored-by:`, file paths,
+     * and commit hashes are ignored.
+     * @title Use Commit Message Rules
+     * @scope resource
+     * @version 4.0.0
+     * @default true
+     */
+    commitMessageProfile?: boolean;
+
+    /**
+     * Dictionaries that are always used to check commit messages, like a project dictionary.
+     * See `#cSpell.commitMessageProfile#`.
+     * @title Commit Message Dictionaries
+     * @scope resource
+     * @version 4.0.0
+     */
+    commitMessageDictionaries?: string[];
+
+    /**
+     * Only report spelling issues on lines that were added or changed since a git base.
+     * Use it to find new issues in files with a lot of existing issues.
+     *
+     * The changes are calculated locally by git, files that are not in a git repository and new files are fully reported.
+     * @title Report Only Changed Lines
+     * @scope resource
+     * @version 4.0.0
+     * @enumDescriptions [
+     *  "Report issues on all lines.",
+     *  "Lines changed since the last commit.",
+     *  "Lines changed since the branch was created from `#cSpell.changedLinesBaseBranch#`.",
+     *  "Lines changed since they were staged."]
+     * @default "off"
+     */
+    reportChangedLinesOnly?: 'off' | 'HEAD' | 'merge-base' | 'staged';
+
+    /**
+     * The branch used to find the merge base when `#cSpell.reportChangedLinesOnly#` is `merge-base`.
+     * @title Changed Lines Base Branch
+     * @scope resource
+     * @version 4.0.0
+     * @default "main"
+     */
+    changedLinesBaseBranch?: string;
+
+    /**
+     * The file with the known spelling issues, relative to the workspace folder.
+     * Issues recorded in the baseline are not reported, new issues are.
+     *
+     * Use the `Spell: Create or Refresh the Baseline of Known Spelling Issues` command to record the current issues.
+     * @title Baseline File
+     * @scope resource
+     * @version 4.0.0
+     * @default ".cspell-baseline.json"
+     */
+    baselineFile?: string;
+
     /**
      * Control which file schemas will be checked for spelling (VS Code must be restarted for this setting to take effect).
      *
@@ -138,6 +198,181 @@ export interface SpellCheckerSettings extends SpellCheckerShouldCheckDocSettings
      */
     spellCheckDelayMs?: number;
 
+    /**
+     * Only re-check the lines of a document that have changed instead of the entire document.
+     *
+     * The entire document is still checked when it is opened or saved, when the settings change,
+     * or when a change impacts the rest of the document, like editing a `cspell:` directive.
+     * @title Check Documents Incrementally
+     * @scope resource
+     * @version 4.0.0
+     * @default false
+     */
+    incrementalValidation?: boolean;
+
+    /**
+     * The number of lines before and after a change to re-check when `#cSpell.incrementalValidation#` is enabled.
+     * @title Incremental Validation Context Lines
+     * @scope resource
+     * @version 4.0.0
+     * @default 1
+     */
+    incrementalValidationContextLines?: number;
+
+    /**
+     * The number of worker threads used to spell check documents.
+     * Checking documents in worker threads keeps the spell checker responsive while large files are being checked.
+     *
+     * Use `0` to check documents on the main thread of the spell checker server.
+     * Documents checked with `#cSpell.incrementalValidation#` are always checked on the main thread.
+     * @title Validation Worker Threads
+     * @scope window
+     * @version 4.0.0
+     * @default 0
+     */
+    validationWorkerPoolSize?: number;
+
+    /**
+     * The maximum time in milliseconds a worker thread is allowed to spend checking a document.
+     * The check is stopped when the time limit is reached.
+     * Only applies when `#cSpell.validationWorkerPoolSize#` is greater than `0`.
+     * @title Validation Worker Timeout
+     * @scope window
+     * @version 4.0.0
+     * @default 10000
+     */
+    validationWorkerTimeoutMs?: number;
+
+    /**
+     * Measure the time each pattern in `#cSpell.ignoreRegExpList#` and `#cSpell.includeRegExpList#` takes on the open documents.
+     * A pattern that takes longer than `#cSpell.regExpProfilerBudgetMs#` on a document is not used to check that document.
+     *
+     * Use the `Spell: Show the Slowest Regular Expressions` command to see the results.
+     * @title Profile Regular Expressions
+     * @scope window
+     * @version 4.0.0
+     * @default false
+     */
+    regExpProfiler?: boolean;
+
+    /**
+     * The time in milliseconds a pattern is allowed to take on one document.
+     * Only applies when `#cSpell.regExpProfiler#` is enabled.
+     * @title Regular Expression Time Budget
+     * @scope window
+     * @version 4.0.0
+     * @default 100
+     */
+    regExpProfilerBudgetMs?: number;
+
+    /**
+     * Detect the locale of each document from its text.
+     *
+     * The locales listed in `#cSpell.language#` are the candidates, i.e. `"en,de,fr"`.
+     * The locale with a dictionary that knows the most words of the document is used to check it.
+     * The detected locale is shown in the status bar, click on it to choose a different locale.
+     *
+     * Detection works per document: the whole document is checked with one locale, paragraphs and comments
+     * in another language are not detected. Use `#cSpell.localeRegions#` to check parts of a document
+     * with a different locale.
+     * @title Detect Document Locale
+     * @scope resource
+     * @version 4.0.0
+     * @default false
+     */
+    detectLocale?: boolean;
+
+    /**
+     * Check translation files against the dictionary of their locale.
+     *
+     * Supported files:
+     * - JSON and ARB files in a `locales`, `i18n`, or similar folder, i.e. `locales/de.json`, `i18n/fr/common.json`
+     * - Java properties files, i.e. `messages_de.properties`
+     * - Gettext `.po` files
+     * - XLIFF `.xlf` and `.xliff` files
+     *
+     * The locale comes from the file's own locale header, the file name, or the path.
+     * Only the translations are checked, keys and placeholders like `{count}`, `%s`,
+     * and ICU plural syntax are skipped.
+     * @title Check Translation Files
+     * @scope resource
+     * @version 4.0.0
+     * @default false
+     */
+    checkTranslationFiles?: boolean;
+
+    /**
+     * Rules to check regions of a document with a different locale than the rest of the document.
+     *
+     * Each rule has a regular expression that matches a region. The locale of the region is
+     * the named capture group `locale` or the `locale` of the rule.
+     * If the expression has a named capture group `text`, only that part of the match is checked with the locale.
+     *
+     * Rules with the same `name` replace each other, rules from the CSpell configuration file win.
+     *
+     * Example:
+     * ```jsonc
+     * "cSpell.localeRegions": [
+     *   {
+     *     "name": "html-lang",
+     *     "languageIds": ["html"],
+     *     "pattern": "/<(\\w+)[^>]*\\slang=\"(?<locale>[\\w-]+)\"[^>]*>(?<text>[\\s\\S]*?)<\\/\\1>/g"
+     *   },
+     *   {
+     *     "name": "front-matter-lang",
+     *     "languageIds": ["markdown"],
+     *     "pattern": "/^---\\n[\\s\\S]*?^lang:\\s*(?<locale>[\\w-]+)[\\s\\S]*?^---\\n(?<text>[\\s\\S]*)/m"
+     *   }
+     * ]
+     * ```
+     * @title Locale Regions
+     * @scope resource
+     * @version 4.0.0
+     */
+    localeRegions?: LocaleRegionRule[];
+
+    /**
+     * Only report issues in the parts of a document with a matching TextMate scope.
+     * The document is tokenized with the TextMate grammar of its language, the grammars come from the installed extensions.
+     *
+     * The key is the file type, the value is a list of scopes. A scope matches the scopes below it,
+     * `comment` matches `comment.line.double-slash.ts`. Use `*` to match any part of a scope name.
+     * Documents without a grammar or without an entry are checked as usual.
+     * Grammar rules that use Oniguruma features without a JavaScript equivalent, like `\G` or atomic groups, are skipped.
+     *
+     * Example:
+     * ```jsonc
+     * "cSpell.checkScopes": {
+     *   "typescript": ["comment.*", "string.quoted.*", "entity.name.*"],
+     *   "python": ["comment", "string.quoted.docstring"]
+     * }
+     * ```
+     * @title Scopes to Check
+     * @scope resource
+     * @version 4.0.0
+     */
+    checkScopes?: Record<string, string[]>;
+
+    /**
+     * Rules for splitting and checking identifiers, like `getUserName` or `MAX_SIZE`.
+     * A rule applies to the file types in `languageIds`, or to all file types if not set.
+     * The prefixes and abbreviations of all matching rules are combined, for the other fields the last rule wins.
+     *
+     * Example:
+     * ```jsonc
+     * "cSpell.identifierRules": [
+     *   { "abbreviations": ["ctx", "req", "i18n"] },
+     *   { "languageIds": ["c", "cpp"], "prefixes": ["lpsz", "sz", "m_", "g_"] },
+     *   { "languageIds": ["css", "scss"], "conventions": ["kebab-case"] },
+     *   { "languageIds": ["typescript"], "reportWholeIdentifier": true }
+     * ]
+     * ```
+     * @title Identifier Rules
+     * @scope resource
+     * @version 4.0.0
+     */
+    identifierRules?: IdentifierRule[];
+
     /**
      * Use Rename Provider when fixing spelling issues.
      * @scope language-overridable
@@ -223,6 +458,19 @@ export interface SpellCheckerSettings extends SpellCheckerShouldCheckDocSettings
      */
     checkOnlyEnabledFileTypes?: boolean;
 
+    /**
+     * Check the outputs of the cells of Jupyter notebooks, like printed text and results.
+     *
+     * The cells of an open notebook are checked together as one document, so `cspell:` directives
+     * in one cell apply to the other cells. Outputs are only part of a notebook file checked as text,
+     * i.e. by a workspace check or when the `.ipynb` file is opened with the text editor.
+     * @title Check Notebook Outputs
+     * @scope resource
+     * @version 4.0.0
+     * @default false
+     */
+    checkNotebookOutputs?: boolean;
+
     /**
      * Define the path to the workspace root folder in a multi-root workspace.
      * By default it is the first folder.
@@ -406,6 +654,62 @@ export interface SpellCheckerSettings extends SpellCheckerShouldCheckDocSettings
     mergeCSpellSettingsFields?: CSpellMergeFields;
 }
 
+export interface LocaleRegionRule {
+    /**
+     * The name of the rule, a rule with the same name replaces this one.
+     */
+    name?: string;
+    /**
+     * The file types the rule applies to, all file types if not set.
+     */
+    languageIds?: string[];
+    /**
+     * A regular expression that matches a region.
+     * Use the named capture groups `locale` and `text` to capture the locale and the text of the region.
+     */
+    pattern: RegExpString;
+    /**
+     * The locale of the region if it is not captured by the pattern, i.e. `"de"` or `"en-GB"`.
+     */
+    locale?: string;
+}
+
+/**
+ * - `camelCase` - split at a change of case, `getUserName` and `HTTPServer`.
+ * - `snake_case` - split at `_` in identifiers with lower case letters, `user_name`.
+ * - `SCREAMING_CASE` - split at `_` in identifiers in upper case, `MAX_SIZE`.
+ * - `kebab-case` - words joined with `-` are one identifier, split at `-`, `font-weight`.
+ */
+export type NamingConvention = 'camelCase' | 'snake_case' | 'SCREAMING_CASE' | 'kebab-case';
+
+export interface IdentifierRule {
+    /**
+     * The file types the rule applies to, all file types if not set.
+     */
+    languageIds?: string[];
+    /**
+     * The naming conventions used to split identifiers into words.
+     * An issue in an identifier that is not split is reported for the whole identifier.
+     * @default ["camelCase", "snake_case", "SCREAMING_CASE"]
+     */
+    conventions?: NamingConvention[];
+    /**
+     * Hungarian notation prefixes that are not checked, i.e. `lpsz` in `lpszName` or `m_` in `m_count`.
+     * A prefix is only removed if it is followed by an upper case letter or `_`.
+     */
+    prefixes?: string[];
+    /**
+     * Abbreviations that are accepted as words in identifiers, i.e. `ctx`, `req` or `i18n`. The case is ignored.
+     */
+    abbreviations?: string[];
+    /**
+     * Report the whole identifier instead of the misspelled words.
+     * The suggestions are for the identifier, fixing `getUsrName` offers `getUserName`.
+     * @default false
+     */
+    reportWholeIdentifier?: boolean;
+}
+
 type AutoOrBoolean = boolean | 'auto';
 
 /**
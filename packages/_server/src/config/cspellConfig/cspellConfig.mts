@@ -136,13 +136,20 @@ type _VSConfigLanguageAndDictionaries = Pick<
     SpellCheckerSettingsVSCodeBase,
     // | 'addWordsTo'
     | 'caseSensitive'
+    | 'checkScopes'
+    | 'checkTranslationFiles'
+    | 'commitMessageDictionaries'
+    | 'commitMessageProfile'
     | 'customDictionaries'
+    | 'detectLocale'
     | 'dictionaries'
     | 'dictionaryDefinitions'
     | 'flagWords'
+    | 'identifierRules'
     | 'ignoreWords'
     | 'language'
     | 'languageSettings'
+    | 'localeRegions'
     | 'noSuggestDictionaries'
     | 'suggestWords'
     | 'userWords'
@@ -157,6 +164,8 @@ type VSConfigReporting = PrefixWithCspell<_VSConfigReporting>;
 type _VSConfigReporting = Pick<
     SpellCheckerSettingsVSCodeBase,
     | 'autoFormatConfigFile'
+    | 'baselineFile'
+    | 'changedLinesBaseBranch'
     | 'diagnosticLevel'
     | 'diagnosticLevelFlaggedWords'
     | 'diagnosticLevelSCM'
@@ -165,6 +174,7 @@ type _VSConfigReporting = Pick<
     | 'maxNumberOfProblems'
     | 'minWordLength'
     | 'numSuggestions'
+    | 'reportChangedLinesOnly'
     | 'showAutocompleteSuggestions'
     | 'showCommandsInEditorContextMenu'
     | 'showStatus'
@@ -186,8 +196,14 @@ type _VSConfigPerf = Pick<
     | 'blockCheckingWhenLineLengthGreaterThan'
     | 'blockCheckingWhenTextChunkSizeGreaterThan'
     | 'checkLimit'
+    | 'incrementalValidation'
+    | 'incrementalValidationContextLines'
+    | 'regExpProfiler'
+    | 'regExpProfilerBudgetMs'
     | 'spellCheckDelayMs'
     | 'suggestionsTimeout'
+    | 'validationWorkerPoolSize'
+    | 'validationWorkerTimeoutMs'
 >;
 
 /**
@@ -216,6 +232,7 @@ type VSConfigFilesAndFolders = PrefixWithCspell<_VSConfigFilesAndFolders>;
 type _VSConfigFilesAndFolders = Pick<
     SpellCheckerSettingsVSCodeBase,
     | 'allowedSchemas'
+    | 'checkNotebookOutputs'
     | 'checkOnlyEnabledFileTypes'
     | 'enableFiletypes'
     | 'files'
@@ -15,7 +15,7 @@ export type {
     CustomDictionaryEntry,
     CustomDictionaryWithScope,
 } from './CustomDictionary.mjs';
-export type { SpellCheckerSettings } from './SpellCheckerSettings.mjs';
+export type { IdentifierRule, LocaleRegionRule, NamingConvention, SpellCheckerSettings } from './SpellCheckerSettings.mjs';
 export type {
     CustomDictionaryScope,
     DictionaryDefinition,
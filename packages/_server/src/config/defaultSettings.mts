@@ -0,0 +1,27 @@
+import * as CSpell from 'cspell-lib';
+import { getDefaultSettings } from 'cspell-lib';
+
+import { defaultCheckLimit } from '../validator.mjs';
+import type { CSpellUserSettings } from './cspellConfig/index.mjs';
+
+const overRideDefaults: CSpellUserSettings = {
+    id: 'Extension overrides',
+    patterns: [],
+    ignoreRegExpList: [],
+};
+
+// Turn off the spell checker by default. The setting files should have it set.
+// This prevents the spell checker from running too soon.
+export const defaultSettings: CSpellUserSettings = {
+    ...CSpell.mergeSettings(getDefaultSettings(), CSpell.getGlobalSettings(), overRideDefaults),
+    checkLimit: defaultCheckLimit,
+    // enabled: false,
+};
+
+/**
+ * Apply the default settings to the settings resolved by `DocumentSettings`.
+ * @param settings - the settings for a document before the in-document settings are applied.
+ */
+export function applyDefaultSettings(settings: CSpellUserSettings): CSpellUserSettings {
+    return { ...CSpell.mergeSettings(defaultSettings, settings), enabledLanguageIds: settings.enabledLanguageIds };
+}
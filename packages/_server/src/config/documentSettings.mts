@@ -7,6 +7,7 @@ import type {
     FileSource,
     Glob,
     GlobDef,
+    LanguageSetting,
     Pattern,
     RegExpPatternDefinition,
 } from '@cspell/cspell-types';
@@ -31,17 +32,20 @@ import {
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-import type { Connection, WorkspaceFolder } from 'vscode-languageserver/node.js';
+import type { WorkspaceFolder } from 'vscode-languageserver/node.js';
 import { URI as Uri, Utils as UriUtils } from 'vscode-uri';
 
-import type { DocumentUri, ServerSideApi, VSCodeSettingsCspell, WorkspaceConfigForDocument } from '../api.js';
+import type { DocumentUri, RuntimeDictionaryDefinition, ServerSideApi, VSCodeSettingsCspell, WorkspaceConfigForDocument } from '../api.js';
 import { extensionId } from '../constants.mjs';
+import { translationFileLanguageIds } from '../translationFiles.mjs';
 import { uniqueFilter } from '../utils/index.mjs';
 import { filterMergeFields } from './cspellConfig/cspellMergeFields.mjs';
-import type { CSpellUserSettings } from './cspellConfig/index.mjs';
+import type { CSpellUserSettings, LocaleRegionRule } from './cspellConfig/index.mjs';
 import { canAddWordsToDictionary } from './customDictionaries.mjs';
 import { handleSpecialUri } from './docUriHelper.mjs';
-import type { TextDocumentUri } from './vscode.config.mjs';
+import type { SettingsProvenance } from './settingsProvenance.mjs';
+import { calcSettingsProvenance, vscodeSettingsId } from './settingsProvenance.mjs';
+import type { ConfigurationConnection, TextDocumentUri } from './vscode.config.mjs';
 import { getConfiguration, getWorkspaceFolders } from './vscode.config.mjs';
 import { createWorkspaceNamesResolver, resolveSettings } from './WorkspacePathResolver.mjs';
 
@@ -106,6 +110,13 @@ const defaultCheckOnlyEnabledFileTypes = true;
 
 type ClearFn = () => void;
 
+/**
+ * The part of the server api used by `DocumentSettings`.
+ */
+export interface DocumentSettingsApi {
+    clientRequest: Pick<ServerSideApi['clientRequest'], 'onWorkspaceConfigForDocumentRequest'>;
+}
+
 export class DocumentSettings {
     // Cache per folder settings
     private valuesToClearOnReset: ClearFn[] = [];
@@ -115,13 +126,14 @@ export class DocumentSettings {
     public readonly fetchWorkspaceConfiguration = this.createCache((docUri: DocumentUri) => this._fetchWorkspaceConfiguration(docUri));
     private readonly _folders = this.createLazy(() => this.fetchFolders());
     readonly configsToImport = new Set<string>();
+    private runtimeDictionaries: RuntimeDictionaryDefinition[] = [];
     private readonly importedSettings = this.createLazy(() => this._importSettings());
     private _version = 0;
     private gitIgnore = new GitIgnore();
 
     constructor(
-        readonly connection: Connection,
-        readonly api: ServerSideApi,
+        readonly connection: ConfigurationConnection,
+        readonly api: DocumentSettingsApi,
         readonly defaultSettings: CSpellUserSettings = _defaultSettings,
     ) {}
 
@@ -213,7 +225,7 @@ export class DocumentSettings {
     private _importSettings() {
         log('importSettings');
         const importPaths = [...this.configsToImport].sort();
-        return mergeSettings({}, ...readSettingsFiles(importPaths));
+        return mergeSettings({}, ...readSettingsFiles(importPaths), runtimeDictionariesToSettings(this.runtimeDictionaries));
     }
 
     private async _fetchWorkspaceConfiguration(uri: DocumentUri): Promise<WorkspaceConfigForDocument> {
@@ -224,6 +236,11 @@ export class DocumentSettings {
         return this._version;
     }
 
+    /** The names of the dictionaries registered by other extensions. */
+    get runtimeDictionaryNames(): string[] {
+        return this.runtimeDictionaries.map((d) => d.name);
+    }
+
     async registerConfigurationFile(path: string): Promise<void> {
         log('registerConfigurationFile:', path);
         this.configsToImport.add(path);
@@ -231,6 +248,13 @@ export class DocumentSettings {
         await this.resetSettings();
     }
 
+    async setRuntimeDictionaries(dictionaries: RuntimeDictionaryDefinition[]): Promise<void> {
+        log('setRuntimeDictionaries:', dictionaries.map((d) => d.name).join(', '));
+        this.runtimeDictionaries = dictionaries;
+        this.importedSettings.clear();
+        await this.resetSettings();
+    }
+
     private async fetchUriSettings(uri: string | undefined): Promise<CSpellUserSettings> {
         const exSettings = await this.fetchUriSettingsEx(uri);
         return exSettings.settings;
@@ -280,7 +304,11 @@ export class DocumentSettings {
         return { cSpell, search };
     }
 
-    private async fetchRepoRootForFile(uriFile: string | Uri) {
+    /**
+     * Find the root of the git repository that contains a file.
+     * @returns the path to the root or undefined if the file is not in a repository.
+     */
+    public async fetchRepoRootForFile(uriFile: string | Uri): Promise<string | undefined> {
         const u = toUri(uriFile);
         const uriDir = UriUtils.dirname(u);
         return this.fetchRepoRootForDir(uriDir.fsPath);
@@ -309,13 +337,21 @@ export class DocumentSettings {
 
     readonly extractTargetDictionaries = extractTargetDictionaries;
 
+    /**
+     * Find the source of each field and list element of the finalized settings.
+     * @param settings - finalized settings
+     */
+    calcSettingsProvenance(settings: CSpellUserSettings): Promise<SettingsProvenance> {
+        return calcSettingsProvenance(settings, isOwnedByCSpellOrExtension);
+    }
+
     private async fetchSettingsFromVSCode(uri?: string): Promise<CSpellUserSettings> {
         const { cSpell, search } = await this.fetchVSCodeConfiguration(uri || '');
         const { exclude = {} } = search;
         const { ignorePaths = [] } = cSpell;
         const cSpellConfigSettings: CSpellUserSettings = {
             ...cSpell,
-            id: 'VSCode-Config',
+            id: vscodeSettingsId,
             ignorePaths: ignorePaths.concat(ExclusionHelper.extractGlobsFromExcludeFilesGlobMap(exclude)),
         };
 
@@ -352,8 +388,9 @@ export class DocumentSettings {
             settings,
         );
 
-        const enabledFiletypes = extractEnableFiletypes(mergedSettings);
+        const enabledFiletypes = extractEnableFiletypes(translationFilesToSettings(mergedSettings), mergedSettings);
         const spellSettings = applyEnableFiletypes(enabledFiletypes, mergedSettings);
+        setIfDefined(spellSettings, 'localeRegions', mergeLocaleRegions(mergedSettingsFromVSCode, settings));
         const fileSettings = calcOverrideSettings(spellSettings, searchForFsPath);
         const { ignorePaths = [], files = [] } = fileSettings;
 
@@ -428,6 +465,24 @@ function readSettingsFiles(paths: string[]) {
     return existingPaths.map((file) => cspellReadSettingsFile(file));
 }
 
+/**
+ * Define the runtime dictionaries and enable them.
+ * Dictionaries bound to a language or locale are enabled with `languageSettings`.
+ */
+export function runtimeDictionariesToSettings(dictionaries: RuntimeDictionaryDefinition[]): CSpellUserSettings {
+    if (!dictionaries.length) return {};
+    const dictionaryDefinitions = dictionaries.map(({ name, description, path }) => ({ name, description, path }));
+    const unbound = dictionaries.filter((d) => !d.languageId && !d.locale);
+    const bound = dictionaries.filter((d) => d.languageId || d.locale);
+    const languageSettings: LanguageSetting[] = bound.map(({ name, languageId = '*', locale }) =>
+        setIfDefined<LanguageSetting, 'locale'>({ languageId, dictionaries: [name] }, 'locale', locale),
+    );
+    const settings: CSpellUserSettings = { dictionaryDefinitions };
+    if (unbound.length) settings.dictionaries = unbound.map((d) => d.name);
+    if (languageSettings.length) settings.languageSettings = languageSettings;
+    return settings;
+}
+
 function exists(file: string): boolean {
     try {
         const s = fs.statSync(file);
@@ -460,6 +515,13 @@ function extractEnableFiletypes(...settings: CSpellUserSettings[]): string[] {
     return settings.map(({ enableFiletypes = [] }) => enableFiletypes).reduce((acc, next) => acc.concat(next), []);
 }
 
+/**
+ * The file types to enable when checking translation files.
+ */
+function translationFilesToSettings(settings: CSpellUserSettings): CSpellUserSettings {
+    return settings.checkTranslationFiles ? { enableFiletypes: translationFileLanguageIds } : {};
+}
+
 function applyEnableFiletypes(enableFiletypes: string[], settings: CSpellUserSettings): CSpellUserSettings {
     const mapOfEnabledFileTypes = calcMapOfEnabledFileTypes(enableFiletypes, settings);
     const enabledLanguageIds = [...mapOfEnabledFileTypes.entries()].filter(([_, enabled]) => enabled).map(([lang]) => lang);
@@ -467,6 +529,16 @@ function applyEnableFiletypes(enableFiletypes: string[], settings: CSpellUserSet
     return { enabledLanguageIds, mapOfEnabledFileTypes, ...rest };
 }
 
+/**
+ * Combine the `localeRegions` rules, a rule replaces an earlier rule with the same name.
+ */
+function mergeLocaleRegions(...settings: (CSpellUserSettings | undefined)[]): LocaleRegionRule[] | undefined {
+    const rules = settings.flatMap((s) => s?.localeRegions || []);
+    if (!rules.length) return undefined;
+    const byName = new Map<string | number, LocaleRegionRule>(rules.map((rule, i) => [rule.name ?? i, rule]));
+    return [...byName.values()];
+}
+
 function normalizeEnableFiletypes(enableFiletypes: string[]): string[] {
     const ids = enableFiletypes
         .map((id) => id.replace(/!/g, '~')) // Use ~ for better sorting
@@ -526,7 +598,10 @@ const correctRegExMap = new Map([
     ["/'''(.*?\\n?)+?'''/g", "/(''')[^\\1]*?\\1/g"],
 ]);
 
-function fixRegEx(pat: Pattern): Pattern {
+/**
+ * Replace regular expressions that are known to be very slow.
+ */
+export function fixRegEx(pat: Pattern): Pattern {
     if (typeof pat != 'string') {
         return pat;
     }
@@ -647,6 +722,10 @@ function extractCSpellConfigurationFiles(settings: CSpellUserSettings): Uri[] {
 const regExIsOwnedByCspell = /@cspell\b/;
 const regExIsOwnedByExtension = /\bstreetsidesoftware\.code-spell-checker\b/;
 
+function isOwnedByCSpellOrExtension(filename: string): boolean {
+    return regExIsOwnedByCspell.test(filename) || regExIsOwnedByExtension.test(filename);
+}
+
 /**
  * Extract file based cspell configurations used to create the finalized settings.
  * @param settings - finalized settings
@@ -19,6 +19,7 @@ import {
     isLanguageEnabled,
     isUriAllowed,
     isUriBlocked,
+    runtimeDictionariesToSettings,
 } from './documentSettings.mjs';
 import { getConfiguration, getWorkspaceFolders } from './vscode.config.mjs';
 
@@ -125,6 +126,49 @@ describe('Validate DocumentSettings', () => {
         expect(docSettings.configsToImport).toContain(configFile);
     });
 
+    test('setRuntimeDictionaries', async () => {
+        mockGetWorkspaceFolders.mockReturnValue(Promise.resolve([workspaceFolderServer]));
+        mockGetConfiguration.mockReturnValue(Promise.resolve([cspellConfigInVsCode, {}]));
+        const docSettings = newDocumentSettings();
+        const path = Path.join(pathSampleSourceFiles, 'words.txt');
+        const uri = Uri.file(__filename).toString();
+
+        await docSettings.setRuntimeDictionaries([{ name: 'runtime-words', path }]);
+        const settings = await docSettings.getSettings({ uri });
+        expect(settings.dictionaries).toContain('runtime-words');
+        expect(settings.dictionaryDefinitions).toContainEqual(expect.objectContaining({ name: 'runtime-words' }));
+
+        await docSettings.setRuntimeDictionaries([]);
+        const settingsAfter = await docSettings.getSettings({ uri });
+        expect(settingsAfter.dictionaries ?? []).not.toContain('runtime-words');
+    });
+
+    test('runtimeDictionariesToSettings', () => {
+        expect(runtimeDictionariesToSettings([])).toEqual({});
+        expect(runtimeDictionariesToSettings([{ name: 'words', path: '/words.txt' }])).toEqual({
+            dictionaryDefinitions: [{ name: 'words', path: '/words.txt' }],
+            dictionaries: ['words'],
+        });
+        expect(
+            runtimeDictionariesToSettings([
+                { name: 'words', path: '/words.txt' },
+                { name: 'ts-words', path: '/ts-words.txt', languageId: ['typescript', 'javascript'] },
+                { name: 'fr-words', path: '/fr-words.txt', locale: 'fr' },
+            ]),
+        ).toEqual({
+            dictionaryDefinitions: [
+                { name: 'words', path: '/words.txt' },
+                { name: 'ts-words', path: '/ts-words.txt' },
+                { name: 'fr-words', path: '/fr-words.txt' },
+            ],
+            dictionaries: ['words'],
+            languageSettings: [
+                { languageId: ['typescript', 'javascript'], dictionaries: ['ts-words'] },
+                { languageId: '*', locale: 'fr', dictionaries: ['fr-words'] },
+            ],
+        });
+    });
+
     test('test getSettings', async () => {
         const mockFolders: WorkspaceFolder[] = [workspaceFolderRoot, workspaceFolderClient, workspaceFolderServer];
         mockGetWorkspaceFolders.mockReturnValue(Promise.resolve(mockFolders));
@@ -0,0 +1,313 @@
+import { GlobMatcher } from 'cspell-glob';
+import { readSettings, resolveFile, Text } from 'cspell-lib';
+import type { Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { isDefined } from '../utils/index.mjs';
+import type { CSpellUserSettings } from './cspellConfig/index.mjs';
+import { fixRegEx } from './documentSettings.mjs';
+
+/**
+ * - `import-not-found` - an import that cannot be resolved.
+ * - `dictionary-not-found` - the file of a dictionary definition does not exist.
+ * - `unknown-dictionary` - a name in `dictionaries` that is not defined.
+ * - `invalid-regexp` - a regular expression that cannot be parsed.
+ * - `slow-regexp` - a regular expression that might take a very long time to match.
+ * - `flagged-word` - a word that is in both `words` and `flagWords`.
+ * - `unmatched-glob` - a glob that does not match any file.
+ */
+export type SettingsProblemCode =
+    | 'import-not-found'
+    | 'dictionary-not-found'
+    | 'unknown-dictionary'
+    | 'invalid-regexp'
+    | 'slow-regexp'
+    | 'flagged-word'
+    | 'unmatched-glob';
+
+export type SettingsProblemSeverity = 'error' | 'warning' | 'info';
+
+export interface SettingsProblemFix {
+    title: string;
+    /** The new value, `undefined` to remove the value from the setting. */
+    value?: string | undefined;
+}
+
+export interface SettingsProblem {
+    code: SettingsProblemCode;
+    severity: SettingsProblemSeverity;
+    message: string;
+    /** The setting with the problem, like `dictionaries`. */
+    key: string;
+    /** The value with the problem. */
+    value: string;
+    fixes: SettingsProblemFix[];
+}
+
+export interface SettingsLinterContext {
+    /** The directory used to resolve relative paths. */
+    baseDir: string;
+    /** The names of the dictionaries defined outside of the settings. */
+    dictionaryNames: Iterable<string>;
+    /** The names of the patterns defined outside of the settings. */
+    patternNames: Iterable<string>;
+    /** The root of the globs, the globs are not checked if it is not set. */
+    globRoot?: string | undefined;
+    /** The maximum number of files and folders to look at when checking the globs. */
+    maxGlobEntries?: number | undefined;
+}
+
+const defaultMaxGlobEntries = 5000;
+/** Folders that are never searched when checking the globs. */
+const foldersToSkip = new Set(['.git']);
+/** The maximum edit distance for a dictionary name to be suggested. */
+const maxNameDistance = 2;
+
+/** A group with a quantifier, that is repeated. Like `(a+)+` or `(.*?\n?)+?`. */
+const regExpNestedQuantifier = /\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,\d*\})(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/;
+const regExpCharacterClass = /\[(?:[^\]\\]|\\.)*\]/g;
+
+/**
+ * Find problems in the settings of a cspell config file or the VS Code settings.
+ * @param settings - the settings as found in the file, the imports are not resolved.
+ * @param context - what is defined outside of the settings.
+ */
+export async function lintSettings(settings: CSpellUserSettings, context: SettingsLinterContext): Promise<SettingsProblem[]> {
+    const imports = checkImports(settings, context);
+    const imported = mergeImports(imports.found);
+    const dictionaryNames = new Set([
+        ...context.dictionaryNames,
+        ...namesOf(imported.dictionaryDefinitions),
+        ...namesOf(settings.dictionaryDefinitions),
+    ]);
+    const patternNames = new Set([...context.patternNames, ...namesOf(imported.patterns), ...namesOf(settings.patterns)]);
+
+    return [
+        ...imports.problems,
+        ...checkDictionaryDefinitions(settings, context),
+        ...checkDictionaries(settings, dictionaryNames),
+        ...checkRegExps(settings, patternNames),
+        ...checkFlaggedWords(settings),
+        ...(await checkGlobs(settings, context)),
+    ];
+}
+
+function checkImports(settings: CSpellUserSettings, context: SettingsLinterContext) {
+    const problems: SettingsProblem[] = [];
+    const found: string[] = [];
+    for (const name of toArray(settings.import)) {
+        if (hasVariable(name)) continue;
+        const resolved = resolveFile(name, context.baseDir);
+        if (resolved.found) {
+            found.push(resolved.filename);
+            continue;
+        }
+        problems.push({
+            code: 'import-not-found',
+            severity: 'error',
+            message: `Unable to find the import "${name}".`,
+            key: 'import',
+            value: name,
+            fixes: [{ title: `Remove the import "${name}"` }],
+        });
+    }
+    return { problems, found };
+}
+
+function mergeImports(filenames: string[]): CSpellUserSettings {
+    const settings = filenames.map((filename) => readSettings(filename) as CSpellUserSettings);
+    return {
+        dictionaryDefinitions: settings.flatMap((s) => s.dictionaryDefinitions ?? []),
+        patterns: settings.flatMap((s) => s.patterns ?? []),
+    };
+}
+
+function checkDictionaryDefinitions(settings: CSpellUserSettings, context: SettingsLinterContext): SettingsProblem[] {
+    const problems: SettingsProblem[] = [];
+    for (const def of settings.dictionaryDefinitions ?? []) {
+        const file = def.path;
+        if (!file || hasVariable(file) || resolveFile(file, context.baseDir).found) continue;
+        problems.push({
+            code: 'dictionary-not-found',
+            severity: 'error',
+            message: `The file of the dictionary "${def.name}" was not found: "${file}".`,
+            key: 'dictionaryDefinitions',
+            value: file,
+            fixes: [],
+        });
+    }
+    return problems;
+}
+
+function checkDictionaries(settings: CSpellUserSettings, known: Set<string>): SettingsProblem[] {
+    const problems: SettingsProblem[] = [];
+    for (const entry of settings.dictionaries ?? []) {
+        const name = entry.replace(/^!+/, '');
+        if (!name || known.has(name)) continue;
+        const suggestion = findClosestName(name, known);
+        const replacement = suggestion && entry.replace(name, suggestion);
+        const fixes: SettingsProblemFix[] = replacement ? [{ title: `Change to "${replacement}"`, value: replacement }] : [];
+        fixes.push({ title: `Remove the dictionary "${entry}"` });
+        problems.push({
+            code: 'unknown-dictionary',
+            severity: 'warning',
+            message: `Unknown dictionary "${name}".` + (suggestion ? ` Did you mean "${suggestion}"?` : ''),
+            key: 'dictionaries',
+            value: entry,
+            fixes,
+        });
+    }
+    return problems;
+}
+
+function checkRegExps(settings: CSpellUserSettings, patternNames: Set<string>): SettingsProblem[] {
+    const found: { key: string; pattern: string }[] = [
+        ...(settings.ignoreRegExpList ?? []).map((pattern) => ({ key: 'ignoreRegExpList', pattern })),
+        ...(settings.includeRegExpList ?? []).map((pattern) => ({ key: 'includeRegExpList', pattern })),
+        ...(settings.patterns ?? []).flatMap((p) => toArray(p.pattern).map((pattern) => ({ key: 'patterns', pattern }))),
+    ].filter((p): p is { key: string; pattern: string } => typeof p.pattern === 'string' && !patternNames.has(p.pattern));
+
+    return found.map(({ key, pattern }) => checkRegExp(key, pattern)).filter(isDefined);
+}
+
+function checkRegExp(key: string, pattern: string): SettingsProblem | undefined {
+    // Parse the expression the same way as the spell checker, it supports the `x` flag.
+    const regExp = Text.stringToRegExp(pattern);
+    if (!regExp) {
+        return {
+            code: 'invalid-regexp',
+            severity: 'error',
+            message: `Invalid regular expression: ${pattern}`,
+            key,
+            value: pattern,
+            fixes: [{ title: 'Remove the regular expression' }],
+        };
+    }
+    const corrected = fixRegEx(pattern);
+    if (corrected !== pattern || isSlowRegExp(regExp.source)) {
+        const fixes: SettingsProblemFix[] =
+            typeof corrected === 'string' && corrected !== pattern ? [{ title: `Change to ${corrected}`, value: corrected }] : [];
+        return {
+            code: 'slow-regexp',
+            severity: 'warning',
+            message: 'The regular expression has a repeated group with a quantifier, it might take a very long time to match.',
+            key,
+            value: pattern,
+            fixes,
+        };
+    }
+    return undefined;
+}
+
+/**
+ * A best guess if a regular expression can cause catastrophic backtracking.
+ */
+export function isSlowRegExp(source: string): boolean {
+    return regExpNestedQuantifier.test(source.replace(regExpCharacterClass, '_'));
+}
+
+function checkFlaggedWords(settings: CSpellUserSettings): SettingsProblem[] {
+    const flagged = new Set((settings.flagWords ?? []).map((w) => w.toLowerCase()));
+    return (settings.words ?? [])
+        .filter((word) => flagged.has(word.toLowerCase()))
+        .map(
+            (word): SettingsProblem => ({
+                code: 'flagged-word',
+                severity: 'warning',
+                message: `"${word}" is in both \`words\` and \`flagWords\`, it will be flagged.`,
+                key: 'words',
+                value: word,
+                fixes: [{ title: `Remove "${word}" from \`words\`` }],
+            }),
+        );
+}
+
+async function checkGlobs(settings: CSpellUserSettings, context: SettingsLinterContext): Promise<SettingsProblem[]> {
+    const root = context.globRoot;
+    if (!root) return [];
+    const isGlobToCheck = (g: unknown): g is string => typeof g === 'string' && !!g && !g.startsWith('!') && !hasVariable(g);
+    const globs = [
+        ...(settings.ignorePaths ?? []).filter(isGlobToCheck).map((glob) => ({ key: 'ignorePaths', glob, mode: 'exclude' as const })),
+        ...(settings.files ?? []).filter(isGlobToCheck).map((glob) => ({ key: 'files', glob, mode: 'include' as const })),
+    ].map((g) => ({ ...g, matcher: new GlobMatcher(g.glob, { root, mode: g.mode }) }));
+    if (!globs.length) return [];
+
+    const unmatched = new Set(globs);
+    const complete = await walkFiles(root, context.maxGlobEntries ?? defaultMaxGlobEntries, (filename) => {
+        for (const g of unmatched) {
+            g.matcher.match(filename) && unmatched.delete(g);
+        }
+        return unmatched.size > 0;
+    });
+    // Without looking at all the files, it is not known if a glob matches nothing.
+    if (!complete) return [];
+
+    return [...unmatched].map(
+        ({ key, glob }): SettingsProblem => ({
+            code: 'unmatched-glob',
+            severity: 'info',
+            message: `The glob "${glob}" does not match any files.`,
+            key,
+            value: glob,
+            fixes: [{ title: `Remove the glob "${glob}"` }],
+        }),
+    );
+}
+
+/**
+ * Visit the files and folders below `root`, breadth first.
+ * @param fn - called for each file and folder, return false to stop.
+ * @returns true if all the files were visited or `fn` asked to stop.
+ */
+async function walkFiles(root: string, maxEntries: number, fn: (filename: string) => boolean): Promise<boolean> {
+    const dirs = [root];
+    let count = 0;
+    for (let dir = dirs.shift(); dir; dir = dirs.shift()) {
+        const entries: Dirent[] = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            if (++count > maxEntries) return false;
+            const filename = path.join(dir, entry.name);
+            if (!fn(filename)) return true;
+            entry.isDirectory() && !foldersToSkip.has(entry.name) && dirs.push(filename);
+        }
+    }
+    return true;
+}
+
+function findClosestName(name: string, known: Set<string>): string | undefined {
+    let best: string | undefined;
+    let bestDistance = maxNameDistance + 1;
+    for (const candidate of known) {
+        const d = editDistance(name.toLowerCase(), candidate.toLowerCase());
+        if (d < bestDistance) {
+            best = candidate;
+            bestDistance = d;
+        }
+    }
+    return best;
+}
+
+function editDistance(a: string, b: string): number {
+    let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; ++i) {
+        const row = [i];
+        for (let j = 1; j <= b.length; ++j) {
+            row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = row;
+    }
+    return prev[b.length];
+}
+
+function namesOf(defs: { name?: string | undefined }[] | undefined): string[] {
+    return (defs ?? []).map((d) => d.name).filter(isDefined);
+}
+
+function hasVariable(value: string): boolean {
+    return value.includes('${');
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,151 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import type { CSpellUserSettings } from './cspellConfig/index.mjs';
+import type { SettingsLinterContext } from './settingsLinter.mjs';
+import { isSlowRegExp, lintSettings } from './settingsLinter.mjs';
+
+const folderDir = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(folderDir, 'temp/settingsLinter');
+
+const extJson = {
+    dictionaryDefinitions: [{ name: 'ext-words', path: './ext-words.txt' }],
+    patterns: [{ name: 'ext-pattern', pattern: '/ext/g' }],
+};
+
+describe('settingsLinter', () => {
+    beforeAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+        await writeFiles({
+            'words.txt': 'one\n',
+            'sub/ext.json': JSON.stringify(extJson),
+            'sub/ext-words.txt': 'two\n',
+            'src/code.ts': 'const one = 1;\n',
+            'node_modules/pkg/index.js': '',
+        });
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('settings without problems', async () => {
+        const settings: CSpellUserSettings = {
+            import: ['./sub/ext.json'],
+            dictionaryDefinitions: [{ name: 'project-words', path: './words.txt' }],
+            dictionaries: ['project-words', 'ext-words', 'typescript', '!softwareTerms'],
+            ignoreRegExpList: ['Urls', 'ext-pattern', '/\\bfoo\\b/g'],
+            patterns: [{ name: 'ignore-bar', pattern: '/bar/g' }],
+            words: ['one'],
+            flagWords: ['two'],
+            ignorePaths: ['src/*.ts', 'node_modules', '!src/keep.ts'],
+            files: ['**/*.ts'],
+        };
+        expect(await lintSettings(settings, sampleContext())).toEqual([]);
+    });
+
+    test('unresolved imports', async () => {
+        const problems = await lintSettings({ import: ['./sub/ext.json', './missing.json', '${workspaceFolder}/x.json'] }, sampleContext());
+        expect(problems).toEqual([
+            {
+                code: 'import-not-found',
+                severity: 'error',
+                message: 'Unable to find the import "./missing.json".',
+                key: 'import',
+                value: './missing.json',
+                fixes: [{ title: 'Remove the import "./missing.json"' }],
+            },
+        ]);
+    });
+
+    test('missing dictionary files', async () => {
+        const settings: CSpellUserSettings = { dictionaryDefinitions: [{ name: 'missing', path: './missing.txt' }] };
+        const problems = await lintSettings(settings, sampleContext());
+        expect(problems).toEqual([
+            expect.objectContaining({ code: 'dictionary-not-found', key: 'dictionaryDefinitions', value: './missing.txt' }),
+        ]);
+    });
+
+    test('unknown dictionaries', async () => {
+        const problems = await lintSettings({ dictionaries: ['typescrpt', '!unknown-words'] }, sampleContext());
+        expect(problems).toEqual([
+            {
+                code: 'unknown-dictionary',
+                severity: 'warning',
+                message: 'Unknown dictionary "typescrpt". Did you mean "typescript"?',
+                key: 'dictionaries',
+                value: 'typescrpt',
+                fixes: [{ title: 'Change to "typescript"', value: 'typescript' }, { title: 'Remove the dictionary "typescrpt"' }],
+            },
+            expect.objectContaining({ value: '!unknown-words', fixes: [{ title: 'Remove the dictionary "!unknown-words"' }] }),
+        ]);
+    });
+
+    test('regular expressions', async () => {
+        const settings: CSpellUserSettings = {
+            ignoreRegExpList: ['/[a-z/g', '/"""(.*?\\n?)+?"""/g', 'Urls', '/ \\b [a-z]+ # a word\n /gx'],
+            includeRegExpList: ['(\\w+\\s*)+$'],
+            patterns: [{ name: 'bad', pattern: ['/(/'] }],
+        };
+        const problems = await lintSettings(settings, sampleContext());
+        expect(problems.map((p) => [p.code, p.key, p.value])).toEqual([
+            ['invalid-regexp', 'ignoreRegExpList', '/[a-z/g'],
+            ['slow-regexp', 'ignoreRegExpList', '/"""(.*?\\n?)+?"""/g'],
+            ['slow-regexp', 'includeRegExpList', '(\\w+\\s*)+$'],
+            ['invalid-regexp', 'patterns', '/(/'],
+        ]);
+        expect(problems[1].fixes).toEqual([{ title: 'Change to /(""")[^\\1]*?\\1/g', value: '/(""")[^\\1]*?\\1/g' }]);
+        expect(problems[2].fixes).toEqual([]);
+    });
+
+    test('words that are flagged', async () => {
+        const problems = await lintSettings({ words: ['one', 'Two'], flagWords: ['two'] }, sampleContext());
+        expect(problems).toEqual([
+            expect.objectContaining({ code: 'flagged-word', key: 'words', value: 'Two', fixes: [{ title: 'Remove "Two" from `words`' }] }),
+        ]);
+    });
+
+    test('globs that match nothing', async () => {
+        const settings: CSpellUserSettings = { ignorePaths: ['src/*.ts', '*.md', 'src'], files: ['**/*.py'] };
+        const problems = await lintSettings(settings, sampleContext());
+        expect(problems.map((p) => [p.code, p.key, p.value])).toEqual([
+            ['unmatched-glob', 'ignorePaths', '*.md'],
+            ['unmatched-glob', 'files', '**/*.py'],
+        ]);
+        // The globs are not checked without a root or if there are too many files.
+        expect(await lintSettings(settings, { ...sampleContext(), globRoot: undefined })).toEqual([]);
+        expect(await lintSettings(settings, { ...sampleContext(), maxGlobEntries: 2 })).toEqual([]);
+    });
+
+    test.each`
+        source                       | expected
+        ${'\\bfoo\\b'}               | ${false}
+        ${'(a+)+'}                   | ${true}
+        ${'(.*?\\n?)+?'}             | ${true}
+        ${'(?:\\s+){2,}'}            | ${true}
+        ${'(foo)+'}                  | ${false}
+        ${'([+*])+'}                 | ${false}
+        ${'(\\w+)\\s(\\w+)'}         | ${false}
+        ${'<(\\w+)[^>]*>(.*)</\\1>'} | ${false}
+    `('isSlowRegExp $source', ({ source, expected }) => {
+        expect(isSlowRegExp(source)).toBe(expected);
+    });
+});
+
+function sampleContext(): SettingsLinterContext {
+    return {
+        baseDir: tempDir,
+        dictionaryNames: ['typescript', 'softwareTerms', 'en_us'],
+        patternNames: ['Urls', 'HexValues'],
+        globRoot: tempDir,
+    };
+}
+
+async function writeFiles(files: Record<string, string>) {
+    for (const [name, content] of Object.entries(files)) {
+        const filename = path.join(tempDir, name);
+        await fs.mkdir(path.dirname(filename), { recursive: true });
+        await fs.writeFile(filename, content);
+    }
+}
@@ -0,0 +1,224 @@
+import type { CSpellSettingsWithSourceTrace } from '@cspell/cspell-types';
+import { toFileUri } from '@internal/common-utils/uriHelper';
+import { promises as fs } from 'fs';
+
+import { isDefined } from '../utils/index.mjs';
+import type { CSpellUserSettings } from './cspellConfig/index.mjs';
+
+/** The id given to the VS Code settings when they are converted into cspell settings. */
+export const vscodeSettingsId = 'VSCode-Config';
+/** The id cspell-lib gives to the settings found in the document. */
+const inDocSettingsId = 'in-doc-settings';
+/** The id cspell-lib gives to its built in defaults. */
+const staticDefaultsId = 'static_defaults';
+
+/**
+ * - `default` - the defaults of cspell and the extension.
+ * - `vscode` - the VS Code settings.
+ * - `configFile` - a cspell config file.
+ * - `document` - `cspell:` directives in the document.
+ * - `calculated` - settings applied by the spell checker, like `languageSettings`.
+ */
+export type SettingSourceKind = 'default' | 'vscode' | 'configFile' | 'document' | 'calculated';
+
+export interface SettingSource {
+    kind: SettingSourceKind;
+    name: string;
+    /** The uri of the config file. */
+    uri?: string | undefined;
+    /** The uris of the config files that imported this config file, the closest first. */
+    importChain?: string[] | undefined;
+}
+
+export interface ProvenanceRef {
+    /** The index of the source in {@link SettingsProvenance.sources}. */
+    source: number;
+    /** The zero based line in the config file, if it could be found. */
+    line?: number | undefined;
+}
+
+export interface ElementProvenance extends ProvenanceRef {
+    /** The element of the list, objects are shown by their name. */
+    value: string;
+}
+
+export interface SettingsProvenance {
+    sources: SettingSource[];
+    /** The source that set each field that is not a list. */
+    fields: Record<string, ProvenanceRef>;
+    /** The source that added each element of the lists. */
+    elements: Record<string, ElementProvenance[]>;
+}
+
+interface Leaf {
+    settings: CSpellSettingsWithSourceTrace;
+    source: SettingSource;
+    filename?: string | undefined;
+}
+
+/** Fields that describe a config, they do not change how a document is checked. */
+const ignoredFields = new Set(['$schema', 'description', 'id', 'name', 'readonly', 'source', 'version']);
+
+const sourceDocument: SettingSource = { kind: 'document', name: 'In-Document Settings' };
+const sourceCalculated: SettingSource = { kind: 'calculated', name: 'Calculated' };
+
+/**
+ * Find the source of each field and each list element of the finalized settings.
+ *
+ * The sources are walked in the order they were merged, the last source of a field wins and
+ * a list element belongs to the first source that added it.
+ * @param settings - finalized settings
+ * @param isDefaultConfigFile - config files that are part of cspell or the extension.
+ */
+export async function calcSettingsProvenance(
+    settings: CSpellUserSettings,
+    isDefaultConfigFile: (filename: string) => boolean = () => false,
+): Promise<SettingsProvenance> {
+    const leaves = collectLeaves(settings, isDefaultConfigFile);
+    const importedBy = collectImportedBy(leaves);
+
+    const sources: SettingSource[] = [];
+    const sourceIndex = new Map<string, number>();
+    const fields: Record<string, ProvenanceRef> = {};
+    const elements: Record<string, ElementProvenance[]> = {};
+    const seenElements = new Map<string, Set<string>>();
+
+    function addSource(leaf: Leaf): number {
+        const { source, filename } = leaf;
+        const key = filename ?? source.kind;
+        const found = sourceIndex.get(key);
+        if (found !== undefined) return found;
+        const importChain = filename ? calcImportChain(filename, importedBy) : [];
+        const index = sources.push(importChain.length ? { ...source, importChain } : source) - 1;
+        sourceIndex.set(key, index);
+        return index;
+    }
+
+    for (const leaf of leaves) {
+        const index = addSource(leaf);
+        const lines = leaf.filename && leaf.source.kind === 'configFile' ? await readLines(leaf.filename) : undefined;
+        for (const [key, value] of Object.entries(leaf.settings)) {
+            if (value === undefined || ignoredFields.has(key) || key.startsWith('__')) continue;
+            if (!Array.isArray(value)) {
+                fields[key] = { source: index, line: lines && findLine(lines, key) };
+                continue;
+            }
+            const seen = getOrSet(seenElements, key, () => new Set<string>());
+            const list = (elements[key] ??= []);
+            for (const element of value) {
+                const label = elementToString(element);
+                if (seen.has(label)) continue;
+                seen.add(label);
+                list.push({ value: label, source: index, line: lines && findLine(lines, key, label) });
+            }
+        }
+    }
+
+    return { sources, fields, elements };
+}
+
+/**
+ * Flatten the merge tree into the settings that were merged, in merge order.
+ *
+ * The same settings can be merged more than once, the in-document settings for example.
+ * They are visited every time, so the last merge wins.
+ */
+function collectLeaves(settings: CSpellSettingsWithSourceTrace, isDefaultConfigFile: (filename: string) => boolean): Leaf[] {
+    const leaves: Leaf[] = [];
+    const ancestors = new Set<CSpellSettingsWithSourceTrace>();
+
+    function identify(node: CSpellSettingsWithSourceTrace): Omit<Leaf, 'settings'> | undefined {
+        const { id, source } = node;
+        if (id === vscodeSettingsId) return { source: { kind: 'vscode', name: 'VS Code Settings' } };
+        if (id === inDocSettingsId) return { source: sourceDocument };
+        if (id === staticDefaultsId) return { source: { kind: 'default', name: source?.name || 'Defaults' } };
+        const filename = source?.filename;
+        if (!filename) return undefined;
+        const uri = toFileUri(filename).toString();
+        const kind = isDefaultConfigFile(filename) ? 'default' : 'configFile';
+        return { source: { kind, name: source.name || uri, uri }, filename };
+    }
+
+    function walk(node: CSpellSettingsWithSourceTrace, context: Omit<Leaf, 'settings'> | undefined) {
+        if (ancestors.has(node)) return;
+        const children = node.source?.sources;
+        // cspell-lib keeps the directives found in a document next to an empty settings object with the in-doc id.
+        const found = identify(node) ?? (children?.some((c) => c.id === inDocSettingsId) ? { source: sourceDocument } : undefined);
+        const current = found ?? context;
+        if (!children?.length) {
+            leaves.push({ settings: node, ...(current ?? { source: sourceCalculated }) });
+            return;
+        }
+        ancestors.add(node);
+        children.forEach((child) => walk(child, current));
+        ancestors.delete(node);
+    }
+
+    walk(settings, undefined);
+    return leaves;
+}
+
+function collectImportedBy(leaves: Leaf[]): Map<string, string[]> {
+    const importedBy = new Map<string, string[]>();
+    for (const { settings, filename } of leaves) {
+        const refs = settings.__importRef?.referencedBy?.map((ref) => ref.filename).filter(isDefined);
+        if (!filename || !refs?.length) continue;
+        importedBy.set(filename, refs);
+    }
+    return importedBy;
+}
+
+function calcImportChain(filename: string, importedBy: Map<string, string[]>): string[] {
+    const chain: string[] = [];
+    const visited = new Set([filename]);
+    let current: string | undefined = filename;
+    while (current) {
+        const parent: string | undefined = importedBy.get(current)?.find((f) => !visited.has(f));
+        if (parent) {
+            visited.add(parent);
+            chain.push(toFileUri(parent).toString());
+        }
+        current = parent;
+    }
+    return chain;
+}
+
+function elementToString(element: unknown): string {
+    if (typeof element === 'string') return element;
+    if (element instanceof RegExp) return element.toString();
+    if (typeof element === 'object' && element && 'name' in element && typeof element.name === 'string') return element.name;
+    return JSON.stringify(element);
+}
+
+async function readLines(filename: string): Promise<string[] | undefined> {
+    try {
+        return (await fs.readFile(filename, 'utf8')).split(/\r?\n/);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Find the line of a field, or of an element of a list, in a config file.
+ * The config files can be JSON, YAML or JavaScript, so it is a best guess based upon the text.
+ */
+function findLine(lines: string[], key: string, value?: string): number | undefined {
+    const regExpKey = new RegExp(`^\\s*["']?${escapeRegExp(key)}["']?\\s*:`);
+    const keyLine = lines.findIndex((line) => regExpKey.test(line));
+    if (keyLine < 0) return undefined;
+    if (value === undefined) return keyLine;
+    const valueLine = lines.findIndex((line, i) => i >= keyLine && line.includes(value));
+    return valueLine >= 0 ? valueLine : keyLine;
+}
+
+function escapeRegExp(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function getOrSet<K, V>(map: Map<K, V>, key: K, create: () => V): V {
+    const found = map.get(key);
+    if (found !== undefined) return found;
+    const value = create();
+    map.set(key, value);
+    return value;
+}
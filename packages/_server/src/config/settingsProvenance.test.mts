@@ -0,0 +1,120 @@
+import { toFileUri } from '@internal/common-utils/uriHelper';
+import { constructSettingsForText, getDefaultSettings, mergeSettings, searchForConfig } from 'cspell-lib';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+
+import type { SettingsProvenance } from './settingsProvenance.mjs';
+import { calcSettingsProvenance, vscodeSettingsId } from './settingsProvenance.mjs';
+
+// cspell:ignore docword vsword
+
+const folderDir = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(folderDir, 'temp/settingsProvenance');
+const cspellJson = path.join(tempDir, 'cspell.json');
+const extJson = path.join(tempDir, 'sub/cspell-ext.json');
+
+const cspellJsonContent = `{
+    "version": "0.2",
+    "import": ["./sub/cspell-ext.json"],
+    "words": [
+        "alpha",
+        "beta"
+    ],
+    "language": "en"
+}
+`;
+
+const extJsonContent = `{
+    "words": ["gamma"],
+    "flagWords": ["bad"],
+    "language": "en-GB"
+}
+`;
+
+const vscodeSettings = { id: vscodeSettingsId, words: ['vsword', 'alpha'], enabled: true };
+
+describe('settingsProvenance', () => {
+    beforeAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+        await fs.mkdir(path.dirname(extJson), { recursive: true });
+        await fs.writeFile(cspellJson, cspellJsonContent);
+        await fs.writeFile(extJson, extJsonContent);
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('the last source of a field wins', async () => {
+        const provenance = await calcSettingsProvenance(await sampleSettings());
+
+        expect(sourceOfField(provenance, 'language')).toEqual({
+            kind: 'configFile',
+            name: expect.any(String),
+            uri: uri(cspellJson),
+            line: 7,
+        });
+        expect(sourceOfField(provenance, 'enabled')).toEqual({ kind: 'vscode', name: 'VS Code Settings' });
+    });
+
+    test('list elements belong to the source that added them first', async () => {
+        const provenance = await calcSettingsProvenance(await sampleSettings());
+
+        expect(sourceOfElement(provenance, 'words', 'vsword')).toEqual({ kind: 'vscode', name: 'VS Code Settings' });
+        expect(sourceOfElement(provenance, 'words', 'alpha')).toEqual({ kind: 'vscode', name: 'VS Code Settings' });
+        expect(sourceOfElement(provenance, 'words', 'beta')).toEqual(expect.objectContaining({ uri: uri(cspellJson), line: 5 }));
+        expect(sourceOfElement(provenance, 'flagWords', 'bad')).toEqual({
+            kind: 'configFile',
+            name: expect.any(String),
+            uri: uri(extJson),
+            importChain: [uri(cspellJson)],
+            line: 2,
+        });
+    });
+
+    test('in-document settings', async () => {
+        const settings = constructSettingsForText(await sampleSettings(), '// cspell:words docword\n', 'typescript');
+        const provenance = await calcSettingsProvenance(settings);
+
+        expect(sourceOfElement(provenance, 'words', 'docword')).toEqual({ kind: 'document', name: 'In-Document Settings' });
+        expect(sourceOfElement(provenance, 'words', 'beta')?.kind).toBe('configFile');
+    });
+
+    test('defaults', async () => {
+        const provenance = await calcSettingsProvenance(await sampleSettings(), (filename) => /@cspell\b/.test(filename));
+
+        expect(provenance.sources[0].kind).toBe('default');
+        expect(provenance.sources.filter((s) => s.kind === 'configFile').map((s) => s.uri)).toEqual([uri(extJson), uri(cspellJson)]);
+        expect(provenance.elements['dictionaries']?.length).toBeGreaterThan(0);
+        expect(provenance.fields['source']).toBeUndefined();
+    });
+
+    test('settings without sources', async () => {
+        const provenance = await calcSettingsProvenance({ words: ['one'], language: 'en' });
+        expect(provenance).toEqual({
+            sources: [{ kind: 'calculated', name: 'Calculated' }],
+            fields: { language: { source: 0, line: undefined } },
+            elements: { words: [{ value: 'one', source: 0, line: undefined }] },
+        });
+    });
+});
+
+async function sampleSettings() {
+    const fileSettings = await searchForConfig(tempDir);
+    return mergeSettings(await getDefaultSettings(), vscodeSettings, fileSettings || {});
+}
+
+function sourceOfField(provenance: SettingsProvenance, key: string) {
+    const ref = provenance.fields[key];
+    return ref && { ...provenance.sources[ref.source], ...(ref.line !== undefined ? { line: ref.line } : {}) };
+}
+
+function sourceOfElement(provenance: SettingsProvenance, key: string, value: string) {
+    const ref = provenance.elements[key]?.find((e) => e.value === value);
+    return ref && { ...provenance.sources[ref.source], ...(ref.line !== undefined ? { line: ref.line } : {}) };
+}
+
+function uri(filename: string): string {
+    return toFileUri(filename).toString();
+}
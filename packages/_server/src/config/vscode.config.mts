@@ -1,5 +1,5 @@
 import { log } from '@internal/common-utils/log';
-import type { ConfigurationItem, Connection } from 'vscode-languageserver/node.js';
+import type { ConfigurationItem, WorkspaceFolder } from 'vscode-languageserver/node.js';
 
 import { isDefined } from '../utils/index.mjs';
 
@@ -11,7 +11,18 @@ export interface TextDocumentUriLangId extends TextDocumentUri {
     languageId: string;
 }
 
-export function getConfiguration(connection: Connection, items: ConfigurationItem[]): Promise<unknown[]> {
+/**
+ * The part of the `Connection` used to read the configuration.
+ * It allows the settings to be resolved without a client, see `cli/vscodeWorkspace.mts`.
+ */
+export interface ConfigurationConnection {
+    workspace: {
+        getConfiguration(items: ConfigurationItem[]): Promise<unknown[]>;
+        getWorkspaceFolders(): Promise<WorkspaceFolder[] | null>;
+    };
+}
+
+export function getConfiguration(connection: ConfigurationConnection, items: ConfigurationItem[]): Promise<unknown[]> {
     const uris = items.map((p) => p.scopeUri).filter(isDefined);
     log('getConfiguration', uris);
     return connection.workspace.getConfiguration(items);
@@ -23,6 +34,6 @@ export function getConfiguration(connection: Connection, items: ConfigurationIte
  * @param connection
  */
 
-export function getWorkspaceFolders(connection: Connection) {
+export function getWorkspaceFolders(connection: ConfigurationConnection) {
     return connection.workspace.getWorkspaceFolders();
 }
@@ -0,0 +1,117 @@
+import { log } from '@internal/common-utils/log';
+import { toFileUri, toUri } from '@internal/common-utils/uriHelper';
+import type { DictionaryDefinition } from 'cspell-lib';
+import { constructSettingsForText, finalizeSettings, getDictionary, getLanguageIdsForBaseFilename, traceWords } from 'cspell-lib';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Utils as UriUtils } from 'vscode-uri';
+
+import type {
+    DictionaryInfo,
+    DictionarySource,
+    DocumentUri,
+    FindWordInDictionariesRequest,
+    FindWordInDictionariesResult,
+    GetDictionariesForDocumentResult,
+    TextDocumentInfo,
+} from './api.js';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+
+export interface DictionaryInfoDependencies {
+    getOpenDocument(uri: DocumentUri): TextDocument | undefined;
+    /**
+     * The settings that apply to a document before the in-document settings are applied.
+     * @param uri - the document, undefined for the workspace settings.
+     */
+    getSettings(uri: DocumentUri | undefined): Promise<CSpellUserSettings>;
+    /** The names of the dictionaries registered by other extensions. */
+    getRuntimeDictionaryNames(): string[];
+}
+
+export interface DictionaryInfoProvider {
+    getDictionariesForDocument(doc: Partial<TextDocumentInfo>): Promise<GetDictionariesForDocumentResult>;
+    findWordInDictionaries(req: FindWordInDictionariesRequest): Promise<FindWordInDictionariesResult>;
+}
+
+/**
+ * The dictionary definition after it has been read from a configuration file.
+ * `__source` is the file that defined it.
+ */
+type DictionaryDefinitionWithSource = DictionaryDefinition & { __source?: string; scope?: string | string[] };
+
+const regIsConfigFile = /\.(jsonc?|ya?ml|[cm]?js|toml)$/i;
+const regIsBuiltIn = /[\\/]node_modules[\\/](@cspell[\\/]|cspell-bundled-dicts[\\/])/;
+const regIsWordList = /\.txt$/i;
+const scopeOrder: DictionarySource[] = ['folder', 'workspace', 'user'];
+
+/**
+ * Look up the dictionaries used to spell check a document.
+ */
+export function createDictionaryInfoProvider(deps: DictionaryInfoDependencies): DictionaryInfoProvider {
+    async function getDictionariesForDocument(doc: Partial<TextDocumentInfo>): Promise<GetDictionariesForDocumentResult> {
+        log('getDictionariesForDocument', doc.uri);
+        const settings = await calcSettings(doc);
+        const collection = await getDictionary(settings);
+        const defs = new Map((settings.dictionaryDefinitions || []).map((def) => [def.name, def]));
+        const runtimeNames = new Set(deps.getRuntimeDictionaryNames());
+        const dictionaries = collection.dictionaries
+            .map((d) => defs.get(d.name))
+            .filter((def): def is DictionaryDefinition => !!def)
+            .map((def) => toDictionaryInfo(def, runtimeNames));
+        return { dictionaries };
+    }
+
+    async function findWordInDictionaries(req: FindWordInDictionariesRequest): Promise<FindWordInDictionariesResult> {
+        const { word } = req;
+        log('findWordInDictionaries', req.uri);
+        const settings = await calcSettings(req);
+        const results = await traceWords([word], settings, { languageId: settings.languageId, ignoreCase: false });
+        const found = results
+            .filter((r) => r.dictActive && (r.found || r.forbidden))
+            .map(({ dictName: name, foundWord, forbidden, noSuggest }) => ({ name, foundWord, forbidden, noSuggest }));
+        return { word, found };
+    }
+
+    async function calcSettings(doc: Partial<TextDocumentInfo>): Promise<CSpellUserSettings> {
+        const { uri } = doc;
+        const openDoc = uri ? deps.getOpenDocument(uri) : undefined;
+        const text = doc.text ?? openDoc?.getText() ?? '';
+        const languageId = doc.languageId || openDoc?.languageId || (uri && languageIdFromUri(uri)) || 'plaintext';
+        const baseSettings = await deps.getSettings(uri);
+        return finalizeSettings(constructSettingsForText(baseSettings, text, languageId));
+    }
+
+    return {
+        getDictionariesForDocument,
+        findWordInDictionaries,
+    };
+}
+
+function languageIdFromUri(uri: DocumentUri): string | undefined {
+    return getLanguageIdsForBaseFilename(UriUtils.basename(toUri(uri)))[0];
+}
+
+export function toDictionaryInfo(def: DictionaryDefinition, runtimeDictionaryNames: Set<string>): DictionaryInfo {
+    const d = def as DictionaryDefinitionWithSource;
+    const source = calcDictionarySource(d, runtimeDictionaryNames);
+    const configFile = source === 'config' ? d.__source : undefined;
+    const info: DictionaryInfo = {
+        name: d.name,
+        description: d.description,
+        uri: d.path ? toFileUri(d.path).toString() : undefined,
+        source,
+        configUri: configFile ? toFileUri(configFile).toString() : undefined,
+        editable: !!d.path && regIsWordList.test(d.path) && source !== 'builtIn' && source !== 'extension',
+    };
+    return info;
+}
+
+function calcDictionarySource(def: DictionaryDefinitionWithSource, runtimeDictionaryNames: Set<string>): DictionarySource {
+    if (runtimeDictionaryNames.has(def.name)) return 'extension';
+    const scopes = new Set([def.scope || []].flat());
+    const scope = scopeOrder.find((s) => scopes.has(s));
+    if (scope) return scope;
+    if (def.path && regIsBuiltIn.test(def.path)) return 'builtIn';
+    if (def.__source && regIsBuiltIn.test(def.__source)) return 'builtIn';
+    if (def.__source && regIsConfigFile.test(def.__source)) return 'config';
+    return 'other';
+}
@@ -0,0 +1,95 @@
+import { toFileUri } from '@internal/common-utils/uriHelper';
+import type { CSpellSettings, DictionaryDefinition } from 'cspell-lib';
+import { getDefaultSettings } from 'cspell-lib';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+
+import type { DictionaryInfoDependencies } from './dictionaryInfo.mjs';
+import { createDictionaryInfoProvider, toDictionaryInfo } from './dictionaryInfo.mjs';
+
+// cSpell:ignore frobnicate zorblax xyzzyq
+
+const folderDir = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(folderDir, 'temp/dictionaryInfo');
+const wordsFile = path.join(tempDir, 'project-words.txt');
+
+const timeout = 30000; // 30 seconds
+
+describe('DictionaryInfo', () => {
+    const defaultSettings = getDefaultSettings();
+    const projectWords = { name: 'project-words', path: wordsFile, scope: 'workspace' } as DictionaryDefinition;
+    const settings: CSpellSettings = {
+        ...defaultSettings,
+        dictionaryDefinitions: [...(defaultSettings.dictionaryDefinitions || []), projectWords],
+        dictionaries: [...(defaultSettings.dictionaries || []), 'project-words'],
+        flagWords: ['zorblax'],
+    };
+
+    beforeAll(async () => {
+        await fs.mkdir(tempDir, { recursive: true });
+        await fs.writeFile(wordsFile, 'frobnicate\n');
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test(
+        'getDictionariesForDocument',
+        async () => {
+            const provider = createDictionaryInfoProvider(createDeps({ getSettings: vi.fn(async () => settings) }));
+            const { dictionaries } = await provider.getDictionariesForDocument({ languageId: 'typescript' });
+            const names = dictionaries.map((d) => d.name);
+            expect(names).toContain('typescript');
+            expect(names).toContain('project-words');
+            expect(names).not.toContain('python');
+            expect(dictionaries.find((d) => d.name === 'project-words')).toEqual({
+                name: 'project-words',
+                uri: toFileUri(wordsFile).toString(),
+                source: 'workspace',
+                editable: true,
+            });
+            expect(dictionaries.find((d) => d.name === 'typescript')).toEqual(
+                expect.objectContaining({ source: 'builtIn', editable: false }),
+            );
+        },
+        timeout,
+    );
+
+    test(
+        'findWordInDictionaries',
+        async () => {
+            const provider = createDictionaryInfoProvider(createDeps({ getSettings: vi.fn(async () => settings) }));
+            await expect(provider.findWordInDictionaries({ word: 'frobnicate' })).resolves.toEqual({
+                word: 'frobnicate',
+                found: [{ name: 'project-words', foundWord: 'frobnicate', forbidden: false, noSuggest: false }],
+            });
+            const zorblax = await provider.findWordInDictionaries({ word: 'zorblax' });
+            expect(zorblax.found).toEqual([expect.objectContaining({ name: '[flagWords]', forbidden: true })]);
+            await expect(provider.findWordInDictionaries({ word: 'xyzzyq' })).resolves.toEqual({ word: 'xyzzyq', found: [] });
+        },
+        timeout,
+    );
+
+    test.each`
+        def                                                                            | runtime  | expected
+        ${{ name: 'a', path: '/words.txt', scope: ['user', 'folder'] }}                | ${[]}    | ${{ source: 'folder', editable: true }}
+        ${{ name: 'a', path: '/words.txt', __source: '/project/cspell.json' }}         | ${[]}    | ${{ source: 'config', editable: true, configUri: 'file:///project/cspell.json' }}
+        ${{ name: 'a', path: '/words.txt' }}                                           | ${['a']} | ${{ source: 'extension', editable: false }}
+        ${{ name: 'a', path: '/node_modules/@cspell/dict-a/a.txt' }}                   | ${[]}    | ${{ source: 'builtIn', editable: false }}
+        ${{ name: 'a', path: '/words.trie', __source: '/project/cspell.config.yaml' }} | ${[]}    | ${{ source: 'config', editable: false }}
+        ${{ name: 'a', path: '/words.txt', __source: '/project' }}                     | ${[]}    | ${{ source: 'other', editable: true }}
+    `('toDictionaryInfo $def $runtime', ({ def, runtime, expected }) => {
+        expect(toDictionaryInfo(def, new Set(runtime))).toEqual(expect.objectContaining(expected));
+    });
+});
+
+function createDeps(deps: Partial<DictionaryInfoDependencies> = {}) {
+    return {
+        getOpenDocument: vi.fn(() => undefined),
+        getSettings: vi.fn(async () => getDefaultSettings()),
+        getRuntimeDictionaryNames: vi.fn(() => []),
+        ...deps,
+    } satisfies DictionaryInfoDependencies;
+}
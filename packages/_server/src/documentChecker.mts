@@ -0,0 +1,104 @@
+import { log } from '@internal/common-utils/log';
+import { toUri } from '@internal/common-utils/uriHelper';
+import { constructSettingsForText, getLanguageIdsForBaseFilename } from 'cspell-lib';
+import * as fs from 'fs/promises';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Utils as UriUtils } from 'vscode-uri';
+
+import type { CheckDocumentOptions, CheckDocumentResult, CheckTextRequest, DocumentUri, TextDocumentInfo } from './api.js';
+import { calcCommitMessageSettings } from './commitMessages.mjs';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { correctBadSettings, isLanguageEnabled } from './config/documentSettings.mjs';
+import { calcTranslationFileSettings } from './translationFiles.mjs';
+import { isTextLikelyMinifiedForSettings } from './utils/analysis.mjs';
+import * as Validator from './validator.mjs';
+
+/** The uri used for text that is not associated with a document. */
+const textUri = 'untitled:text';
+
+export interface DocumentCheckerDependencies {
+    getOpenDocument(uri: DocumentUri): TextDocument | undefined;
+    /**
+     * The settings that apply to a document before the in-document settings are applied.
+     * @param uri - the document, undefined for the workspace settings.
+     */
+    getSettings(uri: DocumentUri | undefined): Promise<CSpellUserSettings>;
+    /** true if the file is excluded by the `files`, `ignorePaths` or `.gitignore`. */
+    isExcluded(uri: DocumentUri): Promise<boolean>;
+}
+
+export interface DocumentChecker {
+    checkDocument(doc: TextDocumentInfo, options?: CheckDocumentOptions): Promise<CheckDocumentResult>;
+    checkText(req: CheckTextRequest): Promise<CheckDocumentResult>;
+}
+
+/**
+ * Spell check documents and text on request. The issues are returned, not published.
+ */
+export function createDocumentChecker(deps: DocumentCheckerDependencies): DocumentChecker {
+    async function checkDocument(docInfo: TextDocumentInfo, options: CheckDocumentOptions = {}): Promise<CheckDocumentResult> {
+        log('checkDocument', docInfo.uri);
+        const doc = await resolveTextDocument(docInfo);
+        if (!doc) return { uri: docInfo.uri, issues: [], skipped: true };
+        return check(doc, doc.uri, options);
+    }
+
+    function checkText(req: CheckTextRequest): Promise<CheckDocumentResult> {
+        const { text, languageId = 'plaintext', uri } = req;
+        log('checkText', uri);
+        const doc = TextDocument.create(uri || textUri, languageId, 0, text);
+        return check(doc, uri, req);
+    }
+
+    async function check(
+        doc: TextDocument,
+        settingsUri: DocumentUri | undefined,
+        options: CheckDocumentOptions,
+    ): Promise<CheckDocumentResult> {
+        const skipped: CheckDocumentResult = { uri: doc.uri, issues: [], skipped: true };
+        const baseSettings = await deps.getSettings(settingsUri);
+        const fileSettings = calcCommitMessageSettings(doc, baseSettings) || calcTranslationFileSettings(doc, baseSettings) || baseSettings;
+        const settings = correctBadSettings(constructSettingsForText(fileSettings, doc.getText(), doc.languageId));
+        if (!options.forceCheck) {
+            if (!settings.enabled || !isLanguageEnabled(doc.languageId, settings)) return skipped;
+            if (settingsUri && (await deps.isExcluded(settingsUri))) return skipped;
+        }
+        const blockedReason = isTextLikelyMinifiedForSettings(doc.getText(), settings);
+        if (blockedReason) return { ...skipped, blockedReason };
+        const issues = await Validator.validateTextDocument(
+            doc,
+            { ...settings, enabled: true },
+            { generateSuggestions: true, numSuggestions: settings.numSuggestions },
+        );
+        return { uri: doc.uri, issues, skipped: false };
+    }
+
+    /**
+     * Use the given text, the open document or the file in that order.
+     */
+    async function resolveTextDocument(docInfo: TextDocumentInfo): Promise<TextDocument | undefined> {
+        const { uri, text, languageId, version = 0 } = docInfo;
+        const openDoc = deps.getOpenDocument(uri);
+        if (openDoc && text === undefined) return openDoc;
+        const docText = text ?? (await readFile(uri));
+        if (docText === undefined) return undefined;
+        const langId = languageId || openDoc?.languageId || getLanguageIdsForBaseFilename(UriUtils.basename(toUri(uri)))[0] || 'plaintext';
+        return TextDocument.create(uri, langId, version, docText);
+    }
+
+    return {
+        checkDocument,
+        checkText,
+    };
+}
+
+async function readFile(uri: DocumentUri): Promise<string | undefined> {
+    const u = toUri(uri);
+    if (u.scheme !== 'file') return undefined;
+    try {
+        return await fs.readFile(u.fsPath, 'utf8');
+    } catch (e) {
+        log('checkDocument: unable to read file', uri);
+        return undefined;
+    }
+}
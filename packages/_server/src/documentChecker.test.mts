@@ -0,0 +1,113 @@
+import { toFileUri } from '@internal/common-utils/uriHelper';
+import type { CSpellSettings } from 'cspell-lib';
+import { getDefaultSettings } from 'cspell-lib';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { DocumentCheckerDependencies } from './documentChecker.mjs';
+import { createDocumentChecker } from './documentChecker.mjs';
+
+// cSpell:ignore brouwn wrongg
+
+const folderDir = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(folderDir, 'temp/documentChecker');
+
+const settings: CSpellSettings = { ...getDefaultSettings(), enabled: true, enabledLanguageIds: ['markdown', 'plaintext', 'typescript'] };
+
+const timeout = 30000; // 30 seconds
+
+describe('DocumentChecker', () => {
+    const fileUri = toFileUri(path.join(tempDir, 'code.ts')).toString();
+
+    beforeAll(async () => {
+        await fs.mkdir(tempDir, { recursive: true });
+        await fs.writeFile(path.join(tempDir, 'code.ts'), 'const wrongg = 1;\n');
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test(
+        'checkText',
+        async () => {
+            const checker = createDocumentChecker(createDeps());
+            const result = await checker.checkText({ text: 'The quick brouwn fox.' });
+            expect(result).toEqual({
+                uri: 'untitled:text',
+                issues: [expect.objectContaining({ message: expect.any(String) })],
+                skipped: false,
+            });
+            const [issue] = result.issues;
+            expect(issue.range).toEqual({ start: { line: 0, character: 10 }, end: { line: 0, character: 16 } });
+            expect(issue.data?.suggestions?.map((s) => s.word)).toContain('brown');
+        },
+        timeout,
+    );
+
+    test(
+        'checkDocument reads the file',
+        async () => {
+            const deps = createDeps();
+            const checker = createDocumentChecker(deps);
+            const result = await checker.checkDocument({ uri: fileUri });
+            expect(result.skipped).toBe(false);
+            expect(result.issues.map((i) => i.data?.text)).toEqual(['wrongg']);
+            expect(deps.isExcluded).toHaveBeenCalledWith(fileUri);
+        },
+        timeout,
+    );
+
+    test(
+        'checkDocument prefers the given text and then the open document',
+        async () => {
+            const openDoc = TextDocument.create(fileUri, 'typescript', 3, 'const brouwn = 1;\n');
+            const checker = createDocumentChecker(createDeps({ getOpenDocument: () => openDoc }));
+            const fromOpen = await checker.checkDocument({ uri: fileUri });
+            expect(fromOpen.issues.map((i) => i.data?.text)).toEqual(['brouwn']);
+            const fromText = await checker.checkDocument({ uri: fileUri, text: 'const fine = 1;\n' });
+            expect(fromText).toEqual({ uri: fileUri, issues: [], skipped: false });
+        },
+        timeout,
+    );
+
+    test('checkDocument skips missing files', async () => {
+        const checker = createDocumentChecker(createDeps());
+        const uri = toFileUri(path.join(tempDir, 'missing.ts')).toString();
+        await expect(checker.checkDocument({ uri })).resolves.toEqual({ uri, issues: [], skipped: true });
+    });
+
+    test(
+        'forceCheck',
+        async () => {
+            const checker = createDocumentChecker(createDeps({ isExcluded: vi.fn(async () => true) }));
+            const req = { uri: fileUri, text: 'The quick brouwn fox.', languageId: 'python' };
+            await expect(checker.checkText(req)).resolves.toEqual({ uri: fileUri, issues: [], skipped: true });
+            const result = await checker.checkText({ ...req, forceCheck: true });
+            expect(result.issues.map((i) => i.data?.text)).toEqual(['brouwn']);
+        },
+        timeout,
+    );
+
+    test('blocked text', async () => {
+        const checker = createDocumentChecker(createDeps());
+        const text = 'a'.repeat(20000);
+        await expect(checker.checkText({ text })).resolves.toEqual({
+            uri: 'untitled:text',
+            issues: [],
+            skipped: true,
+            blockedReason: expect.objectContaining({ code: expect.any(String) }),
+        });
+    });
+});
+
+function createDeps(deps: Partial<DocumentCheckerDependencies> = {}) {
+    return {
+        getOpenDocument: vi.fn(() => undefined),
+        getSettings: vi.fn(async () => settings),
+        isExcluded: vi.fn(async () => false),
+        ...deps,
+    } satisfies DocumentCheckerDependencies;
+}
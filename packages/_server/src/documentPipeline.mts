@@ -0,0 +1,100 @@
+import * as CSpell from 'cspell-lib';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Diagnostic } from 'vscode-languageserver-types';
+
+import type { BaselineManager } from './baseline.mjs';
+import { isBaselined } from './baseline.mjs';
+import { calcCommitMessageSettings } from './commitMessages.mjs';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { correctBadSettings } from './config/documentSettings.mjs';
+import type { ChangedLinesFilter } from './gitChangedLines.mjs';
+import type { LocaleDetector } from './localeDetector.mjs';
+import type { NotebookText } from './notebooks.mjs';
+import { calcNotebookFileSettings } from './notebooks.mjs';
+import type { ScopeFilter } from './textMateScopes.mjs';
+import { calcTranslationFileSettings } from './translationFiles.mjs';
+import { applyProblemLimits, liftProblemLimits } from './validator.mjs';
+
+export interface DocumentPipelineDependencies {
+    localeDetector: LocaleDetector;
+    scopeFilter: ScopeFilter;
+    changedLinesFilter: ChangedLinesFilter;
+    baselineManager?: BaselineManager | undefined;
+}
+
+/**
+ * Apply the problem limits, the baselined issues are not reported as problems and have their own limits.
+ */
+function applyLimits<T extends Diagnostic>(diagnostics: T[], settings: CSpellUserSettings): T[] {
+    const problems = applyProblemLimits(
+        diagnostics.filter((diag) => !isBaselined(diag)),
+        settings,
+    ).diagnostics;
+    const baselined = applyProblemLimits(diagnostics.filter(isBaselined), settings).diagnostics;
+    const keep = new Set<Diagnostic>([...problems, ...baselined]);
+    return diagnostics.filter((diag) => keep.has(diag));
+}
+
+/**
+ * The steps used to check a document. They are shared by the server and the cli, so both report the same issues.
+ */
+export interface DocumentPipeline {
+    /**
+     * Calculate the settings used to check a document.
+     * Commit messages, translation files, and notebook files have their own settings, the locale of other documents
+     * can be detected. The in-document settings are applied.
+     * @param doc - the document
+     * @param baseSettings - the settings for the document with the defaults applied.
+     * @param notebook - the notebook text if the document is a notebook cell, the in-document settings of all cells apply.
+     */
+    calcSettings(doc: TextDocument, baseSettings: CSpellUserSettings, notebook?: NotebookText): Promise<CSpellUserSettings>;
+    /**
+     * The settings used to validate a document.
+     * The limits on the number of problems are lifted if diagnostics can be removed by `filterDiagnostics`,
+     * otherwise the issues beyond the limit would never be reported.
+     * @param doc - the document
+     * @param settings - the settings from `calcSettings`.
+     */
+    calcValidationSettings(doc: TextDocument, settings: CSpellUserSettings): CSpellUserSettings;
+    /**
+     * Apply `checkScopes`, the baseline, and `reportChangedLinesOnly` to the diagnostics found in a document.
+     * The limits on the number of problems are applied to the remaining diagnostics.
+     * @param doc - the document
+     * @param settings - the settings from `calcSettings`.
+     * @param diagnostics - the diagnostics found using the settings from `calcValidationSettings`.
+     */
+    filterDiagnostics<T extends Diagnostic>(doc: TextDocument, settings: CSpellUserSettings, diagnostics: T[]): Promise<T[]>;
+}
+
+export function createDocumentPipeline(deps: DocumentPipelineDependencies): DocumentPipeline {
+    async function calcSettings(doc: TextDocument, baseSettings: CSpellUserSettings, notebook?: NotebookText) {
+        const textDoc = notebook?.document || doc;
+        const settings =
+            calcCommitMessageSettings(doc, baseSettings) ||
+            calcTranslationFileSettings(doc, baseSettings) ||
+            calcNotebookFileSettings(doc, baseSettings) ||
+            (await deps.localeDetector.applyToSettings(textDoc, baseSettings));
+        return correctBadSettings(CSpell.constructSettingsForText(settings, textDoc.getText(), doc.languageId));
+    }
+
+    function isFiltered(doc: TextDocument, settings: CSpellUserSettings): boolean {
+        return (
+            deps.scopeFilter.isActive(doc, settings) ||
+            !!deps.baselineManager?.isActive(doc) ||
+            deps.changedLinesFilter.isActive(doc, settings)
+        );
+    }
+
+    function calcValidationSettings(doc: TextDocument, settings: CSpellUserSettings): CSpellUserSettings {
+        return isFiltered(doc, settings) ? liftProblemLimits(settings) : settings;
+    }
+
+    async function filterDiagnostics<T extends Diagnostic>(doc: TextDocument, settings: CSpellUserSettings, diagnostics: T[]) {
+        const inScope = await deps.scopeFilter.filterDiagnostics(doc, settings, diagnostics);
+        const found = deps.baselineManager ? await deps.baselineManager.applyBaseline(doc, settings, inScope) : inScope;
+        const changed = await deps.changedLinesFilter.filterDiagnostics(doc, settings, found);
+        return isFiltered(doc, settings) ? applyLimits(changed, settings) : changed;
+    }
+
+    return { calcSettings, calcValidationSettings, filterDiagnostics };
+}
@@ -0,0 +1,129 @@
+import { getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test, vi } from 'vitest';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import type { DocumentPipelineDependencies } from './documentPipeline.mjs';
+import { createDocumentPipeline } from './documentPipeline.mjs';
+import { createLocaleDetector } from './localeDetector.mjs';
+
+// cspell:ignore wrogn
+
+const timeout = 30000; // 30 seconds
+
+describe('documentPipeline', () => {
+    const settings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en,en-GB', checkTranslationFiles: true };
+
+    test(
+        'calcSettings',
+        async () => {
+            const localeDetector = createLocaleDetector();
+            const applyToSettings = vi.spyOn(localeDetector, 'applyToSettings');
+            const pipeline = createDocumentPipeline({ ...createDeps(), localeDetector });
+
+            const translation = TextDocument.create('file:///project/locales/en-GB.json', 'json', 1, '{ "a": "b" }');
+            expect((await pipeline.calcSettings(translation, settings)).language).toBe('en-GB');
+            expect(applyToSettings).not.toHaveBeenCalled();
+
+            const doc = TextDocument.create('file:///project/notes.md', 'markdown', 1, '// cspell:words wrogn\nText');
+            const docSettings = await pipeline.calcSettings(doc, settings);
+            expect(applyToSettings).toHaveBeenCalledTimes(1);
+            // The in-document settings are applied.
+            const inDocWords = docSettings.dictionaryDefinitions?.flatMap((def) => ('words' in def && def.words) || []);
+            expect(inDocWords).toContain('wrogn');
+        },
+        timeout,
+    );
+
+    test('filterDiagnostics', async () => {
+        const deps = createDeps();
+        const pipeline = createDocumentPipeline(deps);
+        const doc = TextDocument.create('file:///project/notes.md', 'markdown', 1, 'one two three');
+        const diags: Diagnostic[] = [0, 1, 2].map((line) => ({
+            range: { start: { line, character: 0 }, end: { line, character: 3 } },
+            message: '',
+        }));
+        const result = await pipeline.filterDiagnostics(doc, settings, diags);
+        expect(result).toEqual([diags[2]]);
+        expect(deps.scopeFilter.filterDiagnostics).toHaveBeenCalledWith(doc, settings, diags);
+        expect(deps.baselineManager?.applyBaseline).toHaveBeenCalledWith(doc, settings, diags.slice(1));
+        expect(deps.changedLinesFilter.filterDiagnostics).toHaveBeenCalledWith(doc, settings, diags.slice(1));
+    });
+
+    test('the problem limits are applied after filtering', async () => {
+        const deps = createDeps();
+        deps.changedLinesFilter.isActive.mockReturnValue(true);
+        deps.changedLinesFilter.filterDiagnostics.mockImplementation(async (_d, _s, diags) => diags.slice(2));
+        const pipeline = createDocumentPipeline(deps);
+        const doc = TextDocument.create('file:///project/notes.md', 'markdown', 1, 'one two three four five');
+        const limited = { ...settings, maxNumberOfProblems: 1 };
+        const diags: Diagnostic[] = [0, 1, 2, 3, 4].map((line) => ({
+            range: { start: { line, character: 0 }, end: { line, character: 3 } },
+            message: '',
+            data: { text: `word${line}` },
+        }));
+
+        const validationSettings = pipeline.calcValidationSettings(doc, limited);
+        expect(validationSettings.maxNumberOfProblems).toBeGreaterThan(diags.length);
+        expect(validationSettings.maxDuplicateProblems).toBeGreaterThan(diags.length);
+        expect(await pipeline.filterDiagnostics(doc, limited, diags)).toEqual([diags[3]]);
+    });
+
+    test('baselined issues do not count towards the problem limits', async () => {
+        const deps = createDeps();
+        deps.baselineManager.isActive.mockReturnValue(true);
+        deps.baselineManager.applyBaseline.mockImplementation(async (_d, _s, diags) =>
+            diags.map((diag, i) => (i < 2 ? { ...diag, data: { ...diag.data, isBaselined: true } } : diag)),
+        );
+        deps.changedLinesFilter.filterDiagnostics.mockImplementation(async (_d, _s, diags) => diags);
+        const pipeline = createDocumentPipeline(deps);
+        const doc = TextDocument.create('file:///project/notes.md', 'markdown', 1, 'one two three four five');
+        const limited = { ...settings, maxNumberOfProblems: 1 };
+        const diags: Diagnostic[] = [0, 1, 2, 3, 4].map((line) => ({
+            range: { start: { line, character: 0 }, end: { line, character: 3 } },
+            message: '',
+            data: { text: `word${line}` },
+        }));
+
+        expect(pipeline.calcValidationSettings(doc, limited).maxNumberOfProblems).toBeGreaterThan(diags.length);
+        const result = await pipeline.filterDiagnostics(doc, limited, diags);
+        expect(result.map((d) => [d.range.start.line, !!d.data.isBaselined])).toEqual([
+            [1, true],
+            [3, false],
+        ]);
+    });
+
+    test('the limits are kept when nothing is filtered', () => {
+        const pipeline = createDocumentPipeline(createDeps());
+        const doc = TextDocument.create('file:///project/notes.md', 'markdown', 1, 'one');
+        const limited = { ...settings, maxNumberOfProblems: 2 };
+        expect(pipeline.calcValidationSettings(doc, limited)).toBe(limited);
+    });
+});
+
+/**
+ * The scope filter removes the first diagnostic, the changed lines filter keeps the last.
+ */
+function createDeps() {
+    return {
+        localeDetector: createLocaleDetector(),
+        scopeFilter: {
+            setGrammars: vi.fn(),
+            filterDiagnostics: vi.fn(async <T,>(_d: unknown, _s: unknown, diags: T[]) => diags.slice(1)),
+            isActive: vi.fn(() => false),
+        },
+        changedLinesFilter: {
+            clear: vi.fn(),
+            filterDiagnostics: vi.fn(async <T,>(_d: unknown, _s: unknown, diags: T[]) => diags.slice(-1)),
+            isActive: vi.fn(() => false),
+        },
+        baselineManager: {
+            applyBaseline: vi.fn(async <T,>(_d: unknown, _s: unknown, diags: T[]) => diags),
+            isActive: vi.fn(() => false),
+            updateBaseline: vi.fn(),
+            delete: vi.fn(),
+            clear: vi.fn(),
+        },
+    } satisfies DocumentPipelineDependencies;
+}
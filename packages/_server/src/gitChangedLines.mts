@@ -0,0 +1,238 @@
+import { log } from '@internal/common-utils/log';
+import { toUri } from '@internal/common-utils/uriHelper';
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { promisify } from 'util';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Diagnostic } from 'vscode-languageserver-types';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { isScmUri } from './config/docUriHelper.mjs';
+
+const execFileAsync = promisify(execFile);
+
+const defaultBaseBranch = 'main';
+const gitTimeoutMs = 10_000;
+const gitMaxBuffer = 64 * 1024 * 1024;
+/** How long the base version of a file is reused before asking git again, it changes on commit, checkout, or stage. */
+const baseTextMaxAgeMs = 10_000;
+/** Larger differences are treated as a rewrite of the file, to limit the cost of the diff. */
+const maxDiffEditDistance = 2_000;
+
+const regExpLineBreak = /\r?\n/;
+
+export interface ChangedLinesDependencies {
+    /** Find the root of the git repository that contains the file. */
+    fetchRepoRoot: (uri: string) => Promise<string | undefined>;
+}
+
+export interface ChangedLinesFilter {
+    /**
+     * Remove the diagnostics that are not on lines added or changed since the git base,
+     * see `reportChangedLinesOnly`.
+     */
+    filterDiagnostics<T extends Diagnostic>(doc: TextDocument, settings: CSpellUserSettings, diagnostics: T[]): Promise<T[]>;
+    /** Check if diagnostics of the document can be removed by `filterDiagnostics`. */
+    isActive(doc: TextDocument, settings: CSpellUserSettings): boolean;
+    /** Forget the changed lines, needed when the settings change. */
+    clear(): void;
+}
+
+interface CachedChangedLines {
+    /** The hash of the text, the documents found by a workspace check do not have a version. */
+    hash: string;
+    base: string;
+    lines: Promise<Set<number> | undefined>;
+}
+
+interface CachedBaseText {
+    base: string;
+    timestamp: number;
+    /** The text of the file at the git base, undefined if the file is new. */
+    text: Promise<string | undefined>;
+}
+
+export function createChangedLinesFilter(deps: ChangedLinesDependencies): ChangedLinesFilter {
+    const cache = new Map<string, CachedChangedLines>();
+    const baseTexts = new Map<string, CachedBaseText>();
+
+    function getChangedLines(doc: TextDocument, settings: CSpellUserSettings): Promise<Set<number> | undefined> {
+        const { reportChangedLinesOnly: mode, changedLinesBaseBranch = defaultBaseBranch } = settings;
+        const base = `${mode}:${changedLinesBaseBranch}`;
+        const hash = createHash('sha1').update(doc.getText()).digest('hex');
+        const cached = cache.get(doc.uri);
+        if (cached?.hash === hash && cached.base === base) return cached.lines;
+        const lines = calcChangedLinesForDocument(doc, settings, base).catch((e) => {
+            log(`Unable to calculate the changed lines: ${e instanceof Error ? e.message : e}`, doc.uri);
+            return undefined;
+        });
+        cache.set(doc.uri, { hash, base, lines });
+        return lines;
+    }
+
+    async function calcChangedLinesForDocument(
+        doc: TextDocument,
+        settings: CSpellUserSettings,
+        base: string,
+    ): Promise<Set<number> | undefined> {
+        if (toUri(doc.uri).scheme !== 'file') return undefined;
+        const baseText = await getBaseText(doc.uri, settings, base);
+        // The file is new, every line has changed.
+        if (baseText === undefined) return undefined;
+        return calcChangedLines(baseText, doc.getText());
+    }
+
+    /**
+     * Get the text of the file at the git base, it is shared by all the versions of the document
+     * to avoid running git on every change.
+     */
+    function getBaseText(uri: string, settings: CSpellUserSettings, base: string): Promise<string | undefined> {
+        const now = Date.now();
+        const cached = baseTexts.get(uri);
+        if (cached?.base === base && now - cached.timestamp < baseTextMaxAgeMs) return cached.text;
+        const text = fetchBaseText(uri, settings);
+        // Do not keep failures, they are retried on the next change.
+        text.catch(() => baseTexts.get(uri)?.text === text && baseTexts.delete(uri));
+        baseTexts.set(uri, { base, timestamp: now, text });
+        return text;
+    }
+
+    async function fetchBaseText(uri: string, settings: CSpellUserSettings): Promise<string | undefined> {
+        const root = await deps.fetchRepoRoot(uri);
+        if (!root) return undefined;
+        const relPath = path.relative(root, toUri(uri).fsPath).split(path.sep).join('/');
+        const rev = await resolveBaseRevision(root, settings);
+        return git(root, ['show', `${rev}:${relPath}`]).catch(() => undefined);
+    }
+
+    function isActive(doc: TextDocument, settings: CSpellUserSettings): boolean {
+        const mode = settings.reportChangedLinesOnly;
+        // Commit messages are always new.
+        return !!mode && mode !== 'off' && !isScmUri(doc.uri);
+    }
+
+    async function filterDiagnostics<T extends Diagnostic>(
+        doc: TextDocument,
+        settings: CSpellUserSettings,
+        diagnostics: T[],
+    ): Promise<T[]> {
+        if (!diagnostics.length || !isActive(doc, settings)) return diagnostics;
+        const lines = await getChangedLines(doc, settings);
+        if (!lines) return diagnostics;
+        return diagnostics.filter((diag) => lines.has(diag.range.start.line));
+    }
+
+    return {
+        filterDiagnostics,
+        isActive,
+        clear: () => {
+            cache.clear();
+            baseTexts.clear();
+        },
+    };
+}
+
+/**
+ * Determine the git revision to compare against.
+ * @returns the revision, an empty string is the index (staged changes).
+ */
+async function resolveBaseRevision(root: string, settings: CSpellUserSettings): Promise<string> {
+    switch (settings.reportChangedLinesOnly) {
+        case 'staged':
+            return '';
+        case 'merge-base':
+            return (await git(root, ['merge-base', 'HEAD', settings.changedLinesBaseBranch || defaultBaseBranch])).trim();
+    }
+    return 'HEAD';
+}
+
+/**
+ * Calculate the lines in `text` that were added or changed compared to `baseText`.
+ * Line endings are ignored.
+ * @returns the zero based line numbers.
+ */
+export function calcChangedLines(baseText: string, text: string): Set<number> {
+    // `git show` does not apply the checkout filters, the line endings can differ from the file on disk.
+    const a = baseText.split(regExpLineBreak);
+    const b = text.split(regExpLineBreak);
+    // Only the lines between the common prefix and suffix need to be compared.
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) ++start;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        --endA;
+        --endB;
+    }
+    const inserted = calcInsertedLines(a.slice(start, endA), b.slice(start, endB));
+    return new Set(inserted.map((i) => start + i));
+}
+
+/**
+ * Find the lines in `b` that are not part of the longest common subsequence of `a` and `b`,
+ * using the Myers diff algorithm, the same default algorithm as git.
+ * @returns the indexes into `b`.
+ */
+function calcInsertedLines(a: string[], b: string[]): number[] {
+    const n = a.length;
+    const m = b.length;
+    if (!n || !m) return b.map((_, i) => i);
+    const maxD = Math.min(n + m, maxDiffEditDistance);
+    // v[offset + k] is the furthest x reached on diagonal k = x - y.
+    const offset = maxD + 1;
+    const v = new Int32Array(2 * maxD + 3);
+    /** trace[d] holds v[offset - d] to v[offset + d] at the end of step d. */
+    const trace: Int32Array[] = [];
+    for (let d = 0; d <= maxD; ++d) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                ++x;
+                ++y;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) return backtrack(trace, d, n, m);
+        }
+        trace.push(v.slice(offset - d, offset + d + 1));
+    }
+    // Too many differences, treat every line as changed.
+    return b.map((_, i) => i);
+}
+
+function backtrack(trace: Int32Array[], d: number, n: number, m: number): number[] {
+    const inserted: number[] = [];
+    let x = n;
+    let y = m;
+    for (; d > 0; --d) {
+        const prev = trace[d - 1];
+        // prev is indexed by k + d - 1
+        const vAt = (k: number) => prev[k + d - 1];
+        const k = x - y;
+        const down = k === -d || (k !== d && vAt(k - 1) < vAt(k + 1));
+        const prevK = down ? k + 1 : k - 1;
+        const prevX = vAt(prevK);
+        const prevY = prevX - prevK;
+        if (down) inserted.push(prevY);
+        x = prevX;
+        y = prevY;
+    }
+    return inserted.reverse();
+}
+
+/**
+ * Run a git command locally.
+ * @param cwd - the directory to run the command in.
+ * @param args - the arguments.
+ * @returns stdout
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+        cwd,
+        timeout: gitTimeoutMs,
+        maxBuffer: gitMaxBuffer,
+        env: { ...process.env, GIT_OPTIONAL_LOCKS: '0' },
+    });
+    return stdout;
+}
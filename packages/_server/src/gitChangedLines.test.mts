@@ -0,0 +1,143 @@
+import { toFileUri } from '@internal/common-utils/uriHelper';
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { afterAll, beforeAll, describe, expect, test, vi } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Diagnostic } from 'vscode-languageserver-types';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { calcChangedLines, createChangedLinesFilter } from './gitChangedLines.mjs';
+
+// cspell:ignore gpgsign
+
+const execFileAsync = promisify(execFile);
+
+const folderDir = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(folderDir, 'temp/gitChangedLines');
+
+const timeout = 30000; // 30 seconds
+
+describe('gitChangedLines', () => {
+    const fileUri = toFileUri(path.join(tempDir, 'sample.txt')).toString();
+
+    beforeAll(async () => {
+        await fs.mkdir(tempDir, { recursive: true });
+        await fs.writeFile(path.join(tempDir, 'sample.txt'), 'one\ntwo\nthree\n');
+        await git('init', '-q', '-b', 'main');
+        await git('add', '.');
+        await git('commit', '-q', '-m', 'first');
+        await git('checkout', '-q', '-b', 'feature');
+        await fs.writeFile(path.join(tempDir, 'sample.txt'), 'one\ntwo\nthree\nfour\n');
+        await git('commit', '-q', '-am', 'second');
+        await fs.writeFile(path.join(tempDir, 'sample.txt'), 'one\ntwo\nthree\nfour\nfive\n');
+        await git('add', '.');
+    }, timeout);
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test.each`
+        base                               | text                                          | expected
+        ${'a\nb\nc\n'}                     | ${'a\nB\nc\nd\n'}                             | ${[1, 3]}
+        ${'a\nb\n'}                        | ${'a\nb\n'}                                   | ${[]}
+        ${''}                              | ${'a\nb\n'}                                   | ${[0, 1]}
+        ${'a\nb\n'}                        | ${''}                                         | ${[]}
+        ${'one\ntwo\nthree\nfour\nfive\n'} | ${'zero\none\nthree\nfour\n4.5\nfive\nsix\n'} | ${[0, 4, 6]}
+        ${'x\na\nb\nc\nx\n'}               | ${'x\nc\nb\na\nx\n'}                          | ${[2, 3]}
+        ${'a\nb\nc\n'}                     | ${'a\r\nB\r\nc\r\n'}                          | ${[1]}
+    `('calcChangedLines $text', ({ base, text, expected }) => {
+        expect([...calcChangedLines(base, text)].sort((a, b) => a - b)).toEqual(expected);
+    });
+
+    test('calcChangedLines with many changes', () => {
+        const base = Array.from({ length: 5000 }, (_, i) => `line ${i}`).join('\n');
+        const text = Array.from({ length: 5000 }, (_, i) => (i % 2 ? `line ${i}` : `changed ${i}`)).join('\n');
+        const changed = calcChangedLines(base, text);
+        expect(changed.has(0)).toBe(true);
+        expect(changed.has(4998)).toBe(true);
+    });
+
+    test.each`
+        mode            | expected
+        ${undefined}    | ${[0, 1, 2, 3, 4, 5]}
+        ${'off'}        | ${[0, 1, 2, 3, 4, 5]}
+        ${'HEAD'}       | ${[4, 5]}
+        ${'merge-base'} | ${[3, 4, 5]}
+        ${'staged'}     | ${[5]}
+    `(
+        'filterDiagnostics $mode',
+        async ({ mode, expected }) => {
+            const filter = createChangedLinesFilter({ fetchRepoRoot: async () => tempDir });
+            const doc = TextDocument.create(fileUri, 'plaintext', 1, 'one\ntwo\nthree\nfour\nfive\nsix\n');
+            const settings: CSpellUserSettings = { reportChangedLinesOnly: mode };
+            const diags = [0, 1, 2, 3, 4, 5].map(diag);
+            const result = await filter.filterDiagnostics(doc, settings, diags);
+            expect(result.map((d) => d.range.start.line)).toEqual(expected);
+        },
+        timeout,
+    );
+
+    test(
+        'filterDiagnostics reuses the base version of the file',
+        async () => {
+            const fetchRepoRoot = vi.fn(async () => tempDir);
+            const filter = createChangedLinesFilter({ fetchRepoRoot });
+            const settings: CSpellUserSettings = { reportChangedLinesOnly: 'HEAD' };
+            const diags = [0, 1, 2, 3, 4, 5].map(diag);
+            const doc1 = TextDocument.create(fileUri, 'plaintext', 1, 'one\ntwo\nthree\nfour\nfive\nsix\n');
+            const doc2 = TextDocument.create(fileUri, 'plaintext', 2, 'one\nTWO\nthree\nfour\nfive\nsix\n');
+            const lines = async (doc: TextDocument) =>
+                (await filter.filterDiagnostics(doc, settings, diags)).map((d) => d.range.start.line);
+            expect(await lines(doc1)).toEqual([4, 5]);
+            expect(await lines(doc2)).toEqual([1, 4, 5]);
+            expect(fetchRepoRoot).toHaveBeenCalledTimes(1);
+
+            filter.clear();
+            expect(await lines(doc2)).toEqual([1, 4, 5]);
+            expect(fetchRepoRoot).toHaveBeenCalledTimes(2);
+        },
+        timeout,
+    );
+
+    test(
+        'filterDiagnostics with a CRLF document',
+        async () => {
+            const filter = createChangedLinesFilter({ fetchRepoRoot: async () => tempDir });
+            const doc = TextDocument.create(fileUri, 'plaintext', 1, 'one\r\ntwo\r\nthree\r\nFOUR\r\nfive\r\n');
+            const diags = [0, 1, 2, 3, 4].map(diag);
+            const result = await filter.filterDiagnostics(doc, { reportChangedLinesOnly: 'HEAD' }, diags);
+            expect(result.map((d) => d.range.start.line)).toEqual([3, 4]);
+        },
+        timeout,
+    );
+
+    test(
+        'filterDiagnostics reports everything outside of a repository',
+        async () => {
+            const filter = createChangedLinesFilter({ fetchRepoRoot: async () => undefined });
+            const doc = TextDocument.create(fileUri, 'plaintext', 1, 'one\ntwo\n');
+            const diags = [0, 1].map(diag);
+            await expect(filter.filterDiagnostics(doc, { reportChangedLinesOnly: 'HEAD' }, diags)).resolves.toEqual(diags);
+
+            const newFile = TextDocument.create(toFileUri(path.join(tempDir, 'new.txt')).toString(), 'plaintext', 1, 'one\ntwo\n');
+            const filterRepo = createChangedLinesFilter({ fetchRepoRoot: async () => tempDir });
+            await expect(filterRepo.filterDiagnostics(newFile, { reportChangedLinesOnly: 'HEAD' }, diags)).resolves.toEqual(diags);
+            const noBranch: CSpellUserSettings = { reportChangedLinesOnly: 'merge-base', changedLinesBaseBranch: 'unknown-branch' };
+            await expect(filterRepo.filterDiagnostics(newFile, noBranch, diags)).resolves.toEqual(diags);
+        },
+        timeout,
+    );
+});
+
+function diag(line: number): Diagnostic {
+    return { range: { start: { line, character: 0 }, end: { line, character: 3 } }, message: 'Unknown word' };
+}
+
+function git(...args: string[]) {
+    return execFileAsync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], {
+        cwd: tempDir,
+    });
+}
@@ -0,0 +1,313 @@
+import type { DocumentValidator, ValidationIssue } from 'cspell-lib';
+import { IssueType, Text } from 'cspell-lib';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { DiagnosticSeverity } from 'vscode-languageserver-types';
+
+import type { IssueWord, SpellingDiagnostic, Suggestion } from './api.js';
+import type { CSpellUserSettings, NamingConvention } from './config/cspellConfig/index.mjs';
+import { isDefined, textToWords } from './utils/index.mjs';
+
+/**
+ * The `identifierRules` that apply to a file type, combined.
+ */
+export interface IdentifierRules {
+    conventions: Set<NamingConvention>;
+    /** Sorted longest first. */
+    prefixes: string[];
+    /** In lower case. */
+    abbreviations: Set<string>;
+    reportWholeIdentifier: boolean;
+}
+
+export interface IdentifierWord {
+    text: string;
+    /** The offset in the document. */
+    offset: number;
+    kind: 'word' | 'prefix' | 'abbreviation';
+}
+
+export interface Identifier {
+    text: string;
+    /** The offset in the document. */
+    offset: number;
+    words: IdentifierWord[];
+}
+
+export const defaultNamingConventions: readonly NamingConvention[] = ['camelCase', 'snake_case', 'SCREAMING_CASE'];
+
+const regExpIdentifier = /[\p{L}\p{M}\p{N}_]+/gu;
+const regExpKebabIdentifier = /[\p{L}\p{M}\p{N}_]+(?:-[\p{L}\p{M}\p{N}_]+)*/gu;
+const regExpIdentifierChar = /[\p{L}\p{M}\p{N}_-]/u;
+const regExpCaseChange = /(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u;
+
+/**
+ * Combine the `identifierRules` that apply to a file type.
+ * @returns undefined if there are no rules for the file type.
+ */
+export function calcIdentifierRules(
+    settings: Pick<CSpellUserSettings, 'identifierRules'>,
+    languageId: string,
+): IdentifierRules | undefined {
+    const rules = settings.identifierRules?.filter(
+        (rule) => !rule.languageIds?.length || rule.languageIds.includes(languageId) || rule.languageIds.includes('*'),
+    );
+    if (!rules?.length) return undefined;
+
+    let conventions = defaultNamingConventions;
+    let reportWholeIdentifier = false;
+    const prefixes = new Set<string>();
+    const abbreviations = new Set<string>();
+    for (const rule of rules) {
+        conventions = rule.conventions ?? conventions;
+        reportWholeIdentifier = rule.reportWholeIdentifier ?? reportWholeIdentifier;
+        rule.prefixes?.filter((p) => !!p).forEach((p) => prefixes.add(p));
+        rule.abbreviations?.forEach((a) => abbreviations.add(a.toLowerCase()));
+    }
+    return {
+        conventions: new Set(conventions),
+        prefixes: [...prefixes].sort((a, b) => b.length - a.length),
+        abbreviations,
+        reportWholeIdentifier,
+    };
+}
+
+/**
+ * Find the identifiers in a text.
+ * @param text - the text to search.
+ * @param rules - the rules for the file type.
+ * @param offset - the offset of the text in the document.
+ */
+export function findIdentifiers(text: string, rules: IdentifierRules, offset = 0): Identifier[] {
+    const regExp = rules.conventions.has('kebab-case') ? regExpKebabIdentifier : regExpIdentifier;
+    return [...text.matchAll(regExp)].map((m) => splitIdentifier(m[0], rules, offset + (m.index ?? 0)));
+}
+
+/**
+ * Find the identifier at an offset.
+ * @returns undefined if there isn't an identifier at the offset.
+ */
+export function findIdentifierAt(text: string, offset: number, rules: IdentifierRules): Identifier | undefined {
+    let start = offset;
+    let end = offset;
+    while (start > 0 && regExpIdentifierChar.test(text[start - 1])) --start;
+    while (end < text.length && regExpIdentifierChar.test(text[end])) ++end;
+    return findIdentifiers(text.slice(start, end), rules, start).find((id) => id.offset <= offset && offset < id.offset + id.text.length);
+}
+
+/**
+ * Split an identifier into words using the naming conventions of the rules.
+ * The separators are not part of the words.
+ * @param identifier - the identifier
+ * @param rules - the rules for the file type.
+ * @param offset - the offset of the identifier in the document.
+ */
+export function splitIdentifier(identifier: string, rules: IdentifierRules, offset = 0): Identifier {
+    const words: IdentifierWord[] = [];
+    const prefix = rules.prefixes.find((p) => isPrefixOf(p, identifier));
+    if (prefix) {
+        words.push({ text: prefix.replace(/[_-]+$/, ''), offset, kind: 'prefix' });
+    }
+
+    const rest = identifier.slice(prefix?.length ?? 0);
+    const restOffset = offset + (prefix?.length ?? 0);
+    const isUpperCase = !/\p{Ll}/u.test(identifier);
+    const splitAtUnderscore = rules.conventions.has(isUpperCase ? 'SCREAMING_CASE' : 'snake_case');
+    // Leading and trailing `_` are never part of a word.
+    const regExpPart = splitAtUnderscore ? /[^_-]+/gu : /[^_-](?:[^-]*[^_-])?/gu;
+    for (const part of rest.matchAll(regExpPart)) {
+        const pieces = rules.conventions.has('camelCase') ? part[0].split(regExpCaseChange) : [part[0]];
+        let pieceOffset = restOffset + (part.index ?? 0);
+        for (const text of pieces) {
+            if (/\p{L}/u.test(text)) {
+                words.push({ text, offset: pieceOffset, kind: rules.abbreviations.has(text.toLowerCase()) ? 'abbreviation' : 'word' });
+            }
+            pieceOffset += text.length;
+        }
+    }
+
+    return { text: identifier, offset, words };
+}
+
+function isPrefixOf(prefix: string, identifier: string): boolean {
+    if (!identifier.startsWith(prefix) || identifier.length === prefix.length) return false;
+    return /[_-]$/.test(prefix) || /^(?:_|\p{Lu})/u.test(identifier.slice(prefix.length));
+}
+
+/**
+ * The words of a text to check, the Hungarian prefixes are removed.
+ */
+export function splitTextIntoWords(text: string, rules: IdentifierRules): string[] {
+    return findIdentifiers(text, rules)
+        .flatMap((id) => id.words)
+        .filter((word) => word.kind !== 'prefix')
+        .map((word) => word.text);
+}
+
+/**
+ * Split text into the words to check, the `identifierRules` for the file type are used if there are any.
+ */
+export function textToWordsForLanguage(text: string, settings: Pick<CSpellUserSettings, 'identifierRules'>, languageId: string): string[] {
+    const rules = calcIdentifierRules(settings, languageId);
+    return rules ? splitTextIntoWords(text, rules) : textToWords(text);
+}
+
+/**
+ * Check the identifiers that contain issues again, using the words found by the `identifierRules`,
+ * the same words as `splitTextIntoWords`. The Hungarian prefixes and abbreviations are not checked.
+ *
+ * Only the identifiers with issues are checked again, the rules can remove issues but never add them.
+ * An identifier accepted by the default check is not reported, even if `splitTextIntoWords` splits it differently.
+ * @param docVal - the prepared validator of the document.
+ * @param issues - the issues found by the validator.
+ * @param settings - the settings with the rules.
+ * @param languageId - the file type of the document.
+ * @returns the issues sorted by offset, unchanged if there are no rules for the file type.
+ */
+export function checkIdentifiers(
+    docVal: DocumentValidator,
+    issues: ValidationIssue[],
+    settings: Pick<CSpellUserSettings, 'identifierRules'>,
+    languageId: string,
+): ValidationIssue[] {
+    const rules = issues.length ? calcIdentifierRules(settings, languageId) : undefined;
+    if (!rules) return issues;
+
+    const text = docVal.document.text;
+    const result: ValidationIssue[] = [];
+    const checked = new Set<number>();
+    for (const issue of issues) {
+        const identifier = issue.issueType === IssueType.directive ? undefined : findIdentifierAt(text, issue.offset, rules);
+        const end = issue.offset + (issue.length ?? issue.text.length);
+        if (!identifier || end > identifier.offset + identifier.text.length) {
+            result.push(issue);
+            continue;
+        }
+        if (checked.has(identifier.offset)) continue;
+        checked.add(identifier.offset);
+        for (const word of identifier.words) {
+            if (word.kind !== 'word') continue;
+            result.push(...docVal.check({ text: word.text, range: [word.offset, word.offset + word.text.length] }));
+        }
+    }
+    return result.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Apply the `identifierRules` to the diagnostics of a document, the issues are expected to be found with `checkIdentifiers`.
+ * - The issues are reported for the words split with the naming conventions of the file type,
+ *   or for the whole identifier if `reportWholeIdentifier` is set.
+ *   The issues in the same word or identifier are combined and their suggestions are for the word or identifier.
+ * - The issues in Hungarian prefixes and abbreviations are removed.
+ * @returns the diagnostics, unchanged if there are no rules for the file type.
+ */
+export function applyIdentifierRules(
+    textDocument: TextDocument,
+    settings: Pick<CSpellUserSettings, 'identifierRules'>,
+    diagnostics: SpellingDiagnostic[],
+): SpellingDiagnostic[] {
+    const rules = diagnostics.length ? calcIdentifierRules(settings, textDocument.languageId) : undefined;
+    if (!rules) return diagnostics;
+
+    interface Reported {
+        start: number;
+        end: number;
+        diags: SpellingDiagnostic[];
+    }
+
+    const text = textDocument.getText();
+    const result: (SpellingDiagnostic | Reported)[] = [];
+    const reportedAt = new Map<number, Reported>();
+
+    for (const diag of diagnostics) {
+        const start = textDocument.offsetAt(diag.range.start);
+        const end = textDocument.offsetAt(diag.range.end);
+        const identifier = findIdentifierAt(text, start, rules);
+        const word = identifier?.words.find((w) => w.offset <= start && start < w.offset + w.text.length);
+        if (!identifier || !word) {
+            result.push(diag);
+            continue;
+        }
+        if (word.kind !== 'word') continue;
+        const unit = rules.reportWholeIdentifier ? identifier : word;
+        const unitEnd = unit.offset + unit.text.length;
+        if (end > unitEnd || (unit.offset === start && unitEnd === end)) {
+            result.push(diag);
+            continue;
+        }
+        const found = reportedAt.get(unit.offset);
+        if (found) {
+            found.diags.push(diag);
+            continue;
+        }
+        const reported = { start: unit.offset, end: unitEnd, diags: [diag] };
+        reportedAt.set(unit.offset, reported);
+        result.push(reported);
+    }
+
+    return result.map((r) => ('diags' in r ? combineDiagnostics(textDocument, r.start, r.end, r.diags, rules.reportWholeIdentifier) : r));
+}
+
+function combineDiagnostics(
+    textDocument: TextDocument,
+    start: number,
+    end: number,
+    diags: SpellingDiagnostic[],
+    isWholeIdentifier: boolean,
+): SpellingDiagnostic {
+    const [first] = diags;
+    const text = textDocument.getText().slice(start, end);
+    const words: IssueWord[] = diags.map((diag) => ({
+        text: diag.data.text ?? textDocument.getText(diag.range),
+        offset: textDocument.offsetAt(diag.range.start) - start,
+    }));
+    const severities = diags.map((diag) => diag.severity).filter(isDefined);
+    const quoted = words.map((w) => `"${w.text}"`).join(', ');
+    return {
+        ...first,
+        range: { start: textDocument.positionAt(start), end: textDocument.positionAt(end) },
+        // The most severe level has the lowest value.
+        severity: severities.length ? (Math.min(...severities) as DiagnosticSeverity) : first.severity,
+        message: first.message.replace(/^"[^"]*"/, () => `${quoted} in "${text}"`),
+        data: {
+            ...first.data,
+            text,
+            isFlagged: diags.some((diag) => diag.data.isFlagged) || undefined,
+            suggestions: first.data.suggestions?.map((sug) => ({
+                ...sug,
+                word: replaceWords(
+                    text,
+                    words.map((w, i) => ({ ...w, replacement: i ? diags[i].data.suggestions?.[0]?.word : sug.word })),
+                ),
+            })),
+            words,
+            isWholeIdentifier: isWholeIdentifier || undefined,
+        },
+    };
+}
+
+/**
+ * Replace words in a text.
+ * @param text - the text, like an identifier.
+ * @param words - the words to replace, a word without a replacement is kept.
+ */
+export function replaceWords(text: string, words: (IssueWord & { replacement?: string | undefined })[]): string {
+    return [...words]
+        .sort((a, b) => b.offset - a.offset)
+        .reduce(
+            (t, w) => (w.replacement === undefined ? t : t.slice(0, w.offset) + w.replacement + t.slice(w.offset + w.text.length)),
+            text,
+        );
+}
+
+/**
+ * Calculate the suggestions for a text that contains a misspelled word.
+ * @param text - the text, like an identifier.
+ * @param word - the misspelled word in the text.
+ * @param suggestions - the suggestions for the word.
+ */
+export function suggestionsForText(text: string, word: IssueWord, suggestions: Suggestion[]): Suggestion[] {
+    return suggestions.map((sug) => ({
+        ...sug,
+        word: replaceWords(text, [{ ...word, replacement: Text.isLowerCase(sug.word) ? Text.matchCase(word.text, sug.word) : sug.word }]),
+    }));
+}
@@ -0,0 +1,163 @@
+import { constructSettingsForText, getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test, vi } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings, IdentifierRule } from './config/cspellConfig/index.mjs';
+import type { IdentifierRules } from './identifiers.mjs';
+import {
+    calcIdentifierRules,
+    checkIdentifiers,
+    findIdentifiers,
+    replaceWords,
+    splitIdentifier,
+    splitTextIntoWords,
+} from './identifiers.mjs';
+import * as Validator from './validator.mjs';
+
+// cspell:ignore lpsz Nmae Bufer Usr
+
+const sampleCode = `
+const getUserNmae = (ctx) => lpszBuffer + m_Bufer;
+`;
+
+describe('identifiers', () => {
+    test('calcIdentifierRules', () => {
+        const identifierRules: IdentifierRule[] = [
+            { abbreviations: ['Ctx', 'req'] },
+            { languageIds: ['c', 'cpp'], prefixes: ['sz', 'lpsz'], reportWholeIdentifier: true },
+            { languageIds: ['css'], conventions: ['kebab-case'] },
+        ];
+        expect(calcIdentifierRules({}, 'c')).toBeUndefined();
+        expect(calcIdentifierRules({ identifierRules: [{ languageIds: ['css'] }] }, 'c')).toBeUndefined();
+        expect(calcIdentifierRules({ identifierRules }, 'c')).toEqual({
+            conventions: new Set(['camelCase', 'snake_case', 'SCREAMING_CASE']),
+            prefixes: ['lpsz', 'sz'],
+            abbreviations: new Set(['ctx', 'req']),
+            reportWholeIdentifier: true,
+        });
+        expect(calcIdentifierRules({ identifierRules }, 'css')).toEqual(
+            expect.objectContaining({ conventions: new Set(['kebab-case']), prefixes: [], reportWholeIdentifier: false }),
+        );
+    });
+
+    test.each`
+        identifier           | rule                                                | expected
+        ${'getUsrName'}      | ${{}}                                               | ${['get', 'Usr', 'Name']}
+        ${'XMLHttpRequest'}  | ${{}}                                               | ${['XML', 'Http', 'Request']}
+        ${'utf8Encode'}      | ${{}}                                               | ${['utf8', 'Encode']}
+        ${'MAX_BUFFER_SIZE'} | ${{}}                                               | ${['MAX', 'BUFFER', 'SIZE']}
+        ${'__init__'}        | ${{}}                                               | ${['init']}
+        ${'item_2'}          | ${{}}                                               | ${['item']}
+        ${'user_name'}       | ${{ conventions: ['camelCase', 'SCREAMING_CASE'] }} | ${['user_name']}
+        ${'MAX_SIZE'}        | ${{ conventions: ['camelCase', 'snake_case'] }}     | ${['MAX_SIZE']}
+        ${'getUsrName'}      | ${{ conventions: ['snake_case'] }}                  | ${['getUsrName']}
+        ${'lpszName'}        | ${{ prefixes: ['sz', 'lpsz'] }}                     | ${['lpsz:prefix', 'Name']}
+        ${'szName'}          | ${{ prefixes: ['sz', 'lpsz'] }}                     | ${['sz:prefix', 'Name']}
+        ${'size'}            | ${{ prefixes: ['sz', 's'] }}                        | ${['size']}
+        ${'m_count'}         | ${{ prefixes: ['m_'] }}                             | ${['m:prefix', 'count']}
+        ${'i18nKey'}         | ${{ abbreviations: ['I18N'] }}                      | ${['i18n:abbreviation', 'Key']}
+        ${'reqCtx'}          | ${{ abbreviations: ['ctx', 'req'] }}                | ${['req:abbreviation', 'Ctx:abbreviation']}
+        ${'font-weight'}     | ${{ conventions: ['kebab-case'] }}                  | ${['font', 'weight']}
+    `('splitIdentifier $identifier $rule', ({ identifier, rule, expected }) => {
+        const rules = mustCalcRules(rule);
+        const words = splitIdentifier(identifier, rules, 10).words;
+        expect(words.map((w) => (w.kind === 'word' ? w.text : `${w.text}:${w.kind}`))).toEqual(expected);
+        words.forEach((w) => expect(identifier.slice(w.offset - 10)).toContain(w.text));
+    });
+
+    test('findIdentifiers', () => {
+        const text = 'a-b { font-weight: $maxSize; }';
+        expect(findIdentifiers(text, mustCalcRules({})).map((id) => id.text)).toEqual(['a', 'b', 'font', 'weight', 'maxSize']);
+        const kebab = findIdentifiers(text, mustCalcRules({ conventions: ['kebab-case', 'camelCase'] }));
+        expect(kebab.map((id) => [id.text, id.offset])).toEqual([
+            ['a-b', 0],
+            ['font-weight', 6],
+            ['maxSize', 20],
+        ]);
+    });
+
+    test('splitTextIntoWords', () => {
+        const rules = mustCalcRules({ prefixes: ['lpsz'], abbreviations: ['ctx'] });
+        expect(splitTextIntoWords('lpszName = getCtx(MAX_SIZE);', rules)).toEqual(['Name', 'get', 'Ctx', 'MAX', 'SIZE']);
+    });
+
+    test('replaceWords', () => {
+        const words = [
+            { text: 'Usr', offset: 3, replacement: 'User' },
+            { text: 'Nme', offset: 6, replacement: 'Name' },
+            { text: 'get', offset: 0 },
+        ];
+        expect(replaceWords('getUsrNme', words)).toBe('getUserName');
+    });
+
+    test.each`
+        rule                                                         | expected
+        ${undefined}                                                 | ${['Nmae', 'lpsz', 'Bufer']}
+        ${{ prefixes: ['lpsz', 'm_'] }}                              | ${['Nmae', 'Bufer']}
+        ${{ prefixes: ['lpsz'], conventions: ['camelCase'] }}        | ${['Nmae', 'm_Bufer']}
+        ${{ prefixes: ['lpsz', 'm_'], reportWholeIdentifier: true }} | ${['getUserNmae', 'm_Bufer']}
+    `(
+        'validate with identifierRules $rule',
+        async ({ rule, expected }) => {
+            const doc = TextDocument.create('file:///project/sample.ts', 'typescript', 1, sampleCode);
+            const identifierRules = rule ? [{ languageIds: ['typescript'], ...rule }] : undefined;
+            const baseSettings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en', identifierRules };
+            const settings = constructSettingsForText(baseSettings, sampleCode, 'typescript');
+            const diags = await Validator.validateTextDocument(doc, settings, { generateSuggestions: true, numSuggestions: 5 });
+            expect(diags.map((d) => doc.getText(d.range))).toEqual(expected);
+            expect(diags.map((d) => d.data.text)).toEqual(expected);
+        },
+        30000,
+    );
+
+    test('checkIdentifiers checks the words split by the rules', async () => {
+        const doc = TextDocument.create('file:///project/sample.ts', 'typescript', 1, sampleCode);
+        const identifierRules: IdentifierRule[] = [{ prefixes: ['lpsz', 'm_'] }];
+        const baseSettings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en', identifierRules };
+        const settings = constructSettingsForText(baseSettings, sampleCode, 'typescript');
+        const docVal = await Validator.createDocumentValidator(doc, settings);
+        const found = await docVal.checkDocumentAsync(true);
+        expect(found.map((issue) => issue.text)).toEqual(['Nmae', 'lpsz', 'Bufer']);
+        const check = vi.spyOn(docVal, 'check');
+
+        const issues = checkIdentifiers(docVal, found, baseSettings, 'typescript');
+        expect(issues.map((issue) => issue.text)).toEqual(['Nmae', 'Bufer']);
+        // The identifiers with issues are checked again without the prefixes.
+        expect(check.mock.calls.map(([parsed]) => parsed.text)).toEqual(['get', 'User', 'Nmae', 'Buffer', 'Bufer']);
+    }, 30000);
+
+    test('checkIdentifiers keeps the identifiers accepted by the default check', async () => {
+        const text = 'const getUsrNme = lpszName;\n';
+        const doc = TextDocument.create('file:///project/sample.ts', 'typescript', 1, text);
+        const identifierRules: IdentifierRule[] = [{ prefixes: ['lpsz'] }];
+        const baseSettings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en', identifierRules, words: ['getUsrNme'] };
+        const settings = constructSettingsForText(baseSettings, text, 'typescript');
+        const docVal = await Validator.createDocumentValidator(doc, settings);
+        const found = await docVal.checkDocumentAsync(true);
+        expect(found.map((issue) => issue.text)).toEqual(['lpsz']);
+        const check = vi.spyOn(docVal, 'check');
+
+        expect(checkIdentifiers(docVal, found, baseSettings, 'typescript')).toEqual([]);
+        // Only `lpszName` is checked again, `getUsrNme` has no issues.
+        expect(splitTextIntoWords('getUsrNme', mustCalcRules(identifierRules[0]))).toEqual(['get', 'Usr', 'Nme']);
+        expect(check.mock.calls.map(([parsed]) => parsed.text)).toEqual(['Name']);
+    }, 30000);
+
+    test('report the whole identifier', async () => {
+        const doc = TextDocument.create('file:///project/sample.ts', 'typescript', 1, sampleCode);
+        const identifierRules: IdentifierRule[] = [{ prefixes: ['lpsz'], reportWholeIdentifier: true }];
+        const baseSettings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en', identifierRules };
+        const settings = constructSettingsForText(baseSettings, sampleCode, 'typescript');
+        const [diag] = await Validator.validateTextDocument(doc, settings, { generateSuggestions: true, numSuggestions: 5 });
+        expect(diag.message).toBe('"Nmae" in "getUserNmae": Unknown word.');
+        expect(diag.data.words).toEqual([{ text: 'Nmae', offset: 7 }]);
+        expect(diag.data.isWholeIdentifier).toBe(true);
+        expect(diag.data.suggestions?.map((s) => s.word)).toContain('getUserName');
+    }, 30000);
+});
+
+function mustCalcRules(rule: IdentifierRule): IdentifierRules {
+    const rules = calcIdentifierRules({ identifierRules: [rule] }, 'typescript');
+    if (!rules) throw new Error('Missing rules');
+    return rules;
+}
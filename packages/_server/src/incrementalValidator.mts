@@ -0,0 +1,338 @@
+import type { DocumentValidator, ValidationIssue } from 'cspell-lib';
+import { IssueType } from 'cspell-lib';
+import type { TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { SpellingDiagnostic } from './api.js';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { checkIdentifiers } from './identifiers.mjs';
+import { findLocaleRegions } from './localeRegions.mjs';
+import {
+    applyProblemLimits,
+    calcCheckLimit,
+    calcMaxNumberOfProblems,
+    checkLocaleRegions,
+    createDocumentValidator,
+    issuesToDiagnostics,
+} from './validator.mjs';
+
+export const defaultIncrementalValidationContextLines = 1;
+
+const regExpInDocDirective = /\b(?:spell-?checker|c?spell)::?(.*)/gi;
+
+/**
+ * A range of lines, `start` and `end` are inclusive.
+ */
+interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A change to a document reduced to the lines it touched.
+ */
+interface LineEdit {
+    /** First line replaced, in the coordinates of the document before the edit. */
+    start: number;
+    /** Last line replaced, in the coordinates of the document before the edit. */
+    end: number;
+    /** The number of line breaks in the inserted text. */
+    insertedLineBreaks: number;
+}
+
+interface CachedValidation {
+    languageId: string;
+    /** The version of the document the diagnostics belong to, including the recorded edits. */
+    version: number;
+    docVal: DocumentValidator;
+    diagnostics: SpellingDiagnostic[];
+    /** The in-document directives found at the time of validation. */
+    directives: string;
+    /** The result was cut short by `maxNumberOfProblems`. */
+    truncated: boolean;
+    /** The edits made since the last validation. */
+    edits: LineEdit[];
+    /** Force a full check on the next validation. */
+    needsFullCheck: boolean;
+}
+
+export interface IncrementalValidator {
+    /**
+     * Record the changes made to a document. It MUST be called before the changes are applied.
+     * Only documents that have been validated are tracked.
+     * @param version - the version of the document after the changes.
+     */
+    recordChanges(doc: TextDocument, changes: TextDocumentContentChangeEvent[], version: number): void;
+    /**
+     * Validate a document, only re-checking the lines that changed since the last validation.
+     * Falls back to checking the entire document when the changes cannot be isolated.
+     */
+    validateTextDocument(textDocument: TextDocument, settings: CSpellUserSettings): Promise<SpellingDiagnostic[]>;
+    /**
+     * Force the next validation of a document to be a full check.
+     */
+    invalidate(uri: string): void;
+    /**
+     * Forget a document.
+     */
+    delete(uri: string): void;
+    /**
+     * Forget all documents. Needed when the settings change.
+     */
+    clear(): void;
+}
+
+export function createIncrementalValidator(): IncrementalValidator {
+    const cache = new Map<string, CachedValidation>();
+
+    function recordChanges(doc: TextDocument, changes: TextDocumentContentChangeEvent[], version: number): void {
+        const entry = cache.get(doc.uri);
+        // The edits only apply to the version of the document that was validated.
+        if (!entry || entry.needsFullCheck || entry.version !== doc.version) return;
+        entry.version = version;
+        for (const change of changes) {
+            if (!('range' in change)) {
+                entry.needsFullCheck = true;
+                entry.edits = [];
+                return;
+            }
+            entry.edits.push({
+                start: change.range.start.line,
+                end: change.range.end.line,
+                insertedLineBreaks: countLineBreaks(change.text),
+            });
+        }
+    }
+
+    async function validateTextDocument(textDocument: TextDocument, settings: CSpellUserSettings): Promise<SpellingDiagnostic[]> {
+        const entry = cache.get(textDocument.uri);
+        if (
+            !entry ||
+            entry.needsFullCheck ||
+            entry.truncated ||
+            entry.languageId !== textDocument.languageId ||
+            // The document changed while it was being validated, the edits were not recorded.
+            entry.version !== textDocument.version
+        ) {
+            return fullCheck(textDocument, settings);
+        }
+
+        const text = textDocument.getText();
+        // Edits can move the boundaries of the regions with their own locale.
+        if (findLocaleRegions(text, textDocument.languageId, settings.localeRegions).length) {
+            return fullCheck(textDocument, settings);
+        }
+        if (text.length > calcCheckLimit(settings) || entry.docVal.document.text.length > calcCheckLimit(settings)) {
+            return fullCheck(textDocument, settings);
+        }
+
+        // Changes to the in-document settings can impact the entire document.
+        const directives = extractDirectives(text);
+        if (directives !== entry.directives) {
+            return fullCheck(textDocument, settings);
+        }
+
+        const { diagnostics: kept, dirty } = entry.edits.reduce((acc, edit) => applyEdit(acc, edit), {
+            diagnostics: entry.diagnostics,
+            dirty: [] as LineRange[],
+        });
+        entry.edits = [];
+
+        if (!dirty.length) {
+            entry.diagnostics = kept;
+            return kept;
+        }
+
+        const { docVal } = entry;
+        const prevText = docVal.document.text;
+        const prevIncludeRanges = getIncludeRanges(docVal);
+        docVal.updateDocumentText(text);
+
+        if (docVal.getFinalizedDocSettings().parser) {
+            // Parsers work on the whole document.
+            return fullCheck(textDocument, settings);
+        }
+
+        const lastLine = Math.max(0, textDocument.lineCount - 1);
+        const contextLines = settings.incrementalValidationContextLines ?? defaultIncrementalValidationContextLines;
+        const toCheck = mergeLineRanges(
+            dirty.map((r) => ({ start: Math.max(0, r.start - contextLines), end: Math.min(lastLine, r.end + contextLines) })),
+        );
+
+        // The ignored regions (block comments, `cspell:disable`, etc.) outside of the changes need to be the same.
+        const changeStart = textDocument.offsetAt({ line: toCheck[0].start, character: 0 });
+        const changeEnd = textDocument.offsetAt({ line: toCheck[toCheck.length - 1].end + 1, character: 0 });
+        const delta = text.length - prevText.length;
+        if (!areIncludeRangesUnchanged(prevIncludeRanges, getIncludeRanges(docVal), changeStart, changeEnd, delta)) {
+            return fullCheck(textDocument, settings);
+        }
+
+        const issues: ValidationIssue[] = [];
+        for (const range of toCheck) {
+            for (let n = range.start; n <= range.end; ++n) {
+                const line = docVal.document.getLine(n);
+                issues.push(...docVal.check({ text: line.text, range: [line.offset, line.offset + line.text.length] }));
+            }
+        }
+        if (docVal.validateDirectives) {
+            issues.push(...docVal.checkDocumentDirectives());
+        }
+
+        const found = issuesToDiagnostics(textDocument, checkIdentifiers(docVal, issues, settings, textDocument.languageId), settings);
+        const unchanged = kept.filter((d) => !isDirective(d) && !isInLineRanges(d.range.start.line, toCheck));
+        const merged = applyProblemLimits([...unchanged, ...found].sort(compareDiagnostics), settings);
+
+        entry.diagnostics = merged.diagnostics;
+        entry.truncated = merged.truncated;
+        return merged.diagnostics;
+    }
+
+    async function fullCheck(document: TextDocument, settings: CSpellUserSettings): Promise<SpellingDiagnostic[]> {
+        // The document can change while it is being checked, the diagnostics belong to the version at the start.
+        const { uri, languageId, version } = document;
+        const textDocument = TextDocument.create(uri, languageId, version, document.getText());
+        const docVal = await createDocumentValidator(textDocument, settings);
+        const found = checkIdentifiers(docVal, await docVal.checkDocumentAsync(true), settings, languageId);
+        const issues = await checkLocaleRegions(textDocument, found, settings);
+        const diagnostics = issuesToDiagnostics(textDocument, issues, settings);
+        const maxNumberOfProblems = calcMaxNumberOfProblems(settings);
+        cache.set(uri, {
+            languageId,
+            version,
+            docVal,
+            diagnostics,
+            directives: extractDirectives(docVal.document.text),
+            truncated: issues.length >= maxNumberOfProblems,
+            edits: [],
+            needsFullCheck: false,
+        });
+        return diagnostics;
+    }
+
+    function invalidate(uri: string): void {
+        const entry = cache.get(uri);
+        if (!entry) return;
+        entry.needsFullCheck = true;
+        entry.edits = [];
+    }
+
+    return {
+        recordChanges,
+        validateTextDocument,
+        invalidate,
+        delete: (uri) => cache.delete(uri),
+        clear: () => cache.clear(),
+    };
+}
+
+interface EditState {
+    diagnostics: SpellingDiagnostic[];
+    dirty: LineRange[];
+}
+
+/**
+ * Move the diagnostics and dirty lines to match the document after the edit.
+ * Diagnostics on replaced lines are dropped.
+ */
+function applyEdit(state: EditState, edit: LineEdit): EditState {
+    const { start, end, insertedLineBreaks } = edit;
+    const delta = insertedLineBreaks - (end - start);
+
+    const diagnostics: SpellingDiagnostic[] = [];
+    for (const diag of state.diagnostics) {
+        const line = diag.range.start.line;
+        if (line < start) {
+            diagnostics.push(diag);
+            continue;
+        }
+        if (line <= end) continue;
+        const { range } = diag;
+        diagnostics.push({
+            ...diag,
+            range: {
+                start: { ...range.start, line: range.start.line + delta },
+                end: { ...range.end, line: range.end.line + delta },
+            },
+        });
+    }
+
+    const dirty: LineRange[] = [{ start, end: start + insertedLineBreaks }];
+    for (const r of state.dirty) {
+        dirty.push({
+            start: r.start < start ? r.start : r.start <= end ? start : r.start + delta,
+            end: r.end < start ? r.end : r.end <= end ? start + insertedLineBreaks : r.end + delta,
+        });
+    }
+
+    return { diagnostics, dirty: mergeLineRanges(dirty) };
+}
+
+function mergeLineRanges(ranges: LineRange[]): LineRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const merged: LineRange[] = [];
+    for (const r of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && r.start <= last.end + 1) {
+            last.end = Math.max(last.end, r.end);
+            continue;
+        }
+        merged.push({ ...r });
+    }
+    return merged;
+}
+
+function isInLineRanges(line: number, ranges: LineRange[]): boolean {
+    return ranges.some((r) => r.start <= line && line <= r.end);
+}
+
+function countLineBreaks(text: string): number {
+    let count = 0;
+    for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+        ++count;
+    }
+    // A lone `\r` is also a line break.
+    for (let i = text.indexOf('\r'); i >= 0; i = text.indexOf('\r', i + 1)) {
+        if (text[i + 1] !== '\n') ++count;
+    }
+    return count;
+}
+
+function extractDirectives(text: string): string {
+    return [...text.matchAll(regExpInDocDirective)].map((m) => m[0]).join('\n');
+}
+
+function isDirective(diag: SpellingDiagnostic): boolean {
+    return diag.data.issueType === IssueType.directive;
+}
+
+function compareDiagnostics(a: SpellingDiagnostic, b: SpellingDiagnostic): number {
+    return a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character;
+}
+
+function getIncludeRanges(docVal: DocumentValidator): [number, number][] {
+    return docVal._getPreparations()?.includeRanges.map((r) => [r.startPos, r.endPos]) ?? [];
+}
+
+/**
+ * Compare the include ranges outside of the changed region.
+ * @param prev - the ranges before the change.
+ * @param curr - the ranges after the change.
+ * @param changeStart - offset of the start of the changed region.
+ * @param changeEnd - offset of the end of the changed region, after the change.
+ * @param delta - the change in length of the text.
+ */
+function areIncludeRangesUnchanged(
+    prev: [number, number][],
+    curr: [number, number][],
+    changeStart: number,
+    changeEnd: number,
+    delta: number,
+): boolean {
+    const prevChangeEnd = changeEnd - delta;
+    const prevPoints = prev
+        .flat()
+        .filter((p) => p < changeStart || p >= prevChangeEnd)
+        .map((p) => (p < changeStart ? p : p + delta));
+    const currPoints = curr.flat().filter((p) => p < changeStart || p >= changeEnd);
+    return prevPoints.length === currPoints.length && prevPoints.every((p, i) => p === currPoints[i]);
+}
@@ -0,0 +1,171 @@
+import type { CSpellSettings } from 'cspell-lib';
+import * as cspell from 'cspell-lib';
+import { DocumentValidator, getDefaultSettings } from 'cspell-lib';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import type { TextDocumentContentChangeEvent } from 'vscode-languageserver-textdocument';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import type { IncrementalValidator } from './incrementalValidator.mjs';
+import { createIncrementalValidator } from './incrementalValidator.mjs';
+import * as Validator from './validator.mjs';
+
+// cSpell:ignore brouwn jumpped lazzy wrongg mispelled mischecked
+
+const defaultSettings: CSpellSettings = { ...getDefaultSettings(), enabledLanguageIds: ['plaintext', 'javascript'] };
+
+const timeout = 30000; // 30 seconds
+
+describe('IncrementalValidator', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test.each`
+        edit                                                               | comment
+        ${{ range: r(0, 4, 0, 9), text: 'slow' }}                          | ${'replace a word'}
+        ${{ range: r(2, 0, 2, 0), text: 'A new lazzy line.\n' }}           | ${'insert a line'}
+        ${{ range: r(1, 0, 3, 0), text: '' }}                              | ${'delete lines'}
+        ${{ range: r(4, 0, 4, 0), text: 'wrongg\n\nmispelled\n' }}         | ${'insert several lines'}
+        ${{ range: r(5, 0, 5, 0), text: '/*\n' }}                          | ${'start a block comment'}
+        ${{ range: r(3, 0, 3, 0), text: '// cspell:ignore mischecked\n' }} | ${'add a directive'}
+        ${{ text: 'The quick brown fox.\nmischecked\n' }}                  | ${'replace the text'}
+    `(
+        'validateTextDocument $comment',
+        async ({ edit }) => {
+            const doc = createDoc(sampleCode);
+            const validator = createIncrementalValidator();
+            await validator.validateTextDocument(doc, getSettings(doc));
+
+            applyChanges(validator, doc, [edit]);
+
+            const settings = getSettings(doc);
+            const result = await validator.validateTextDocument(doc, settings);
+            const expected = await Validator.validateTextDocument(doc, settings);
+            expect(toSummary(result)).toEqual(toSummary(expected));
+        },
+        timeout,
+    );
+
+    test(
+        'multiple edits between validations',
+        async () => {
+            const doc = createDoc(sampleCode);
+            const validator = createIncrementalValidator();
+            await validator.validateTextDocument(doc, getSettings(doc));
+
+            applyChanges(validator, doc, [{ range: r(0, 0, 0, 0), text: 'mispelled\n' }]);
+            applyChanges(validator, doc, [{ range: r(9, 0, 10, 0), text: '' }]);
+            applyChanges(validator, doc, [
+                { range: r(4, 0, 4, 3), text: 'brouwn' },
+                { range: r(6, 0, 6, 0), text: 'jumpped\nlazzy\n' },
+            ]);
+
+            const settings = getSettings(doc);
+            const result = await validator.validateTextDocument(doc, settings);
+            const expected = await Validator.validateTextDocument(doc, settings);
+            expect(toSummary(result)).toEqual(toSummary(expected));
+        },
+        timeout,
+    );
+
+    test(
+        'only the changed lines are checked',
+        async () => {
+            const doc = createDoc(sampleCode);
+            const validator = createIncrementalValidator();
+            const settings: CSpellUserSettings = { ...getSettings(doc), incrementalValidationContextLines: 0 };
+            await validator.validateTextDocument(doc, settings);
+
+            const check = vi.spyOn(DocumentValidator.prototype, 'check');
+            applyChanges(validator, doc, [{ range: r(1, 0, 1, 0), text: 'wrongg ' }]);
+            const result = await validator.validateTextDocument(doc, settings);
+
+            expect(check).toHaveBeenCalledTimes(1);
+            expect(result.map((d) => d.data.text)).toEqual(['brouwn', 'wrongg', 'jumpped', 'lazzy', 'wrongg', 'mispelled', 'mischecked']);
+        },
+        timeout,
+    );
+
+    test.each`
+        validated | comment
+        ${false}  | ${'the first check'}
+        ${true}   | ${'a forced full check'}
+    `(
+        'edits made during $comment are not lost',
+        async ({ validated }) => {
+            const doc = createDoc(sampleCode);
+            const validator = createIncrementalValidator();
+            if (validated) {
+                await validator.validateTextDocument(doc, getSettings(doc));
+                validator.invalidate(doc.uri);
+            }
+
+            const pending = validator.validateTextDocument(doc, getSettings(doc));
+            applyChanges(validator, doc, [{ range: r(2, 0, 2, 0), text: 'A new lazzy line.\n' }]);
+            // The result belongs to the text at the start of the check.
+            expect((await pending).map((d) => d.range.start.line)).toEqual([0, 1, 1, 3, 3, 4]);
+
+            const settings = getSettings(doc);
+            const result = await validator.validateTextDocument(doc, settings);
+            const expected = await Validator.validateTextDocument(doc, settings);
+            expect(toSummary(result)).toEqual(toSummary(expected));
+            expect(result.map((d) => d.range.start.line)).toEqual([0, 1, 1, 2, 4, 4, 5]);
+        },
+        timeout,
+    );
+
+    test(
+        'invalidate forces a full check',
+        async () => {
+            const doc = createDoc(sampleCode);
+            const validator = createIncrementalValidator();
+            const settings = getSettings(doc);
+            await validator.validateTextDocument(doc, settings);
+
+            const check = vi.spyOn(DocumentValidator.prototype, 'checkDocumentAsync');
+            await validator.validateTextDocument(doc, settings);
+            expect(check).toHaveBeenCalledTimes(0);
+
+            validator.invalidate(doc.uri);
+            await validator.validateTextDocument(doc, settings);
+            expect(check).toHaveBeenCalledTimes(1);
+        },
+        timeout,
+    );
+});
+
+const sampleCode = `\
+The quick brouwn fox
+jumpped over the lazzy dog.
+
+const wrongg = 'mispelled';
+const check = 'mischecked';
+
+// cspell:disable-next-line
+const disabled = 'wrongg';
+
+The end.
+`;
+
+function r(startLine: number, startChar: number, endLine: number, endChar: number) {
+    return { start: { line: startLine, character: startChar }, end: { line: endLine, character: endChar } };
+}
+
+function createDoc(text: string): TextDocument {
+    return TextDocument.create('file:///sample.txt', 'plaintext', 1, text);
+}
+
+function applyChanges(validator: IncrementalValidator, doc: TextDocument, changes: TextDocumentContentChangeEvent[]) {
+    const version = doc.version + 1;
+    validator.recordChanges(doc, changes, version);
+    TextDocument.update(doc, changes, version);
+}
+
+function getSettings(doc: TextDocument): CSpellUserSettings {
+    return cspell.constructSettingsForText(defaultSettings, doc.getText(), doc.languageId);
+}
+
+function toSummary(diags: { range: unknown; message: string }[]) {
+    return diags.map(({ range, message }) => ({ range, message }));
+}
@@ -0,0 +1,124 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+
+import type { DocumentUri } from './api.js';
+
+/**
+ * Bump this when the format of the cache or the diagnostics changes.
+ */
+const cacheFormatVersion = 1;
+
+export const issueCacheFilename = 'cspell-workspace-issues.json';
+
+interface IssueCacheEntry {
+    /** Hash of the file content. */
+    hash: string;
+    /** Hash of the settings used to check the file. */
+    settingsHash: string;
+    diagnostics: Diagnostic[];
+}
+
+interface IssueCacheFile {
+    version: number;
+    files: Record<DocumentUri, IssueCacheEntry>;
+}
+
+/**
+ * An on-disk cache of the issues found in workspace files.
+ * Entries are only valid if both the content and the settings are unchanged.
+ */
+export class IssueCache {
+    private entries = new Map<DocumentUri, IssueCacheEntry>();
+    private dirty = false;
+
+    /**
+     * @param cacheFile - the file used to store the cache. Nothing is persisted if undefined.
+     */
+    constructor(readonly cacheFile: string | undefined) {}
+
+    async load(): Promise<void> {
+        this.entries.clear();
+        this.dirty = false;
+        if (!this.cacheFile) return;
+        try {
+            const data: IssueCacheFile = JSON.parse(await fs.readFile(this.cacheFile, 'utf8'));
+            if (data.version !== cacheFormatVersion) return;
+            this.entries = new Map(Object.entries(data.files));
+        } catch (e) {
+            // A missing or corrupt cache is the same as an empty cache.
+        }
+    }
+
+    get(uri: DocumentUri, hash: string, settingsHash: string): Diagnostic[] | undefined {
+        const entry = this.entries.get(uri);
+        if (!entry || entry.hash !== hash || entry.settingsHash !== settingsHash) return undefined;
+        return entry.diagnostics;
+    }
+
+    set(uri: DocumentUri, hash: string, settingsHash: string, diagnostics: Diagnostic[]): void {
+        this.entries.set(uri, { hash, settingsHash, diagnostics });
+        this.dirty = true;
+    }
+
+    delete(uri: DocumentUri): void {
+        this.dirty = this.entries.delete(uri) || this.dirty;
+    }
+
+    /**
+     * Remove the entries for files that are not in `keep`.
+     */
+    prune(keep: Set<DocumentUri>): void {
+        for (const uri of this.entries.keys()) {
+            if (!keep.has(uri)) this.delete(uri);
+        }
+    }
+
+    async save(): Promise<void> {
+        if (!this.cacheFile || !this.dirty) return;
+        const data: IssueCacheFile = { version: cacheFormatVersion, files: Object.fromEntries(this.entries) };
+        await fs.mkdir(path.dirname(this.cacheFile), { recursive: true });
+        await fs.writeFile(this.cacheFile, JSON.stringify(data));
+        this.dirty = false;
+    }
+}
+
+export function hashText(text: string): string {
+    return createHash('sha1').update(text).digest('hex');
+}
+
+/**
+ * Convert the settings to JSON, used to calculate the hash of the settings.
+ * RegExps, Maps, and Sets are converted, circular references and the source trace are removed.
+ * An object used in more than one place is included each time.
+ */
+export function settingsToJson(settings: object): string {
+    /** The objects on the path to the current value, a circular reference points to one of them. */
+    const ancestors = new Set<object>();
+
+    function toJsonValue(value: unknown): unknown {
+        if (value instanceof RegExp) return value.toString();
+        if (hasToJSON(value)) value = value.toJSON();
+        if (value instanceof Map) value = [...value.entries()];
+        if (value instanceof Set) value = [...value];
+        if (!value || typeof value !== 'object') return value;
+        if (ancestors.has(value)) return undefined;
+        ancestors.add(value);
+        try {
+            if (Array.isArray(value)) return value.map((v) => toJsonValue(v) ?? null);
+            const entries = Object.entries(value)
+                .filter(([key]) => !key.startsWith('__') && key !== 'source')
+                .map(([key, v]) => [key, toJsonValue(v)]);
+            return Object.fromEntries(entries);
+        } finally {
+            ancestors.delete(value);
+        }
+    }
+
+    return JSON.stringify(toJsonValue(settings));
+}
+
+function hasToJSON(value: unknown): value is { toJSON(): unknown } {
+    return !!value && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function';
+}
@@ -0,0 +1,121 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterAll, beforeEach, describe, expect, test } from 'vitest';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+
+import { hashText, IssueCache, settingsToJson } from './issueCache.mjs';
+
+// cSpell:ignore wrongg
+
+const folderDir = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(folderDir, 'temp/issueCache');
+const cacheFile = path.join(tempDir, 'cache/issues.json');
+
+const uriA = 'file:///workspace/a.md';
+const uriB = 'file:///workspace/b.md';
+
+describe('IssueCache', () => {
+    beforeEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('get only returns entries with the same content and settings', () => {
+        const cache = new IssueCache(undefined);
+        const diags = [diag('wrongg')];
+        cache.set(uriA, 'hash', 'settings', diags);
+
+        expect(cache.get(uriA, 'hash', 'settings')).toBe(diags);
+        expect(cache.get(uriA, 'other', 'settings')).toBeUndefined();
+        expect(cache.get(uriA, 'hash', 'other')).toBeUndefined();
+        expect(cache.get(uriB, 'hash', 'settings')).toBeUndefined();
+    });
+
+    test('delete and prune', () => {
+        const cache = new IssueCache(undefined);
+        cache.set(uriA, 'hash', 'settings', []);
+        cache.set(uriB, 'hash', 'settings', []);
+
+        cache.prune(new Set([uriA]));
+        expect(cache.get(uriA, 'hash', 'settings')).toEqual([]);
+        expect(cache.get(uriB, 'hash', 'settings')).toBeUndefined();
+
+        cache.delete(uriA);
+        expect(cache.get(uriA, 'hash', 'settings')).toBeUndefined();
+    });
+
+    test('save and load', async () => {
+        const cache = new IssueCache(cacheFile);
+        cache.set(uriA, 'hash', 'settings', [diag('wrongg')]);
+        await cache.save();
+
+        const loaded = new IssueCache(cacheFile);
+        await loaded.load();
+        expect(loaded.get(uriA, 'hash', 'settings')).toEqual([diag('wrongg')]);
+    });
+
+    test.each`
+        content
+        ${'not json'}
+        ${JSON.stringify({ version: -1, files: { [uriA]: { hash: 'hash', settingsHash: 'settings', diagnostics: [] } } })}
+    `('load ignores an unusable cache file $content', async ({ content }) => {
+        await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+        await fs.writeFile(cacheFile, content);
+
+        const cache = new IssueCache(cacheFile);
+        await cache.load();
+        expect(cache.get(uriA, 'hash', 'settings')).toBeUndefined();
+    });
+
+    test('load without a cache file', async () => {
+        const cache = new IssueCache(cacheFile);
+        await expect(cache.load()).resolves.toBeUndefined();
+        await cache.save();
+        await expect(fs.stat(cacheFile)).rejects.toEqual(expect.objectContaining({ code: 'ENOENT' }));
+    });
+});
+
+describe('hashText', () => {
+    test('hashText', () => {
+        expect(hashText('hello')).toBe(hashText('hello'));
+        expect(hashText('hello')).not.toBe(hashText('hello\n'));
+    });
+});
+
+describe('settingsToJson', () => {
+    test('converts RegExps, Maps, and Sets', () => {
+        const settings = {
+            words: new Set(['one']),
+            patterns: new Map([['p', /a+/g]]),
+            __importRef: { filename: 'a' },
+            source: { name: 'b' },
+        };
+        expect(JSON.parse(settingsToJson(settings))).toEqual({ words: ['one'], patterns: [['p', '/a+/g']] });
+    });
+
+    test('drops circular references', () => {
+        const settings: Record<string, unknown> = { words: ['one'] };
+        settings['self'] = settings;
+        settings['list'] = [settings];
+        expect(JSON.parse(settingsToJson(settings))).toEqual({ words: ['one'], list: [null] });
+    });
+
+    test('keeps objects used more than once', () => {
+        const shared = { words: ['one'] };
+        const changed = { words: ['two'] };
+        const settingsA = { a: shared, b: shared };
+        const settingsB = { a: shared, b: changed };
+        expect(JSON.parse(settingsToJson(settingsA))).toEqual({ a: shared, b: shared });
+        expect(settingsToJson(settingsA)).not.toBe(settingsToJson(settingsB));
+    });
+});
+
+function diag(word: string): Diagnostic {
+    return {
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: word.length } },
+        message: `"${word}": Unknown word.`,
+    };
+}
@@ -0,0 +1,166 @@
+import { log } from '@internal/common-utils/log';
+import { lookupLocaleInfo } from '@internal/locale-resolver';
+import { createHash } from 'crypto';
+import type { SpellingDictionaryCollection } from 'cspell-lib';
+import { constructSettingsForText, getDictionary } from 'cspell-lib';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { DocumentLocale, DocumentUri } from './api.js';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+
+export interface LocaleDetector {
+    /**
+     * Apply the detected or chosen locale to the settings of a document.
+     * One locale is used for the entire document, see `localeRegions` for parts with a different locale.
+     * The settings are returned unchanged if `detectLocale` is not enabled.
+     */
+    applyToSettings(doc: TextDocument, settings: CSpellUserSettings): Promise<CSpellUserSettings>;
+    /**
+     * Determine the locale to use with a document.
+     * @returns undefined if `detectLocale` is not enabled.
+     */
+    getDocumentLocale(doc: TextDocument, settings: CSpellUserSettings): Promise<DocumentLocale | undefined>;
+    /**
+     * Choose the locale of a document instead of detecting it.
+     * @param locale - the locale to use, undefined to go back to detecting it.
+     */
+    setLocaleOverride(uri: DocumentUri, locale: string | undefined): void;
+    /** Forget the detected locales, needed when the settings change. */
+    clear(): void;
+}
+
+interface CachedLocale {
+    /** The hash of the text, the documents found by a workspace check do not have a version. */
+    hash: string;
+    locale: Promise<string | undefined>;
+}
+
+/** The number of distinct words sampled from a document. */
+const maxSampleSize = 1000;
+/** The minimum number of sampled words that need to match a locale. */
+const minMatchingWords = 3;
+
+const regLocaleSeparator = /[,;\s]+/;
+const regWord = /\p{L}[\p{L}'’]*\p{L}/gu;
+/** A locale that does not match any dictionary, used to find the dictionaries common to all locales. */
+const noLocale = 'zz';
+
+export function createLocaleDetector(): LocaleDetector {
+    const detected = new Map<DocumentUri, CachedLocale>();
+    const overrides = new Map<DocumentUri, string>();
+
+    function detect(doc: TextDocument, settings: CSpellUserSettings, candidates: string[]): Promise<string | undefined> {
+        const text = doc.getText();
+        const hash = createHash('sha1').update(text).digest('hex');
+        const cached = detected.get(doc.uri);
+        if (cached?.hash === hash) return cached.locale;
+        const locale = detectLocale(text, settings, doc.languageId, candidates);
+        detected.set(doc.uri, { hash, locale });
+        return locale;
+    }
+
+    async function getDocumentLocale(doc: TextDocument, settings: CSpellUserSettings): Promise<DocumentLocale | undefined> {
+        if (!settings.detectLocale) return undefined;
+        const candidates = extractLocales(settings.language);
+        const override = overrides.get(doc.uri);
+        if (override) return toDocumentLocale(override, 'override', candidates);
+        if (candidates.length < 2) return toDocumentLocale(settings.language, 'settings', candidates);
+        const locale = await detect(doc, settings, candidates);
+        return locale ? toDocumentLocale(locale, 'detected', candidates) : toDocumentLocale(settings.language, 'settings', candidates);
+    }
+
+    async function applyToSettings(doc: TextDocument, settings: CSpellUserSettings): Promise<CSpellUserSettings> {
+        const docLocale = await getDocumentLocale(doc, settings);
+        if (!docLocale?.locale || docLocale.source === 'settings') return settings;
+        log(`Using locale "${docLocale.locale}" (${docLocale.source})`, doc.uri);
+        return { ...settings, language: docLocale.locale };
+    }
+
+    function setLocaleOverride(uri: DocumentUri, locale: string | undefined) {
+        locale ? overrides.set(uri, locale) : overrides.delete(uri);
+    }
+
+    function clear() {
+        detected.clear();
+    }
+
+    return {
+        applyToSettings,
+        getDocumentLocale,
+        setLocaleOverride,
+        clear,
+    };
+}
+
+function toDocumentLocale(locale: string | undefined, source: DocumentLocale['source'], candidates: string[]): DocumentLocale {
+    const info = locale && lookupLocaleInfo(locale);
+    const name = info ? info.language + (info.country ? ` (${info.country})` : '') : undefined;
+    return { locale, name, source, candidates };
+}
+
+/**
+ * Split the `language` setting into a list of locales.
+ */
+export function extractLocales(language: string | undefined): string[] {
+    const locales = (language || '')
+        .split(regLocaleSeparator)
+        .map((code) => code.trim())
+        .filter((code) => !!code && code !== '*');
+    return [...new Set(locales)];
+}
+
+/**
+ * Collect the distinct words from the prose of a document.
+ */
+export function sampleWords(text: string, maxWords = maxSampleSize): string[] {
+    const words = new Set<string>();
+    for (const m of text.matchAll(regWord)) {
+        if (m[0].length < 3) continue;
+        words.add(m[0]);
+        if (words.size >= maxWords) break;
+    }
+    return [...words];
+}
+
+/**
+ * Guess the locale of a text by checking which of the candidate locale dictionaries knows the most words.
+ * Words known to the dictionaries common to all locales (code, companies, etc.) are not counted.
+ * @param text - the text to check.
+ * @param settings - the settings for the document, before the in-document settings are applied.
+ * @param languageId - the languageId of the document.
+ * @param candidates - the locales to choose from.
+ * @returns the best matching locale, or undefined if it cannot be determined.
+ */
+export async function detectLocale(
+    text: string,
+    settings: CSpellUserSettings,
+    languageId: string,
+    candidates: string[],
+): Promise<string | undefined> {
+    const words = sampleWords(text);
+    if (!words.length || !candidates.length) return undefined;
+
+    const loadDictionary = (language: string) => getDictionary(constructSettingsForText({ ...settings, language }, '', languageId));
+    const baseline = await loadDictionary(noLocale);
+    const baseNames = dictionaryNames(baseline);
+    const prose = words.filter((word) => !baseline.has(word, { ignoreCase: true }));
+
+    let best: { locale: string; score: number } | undefined;
+    for (const locale of candidates) {
+        const dict = await loadDictionary(locale);
+        // Without any dictionaries for the locale, there is nothing to compare.
+        if (dictionaryNames(dict) === baseNames) continue;
+        const score = prose.filter((word) => dict.has(word, { ignoreCase: true })).length;
+        if (score >= minMatchingWords && score > (best?.score ?? 0)) {
+            best = { locale, score };
+        }
+    }
+    return best?.locale;
+}
+
+function dictionaryNames(dict: SpellingDictionaryCollection): string {
+    return dict.dictionaries
+        .map((d) => d.name)
+        .sort()
+        .join();
+}
@@ -0,0 +1,91 @@
+import { getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { createLocaleDetector, detectLocale, extractLocales, sampleWords } from './localeDetector.mjs';
+
+// cspell:ignore colour harbour neighbour organised favourite centre
+
+const timeout = 30000; // 30 seconds
+
+const britishText = `
+# Notes
+
+The colour of the harbour was grey.
+Our neighbour organised a party at the community centre.
+It was my favourite evening of the year.
+`;
+
+const americanText = `
+# Notes
+
+The color of the harbor was gray.
+Our neighbor organized a party at the community center.
+It was my favorite evening of the year.
+`;
+
+describe('localeDetector', () => {
+    const settings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en,en-GB', detectLocale: true };
+
+    test.each`
+        language             | expected
+        ${undefined}         | ${[]}
+        ${''}                | ${[]}
+        ${'en'}              | ${['en']}
+        ${'en, de-DE;fr fr'} | ${['en', 'de-DE', 'fr']}
+        ${'*,en'}            | ${['en']}
+    `('extractLocales $language', ({ language, expected }) => {
+        expect(extractLocales(language)).toEqual(expected);
+    });
+
+    test('sampleWords', () => {
+        expect(sampleWords("It's a code_word and a don't, the end.")).toEqual(["It's", 'code', 'word', 'and', "don't", 'the', 'end']);
+        expect(sampleWords('one two three four', 2)).toEqual(['one', 'two']);
+    });
+
+    test(
+        'detectLocale',
+        async () => {
+            await expect(detectLocale(britishText, settings, 'markdown', ['en', 'en-GB'])).resolves.toBe('en-GB');
+            await expect(detectLocale(americanText, settings, 'markdown', ['en-GB', 'en'])).resolves.toBe('en');
+            // There are no German or French dictionaries installed.
+            await expect(detectLocale(britishText, settings, 'markdown', ['de', 'fr'])).resolves.toBeUndefined();
+            await expect(detectLocale('', settings, 'markdown', ['en', 'en-GB'])).resolves.toBeUndefined();
+        },
+        timeout,
+    );
+
+    test(
+        'getDocumentLocale and applyToSettings',
+        async () => {
+            const detector = createLocaleDetector();
+            const doc = TextDocument.create('file:///notes.md', 'markdown', 1, britishText);
+
+            await expect(detector.getDocumentLocale(doc, { ...settings, detectLocale: false })).resolves.toBeUndefined();
+            await expect(detector.getDocumentLocale(doc, settings)).resolves.toEqual({
+                locale: 'en-GB',
+                name: 'English (United Kingdom)',
+                source: 'detected',
+                candidates: ['en', 'en-GB'],
+            });
+            await expect(detector.applyToSettings(doc, settings)).resolves.toEqual(expect.objectContaining({ language: 'en-GB' }));
+
+            detector.setLocaleOverride(doc.uri, 'en');
+            await expect(detector.getDocumentLocale(doc, settings)).resolves.toEqual(
+                expect.objectContaining({ locale: 'en', name: 'English', source: 'override' }),
+            );
+            await expect(detector.applyToSettings(doc, settings)).resolves.toEqual(expect.objectContaining({ language: 'en' }));
+
+            detector.setLocaleOverride(doc.uri, undefined);
+            await expect(detector.getDocumentLocale(doc, settings)).resolves.toEqual(expect.objectContaining({ locale: 'en-GB' }));
+
+            const single = { ...settings, language: 'en' };
+            await expect(detector.getDocumentLocale(doc, single)).resolves.toEqual(
+                expect.objectContaining({ locale: 'en', source: 'settings' }),
+            );
+            await expect(detector.applyToSettings(doc, single)).resolves.toBe(single);
+        },
+        timeout,
+    );
+});
@@ -0,0 +1,94 @@
+import { logError } from '@internal/common-utils/log';
+import { constructSettingsForText, Text } from 'cspell-lib';
+
+import type { CSpellUserSettings, LocaleRegionRule } from './config/cspellConfig/index.mjs';
+
+/**
+ * A region of a document with its own locale.
+ * `start` is inclusive and `end` is exclusive.
+ */
+export interface LocaleRegion {
+    start: number;
+    end: number;
+    locale: string;
+}
+
+/** A locale that does not match any dictionary, used to find the dictionaries common to all locales. */
+const noLocale = 'zz';
+
+const regExpCache = new Map<string, RegExp | undefined>();
+
+/**
+ * Find the regions of a text that have their own locale.
+ * Overlapping regions are not supported, the region that starts first wins.
+ * @param text - the text to search.
+ * @param languageId - the languageId of the document, used to select the rules.
+ * @param rules - the `localeRegions` setting.
+ * @returns the regions sorted by offset.
+ */
+export function findLocaleRegions(text: string, languageId: string, rules: LocaleRegionRule[] | undefined): LocaleRegion[] {
+    if (!rules?.length) return [];
+
+    const found: LocaleRegion[] = [];
+    for (const rule of rules) {
+        if (rule.languageIds?.length && !rule.languageIds.includes(languageId) && !rule.languageIds.includes('*')) continue;
+        const regExp = toRegExp(rule.pattern);
+        if (!regExp) continue;
+        for (const m of text.matchAll(regExp)) {
+            const locale = m.groups?.['locale'] || rule.locale;
+            const [start, end] = m.indices?.groups?.['text'] ?? [m.index ?? 0, (m.index ?? 0) + m[0].length];
+            if (!locale || start >= end) continue;
+            found.push({ start, end, locale });
+        }
+    }
+
+    found.sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const regions: LocaleRegion[] = [];
+    for (const region of found) {
+        const last = regions[regions.length - 1];
+        if (last && region.start < last.end) continue;
+        regions.push(region);
+    }
+    return regions;
+}
+
+/**
+ * Find the region that contains an offset.
+ */
+export function findRegionAt(regions: LocaleRegion[], offset: number): LocaleRegion | undefined {
+    return regions.find((r) => r.start <= offset && offset < r.end);
+}
+
+/**
+ * Calculate the settings to use for a region with its own locale.
+ * The dictionaries that belong to the locale of the document are replaced with the dictionaries of the region's locale.
+ * @param settings - the settings of the document, including the language settings.
+ * @param locale - the locale of the region.
+ * @param languageId - the languageId of the document.
+ */
+export function calcRegionSettings(settings: CSpellUserSettings, locale: string, languageId: string): CSpellUserSettings {
+    const documentLocale = new Set(localeDictionaries(settings, settings.language, languageId));
+    const dictionaries = (settings.dictionaries || []).filter((name) => !documentLocale.has(name));
+    return { ...settings, language: locale, dictionaries: [...dictionaries, ...localeDictionaries(settings, locale, languageId)] };
+}
+
+/**
+ * The dictionaries added by the language settings for a locale.
+ */
+function localeDictionaries(settings: CSpellUserSettings, locale: string | undefined, languageId: string): string[] {
+    const { languageSettings } = settings;
+    const calc = (language: string) => constructSettingsForText({ languageSettings, language }, '', languageId).dictionaries || [];
+    const common = new Set(calc(noLocale));
+    return calc(locale || noLocale).filter((name) => !common.has(name));
+}
+
+function toRegExp(pattern: string): RegExp | undefined {
+    if (regExpCache.has(pattern)) return regExpCache.get(pattern);
+    const regExp = Text.stringToRegExp(pattern);
+    // The `d` flag is needed to get the offset of the `text` group.
+    const result = regExp && new RegExp(regExp.source, [...new Set(regExp.flags + 'gd')].join(''));
+    if (!result) logError(`Invalid localeRegions pattern: ${pattern}`);
+    regExpCache.set(pattern, result);
+    return result;
+}
@@ -0,0 +1,63 @@
+import { constructSettingsForText, getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test } from 'vitest';
+
+import type { CSpellUserSettings, LocaleRegionRule } from './config/cspellConfig/index.mjs';
+import { calcRegionSettings, findLocaleRegions, findRegionAt } from './localeRegions.mjs';
+
+const htmlLang: LocaleRegionRule = {
+    name: 'html-lang',
+    languageIds: ['html'],
+    pattern: String.raw`/<(\w+)[^>]*\slang="(?<locale>[\w-]+)"[^>]*>(?<text>[\s\S]*?)<\/\1>/g`,
+};
+
+const frontMatterLang: LocaleRegionRule = {
+    name: 'front-matter-lang',
+    languageIds: ['markdown'],
+    pattern: String.raw`/^---\n[\s\S]*?^lang:\s*(?<locale>[\w-]+)[\s\S]*?^---\n(?<text>[\s\S]*)/m`,
+};
+
+const fencedGerman: LocaleRegionRule = {
+    languageIds: ['markdown'],
+    pattern: '/^```text-de\\n(?<text>[\\s\\S]*?)^```/gm',
+    locale: 'de',
+};
+
+describe('localeRegions', () => {
+    test.each`
+        text                                                       | languageId    | rules                                        | expected
+        ${'<p lang="de">Hallo</p>'}                                | ${'html'}     | ${undefined}                                 | ${[]}
+        ${'<p lang="de">Hallo</p>'}                                | ${'html'}     | ${[htmlLang]}                                | ${[{ start: 13, end: 18, locale: 'de' }]}
+        ${'<p lang="de">Hallo</p>'}                                | ${'markdown'} | ${[htmlLang]}                                | ${[]}
+        ${'<p lang="de">Hallo</p>'}                                | ${'markdown'} | ${[{ ...htmlLang, languageIds: ['*'] }]}     | ${[{ start: 13, end: 18, locale: 'de' }]}
+        ${'<p lang="de">Hallo</p>'}                                | ${'markdown'} | ${[{ ...htmlLang, languageIds: undefined }]} | ${[{ start: 13, end: 18, locale: 'de' }]}
+        ${'a <b lang="fr">c</b> <i lang="de">d</i>'}               | ${'html'}     | ${[htmlLang]}                                | ${[{ start: 15, end: 16, locale: 'fr' }, { start: 34, end: 35, locale: 'de' }]}
+        ${'<p lang="de"></p>'}                                     | ${'html'}     | ${[htmlLang]}                                | ${[]}
+        ${'---\ntitle: x\nlang: en-GB\n---\nText'}                 | ${'markdown'} | ${[frontMatterLang]}                         | ${[{ start: 29, end: 33, locale: 'en-GB' }]}
+        ${'Text\n```text-de\nHallo\n```\n'}                        | ${'markdown'} | ${[fencedGerman]}                            | ${[{ start: 16, end: 22, locale: 'de' }]}
+        ${'Text\n```text-de\nHallo\n```\n'}                        | ${'markdown'} | ${[{ ...fencedGerman, locale: undefined }]}  | ${[]}
+        ${'---\nlang: en-GB\n---\nText\n```text-de\nHallo\n```\n'} | ${'markdown'} | ${[frontMatterLang, fencedGerman]}           | ${[{ start: 20, end: 46, locale: 'en-GB' }]}
+        ${'<p lang="de">Hallo</p>'}                                | ${'html'}     | ${[{ pattern: '/(/', locale: 'de' }]}        | ${[]}
+    `('findLocaleRegions $text $languageId', ({ text, languageId, rules, expected }) => {
+        expect(findLocaleRegions(text, languageId, rules)).toEqual(expected);
+    });
+
+    test('findRegionAt', () => {
+        const regions = findLocaleRegions('a <b lang="fr">c</b> <i lang="de">d</i>', 'html', [htmlLang]);
+        expect(findRegionAt(regions, 0)).toBeUndefined();
+        expect(findRegionAt(regions, 15)).toEqual({ start: 15, end: 16, locale: 'fr' });
+        expect(findRegionAt(regions, 16)).toBeUndefined();
+        expect(findRegionAt(regions, 34)).toEqual(expect.objectContaining({ locale: 'de' }));
+    });
+
+    test('calcRegionSettings', () => {
+        const settings: CSpellUserSettings = constructSettingsForText({ ...getDefaultSettings(), language: 'en' }, '', 'markdown');
+        expect(settings.dictionaries).toContain('en_us');
+
+        const regionSettings = calcRegionSettings(settings, 'en-GB', 'markdown');
+        expect(regionSettings.language).toBe('en-GB');
+        expect(regionSettings.dictionaries).toContain('en-gb');
+        expect(regionSettings.dictionaries).not.toContain('en_us');
+        // The dictionaries that do not depend upon the locale are kept.
+        expect(regionSettings.dictionaries).toEqual(expect.arrayContaining(['companies', 'softwareTerms', 'html']));
+    });
+});
@@ -0,0 +1,165 @@
+import type { Diagnostic, NotebookCell, NotebookDocument } from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI as Uri, Utils as UriUtils } from 'vscode-uri';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+
+/** The language id of a notebook file opened as text. */
+export const notebookLanguageId = 'jupyter';
+
+const notebookExtensions = new Set(['.ipynb']);
+
+/** The scheme of the cells of an open notebook, their uri has the path of the notebook. */
+const notebookCellScheme = 'vscode-notebook-cell';
+
+/** The cells are joined with a line break to keep the words of neighboring cells apart. */
+const cellSeparator = '\n';
+
+const jsonString = String.raw`"(?:[^"\\\n]|\\.)*"`;
+const jsonStringOrArray = String.raw`(?:${jsonString}|\[(?:\s*${jsonString}\s*,?)*\s*\])`;
+
+/**
+ * The source of the cells in a `.ipynb` file.
+ */
+const notebookSources = [String.raw`/(?<="source"\s*:\s*)${jsonStringOrArray}/g`];
+
+/**
+ * The text of stream outputs and of `text/plain` and `text/markdown` results.
+ */
+const notebookOutputs = [String.raw`/(?<="(?:text|text\/plain|text\/markdown)"\s*:\s*)${jsonStringOrArray}/g`];
+
+/** The escape sequences in JSON strings, without them `\nWord` is read as `nWord`. */
+const jsonEscapes = [String.raw`/\\(?:[nrtbf"\\/]|u[0-9a-fA-F]{4})/g`];
+
+export interface NotebookTextCell {
+    uri: string;
+    document: TextDocument;
+    /** The offset of the cell in the notebook text. */
+    offset: number;
+}
+
+/**
+ * The cells of a notebook joined into one document.
+ */
+export interface NotebookText {
+    /** Identifies the content of the cells, it changes when a cell is edited, added, removed, or moved. */
+    key: string;
+    document: TextDocument;
+    cells: NotebookTextCell[];
+}
+
+export interface NotebookResultCache {
+    /**
+     * Validate the notebook text once for each combination of cell content and language.
+     * The cells of a notebook share the result.
+     */
+    validate(notebook: NotebookText, validate: () => Promise<Diagnostic[]>): Promise<Diagnostic[]>;
+    delete(notebookUri: string): void;
+    clear(): void;
+}
+
+/**
+ * Determine if a file is a notebook by its extension. The cells of a notebook are not notebook files.
+ */
+export function isNotebookFile(uri: string | Uri): boolean {
+    const u = typeof uri === 'string' ? Uri.parse(uri) : uri;
+    return u.scheme !== notebookCellScheme && notebookExtensions.has(UriUtils.extname(u).toLowerCase());
+}
+
+/**
+ * Join the cells of a notebook into one document, in the order they appear in the notebook.
+ * This makes the in-document settings, like `cspell:words` and `cspell:disable`, apply across the cells.
+ * @param notebook - the notebook
+ * @param getCellDocument - get the text document of a cell.
+ * @param languageId - the language used to check the text, usually the language of the cell being checked.
+ * @returns undefined if the text of a cell is missing.
+ */
+export function createNotebookText(
+    notebook: Pick<NotebookDocument, 'uri'> & { cells: Pick<NotebookCell, 'document'>[] },
+    getCellDocument: (uri: string) => TextDocument | undefined,
+    languageId: string,
+): NotebookText | undefined {
+    const cells: NotebookTextCell[] = [];
+    const parts: string[] = [];
+    let offset = 0;
+    for (const cell of notebook.cells) {
+        const document = getCellDocument(cell.document);
+        if (!document) return undefined;
+        const text = document.getText();
+        cells.push({ uri: cell.document, document, offset });
+        parts.push(text);
+        offset += text.length + cellSeparator.length;
+    }
+    const key = cells.map((cell) => `${cell.uri}@${cell.document.version}`).join('|');
+    const document = TextDocument.create(notebook.uri, languageId, 0, parts.join(cellSeparator));
+    return { key, document, cells };
+}
+
+/**
+ * Map the diagnostics of the notebook text to a cell.
+ * @param notebook - the notebook text
+ * @param cellUri - the cell
+ * @param diagnostics - the diagnostics of the notebook text.
+ * @returns the diagnostics found in the cell, with ranges relative to the cell.
+ */
+export function diagnosticsForCell(notebook: NotebookText, cellUri: string, diagnostics: Diagnostic[]): Diagnostic[] {
+    const cell = notebook.cells.find((cell) => cell.uri === cellUri);
+    if (!cell) return [];
+    const { document, offset } = cell;
+    const end = offset + document.getText().length;
+    return diagnostics
+        .map((diag) => ({ diag, start: notebook.document.offsetAt(diag.range.start), end: notebook.document.offsetAt(diag.range.end) }))
+        .filter((d) => d.start >= offset && d.start < end)
+        .map(({ diag, start, end }) => ({
+            ...diag,
+            range: { start: document.positionAt(start - offset), end: document.positionAt(end - offset) },
+        }));
+}
+
+export function createNotebookResultCache(): NotebookResultCache {
+    const results = new Map<string, { key: string; diagnostics: Promise<Diagnostic[]> }>();
+
+    function validate(notebook: NotebookText, validate: () => Promise<Diagnostic[]>): Promise<Diagnostic[]> {
+        const { uri, languageId } = notebook.document;
+        const id = `${uri}::${languageId}`;
+        const found = results.get(id);
+        if (found?.key === notebook.key) return found.diagnostics;
+        const diagnostics = validate();
+        results.set(id, { key: notebook.key, diagnostics });
+        // Do not keep a failed or canceled validation.
+        diagnostics.catch(() => results.get(id)?.diagnostics === diagnostics && results.delete(id));
+        return diagnostics;
+    }
+
+    function deleteNotebook(notebookUri: string) {
+        for (const id of results.keys()) {
+            if (id.startsWith(notebookUri + '::')) results.delete(id);
+        }
+    }
+
+    return {
+        validate,
+        delete: deleteNotebook,
+        clear: () => results.clear(),
+    };
+}
+
+/**
+ * Calculate the settings to check a notebook file opened as text or found by a workspace check.
+ * Only the source of the cells is checked, the outputs are checked if `checkNotebookOutputs` is turned on.
+ * @param doc - the document
+ * @param settings - the settings for the document.
+ * @returns undefined if it is not a notebook file.
+ */
+export function calcNotebookFileSettings(
+    doc: Pick<TextDocument, 'uri' | 'languageId'>,
+    settings: CSpellUserSettings,
+): CSpellUserSettings | undefined {
+    if (!isNotebookFile(doc.uri)) return undefined;
+    const { includeRegExpList = [], ignoreRegExpList = [], checkNotebookOutputs } = settings;
+    return {
+        ...settings,
+        includeRegExpList: [...includeRegExpList, ...notebookSources, ...(checkNotebookOutputs ? notebookOutputs : [])],
+        ignoreRegExpList: [...ignoreRegExpList, ...jsonEscapes],
+    };
+}
@@ -0,0 +1,147 @@
+import { constructSettingsForText, getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test, vi } from 'vitest';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import {
+    calcNotebookFileSettings,
+    createNotebookResultCache,
+    createNotebookText,
+    diagnosticsForCell,
+    isNotebookFile,
+} from './notebooks.mjs';
+import * as Validator from './validator.mjs';
+
+// cspell:ignore wrogn recieve plonk qwzx lzxcv
+
+const notebookUri = 'file:///project/analysis.ipynb';
+
+const cellTexts = [
+    '# Analysis\n\n<!-- cspell:words plonk -->\nThe plonk data is wrogn.',
+    'print("plonk")\n# cspell:disable\nqwzx = 1',
+    'lzxcv = 2\n# cspell:enable\nrecieve = 3',
+];
+
+const cells = cellTexts.map((text, i) =>
+    TextDocument.create(`vscode-notebook-cell:/project/analysis.ipynb#W${i}sZmlsZQ==`, i ? 'python' : 'markdown', 1, text),
+);
+
+const notebook = { uri: notebookUri, cells: cells.map((doc) => ({ document: doc.uri })) };
+
+const sampleIpynb = JSON.stringify(
+    {
+        cells: [
+            { cell_type: 'markdown', metadata: {}, source: ['# Wrogn title\n', 'Some text'] },
+            {
+                cell_type: 'code',
+                execution_count: 1,
+                metadata: { lzxcv: true },
+                outputs: [{ name: 'stdout', output_type: 'stream', text: ['recieve\n'] }],
+                source: 'print("qwzx")',
+            },
+        ],
+        metadata: {},
+        nbformat: 4,
+        nbformat_minor: 5,
+    },
+    undefined,
+    1,
+);
+
+describe('notebooks', () => {
+    test.each`
+        uri                                        | expected
+        ${notebookUri}                             | ${true}
+        ${'file:///project/ANALYSIS.IPYNB'}        | ${true}
+        ${'file:///project/analysis.py'}           | ${false}
+        ${'vscode-notebook-cell:/project/a.ipynb'} | ${false}
+    `('isNotebookFile $uri', ({ uri, expected }) => {
+        expect(isNotebookFile(uri)).toBe(expected);
+    });
+
+    test('createNotebookText', () => {
+        const text = createNotebookText(notebook, (uri) => cells.find((doc) => doc.uri === uri), 'python');
+        expect(text?.document.getText()).toBe(cellTexts.join('\n'));
+        expect(text?.document.languageId).toBe('python');
+        expect(text?.cells.map((cell) => cell.offset)).toEqual([0, cellTexts[0].length + 1, cellTexts[0].length + cellTexts[1].length + 2]);
+        expect(createNotebookText(notebook, (uri) => cells.find((doc) => doc.uri === uri && doc !== cells[1]), 'python')).toBeUndefined();
+    });
+
+    test('the in-document settings apply across cells', async () => {
+        const text = createNotebookText(notebook, (uri) => cells.find((doc) => doc.uri === uri), 'python');
+        if (!text) throw new Error('Missing notebook text');
+        const baseSettings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en' };
+        const settings = constructSettingsForText(baseSettings, text.document.getText(), 'python');
+        const diagnostics = await Validator.validateTextDocument(text.document, settings);
+        expect(diagnostics.map((diag) => diag.data?.text)).toEqual(['wrogn', 'recieve']);
+
+        const byCell = cells.map((cell) => diagnosticsForCell(text, cell.uri, diagnostics));
+        expect(byCell.map((diags) => diags.map((diag) => diag.data?.text))).toEqual([['wrogn'], [], ['recieve']]);
+        expect(byCell[0][0].range).toEqual({ start: { line: 3, character: 18 }, end: { line: 3, character: 23 } });
+        expect(byCell[2][0].range).toEqual({ start: { line: 2, character: 0 }, end: { line: 2, character: 7 } });
+        expect(diagnosticsForCell(text, 'vscode-notebook-cell:/project/other.ipynb#W0', diagnostics)).toEqual([]);
+    });
+
+    test('createNotebookResultCache', async () => {
+        const cache = createNotebookResultCache();
+        const getCell = (uri: string) => cells.find((doc) => doc.uri === uri);
+        const text = createNotebookText(notebook, getCell, 'python');
+        const textMarkdown = createNotebookText(notebook, getCell, 'markdown');
+        if (!text || !textMarkdown) throw new Error('Missing notebook text');
+        const diagnostics: Diagnostic[] = [];
+        const validate = vi.fn(() => Promise.resolve(diagnostics));
+
+        expect(await cache.validate(text, validate)).toBe(diagnostics);
+        expect(await cache.validate(text, validate)).toBe(diagnostics);
+        expect(validate).toHaveBeenCalledTimes(1);
+        await cache.validate(textMarkdown, validate);
+        expect(validate).toHaveBeenCalledTimes(2);
+
+        // Editing a cell changes the key.
+        const edited = [TextDocument.update(cells[0], [{ text: 'x' }], 2), ...cells.slice(1)];
+        const textEdited = createNotebookText(notebook, (uri) => edited.find((doc) => doc.uri === uri), 'python');
+        if (!textEdited) throw new Error('Missing notebook text');
+        await cache.validate(textEdited, validate);
+        expect(validate).toHaveBeenCalledTimes(3);
+
+        // A failed validation is not kept.
+        await expect(cache.validate(text, () => Promise.reject(new Error('canceled')))).rejects.toThrow('canceled');
+        await cache.validate(text, validate);
+        expect(validate).toHaveBeenCalledTimes(4);
+
+        cache.delete(notebookUri);
+        await cache.validate(textMarkdown, validate);
+        expect(validate).toHaveBeenCalledTimes(5);
+    });
+
+    test('calcNotebookFileSettings', () => {
+        const settings: CSpellUserSettings = { ignoreRegExpList: ['Urls'] };
+        expect(calcNotebookFileSettings({ uri: 'file:///project/analysis.py', languageId: 'python' }, settings)).toBeUndefined();
+        const result = calcNotebookFileSettings({ uri: notebookUri, languageId: 'jupyter' }, settings);
+        expect(result?.includeRegExpList?.length).toBe(1);
+        expect(result?.ignoreRegExpList?.[0]).toBe('Urls');
+        const withOutputs = calcNotebookFileSettings(
+            { uri: notebookUri, languageId: 'jupyter' },
+            { ...settings, checkNotebookOutputs: true },
+        );
+        expect(withOutputs?.includeRegExpList?.length).toBe(2);
+    });
+
+    test.each`
+        checkNotebookOutputs | expected
+        ${false}             | ${['Wrogn', 'qwzx']}
+        ${true}              | ${['Wrogn', 'recieve', 'qwzx']}
+    `(
+        'validate notebook file checkNotebookOutputs: $checkNotebookOutputs',
+        async ({ checkNotebookOutputs, expected }) => {
+            const doc = TextDocument.create(notebookUri, 'jupyter', 1, sampleIpynb);
+            const baseSettings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en', checkNotebookOutputs };
+            const fileSettings = calcNotebookFileSettings(doc, baseSettings) || baseSettings;
+            const settings = constructSettingsForText(fileSettings, sampleIpynb, 'jupyter');
+            const results = await Validator.validateTextDocument(doc, settings);
+            expect(results.map((diag) => diag.data?.text)).toEqual(expected);
+        },
+        30000,
+    );
+});
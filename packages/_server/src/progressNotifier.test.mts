@@ -21,16 +21,32 @@ mockedCreateClientApi.mockImplementation(() => {
             clientNotification: {
                 onSpellCheckDocument: vi.fn(),
                 onDiagnostics: vi.fn(),
+                onWorkspaceCheckProgress: vi.fn(),
+                onRegExpProfile: vi.fn(),
             },
             serverRequest: {
+                checkDocument: { subscribe: vi.fn() },
+                checkText: { subscribe: vi.fn() },
+                checkWorkspace: { subscribe: vi.fn() },
+                findWordInDictionaries: { subscribe: vi.fn() },
                 getConfigurationForDocument: { subscribe: vi.fn() },
+                getDictionariesForDocument: { subscribe: vi.fn() },
+                getRegExpProfile: { subscribe: vi.fn() },
+                getVocabularyReport: { subscribe: vi.fn() },
                 isSpellCheckEnabled: { subscribe: vi.fn() },
+                lintSettings: { subscribe: vi.fn() },
                 splitTextIntoWords: { subscribe: vi.fn() },
                 spellingSuggestions: { subscribe: vi.fn() },
+                traceWord: { subscribe: vi.fn() },
+                updateBaseline: { subscribe: vi.fn() },
             },
             serverNotification: {
+                cancelWorkspaceCheck: { subscribe: vi.fn() },
                 notifyConfigChange: { subscribe: vi.fn() },
                 registerConfigurationFile: { subscribe: vi.fn() },
+                setRuntimeDictionaries: { subscribe: vi.fn() },
+                setDocumentLocale: { subscribe: vi.fn() },
+                setTextMateGrammars: { subscribe: vi.fn() },
             },
         },
         () => undefined,
@@ -0,0 +1,350 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Worker } from 'worker_threads';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import type { SettingsProvenance } from './config/settingsProvenance.mjs';
+import { calcCheckLimit } from './validator.mjs';
+
+export const defaultRegExpProfilerBudgetMs = 100;
+/** The extra time given to the worker before it is stopped, to measure the patterns that are over budget. */
+const workerTimeoutMarginMs = 1000;
+/** The timings of a document are reused while its text changes, until they are this old. */
+const profileMaxAgeMs = 10_000;
+
+export type PatternListKey = 'ignoreRegExpList' | 'includeRegExpList';
+
+export interface PatternDefinition {
+    /** The name of the source of the settings, like a config file or the VS Code settings. */
+    source: string;
+    /** The uri of the config file. */
+    uri?: string | undefined;
+    /** The zero based line in the config file, if it could be found. */
+    line?: number | undefined;
+}
+
+export interface PatternTiming {
+    key: PatternListKey;
+    /** The entry in the list, the name of a pattern or a regular expression. */
+    entry: string;
+    /** The regular expression, a named pattern can have more than one. */
+    regexp: string;
+    elapsedTimeMs: number;
+    /** The pattern did not finish before the worker was stopped. */
+    timedOut: boolean;
+    /** The pattern was over budget, it is not used to check the document. */
+    disabled: boolean;
+}
+
+export interface RegExpProfileEntry {
+    key: PatternListKey;
+    entry: string;
+    regexp: string;
+    /** The time taken on the slowest document. */
+    maxElapsedTimeMs: number;
+    totalElapsedTimeMs: number;
+    /** The document the pattern was the slowest on. */
+    slowestUri: string;
+    /** The number of documents the pattern was timed on. */
+    documents: number;
+    /** The documents the pattern was disabled on. */
+    disabledUris: string[];
+    definition?: PatternDefinition | undefined;
+}
+
+export interface RegExpProfile {
+    /** The patterns of the open documents, the slowest first. */
+    patterns: RegExpProfileEntry[];
+}
+
+export interface RegExpTimingRequest {
+    id: number;
+    source: string;
+    flags: string;
+    text: string;
+}
+
+export type RegExpTimingResponse = { id: number; elapsedTimeMs: number } | { id: number; error: string };
+
+export interface RegExpTimingResult {
+    elapsedTimeMs: number;
+    timedOut: boolean;
+}
+
+/**
+ * Times a regular expression on some text.
+ * A pattern that does not finish within `timeoutMs` is stopped.
+ */
+export interface RegExpTimer {
+    time(text: string, regexp: RegExp, timeoutMs: number): Promise<RegExpTimingResult>;
+    dispose(): void;
+}
+
+export interface RegExpProfiler {
+    /**
+     * Time the patterns of `ignoreRegExpList` and `includeRegExpList` on the text of a document.
+     * Nothing is done unless `regExpProfiler` is enabled in the settings.
+     * A pattern that was disabled for a document stays disabled until the document is closed.
+     * The timings are reused until the patterns change, or the text changes and the timings are out of date.
+     * @returns the settings without the patterns that are over budget.
+     */
+    applyToSettings(doc: TextDocument, settings: CSpellUserSettings): Promise<CSpellUserSettings>;
+    /** The timings of the patterns of the open documents. */
+    getProfile(): RegExpProfile;
+    /** Forget the timings of a document. */
+    delete(uri: string): void;
+    dispose(): void;
+}
+
+export interface RegExpProfilerOptions {
+    timer?: RegExpTimer;
+    /** Used to find where the disabled patterns are defined. */
+    calcProvenance?: (settings: CSpellUserSettings) => Promise<SettingsProvenance>;
+    /** Called when the set of disabled patterns changed. */
+    onDidChangeDisabled?: (profile: RegExpProfile) => void;
+}
+
+interface ResolvedPattern {
+    key: PatternListKey;
+    entry: string;
+    regexp: RegExp;
+}
+
+interface DocumentProfile {
+    timings: PatternTiming[];
+    definitions: Map<string, PatternDefinition | undefined>;
+    /** The hash of the timed text, the documents found by a workspace check do not have a version. */
+    textHash: string;
+    /** The patterns and the budget used for the timings. */
+    patternsKey: string;
+    timestamp: number;
+}
+
+export function createRegExpProfiler(options: RegExpProfilerOptions = {}): RegExpProfiler {
+    const timer = options.timer ?? createWorkerRegExpTimer();
+    const profiles = new Map<string, DocumentProfile>();
+
+    async function applyToSettings(doc: TextDocument, settings: CSpellUserSettings): Promise<CSpellUserSettings> {
+        if (!settings.regExpProfiler) {
+            deleteProfile(doc.uri);
+            return settings;
+        }
+        const budgetMs = settings.regExpProfilerBudgetMs || defaultRegExpProfilerBudgetMs;
+        const text = doc.getText().slice(0, calcCheckLimit(settings));
+        const patterns = resolvePatterns(settings);
+        const textHash = createHash('sha1').update(text).digest('hex');
+        const patternsKey = [budgetMs, ...patterns.map((p) => timingKey({ ...p, regexp: p.regexp.toString() }))].join('\n');
+        const timestamp = Date.now();
+        const previous = profiles.get(doc.uri);
+        if (previous?.patternsKey === patternsKey && (previous.textHash === textHash || timestamp - previous.timestamp < profileMaxAgeMs)) {
+            const disabled = previous.timings.filter((t) => t.disabled);
+            return removeDisabledPatterns(settings, disabled);
+        }
+        const wasDisabled = new Set(previous?.timings.filter((t) => t.disabled).map(timingKey));
+
+        const timings: PatternTiming[] = [];
+        for (const { key, entry, regexp } of patterns) {
+            const found: Omit<PatternTiming, 'elapsedTimeMs' | 'timedOut' | 'disabled'> = { key, entry, regexp: regexp.toString() };
+            const prev = wasDisabled.has(timingKey(found)) ? previous?.timings.find((t) => timingKey(t) === timingKey(found)) : undefined;
+            if (prev) {
+                // Do not run a slow pattern again.
+                timings.push(prev);
+                continue;
+            }
+            const { elapsedTimeMs, timedOut } = await timer.time(text, regexp, budgetMs + workerTimeoutMarginMs);
+            timings.push({ ...found, elapsedTimeMs, timedOut, disabled: timedOut || elapsedTimeMs > budgetMs });
+        }
+
+        const disabled = timings.filter((t) => t.disabled);
+        const definitions = previous?.definitions ?? new Map<string, PatternDefinition | undefined>();
+        const newlyDisabled = disabled.filter((t) => !wasDisabled.has(timingKey(t)));
+        if (newlyDisabled.length && options.calcProvenance) {
+            const provenance = await options.calcProvenance(settings);
+            newlyDisabled.forEach((t) => definitions.set(t.entry, findPatternDefinition(provenance, t.key, t.entry)));
+        }
+        profiles.set(doc.uri, { timings, definitions, textHash, patternsKey, timestamp });
+        if (newlyDisabled.length || disabled.length !== wasDisabled.size) {
+            options.onDidChangeDisabled?.(getProfile());
+        }
+        return removeDisabledPatterns(settings, disabled);
+    }
+
+    function getProfile(): RegExpProfile {
+        const entries = new Map<string, RegExpProfileEntry>();
+        for (const [uri, { timings, definitions }] of profiles) {
+            for (const timing of timings) {
+                const key = timingKey(timing);
+                const entry = entries.get(key) ?? {
+                    key: timing.key,
+                    entry: timing.entry,
+                    regexp: timing.regexp,
+                    maxElapsedTimeMs: timing.elapsedTimeMs,
+                    totalElapsedTimeMs: 0,
+                    slowestUri: uri,
+                    documents: 0,
+                    disabledUris: [],
+                };
+                entries.set(key, entry);
+                entry.documents += 1;
+                entry.totalElapsedTimeMs += timing.elapsedTimeMs;
+                if (timing.elapsedTimeMs > entry.maxElapsedTimeMs) {
+                    entry.maxElapsedTimeMs = timing.elapsedTimeMs;
+                    entry.slowestUri = uri;
+                }
+                if (timing.disabled) {
+                    entry.disabledUris.push(uri);
+                    entry.definition ??= definitions.get(timing.entry);
+                }
+            }
+        }
+        const patterns = [...entries.values()].sort((a, b) => b.maxElapsedTimeMs - a.maxElapsedTimeMs);
+        return { patterns };
+    }
+
+    function deleteProfile(uri: string) {
+        const profile = profiles.get(uri);
+        if (!profile) return;
+        profiles.delete(uri);
+        if (profile.timings.some((t) => t.disabled)) {
+            options.onDidChangeDisabled?.(getProfile());
+        }
+    }
+
+    return {
+        applyToSettings,
+        getProfile,
+        delete: deleteProfile,
+        dispose: () => {
+            profiles.clear();
+            timer.dispose();
+        },
+    };
+}
+
+function timingKey(t: Pick<PatternTiming, 'key' | 'entry' | 'regexp'>): string {
+    return [t.key, t.entry, t.regexp].join('\n');
+}
+
+/**
+ * Resolve the entries of `ignoreRegExpList` and `includeRegExpList` into regular expressions.
+ * The names of patterns are looked up in `patterns` the same way cspell does.
+ */
+export function resolvePatterns(settings: Pick<CSpellUserSettings, PatternListKey | 'patterns'>): ResolvedPattern[] {
+    const named = new Map((settings.patterns ?? []).map((p) => [p.name.toLowerCase(), p.pattern]));
+    const keys: PatternListKey[] = ['ignoreRegExpList', 'includeRegExpList'];
+    return keys.flatMap((key) =>
+        (settings[key] ?? []).flatMap((ref) => {
+            const entry = ref.toString();
+            const pattern = (typeof ref === 'string' && named.get(ref.toLowerCase())) || ref;
+            const regexps = (Array.isArray(pattern) ? pattern : [pattern]).map(toRegExp).filter((r): r is RegExp => !!r);
+            return regexps.map((regexp) => ({ key, entry, regexp }));
+        }),
+    );
+}
+
+const regExpRegExpLiteral = /^\/(.*)\/([dgimsuyv]*)$/s;
+
+function toRegExp(pattern: string | RegExp): RegExp | undefined {
+    try {
+        if (pattern instanceof RegExp) return addGlobalFlag(pattern);
+        const m = pattern.match(regExpRegExpLiteral);
+        return addGlobalFlag(m ? new RegExp(m[1], m[2]) : new RegExp(pattern, 'gimu'));
+    } catch {
+        // Invalid patterns are reported by the settings linter.
+        return undefined;
+    }
+}
+
+function addGlobalFlag(regexp: RegExp): RegExp {
+    return regexp.global ? regexp : new RegExp(regexp.source, regexp.flags + 'g');
+}
+
+function removeDisabledPatterns(settings: CSpellUserSettings, disabled: PatternTiming[]): CSpellUserSettings {
+    if (!disabled.length) return settings;
+    const isEnabled = (key: PatternListKey) => (ref: string | RegExp) => !disabled.some((t) => t.key === key && t.entry === ref.toString());
+    return {
+        ...settings,
+        ignoreRegExpList: settings.ignoreRegExpList?.filter(isEnabled('ignoreRegExpList')),
+        includeRegExpList: settings.includeRegExpList?.filter(isEnabled('includeRegExpList')),
+    };
+}
+
+/**
+ * Find where a pattern is defined. The definition of a named pattern is preferred over the entry in the list.
+ */
+export function findPatternDefinition(provenance: SettingsProvenance, key: PatternListKey, entry: string): PatternDefinition | undefined {
+    const refs = [
+        provenance.elements['patterns']?.find((e) => e.value.toLowerCase() === entry.toLowerCase()),
+        provenance.elements[key]?.find((e) => e.value === entry),
+    ];
+    const ref = refs.find((r) => r && provenance.sources[r.source]?.uri) ?? refs.find((r) => !!r);
+    const source = ref && provenance.sources[ref.source];
+    if (!ref || !source) return undefined;
+    return { source: source.name, uri: source.uri, line: source.uri ? ref.line : undefined };
+}
+
+/**
+ * Run the regular expressions in a worker thread, one at a time.
+ * The worker is replaced if a regular expression does not finish in time.
+ */
+class RegExpWorkerTimer implements RegExpTimer {
+    private worker: Worker | undefined;
+    private nextId = 0;
+    private pending = Promise.resolve();
+
+    time(text: string, regexp: RegExp, timeoutMs: number): Promise<RegExpTimingResult> {
+        const result = this.pending.then(() =>
+            this.run({ id: ++this.nextId, source: regexp.source, flags: regexp.flags, text }, timeoutMs),
+        );
+        this.pending = result.then(
+            () => undefined,
+            () => undefined,
+        );
+        return result;
+    }
+
+    dispose(): void {
+        this.stopWorker();
+    }
+
+    private run(req: RegExpTimingRequest, timeoutMs: number): Promise<RegExpTimingResult> {
+        const worker = (this.worker ??= new Worker(path.join(__dirname, 'regExpWorker.cjs')));
+        return new Promise<RegExpTimingResult>((resolve, reject) => {
+            const done = () => {
+                clearTimeout(timer);
+                worker.off('message', onMessage);
+                worker.off('error', onError);
+            };
+            const onMessage = (res: RegExpTimingResponse) => {
+                if (res.id !== req.id) return;
+                done();
+                'error' in res ? reject(new Error(res.error)) : resolve({ elapsedTimeMs: res.elapsedTimeMs, timedOut: false });
+            };
+            const onError = (err: Error) => {
+                done();
+                this.stopWorker();
+                reject(err);
+            };
+            const timer = setTimeout(() => {
+                done();
+                // The pattern is stuck, replace the worker.
+                this.stopWorker();
+                resolve({ elapsedTimeMs: timeoutMs, timedOut: true });
+            }, timeoutMs);
+            worker.on('message', onMessage);
+            worker.on('error', onError);
+            worker.postMessage(req);
+        });
+    }
+
+    private stopWorker(): void {
+        const worker = this.worker;
+        this.worker = undefined;
+        worker?.terminate().catch(() => undefined);
+    }
+}
+
+export function createWorkerRegExpTimer(): RegExpTimer {
+    return new RegExpWorkerTimer();
+}
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import type { SettingsProvenance } from './config/settingsProvenance.mjs';
+import type { RegExpTimer } from './regExpProfiler.mjs';
+import { createRegExpProfiler, findPatternDefinition, resolvePatterns } from './regExpProfiler.mjs';
+import { handleRegExpTimingRequest } from './regExpWorker.mjs';
+
+const sampleSettings: CSpellUserSettings = {
+    regExpProfiler: true,
+    regExpProfilerBudgetMs: 50,
+    patterns: [
+        { name: 'Slow', pattern: '/(a+)+$/g' },
+        { name: 'Pair', pattern: ['/one/g', '/two/g'] },
+    ],
+    ignoreRegExpList: ['Slow', 'Pair', '/fast/g'],
+    includeRegExpList: ['\\w+'],
+};
+
+const sampleProvenance: SettingsProvenance = {
+    sources: [
+        { kind: 'vscode', name: 'VS Code Settings' },
+        { kind: 'configFile', name: 'cspell.json', uri: 'file:///workspace/cspell.json' },
+    ],
+    fields: {},
+    elements: {
+        patterns: [{ value: 'Slow', source: 1, line: 4 }],
+        ignoreRegExpList: [
+            { value: 'Slow', source: 0 },
+            { value: '/fast/g', source: 1, line: 9 },
+        ],
+    },
+};
+
+describe('regExpProfiler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('resolvePatterns', () => {
+        expect(resolvePatterns(sampleSettings).map(({ key, entry, regexp }) => [key, entry, regexp.toString()])).toEqual([
+            ['ignoreRegExpList', 'Slow', '/(a+)+$/g'],
+            ['ignoreRegExpList', 'Pair', '/one/g'],
+            ['ignoreRegExpList', 'Pair', '/two/g'],
+            ['ignoreRegExpList', '/fast/g', '/fast/g'],
+            ['includeRegExpList', '\\w+', '/\\w+/gimu'],
+        ]);
+        expect(resolvePatterns({ ignoreRegExpList: ['/[a-z/g', /\d+/, 'pair'], patterns: [{ name: 'Pair', pattern: /x/g }] })).toEqual([
+            { key: 'ignoreRegExpList', entry: '/\\d+/', regexp: /\d+/g },
+            { key: 'ignoreRegExpList', entry: 'pair', regexp: /x/g },
+        ]);
+    });
+
+    test('patterns over budget are removed from the settings', async () => {
+        const timer = createTimer({ '/(a+)+$/g': 2000, '/two/g': 60 });
+        const onDidChangeDisabled = vi.fn();
+        const calcProvenance = vi.fn(async () => sampleProvenance);
+        const profiler = createRegExpProfiler({ timer, calcProvenance, onDidChangeDisabled });
+        const doc = createDoc('file:///workspace/a.txt');
+
+        const settings = await profiler.applyToSettings(doc, sampleSettings);
+        expect(settings.ignoreRegExpList).toEqual(['/fast/g']);
+        expect(settings.includeRegExpList).toEqual(['\\w+']);
+        expect(timer.time).toHaveBeenCalledTimes(5);
+        expect(timer.time).toHaveBeenLastCalledWith('sample text', /\w+/gimu, 1050);
+        expect(onDidChangeDisabled).toHaveBeenCalledTimes(1);
+
+        const profile = profiler.getProfile();
+        expect(profile.patterns.map((p) => [p.entry, p.regexp, p.maxElapsedTimeMs, p.disabledUris])).toEqual([
+            ['Slow', '/(a+)+$/g', 1050, [doc.uri]],
+            ['Pair', '/two/g', 60, [doc.uri]],
+            ['Pair', '/one/g', 1, []],
+            ['/fast/g', '/fast/g', 1, []],
+            ['\\w+', '/\\w+/gimu', 1, []],
+        ]);
+        expect(profile.patterns[0]).toEqual(
+            expect.objectContaining({ definition: { source: 'cspell.json', uri: 'file:///workspace/cspell.json', line: 4 } }),
+        );
+
+        // The slow patterns are not run again.
+        timer.time.mockClear();
+        vi.setSystemTime(Date.now() + 60_000);
+        await profiler.applyToSettings(createDoc(doc.uri, 'changed text'), sampleSettings);
+        expect(timer.time).toHaveBeenCalledTimes(3);
+        expect(onDidChangeDisabled).toHaveBeenCalledTimes(1);
+        expect(calcProvenance).toHaveBeenCalledTimes(1);
+
+        profiler.delete(doc.uri);
+        expect(profiler.getProfile().patterns).toEqual([]);
+        expect(onDidChangeDisabled).toHaveBeenLastCalledWith({ patterns: [] });
+        profiler.dispose();
+        expect(timer.dispose).toHaveBeenCalled();
+    });
+
+    test('the timings are reused', async () => {
+        const timer = createTimer({ '/(a+)+$/g': 2000 });
+        const profiler = createRegExpProfiler({ timer });
+        const uri = 'file:///workspace/a.txt';
+
+        let settings = await profiler.applyToSettings(createDoc(uri), sampleSettings);
+        expect(timer.time).toHaveBeenCalledTimes(5);
+        expect(settings.ignoreRegExpList).toEqual(['Pair', '/fast/g']);
+
+        // Same text, or changed text while the timings are recent.
+        timer.time.mockClear();
+        settings = await profiler.applyToSettings(createDoc(uri), sampleSettings);
+        await profiler.applyToSettings(createDoc(uri, 'changed text'), sampleSettings);
+        expect(timer.time).not.toHaveBeenCalled();
+        expect(settings.ignoreRegExpList).toEqual(['Pair', '/fast/g']);
+
+        // The patterns changed.
+        await profiler.applyToSettings(createDoc(uri), { ...sampleSettings, includeRegExpList: [] });
+        expect(timer.time).toHaveBeenCalledTimes(3);
+
+        // The text changed and the timings are out of date.
+        timer.time.mockClear();
+        vi.setSystemTime(Date.now() + 60_000);
+        await profiler.applyToSettings(createDoc(uri), { ...sampleSettings, includeRegExpList: [] });
+        expect(timer.time).not.toHaveBeenCalled();
+        await profiler.applyToSettings(createDoc(uri, 'changed text'), { ...sampleSettings, includeRegExpList: [] });
+        expect(timer.time).toHaveBeenCalledTimes(3);
+    });
+
+    test('the timings of the documents are combined', async () => {
+        const timer = createTimer({ '/fast/g': 5 });
+        const profiler = createRegExpProfiler({ timer });
+        const settings: CSpellUserSettings = { regExpProfiler: true, ignoreRegExpList: ['/fast/g'] };
+        await profiler.applyToSettings(createDoc('file:///a.txt'), settings);
+        timer.time.mockImplementationOnce(async () => ({ elapsedTimeMs: 20, timedOut: false }));
+        await profiler.applyToSettings(createDoc('file:///b.txt'), settings);
+        expect(profiler.getProfile().patterns).toEqual([
+            {
+                key: 'ignoreRegExpList',
+                entry: '/fast/g',
+                regexp: '/fast/g',
+                maxElapsedTimeMs: 20,
+                totalElapsedTimeMs: 25,
+                slowestUri: 'file:///b.txt',
+                documents: 2,
+                disabledUris: [],
+            },
+        ]);
+    });
+
+    test('nothing is done if the profiler is off', async () => {
+        const timer = createTimer({});
+        const profiler = createRegExpProfiler({ timer });
+        const settings = { ...sampleSettings, regExpProfiler: false };
+        expect(await profiler.applyToSettings(createDoc('file:///a.txt'), settings)).toBe(settings);
+        expect(timer.time).not.toHaveBeenCalled();
+    });
+
+    test.each`
+        key                    | entry        | expected
+        ${'ignoreRegExpList'}  | ${'slow'}    | ${{ source: 'cspell.json', uri: 'file:///workspace/cspell.json', line: 4 }}
+        ${'ignoreRegExpList'}  | ${'/fast/g'} | ${{ source: 'cspell.json', uri: 'file:///workspace/cspell.json', line: 9 }}
+        ${'includeRegExpList'} | ${'/fast/g'} | ${undefined}
+    `('findPatternDefinition $key $entry', ({ key, entry, expected }) => {
+        expect(findPatternDefinition(sampleProvenance, key, entry)).toEqual(expected);
+    });
+
+    test('findPatternDefinition in the VS Code settings', () => {
+        const provenance: SettingsProvenance = { ...sampleProvenance, elements: { ignoreRegExpList: [{ value: 'Slow', source: 0 }] } };
+        expect(findPatternDefinition(provenance, 'ignoreRegExpList', 'Slow')).toEqual({ source: 'VS Code Settings' });
+    });
+
+    test('handleRegExpTimingRequest', () => {
+        const res = handleRegExpTimingRequest({ id: 1, source: 'o', flags: 'g', text: 'one two' });
+        expect(res).toEqual({ id: 1, elapsedTimeMs: expect.any(Number) });
+        expect(handleRegExpTimingRequest({ id: 2, source: '(', flags: 'g', text: '' })).toEqual({ id: 2, error: expect.any(String) });
+    });
+});
+
+function createDoc(uri: string, text = 'sample text'): TextDocument {
+    return TextDocument.create(uri, 'plaintext', 1, text);
+}
+
+/**
+ * @param times - the time each regular expression takes, the others take 1ms.
+ */
+function createTimer(times: Record<string, number>) {
+    const timer = {
+        time: vi.fn(async (_text: string, regexp: RegExp, timeoutMs: number) => {
+            const t = times[regexp.toString()] ?? 1;
+            return t > timeoutMs ? { elapsedTimeMs: timeoutMs, timedOut: true } : { elapsedTimeMs: t, timedOut: false };
+        }),
+        dispose: vi.fn(),
+    } satisfies RegExpTimer;
+    return timer;
+}
@@ -0,0 +1,28 @@
+import { isMainThread, parentPort } from 'worker_threads';
+
+import type { RegExpTimingRequest, RegExpTimingResponse } from './regExpProfiler.mjs';
+
+/**
+ * Time a regular expression on behalf of the `RegExpProfiler`.
+ */
+export function handleRegExpTimingRequest(req: RegExpTimingRequest): RegExpTimingResponse {
+    const { id, source, flags, text } = req;
+    try {
+        const regexp = new RegExp(source, flags);
+        const start = performance.now();
+        for (const _match of text.matchAll(regexp)) {
+            // Only the time is needed.
+        }
+        return { id, elapsedTimeMs: performance.now() - start };
+    } catch (e) {
+        return { id, error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+function listen() {
+    const port = parentPort;
+    if (isMainThread || !port) return;
+    port.on('message', (req: RegExpTimingRequest) => port.postMessage(handleRegExpTimingRequest(req)));
+}
+
+listen();
@@ -2,8 +2,7 @@ import { isDefined, LogFileConnection } from '@internal/common-utils';
 import { log, logError, logger, logInfo, setWorkspaceBase, setWorkspaceFolders } from '@internal/common-utils/log';
 import { toFileUri, toUri } from '@internal/common-utils/uriHelper';
 import type { CSpellSettingsWithSourceTrace, Glob } from 'cspell-lib';
-import * as CSpell from 'cspell-lib';
-import { extractImportErrors, getDefaultSettings, refreshDictionaryCache } from 'cspell-lib';
+import { extractImportErrors, refreshDictionaryCache } from 'cspell-lib';
 import type { Subscription } from 'rxjs';
 import { interval, ReplaySubject } from 'rxjs';
 import { debounceTime, filter, mergeMap, take, tap, throttle, throttleTime } from 'rxjs/operators';
@@ -22,58 +21,53 @@ import {
     CodeActionKind,
     createConnection,
     DiagnosticSeverity,
+    NotebookDocuments,
     ProposedFeatures,
     TextDocuments,
     TextDocumentSyncKind,
 } from 'vscode-languageserver/node.js';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Utils as UriUtils } from 'vscode-uri';
 
 import type * as Api from './api.js';
+import { createBaselineManager, isBaselined } from './baseline.mjs';
 import { createOnCodeActionHandler } from './codeActions.mjs';
 import { calculateConfigTargets } from './config/configTargetsHelper.mjs';
 import { ConfigWatcher } from './config/configWatcher.mjs';
 import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { applyDefaultSettings, defaultSettings } from './config/defaultSettings.mjs';
 import { DictionaryWatcher } from './config/dictionaryWatcher.mjs';
 import type { SettingsCspell } from './config/documentSettings.mjs';
-import {
-    correctBadSettings,
-    DocumentSettings,
-    isLanguageEnabled,
-    isUriAllowed,
-    isUriBlocked,
-    stringifyPatterns,
-} from './config/documentSettings.mjs';
+import { DocumentSettings, isLanguageEnabled, isUriAllowed, isUriBlocked, stringifyPatterns } from './config/documentSettings.mjs';
 import { isScmUri } from './config/docUriHelper.mjs';
+import { lintSettings } from './config/settingsLinter.mjs';
 import type { TextDocumentUri } from './config/vscode.config.mjs';
+import { createDictionaryInfoProvider } from './dictionaryInfo.mjs';
+import { createDocumentChecker } from './documentChecker.mjs';
+import { createDocumentPipeline } from './documentPipeline.mjs';
+import { createChangedLinesFilter } from './gitChangedLines.mjs';
+import { textToWordsForLanguage } from './identifiers.mjs';
+import { createIncrementalValidator } from './incrementalValidator.mjs';
+import { createLocaleDetector } from './localeDetector.mjs';
+import type { NotebookText } from './notebooks.mjs';
+import { createNotebookResultCache, createNotebookText, diagnosticsForCell } from './notebooks.mjs';
 import { createProgressNotifier } from './progressNotifier.mjs';
+import { createRegExpProfiler } from './regExpProfiler.mjs';
 import { createServerApi } from './serverApi.mjs';
 import { createOnSuggestionsHandler } from './suggestionsServer.mjs';
-import { defaultIsTextLikelyMinifiedOptions, isTextLikelyMinified } from './utils/analysis.mjs';
+import { createScopeFilter } from './textMateScopes.mjs';
+import { isTextLikelyMinifiedForSettings } from './utils/analysis.mjs';
 import { catchPromise } from './utils/catchPromise.mjs';
 import { debounce as simpleDebounce } from './utils/debounce.mjs';
 import { textToWords } from './utils/index.mjs';
 import { createPrecisionLogger } from './utils/logging.mjs';
-import * as Validator from './validator.mjs';
+import { defaultValidationWorkerTimeoutMs, ValidationCanceledError, ValidationPool } from './validationPool.mjs';
+import { createVocabularyReporter } from './vocabulary.mjs';
+import { createWordTracer } from './wordTracer.mjs';
+import { createWorkspaceChecker } from './workspaceChecker.mjs';
 
 log('Starting Spell Checker Server');
 
-const tds = CSpell;
-
-const defaultCheckLimit = Validator.defaultCheckLimit;
-
-const overRideDefaults: CSpellUserSettings = {
-    id: 'Extension overrides',
-    patterns: [],
-    ignoreRegExpList: [],
-};
-
-// Turn off the spell checker by default. The setting files should have it set.
-// This prevents the spell checker from running too soon.
-const defaultSettings: CSpellUserSettings = {
-    ...CSpell.mergeSettings(getDefaultSettings(), CSpell.getGlobalSettings(), overRideDefaults),
-    checkLimit: defaultCheckLimit,
-    // enabled: false,
-};
 const defaultDebounceMs = 50;
 // Refresh the dictionary cache every 1000ms.
 const dictionaryRefreshRateMs = 1000;
@@ -86,7 +80,8 @@ export function run(): void {
     const triggerValidateAll = new ReplaySubject<void>(1);
     const validationByDoc = new Map<string, Subscription>();
     const blockValidation = new Map<string, number>();
-    let isValidationBusy = false;
+    let validationsInProgress = 0;
+    const validationPool = dd(new ValidationPool());
     const dictionaryWatcher = dd(new DictionaryWatcher());
     dd(disposeValidationByDoc);
 
@@ -94,6 +89,12 @@ export function run(): void {
 
     const configWatcher = dd(new ConfigWatcher());
 
+    const incrementalValidator = createIncrementalValidator();
+
+    const localeDetector = createLocaleDetector();
+
+    const scopeFilter = createScopeFilter();
+
     // Create a connection for the server. The connection uses Node's IPC as a transport
     log('Create Connection');
     const connection = createConnection(ProposedFeatures.all);
@@ -101,20 +102,45 @@ export function run(): void {
     const _logger = createPrecisionLogger().setLogLevelMask(LogLevelMasks.none);
 
     // Create a simple text document manager.
-    const documents = new TextDocuments(TextDocument);
+    // The changes are recorded before they are applied to allow for incremental validation.
+    const documents = new TextDocuments({
+        create: TextDocument.create,
+        update: (doc, changes, version) => {
+            incrementalValidator.recordChanges(doc, changes, version);
+            return TextDocument.update(doc, changes, version);
+        },
+    });
+
+    // The cells of a notebook are kept in `documents`, the notebook knows the order of the cells.
+    const notebooks = new NotebookDocuments(documents);
+    const notebookResults = createNotebookResultCache();
 
     const clientServerApi: Api.ServerSideApi = dd(
         createServerApi(
             connection,
             {
                 serverNotifications: {
+                    cancelWorkspaceCheck: () => workspaceChecker.cancel(),
                     notifyConfigChange: onConfigChange,
                     registerConfigurationFile,
+                    setRuntimeDictionaries,
+                    setDocumentLocale,
+                    setTextMateGrammars,
                 },
                 serverRequests: {
+                    checkDocument: (doc, options) => documentChecker.checkDocument(doc, options),
+                    checkText: (req) => documentChecker.checkText(req),
+                    checkWorkspace: (req) => workspaceChecker.checkWorkspace(req),
+                    findWordInDictionaries: (req) => dictionaryInfoProvider.findWordInDictionaries(req),
                     getConfigurationForDocument: handleGetConfigurationForDocument,
+                    getDictionariesForDocument: (doc) => dictionaryInfoProvider.getDictionariesForDocument(doc),
+                    getRegExpProfile: () => regExpProfiler.getProfile(),
+                    getVocabularyReport: (req) => vocabularyReporter.getVocabularyReport(req),
                     isSpellCheckEnabled: handleIsSpellCheckEnabled,
+                    lintSettings: handleLintSettings,
                     splitTextIntoWords: handleSplitTextIntoWords,
+                    traceWord: (req) => wordTracer.traceWord(req),
+                    updateBaseline: handleUpdateBaseline,
                     spellingSuggestions: createOnSuggestionsHandler(documents, {
                         fetchSettings: getBaseSettings,
                         getSettingsVersion: () => documentSettings.version,
@@ -126,9 +152,58 @@ export function run(): void {
     );
 
     const documentSettings = new DocumentSettings(connection, clientServerApi, defaultSettings);
+    const changedLinesFilter = createChangedLinesFilter({ fetchRepoRoot: (uri) => documentSettings.fetchRepoRootForFile(uri) });
+    const baselineManager = createBaselineManager({
+        getWorkspaceFolders: async () => (await documentSettings.folders).map((f) => f.uri),
+        findWorkspaceFolder: async (uri) => (await documentSettings.matchingFoldersForUri(uri))[0]?.uri,
+        getSettings: (uri) => getActiveUriSettings(uri),
+    });
+    const documentPipeline = createDocumentPipeline({ localeDetector, scopeFilter, changedLinesFilter, baselineManager });
+    const regExpProfiler = dd(
+        createRegExpProfiler({
+            calcProvenance: (settings) => documentSettings.calcSettingsProvenance(settings),
+            onDidChangeDisabled: (profile) => clientServerApi.clientNotification.onRegExpProfile(profile),
+        }),
+    );
 
     const progressNotifier = createProgressNotifier(clientServerApi);
 
+    const documentChecker = createDocumentChecker({
+        getOpenDocument: (uri) => documents.get(uri),
+        getSettings: (uri) => getBaseSettings(uri ? { uri } : undefined),
+        isExcluded: isUriExcluded,
+    });
+
+    const dictionaryInfoProvider = createDictionaryInfoProvider({
+        getOpenDocument: (uri) => documents.get(uri),
+        getSettings: (uri) => getBaseSettings(uri ? { uri } : undefined),
+        getRuntimeDictionaryNames: () => documentSettings.runtimeDictionaryNames,
+    });
+
+    const wordTracer = createWordTracer({
+        getOpenDocument: (uri) => documents.get(uri),
+        getSettings: (uri) => getBaseSettings({ uri }),
+    });
+
+    const workspaceChecker = createWorkspaceChecker({
+        getWorkspaceFolders: async () => (await fetchFolders())?.map((f) => f.uri) || [],
+        calcIncludeExclude: (uri) => documentSettings.calcIncludeExclude(uri),
+        getSettings: (uri) => getActiveUriSettings(uri),
+        isBlocked,
+        validate: validateWorkspaceFile,
+        isOpen: (uri) => !!documents.get(uri) || !!notebooks.getNotebookDocument(uri),
+        isBusy: isValidationBusy,
+        publishDiagnostics: (uri, diagnostics, doc) => catchPromise(publishWorkspaceDiagnostics(uri, diagnostics, doc)),
+        reportProgress: (progress) => clientServerApi.clientNotification.onWorkspaceCheckProgress(progress),
+    });
+
+    const vocabularyReporter = createVocabularyReporter({
+        findFiles: (uris) => workspaceChecker.findFiles(uris),
+        getOpenDocument: (uri) => documents.get(uri),
+        getSettings: (uri) => getBaseSettings({ uri }),
+        isBlocked,
+    });
+
     dd(
         connection.onInitialize((params: InitializeParams): InitializeResult => {
             // Hook up the logger to the connection.
@@ -142,6 +217,9 @@ export function run(): void {
                     willSave: true,
                     save: { includeText: true },
                 },
+                notebookDocumentSync: {
+                    notebookSelector: [{ notebook: '*' }],
+                },
                 codeActionProvider: {
                     codeActionKinds: [CodeActionKind.QuickFix],
                 },
@@ -202,7 +280,7 @@ export function run(): void {
                             tap((dsp) => progressNotifier.emitSpellCheckDocumentStep(dsp.doc, 'settings determined')),
                             throttle(
                                 (dsp) =>
-                                    interval(dsp.settings.spellCheckDelayMs || defaultDebounceMs).pipe(filter(() => !isValidationBusy)),
+                                    interval(dsp.settings.spellCheckDelayMs || defaultDebounceMs).pipe(filter(() => !isValidationBusy())),
                                 { leading: true, trailing: true },
                             ),
                             filter((dsp) => !blockValidation.has(dsp.doc.uri)),
@@ -237,6 +315,7 @@ export function run(): void {
     // Make the text document manager listen on the connection
     // for open, change and close text document events
     dd(documents.listen(connection));
+    dd(notebooks.listen(connection));
 
     disposables.push(
         // The content of a text document has changed. This event is emitted
@@ -257,12 +336,16 @@ export function run(): void {
             const { uri, version } = event.document;
             log(`onDidSave: v${version}`, uri);
             blockValidation.delete(uri);
+            incrementalValidator.invalidate(uri);
             validationRequestStream.next(event.document);
         }),
 
         // Remove subscriptions when a document closes.
         documents.onDidClose((event) => {
             const uri = event.document.uri;
+            incrementalValidator.delete(uri);
+            regExpProfiler.delete(uri);
+            baselineManager.delete(uri);
             const sub = validationByDoc.get(uri);
             if (sub) {
                 validationByDoc.delete(uri);
@@ -270,6 +353,19 @@ export function run(): void {
             }
             // A text document was closed we clear the diagnostics
             catchPromise(connection.sendDiagnostics({ uri, diagnostics: [] }), 'onDidClose');
+            // Restore the workspace check results for the file.
+            catchPromise(workspaceChecker.recheckFile(uri), 'onDidClose recheckFile');
+        }),
+
+        // The in-document settings of a cell apply to the whole notebook, check all of the cells when one changes.
+        notebooks.onDidChange((event) => {
+            if (!event.cells) return;
+            validateNotebookCells(event.notebookDocument.uri);
+        }),
+
+        notebooks.onDidClose((notebook) => {
+            notebookResults.delete(notebook.uri);
+            catchPromise(workspaceChecker.recheckFile(notebook.uri), 'onDidClose notebook recheckFile');
         }),
     );
 
@@ -318,6 +414,11 @@ export function run(): void {
     async function updateActiveSettings() {
         log('updateActiveSettings');
         await documentSettings.resetSettings();
+        incrementalValidator.clear();
+        localeDetector.clear();
+        changedLinesFilter.clear();
+        notebookResults.clear();
+        baselineManager.clear();
         dictionaryWatcher.clear();
         blockedFiles.clear();
         triggerValidateAll.next(undefined);
@@ -345,6 +446,36 @@ export function run(): void {
         triggerUpdateConfig.next(undefined);
     }
 
+    function setDocumentLocale({ uri, locale }: Api.SetDocumentLocaleRequest) {
+        logInfo('Set Document Locale', `${locale || 'detect'} ${uri}`);
+        localeDetector.setLocaleOverride(uri, locale);
+        incrementalValidator.invalidate(uri);
+        const doc = documents.get(uri);
+        doc && validationRequestStream.next(doc);
+    }
+
+    async function handleUpdateBaseline(req: Api.UpdateBaselineRequest): Promise<Api.UpdateBaselineResult> {
+        logInfo('Update Baseline', req.mode);
+        const result = await baselineManager.updateBaseline(req);
+        // Publish the issues again to show which ones are baselined.
+        triggerValidateAll.next(undefined);
+        await workspaceChecker.recheckFiles();
+        return result;
+    }
+
+    function setTextMateGrammars(grammars: Api.TextMateGrammarDefinition[]) {
+        log(`setTextMateGrammars: ${grammars.length} grammars`);
+        scopeFilter.setGrammars(grammars);
+        triggerValidateAll.next(undefined);
+    }
+
+    async function setRuntimeDictionaries(dictionaries: Api.RuntimeDictionaryDefinition[]) {
+        const waitFor = documentSettings.setRuntimeDictionaries(dictionaries);
+        logInfo('Set Runtime Dictionaries', dictionaries.map((d) => d.name).join(', '));
+        await waitFor;
+        triggerUpdateConfig.next(undefined);
+    }
+
     async function handleIsSpellCheckEnabled(params: TextDocumentInfo): Promise<Api.IsSpellCheckEnabledResult> {
         return _handleIsSpellCheckEnabled(params);
     }
@@ -352,7 +483,23 @@ export function run(): void {
     async function __handleIsSpellCheckEnabled(params: TextDocumentInfo): Promise<Api.IsSpellCheckEnabledResult> {
         log('handleIsSpellCheckEnabled', params.uri);
         const activeSettings = await getActiveUriSettings(params.uri);
-        return calcIncludeExcludeInfo(activeSettings, params);
+        const result = await calcIncludeExcludeInfo(activeSettings, params);
+        const doc = params.uri ? documents.get(params.uri) : undefined;
+        const documentLocale = doc && (await localeDetector.getDocumentLocale(doc, await getBaseSettings(doc)));
+        return documentLocale ? { ...result, documentLocale } : result;
+    }
+
+    async function handleLintSettings(req: Api.LintSettingsRequest): Promise<Api.LintSettingsResult> {
+        log('handleLintSettings', req.uri);
+        const baseUri = req.baseUri ? toUri(req.baseUri) : UriUtils.dirname(toUri(req.uri));
+        const settings = await getBaseSettings({ uri: req.uri });
+        const problems = await lintSettings(req.settings, {
+            baseDir: baseUri.fsPath,
+            dictionaryNames: settings.dictionaryDefinitions?.map((def) => def.name) ?? [],
+            patternNames: settings.patterns?.map((pattern) => pattern.name) ?? [],
+            globRoot: baseUri.scheme === 'file' ? baseUri.fsPath : undefined,
+        });
+        return { problems };
     }
 
     async function handleGetConfigurationForDocument(
@@ -371,9 +518,11 @@ export function run(): void {
         //     params,
         //     doc: { uri: doc?.uri, languageId: doc?.languageId, version: doc?.version },
         // });
-        const docSettings = stringifyPatterns((doc && (await getSettingsToUseForDocument(doc))) || undefined);
+        const docSettingsRaw = (doc && (await getSettingsToUseForDocument(doc))) || undefined;
+        const docSettings = stringifyPatterns(docSettingsRaw);
         const activeSettings = await getActiveUriSettings(uri);
         const settings = stringifyPatterns(activeSettings);
+        const provenance = await documentSettings.calcSettingsProvenance(docSettingsRaw ?? activeSettings);
         const configFiles = uri ? (await documentSettings.findCSpellConfigurationFilesForUri(uri)).map((uri) => uri.toString()) : [];
         const configTargets = workspaceConfig ? calculateConfigTargets(settings, workspaceConfig) : [];
         const ieInfo = await calcIncludeExcludeInfo(activeSettings, params);
@@ -383,6 +532,7 @@ export function run(): void {
             configTargets,
             docSettings,
             settings,
+            provenance,
             ...ieInfo,
         };
     }
@@ -407,22 +557,29 @@ export function run(): void {
         }));
     }
 
-    function handleSplitTextIntoWords(text: string): Api.SplitTextIntoWordsResult {
+    async function handleSplitTextIntoWords(text: string, doc?: TextDocumentInfo): Promise<Api.SplitTextIntoWordsResult> {
+        const uri = doc?.uri;
+        const languageId = uri && (doc.languageId || documents.get(uri)?.languageId);
         return {
-            words: textToWords(text),
+            words: uri && languageId ? textToWordsForLanguage(text, await getBaseSettings({ uri }), languageId) : textToWords(text),
         };
     }
 
     function sendDiagnostics(result: ValidationResult) {
+        if (result.canceled) {
+            // A newer version of the document is on its way, keep the current diagnostics to avoid flicker.
+            log(`Skip Diagnostics v${result.version}`, result.uri);
+            return;
+        }
         log(`Send Diagnostics v${result.version}`, result.uri);
 
         const { uri, version, diagnostics } = result;
 
         const diags: Required<PublishDiagnosticsParams> = { uri, version, diagnostics };
 
-        const diagsForVSCode = result.hideHints
-            ? { ...diags, diagnostics: diags.diagnostics.filter((d) => d.severity !== DiagnosticSeverity.Hint) }
-            : diags;
+        // Baselined issues are only shown in the issue viewer.
+        const isHidden = (d: Diagnostic) => isBaselined(d) || (result.hideHints && d.severity === DiagnosticSeverity.Hint);
+        const diagsForVSCode = { ...diags, diagnostics: diags.diagnostics.filter((d) => !isHidden(d)) };
         catchPromise(clientServerApi.clientNotification.onDiagnostics(diags));
         catchPromise(connection.sendDiagnostics(diagsForVSCode), 'sendDiagnostics');
     }
@@ -439,20 +596,11 @@ export function run(): void {
 
     function isBlocked(textDocument: TextDocument, settings: CSpellUserSettings): boolean {
         const { uri } = textDocument;
-        const {
-            blockCheckingWhenLineLengthGreaterThan = defaultIsTextLikelyMinifiedOptions.blockCheckingWhenLineLengthGreaterThan,
-            blockCheckingWhenAverageChunkSizeGreaterThan = defaultIsTextLikelyMinifiedOptions.blockCheckingWhenAverageChunkSizeGreaterThan,
-            blockCheckingWhenTextChunkSizeGreaterThan = defaultIsTextLikelyMinifiedOptions.blockCheckingWhenTextChunkSizeGreaterThan,
-        } = settings;
         if (blockedFiles.has(uri)) {
             log(`File is blocked ${blockedFiles.get(uri)?.message}`, uri);
             return true;
         }
-        const isMiniReason = isTextLikelyMinified(textDocument.getText(), {
-            blockCheckingWhenAverageChunkSizeGreaterThan,
-            blockCheckingWhenLineLengthGreaterThan,
-            blockCheckingWhenTextChunkSizeGreaterThan,
-        });
+        const isMiniReason = isTextLikelyMinifiedForSettings(textDocument.getText(), settings);
 
         if (isMiniReason) {
             blockedFiles.set(uri, isMiniReason);
@@ -508,14 +656,34 @@ export function run(): void {
 
     async function getBaseSettings(doc: TextDocumentUri | undefined) {
         const settings = await getActiveSettings(doc);
-        return { ...CSpell.mergeSettings(defaultSettings, settings), enabledLanguageIds: settings.enabledLanguageIds };
+        return applyDefaultSettings(settings);
+    }
+
+    /**
+     * @param doc - the document
+     * @param notebook - the notebook text if the document is a notebook cell, the in-document settings of all cells apply.
+     */
+    async function getSettingsToUseForDocument(doc: TextDocument, notebook?: NotebookText) {
+        return documentPipeline.calcSettings(doc, await getBaseSettings(doc), notebook);
+    }
+
+    /**
+     * @returns the cells of the notebook joined into one document, undefined if the document is not a notebook cell.
+     */
+    function getNotebookText(doc: TextDocument): NotebookText | undefined {
+        const notebook = notebooks.findNotebookDocumentForCell(doc.uri);
+        return notebook && createNotebookText(notebook, (uri) => documents.get(uri), doc.languageId);
     }
 
-    async function getSettingsToUseForDocument(doc: TextDocument) {
-        return tds.constructSettingsForText(await getBaseSettings(doc), doc.getText(), doc.languageId);
+    function validateNotebookCells(notebookUri: string) {
+        const notebook = notebooks.getNotebookDocument(notebookUri);
+        notebook?.cells
+            .map((cell) => documents.get(cell.document))
+            .filter(isDefined)
+            .forEach((doc) => validationRequestStream.next(doc));
     }
 
-    function isStale(doc: TextDocument, writeLog = true): boolean {
+    function isStale(doc: Pick<TextDocument, 'uri' | 'version'>, writeLog = true): boolean {
         const currDoc = documents.get(doc.uri);
         const stale = currDoc?.version !== doc.version;
         if (stale && writeLog) {
@@ -547,7 +715,8 @@ export function run(): void {
                     return result;
                 }
                 log(`getSettingsToUseForDocument start ${doc.version}`, uri);
-                const settingsToUse = await getSettingsToUseForDocument(doc);
+                const notebook = getNotebookText(doc);
+                const settingsToUse = await getSettingsToUseForDocument(doc, notebook);
                 log(`getSettingsToUseForDocument middle ${doc.version}`, uri);
                 configWatcher.processSettings(settingsToUse);
                 log(`getSettingsToUseForDocument done ${doc.version}`, uri);
@@ -557,27 +726,103 @@ export function run(): void {
                 if (settingsToUse.enabled) {
                     logInfo(`Validate File: v${doc.version}`, uri);
                     log(`validateTextDocument start: v${doc.version}`, uri);
-                    const settings = correctBadSettings(settingsToUse);
+                    const settings = await applyRegExpProfiler(doc, settingsToUse);
                     logProblemsWithSettings(settings);
                     dictionaryWatcher.processSettings(settings);
-                    const diagnostics: Diagnostic[] = await Validator.validateTextDocument(doc, settings);
+                    const validationSettings = documentPipeline.calcValidationSettings(doc, settings);
+                    const diagnostics = await documentPipeline.filterDiagnostics(
+                        doc,
+                        settings,
+                        await validateDocument(doc, validationSettings, notebook),
+                    );
                     log(`validateTextDocument done: v${doc.version}`, uri);
                     return { ...result, diagnostics };
                 }
             } catch (e) {
-                logError(`validateTextDocument: ${JSON.stringify(e)}`);
+                if (e instanceof ValidationCanceledError) {
+                    log(`validateTextDocument canceled: v${doc.version}`, uri);
+                    return { ...result, canceled: true };
+                }
+                logError(`validateTextDocument: ${e instanceof Error ? e.message : JSON.stringify(e)}`);
             }
             return result;
         }
 
-        isValidationBusy = true;
+        ++validationsInProgress;
         progressNotifier.emitSpellCheckDocumentStep(dsp.doc, 'start validation');
         const r = await validate();
         progressNotifier.emitSpellCheckDocumentStep(dsp.doc, 'end validation', r.diagnostics.length);
-        isValidationBusy = false;
+        --validationsInProgress;
         return r;
     }
 
+    /**
+     * Remove the patterns that are too slow for the document, see `regExpProfiler`.
+     */
+    async function applyRegExpProfiler(doc: TextDocument, settings: CSpellUserSettings): Promise<CSpellUserSettings> {
+        try {
+            return await regExpProfiler.applyToSettings(doc, settings);
+        } catch (e) {
+            logError(`regExpProfiler: ${e instanceof Error ? e.message : JSON.stringify(e)}`);
+            return settings;
+        }
+    }
+
+    function isValidationBusy(): boolean {
+        return validationPool.size ? validationPool.isBusy() : validationsInProgress > 0;
+    }
+
+    function validateDocument(doc: TextDocument, settings: CSpellUserSettings, notebook?: NotebookText): Promise<Diagnostic[]> {
+        updateValidationPool(settings);
+        if (notebook) {
+            return validateNotebookCell(doc, settings, notebook);
+        }
+        if (settings.incrementalValidation) {
+            // The incremental validator keeps its state on the main thread.
+            return incrementalValidator.validateTextDocument(doc, settings);
+        }
+        incrementalValidator.delete(doc.uri);
+        const { uri, version } = doc;
+        return validationPool.validate(doc, settings, () => isStale({ uri, version }));
+    }
+
+    /**
+     * The notebook text is validated once and shared by the cells with the same language.
+     */
+    async function validateNotebookCell(doc: TextDocument, settings: CSpellUserSettings, notebook: NotebookText): Promise<Diagnostic[]> {
+        const isNotebookStale = () => notebook.cells.some((cell) => isStale(cell.document, false));
+        const diagnostics = await notebookResults.validate(notebook, () =>
+            validationPool.validate(notebook.document, settings, isNotebookStale),
+        );
+        return diagnosticsForCell(notebook, doc.uri, diagnostics);
+    }
+
+    function updateValidationPool(settings: CSpellUserSettings) {
+        validationPool.setOptions({
+            size: Math.max(0, settings.validationWorkerPoolSize ?? 0),
+            timeoutMs: settings.validationWorkerTimeoutMs || defaultValidationWorkerTimeoutMs,
+        });
+    }
+
+    /**
+     * The filters are applied when the diagnostics are published, the baseline can change after a file was checked.
+     */
+    async function publishWorkspaceDiagnostics(uri: Api.DocumentUri, diagnostics: Diagnostic[], doc: TextDocument | undefined) {
+        // The file was deleted.
+        if (!doc) baselineManager.delete(uri);
+        const found = doc
+            ? await documentPipeline.filterDiagnostics(doc, await getSettingsToUseForDocument(doc), diagnostics)
+            : diagnostics;
+        await clientServerApi.clientNotification.onDiagnostics({ uri, version: 0, diagnostics: found });
+    }
+
+    async function validateWorkspaceFile(doc: TextDocument): Promise<Diagnostic[]> {
+        const settingsToUse = await getSettingsToUseForDocument(doc);
+        if (!settingsToUse.enabled) return [];
+        updateValidationPool(settingsToUse);
+        return validationPool.validate(doc, documentPipeline.calcValidationSettings(doc, settingsToUse));
+    }
+
     function logProblemsWithSettings(settings: CSpellUserSettings) {
         function join(...s: (string | undefined)[]): string {
             return s.filter((s) => !!s).join(' ');
@@ -693,6 +938,8 @@ interface TextDocumentInfo {
 interface ValidationResult extends PublishDiagnosticsParams {
     version: number;
     hideHints: boolean;
+    /** The document changed while it was being validated. */
+    canceled?: boolean;
 }
 
 interface OnChangeParam extends DidChangeConfigurationParams {
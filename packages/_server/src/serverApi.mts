@@ -8,15 +8,29 @@ export type PartialServerSideHandlers = PartialPartial<ServerSideHandlers>;
 export function createServerApi(connection: MessageConnection, handlers: PartialServerSideHandlers, logger: Logger): ServerSideApi {
     const api: ServerSideApiDef = {
         serverRequests: {
+            checkDocument: true,
+            checkText: true,
+            checkWorkspace: true,
+            findWordInDictionaries: true,
             getConfigurationForDocument: true,
+            getDictionariesForDocument: true,
+            getRegExpProfile: true,
+            getVocabularyReport: true,
             isSpellCheckEnabled: true,
+            lintSettings: true,
             splitTextIntoWords: true,
             spellingSuggestions: true,
+            traceWord: true,
+            updateBaseline: true,
             ...handlers.serverRequests,
         },
         serverNotifications: {
+            cancelWorkspaceCheck: true,
             notifyConfigChange: true,
             registerConfigurationFile: true,
+            setRuntimeDictionaries: true,
+            setDocumentLocale: true,
+            setTextMateGrammars: true,
             ...handlers.serverNotifications,
         },
         clientRequests: {
@@ -25,6 +39,8 @@ export function createServerApi(connection: MessageConnection, handlers: Partial
         clientNotifications: {
             onSpellCheckDocument: true,
             onDiagnostics: true,
+            onWorkspaceCheckProgress: true,
+            onRegExpProfile: true,
         },
     };
     return createServerSideApi(connection, api, logger);
@@ -7,18 +7,34 @@ import type { IsSpellCheckEnabledResult, ServerSideApi, ServerSideHandlers } fro
 export function createMockServerSideApi() {
     const api = {
         serverNotification: {
+            cancelWorkspaceCheck: { subscribe: vi.fn() },
             notifyConfigChange: { subscribe: vi.fn() },
             registerConfigurationFile: { subscribe: vi.fn() },
+            setRuntimeDictionaries: { subscribe: vi.fn() },
+            setDocumentLocale: { subscribe: vi.fn() },
+            setTextMateGrammars: { subscribe: vi.fn() },
         },
         serverRequest: {
+            checkDocument: { subscribe: vi.fn() },
+            checkText: { subscribe: vi.fn() },
+            checkWorkspace: { subscribe: vi.fn() },
+            findWordInDictionaries: { subscribe: vi.fn() },
             getConfigurationForDocument: { subscribe: vi.fn() },
+            getDictionariesForDocument: { subscribe: vi.fn() },
+            getRegExpProfile: { subscribe: vi.fn() },
+            getVocabularyReport: { subscribe: vi.fn() },
             isSpellCheckEnabled: { subscribe: vi.fn() },
+            lintSettings: { subscribe: vi.fn() },
             splitTextIntoWords: { subscribe: vi.fn() },
             spellingSuggestions: { subscribe: vi.fn() },
+            traceWord: { subscribe: vi.fn() },
+            updateBaseline: { subscribe: vi.fn() },
         },
         clientNotification: {
             onSpellCheckDocument: vi.fn(),
             onDiagnostics: vi.fn(),
+            onWorkspaceCheckProgress: vi.fn(),
+            onRegExpProfile: vi.fn(),
         },
         clientRequest: {
             onWorkspaceConfigForDocumentRequest: vi.fn(),
@@ -45,10 +61,18 @@ export function mockHandlers(): ServerSideHandlers {
 
     return {
         serverNotifications: {
+            cancelWorkspaceCheck: vi.fn(),
             notifyConfigChange: vi.fn(),
             registerConfigurationFile: vi.fn(),
+            setRuntimeDictionaries: vi.fn(),
+            setDocumentLocale: vi.fn(),
+            setTextMateGrammars: vi.fn(),
         },
         serverRequests: {
+            checkDocument: vi.fn((doc) => ({ uri: doc.uri, issues: [], skipped: false })),
+            checkText: vi.fn((req) => ({ uri: req.uri || '', issues: [], skipped: false })),
+            checkWorkspace: vi.fn(() => ({ filesChecked: 0, filesFromCache: 0, filesWithIssues: 0, numIssues: 0, cancelled: false })),
+            findWordInDictionaries: vi.fn((req) => ({ word: req.word, found: [] })),
             getConfigurationForDocument: vi.fn(() => ({
                 ...sampleIsSpellCheckEnabledResult,
                 settings: undefined,
@@ -56,9 +80,26 @@ export function mockHandlers(): ServerSideHandlers {
                 configFiles: [],
                 configTargets: [],
             })),
+            getDictionariesForDocument: vi.fn(() => ({ dictionaries: [] })),
+            getRegExpProfile: vi.fn(() => ({ patterns: [] })),
+            getVocabularyReport: vi.fn(() => ({ words: [], filesChecked: 0 })),
             isSpellCheckEnabled: vi.fn(() => ({ ...sampleIsSpellCheckEnabledResult })),
+            lintSettings: vi.fn(() => ({ problems: [] })),
             splitTextIntoWords: vi.fn(() => ({ words: [] })),
             spellingSuggestions: vi.fn(() => ({ suggestions: [] })),
+            traceWord: vi.fn((req) => ({
+                uri: req.uri,
+                word: req.word || '',
+                status: 'unknown' as const,
+                caseSensitive: false,
+                dictionaries: [],
+                flagWords: [],
+                ignoreWords: [],
+                ignoredBy: [],
+                notIncluded: false,
+                inDocument: [],
+            })),
+            updateBaseline: vi.fn(() => ({ baselineFiles: [], numFiles: 0, numIssues: 0 })),
         },
     };
 }
@@ -0,0 +1,290 @@
+import { log } from '@internal/common-utils/log';
+import type { Grammar, GrammarDef } from 'cspell-grammar';
+import { compileGrammar, tokenizeText } from 'cspell-grammar';
+import * as fs from 'fs/promises';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Diagnostic } from 'vscode-languageserver-types';
+
+import type { TextMateGrammarDefinition } from './api.js';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+
+export interface ScopeFilter {
+    /**
+     * Set the TextMate grammars contributed by the installed extensions.
+     * A grammar is only loaded when a document of its language is checked.
+     */
+    setGrammars(grammars: TextMateGrammarDefinition[]): void;
+    /**
+     * Remove the diagnostics that are not in text with a scope listed in `checkScopes` for the language of the document.
+     * Nothing is removed if there is no grammar for the language.
+     */
+    filterDiagnostics<T extends Diagnostic>(doc: TextDocument, settings: CSpellUserSettings, diagnostics: T[]): Promise<T[]>;
+    /** Check if diagnostics of the document can be removed by `filterDiagnostics`. */
+    isActive(doc: TextDocument, settings: CSpellUserSettings): boolean;
+}
+
+/** A range of offsets in a document, the end is exclusive. */
+type OffsetRange = [start: number, end: number];
+
+const regExpKeys = ['match', 'begin', 'end', 'while'] as const;
+
+const posixClasses: Record<string, string | undefined> = {
+    alnum: 'a-zA-Z0-9',
+    alpha: 'a-zA-Z',
+    blank: ' \\t',
+    digit: '0-9',
+    lower: 'a-z',
+    punct: '!-\\/:-@\\[-`{-~',
+    space: '\\s',
+    upper: 'A-Z',
+    word: '\\w',
+    xdigit: '0-9a-fA-F',
+};
+
+export function createScopeFilter(): ScopeFilter {
+    let grammarsByLanguage = new Map<string, TextMateGrammarDefinition>();
+    const loadedGrammars = new Map<string, Promise<Grammar | undefined>>();
+
+    function setGrammars(grammars: TextMateGrammarDefinition[]) {
+        // The first grammar contributed for a language wins, like in VS Code.
+        grammarsByLanguage = new Map([...grammars].reverse().map((g) => [g.languageId, g]));
+    }
+
+    function getGrammar(languageId: string): Promise<Grammar | undefined> {
+        const def = grammarsByLanguage.get(languageId);
+        if (!def) return Promise.resolve(undefined);
+        const found = loadedGrammars.get(def.path);
+        if (found) return found;
+        const grammar = loadGrammar(def.path).catch((e) => {
+            log(`Unable to load the grammar for ${languageId}: ${e instanceof Error ? e.message : e}`, def.path);
+            return undefined;
+        });
+        loadedGrammars.set(def.path, grammar);
+        return grammar;
+    }
+
+    function isActive(doc: TextDocument, settings: CSpellUserSettings): boolean {
+        return !!settings.checkScopes?.[doc.languageId]?.length && grammarsByLanguage.has(doc.languageId);
+    }
+
+    async function filterDiagnostics<T extends Diagnostic>(
+        doc: TextDocument,
+        settings: CSpellUserSettings,
+        diagnostics: T[],
+    ): Promise<T[]> {
+        const scopes = settings.checkScopes?.[doc.languageId];
+        if (!scopes?.length || !diagnostics.length) return diagnostics;
+        const grammar = await getGrammar(doc.languageId);
+        if (!grammar) return diagnostics;
+        const ranges = calcScopeRanges(doc.getText(), grammar, scopes);
+        if (!ranges) return diagnostics;
+        return diagnostics.filter((diag) => isInRanges(ranges, doc.offsetAt(diag.range.start), doc.offsetAt(diag.range.end)));
+    }
+
+    return { setGrammars, filterDiagnostics, isActive };
+}
+
+async function loadGrammar(path: string): Promise<Grammar | undefined> {
+    // Grammars in the plist and YAML formats are not supported.
+    if (!/\.json$/i.test(path)) return undefined;
+    const json = JSON.parse(await fs.readFile(path, 'utf8'));
+    const unsupported: string[] = [];
+    const grammar = compileGrammar(toGrammarDef(json, unsupported));
+    if (unsupported.length) {
+        log(`Rules disabled, ${unsupported.length} expressions are not supported, e.g. ${JSON.stringify(unsupported[0])}`, path);
+    }
+    return grammar;
+}
+
+/**
+ * Convert a TextMate grammar to a grammar that can be used with JavaScript regular expressions.
+ * The rules with an expression that cannot be converted are disabled.
+ * @param grammar - the content of a `.tmLanguage.json` file.
+ * @param unsupported - the expressions that could not be converted are added to it.
+ */
+export function toGrammarDef(grammar: unknown, unsupported: string[] = []): GrammarDef {
+    return convertPatterns(grammar, unsupported) as GrammarDef;
+}
+
+function convertPatterns(value: unknown, unsupported: string[]): unknown {
+    if (Array.isArray(value)) return value.map((v) => convertPatterns(v, unsupported));
+    if (!value || typeof value !== 'object') return value;
+    const result: Record<string, unknown> = {};
+    let disabled = false;
+    for (const [key, v] of Object.entries(value)) {
+        if ((regExpKeys as readonly string[]).includes(key) && typeof v === 'string') {
+            const regExp = toRegExp(v);
+            if (!regExp) unsupported.push(v);
+            disabled ||= !regExp;
+            result[key] = regExp ?? v;
+            continue;
+        }
+        result[key] = convertPatterns(v, unsupported);
+    }
+    // A back reference in `end` refers to the `begin` captures, that is not supported.
+    if (typeof (value as Record<string, unknown>)['end'] === 'string' && /\\[1-9]|\\k</.test((value as Record<string, string>)['end'])) {
+        disabled = true;
+    }
+    if (disabled) result['disabled'] = true;
+    return result;
+}
+
+/**
+ * Convert an Oniguruma regular expression, used by TextMate grammars, to a JavaScript regular expression.
+ * The tokenizer sets its own flags, so the leading flags, like `(?i)`, are converted into the expression.
+ * Syntax without a JavaScript equivalent, like `\G`, atomic groups, and possessive quantifiers, is not supported.
+ * @returns undefined if the expression is not supported.
+ */
+export function toRegExp(source: string): RegExp | undefined {
+    try {
+        return new RegExp(convertOniguruma(source));
+    } catch {
+        return undefined;
+    }
+}
+
+function convertOniguruma(source: string): string {
+    const leadingFlags = /^\(\?([imx]*)(?:-[imx]*)?\)/.exec(source);
+    const flags = leadingFlags?.[1] ?? '';
+    const ignoreCase = flags.includes('i');
+    // `m` is the dot all flag in Oniguruma.
+    const dotAll = flags.includes('m');
+    const extended = flags.includes('x');
+    let result = '';
+    let inClass = false;
+    let afterQuantifier = false;
+    for (let i = leadingFlags?.[0].length ?? 0; i < source.length; ++i) {
+        const c = source[i];
+        const isQuantifier = afterQuantifier;
+        afterQuantifier = false;
+        if (c === '\\') {
+            const n = source[i + 1] ?? '';
+            ++i;
+            if (n === 'h') result += inClass ? '0-9a-fA-F' : '[0-9a-fA-F]';
+            else if (n === 'H') result += '[^0-9a-fA-F]';
+            else if (n === 'A') result += '^';
+            else if (n === 'Z' || n === 'z') result += '$';
+            else if (n === 'G' || n === 'p' || n === 'P') throw new Error(`Unsupported escape \\${n}`);
+            else if (n === 'x' && source[i + 1] === '{') {
+                const end = source.indexOf('}', i);
+                result += '\\u' + source.slice(i + 2, end).padStart(4, '0');
+                i = end;
+            } else if (n === 'k' && source[i + 1] === '<') {
+                // Keep the name of the group as is.
+                const end = source.indexOf('>', i);
+                result += source.slice(i - 1, end + 1);
+                i = end;
+            } else result += c + n;
+            continue;
+        }
+        if (inClass) {
+            const posix = c === '[' && /^\[:(\^?)(\w+):\]/.exec(source.slice(i));
+            if (posix) {
+                const chars = posixClasses[posix[2]];
+                if (!chars || posix[1]) throw new Error(`Unsupported character class ${posix[0]}`);
+                result += chars;
+                i += posix[0].length - 1;
+                continue;
+            }
+            if (ignoreCase && isCased(c)) {
+                const last = source[i + 1] === '-' && source[i + 2] !== ']' ? source[i + 2] : undefined;
+                if (last === undefined) {
+                    result += c + swapCase(c);
+                    continue;
+                }
+                if (!isCased(last) || isLowerCase(c) !== isLowerCase(last)) throw new Error(`Unsupported range ${c}-${last}`);
+                result += `${c}-${last}${swapCase(c)}-${swapCase(last)}`;
+                i += 2;
+                continue;
+            }
+            inClass = c !== ']';
+            result += c;
+            continue;
+        }
+        if (extended && /\s/.test(c)) continue;
+        if (extended && c === '#') {
+            while (i + 1 < source.length && source[i + 1] !== '\n') ++i;
+            continue;
+        }
+        if (c === '(' && source[i + 1] === '?') {
+            if (source[i + 2] === '#') {
+                // A comment group.
+                i = source.indexOf(')', i);
+                if (i < 0) throw new Error('Unterminated comment');
+                continue;
+            }
+            // Inline flags, atomic groups, and absent groups are not supported.
+            const group = /^\(\?(?:[:=!]|<[=!]|<\w+>)/.exec(source.slice(i));
+            if (!group) throw new Error(`Unsupported group ${source.slice(i, i + 4)}`);
+            result += group[0];
+            i += group[0].length - 1;
+            continue;
+        }
+        if (c === '+' && isQuantifier) throw new Error('Unsupported possessive quantifier');
+        if (c === '[') inClass = true;
+        afterQuantifier = c === '*' || c === '+' || c === '?';
+        if (dotAll && c === '.') result += '[^]';
+        else if (ignoreCase && isCased(c)) result += `[${c}${swapCase(c)}]`;
+        else result += c;
+    }
+    return result;
+}
+
+function isCased(c: string): boolean {
+    return c.toLowerCase() !== c.toUpperCase();
+}
+
+function isLowerCase(c: string): boolean {
+    return c === c.toLowerCase();
+}
+
+function swapCase(c: string): string {
+    return isLowerCase(c) ? c.toUpperCase() : c.toLowerCase();
+}
+
+/**
+ * Find the text with a matching scope.
+ * @returns sorted ranges, undefined if the text could not be tokenized.
+ */
+export function calcScopeRanges(text: string, grammar: Grammar, scopes: string[]): OffsetRange[] | undefined {
+    const regExps = scopes.map(scopeToRegExp);
+    const isMatch = (scope: string) => scope.split(' ').some((s) => regExps.some((r) => r.test(s)));
+    try {
+        const ranges: OffsetRange[] = [];
+        for (const line of tokenizeText(text, grammar)) {
+            for (const token of line.tokens) {
+                if (!isMatch(token.scope.toString())) continue;
+                const start = line.offset + token.range[0];
+                const end = line.offset + token.range[1];
+                const last = ranges[ranges.length - 1];
+                if (last && last[1] >= start) {
+                    last[1] = Math.max(last[1], end);
+                } else {
+                    ranges.push([start, end]);
+                }
+            }
+        }
+        return ranges;
+    } catch (e) {
+        log(`Unable to tokenize with ${grammar.scopeName}: ${e instanceof Error ? e.message : e}`);
+        return undefined;
+    }
+}
+
+/**
+ * A scope matches its children, `comment` and `comment.*` match `comment.line.double-slash.ts`.
+ * A `*` matches any part of a scope name.
+ */
+function scopeToRegExp(scope: string): RegExp {
+    const pattern = scope
+        .trim()
+        .replace(/\.\*$/, '')
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^ ]*');
+    return new RegExp(`^${pattern}(?:\\.[^ ]*)?$`);
+}
+
+function isInRanges(ranges: OffsetRange[], start: number, end: number): boolean {
+    return ranges.some(([s, e]) => s <= start && end <= e);
+}
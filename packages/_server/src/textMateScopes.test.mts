@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { createScopeFilter, toGrammarDef, toRegExp } from './textMateScopes.mjs';
+
+// cspell:ignore wrogn recieve lzxcv qwzx
+
+const tempDir = path.resolve(__dirname, '../..', 'temp/textMateScopes');
+const grammarPath = path.join(tempDir, 'demo.tmLanguage.json');
+
+const grammar = {
+    scopeName: 'source.demo',
+    patterns: [{ include: '#comment' }, { include: '#string' }, { include: '#import' }],
+    repository: {
+        comment: { name: 'comment.line.double-slash.demo', match: '//.*$' },
+        string: {
+            name: 'string.quoted.double.demo',
+            begin: '"',
+            end: '"',
+            patterns: [{ name: 'constant.character.escape.demo', match: '\\\\(?:x\\h{2}|.)' }],
+        },
+        import: {
+            match: '(?x) \\b(import) \\s+ # the keyword\n ([\\w./]+)',
+            captures: { 1: { name: 'keyword.control.import.demo' }, 2: { name: 'string.unquoted.path.demo' } },
+        },
+        heredoc: { name: 'string.unquoted.heredoc.demo', begin: '<<(\\w+)', end: '^\\1$' },
+        continued: { name: 'meta.continued.demo', begin: '\\G', end: '$' },
+    },
+};
+
+const sampleText = `import lib/wrogn/helper
+const recieve = "a lzxcv\\x41string" // a qwzx comment
+`;
+
+describe('textMateScopes', () => {
+    beforeAll(async () => {
+        await fs.mkdir(tempDir, { recursive: true });
+        await fs.writeFile(grammarPath, JSON.stringify(grammar));
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test.each`
+        source                          | expected
+        ${'\\h+'}                       | ${/[0-9a-fA-F]+/}
+        ${'[\\h_]'}                     | ${/[0-9a-fA-F_]/}
+        ${'\\G\\s*(\\w+)'}              | ${undefined}
+        ${'(?>a|b)'}                    | ${undefined}
+        ${'\\w++'}                      | ${undefined}
+        ${'(?x) a \\s b # comment\n c'} | ${/a\sbc/}
+        ${'(?i)select'}                 | ${/[sS][eE][lL][eE][cC][tT]/}
+        ${'(?i)[a-c_x]+'}               | ${/[a-cA-C_xX]+/}
+        ${'(?im)a.b'}                   | ${/[aA][^][bB]/}
+        ${'a(?i)b'}                     | ${undefined}
+        ${'(?<id>a)\\k<id>'}            | ${/(?<id>a)\k<id>/}
+        ${'a(?# comment)b'}             | ${/ab/}
+        ${'[[:alpha:][:digit:]]'}       | ${/[a-zA-Z0-9]/}
+        ${'\\x{41}'}                    | ${/\u0041/}
+        ${'\\Astart\\z'}                | ${/^start$/}
+        ${'(?i:abc)'}                   | ${undefined}
+    `('toRegExp $source', ({ source, expected }) => {
+        expect(toRegExp(source)).toEqual(expected);
+    });
+
+    test('toGrammarDef', () => {
+        const def = toGrammarDef(grammar);
+        expect(def.repository?.['comment']).toEqual({ name: 'comment.line.double-slash.demo', match: /\/\/.*$/ });
+        // A back reference to the `begin` captures is not supported.
+        expect(def.repository?.['heredoc']).toEqual(expect.objectContaining({ disabled: true }));
+    });
+
+    test('toGrammarDef reports the unsupported expressions', () => {
+        const unsupported: string[] = [];
+        const def = toGrammarDef(grammar, unsupported);
+        expect(def.repository?.['continued']).toEqual(expect.objectContaining({ disabled: true }));
+        expect(unsupported).toEqual(['\\G']);
+    });
+
+    test('filterDiagnostics', async () => {
+        const filter = createScopeFilter();
+        filter.setGrammars([{ languageId: 'demo', scopeName: 'source.demo', path: grammarPath }]);
+        const doc = TextDocument.create('file:///project/sample.demo', 'demo', 1, sampleText);
+        const diags = ['wrogn', 'recieve', 'lzxcv', 'qwzx'].map((word) => diag(doc, word));
+        const words = (diags: Diagnostic[]) => diags.map((d) => doc.getText(d.range));
+
+        expect(words(await filter.filterDiagnostics(doc, {}, diags))).toEqual(['wrogn', 'recieve', 'lzxcv', 'qwzx']);
+        const checkScopes = { demo: ['comment.*', 'string.quoted.*'] };
+        expect(filter.isActive(doc, {})).toBe(false);
+        expect(filter.isActive(doc, { checkScopes })).toBe(true);
+        expect(words(await filter.filterDiagnostics(doc, { checkScopes }, diags))).toEqual(['lzxcv', 'qwzx']);
+        expect(words(await filter.filterDiagnostics(doc, { checkScopes: { demo: ['string'] } }, diags))).toEqual(['wrogn', 'lzxcv']);
+        expect(words(await filter.filterDiagnostics(doc, { checkScopes: { demo: ['*.path.*'] } }, diags))).toEqual(['wrogn']);
+
+        // Without a grammar nothing is removed.
+        const other = TextDocument.create('file:///project/sample.txt', 'plaintext', 1, sampleText);
+        const otherDiags = [diag(other, 'wrogn')];
+        expect(await filter.filterDiagnostics(other, { checkScopes: { plaintext: ['comment'] } }, otherDiags)).toBe(otherDiags);
+        expect(filter.isActive(other, { checkScopes: { plaintext: ['comment'] } })).toBe(false);
+    });
+});
+
+function diag(doc: TextDocument, word: string): Diagnostic {
+    const offset = doc.getText().indexOf(word);
+    return { range: { start: doc.positionAt(offset), end: doc.positionAt(offset + word.length) }, message: word };
+}
@@ -0,0 +1,130 @@
+import { lookupLocaleInfo, normalizeCode } from '@internal/locale-resolver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI as Uri } from 'vscode-uri';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+
+export type TranslationFileFormat = 'json' | 'properties' | 'po' | 'xliff';
+
+export interface TranslationFileInfo {
+    format: TranslationFileFormat;
+    /** The locale of the translations, undefined if it cannot be determined. */
+    locale: string | undefined;
+}
+
+/**
+ * The file types that are enabled when `checkTranslationFiles` is turned on.
+ */
+export const translationFileLanguageIds = ['json', 'properties', 'po', 'xliff'];
+
+const formatsByExtension: Record<string, TranslationFileFormat | undefined> = {
+    '.arb': 'json',
+    '.json': 'json',
+    '.properties': 'properties',
+    '.po': 'po',
+    '.xlf': 'xliff',
+    '.xliff': 'xliff',
+};
+
+/** Directory names commonly used to hold translation files. */
+const translationDirectories = new Set(['i18n', 'l10n', 'lang', 'langs', 'locale', 'locales', 'messages', 'translations']);
+
+const regExpLocaleCode = /^[a-z]{2,3}(?:[-_][A-Za-z]{2,4}){0,2}$/;
+const regExpPropertiesLocale = /_([a-z]{2,3}(?:_[A-Z]{2})?)$/;
+
+const regExpLocaleHeader: Record<TranslationFileFormat, RegExp | undefined> = {
+    json: /^\s*"@@locale"\s*:\s*"([^"]+)"/m,
+    properties: undefined,
+    po: /^"Language:\s*([^\\"]+?)\s*\\n"$/m,
+    xliff: /\btarget-language\s*=\s*["']([^"']+)["']/,
+};
+
+/**
+ * The text that holds the translations, everything else is skipped.
+ */
+const translationValues: Record<TranslationFileFormat, string[]> = {
+    json: [String.raw`/(?<=:\s*)"(?:[^"\\\n]|\\.)*"/g`],
+    properties: [String.raw`/(?<=^[ \t]*[^#!\s][^=:\n]*[=:]).*/gm`],
+    po: [String.raw`/(?<=^msgstr(?:\[\d+\])?[ \t]+)".*"(?:\n".*")*/gm`],
+    xliff: [String.raw`/(?<=<target\b[^>]*>)[\s\S]*?(?=<\/target>)/g`],
+};
+
+/**
+ * Placeholders used by the common message formats.
+ */
+const placeholders: string[] = [
+    // ICU plural and select: `{count, plural,` and the selectors `one {`, `=0 {`
+    String.raw`/\{\s*\w+\s*,\s*(?:plural|select|selectordinal)\s*,/g`,
+    String.raw`/(?:=\d+|\b(?:zero|one|two|few|many|other))\s*\{/g`,
+    // `{count}`, `{{count}}`, `{0}`, `{date, date}`, `${name}`, `%{name}`
+    String.raw`/[$%]?\{\{?\s*[\w.]+\s*(?:,\s*\w+\s*)?\}\}?/g`,
+    // printf style: `%s`, `%1$s`, `%d`, `%.2f`
+    String.raw`/%(?:\d+\$)?[-+ #0]*\d*(?:\.\d+)?[sdifuxXeEgGcp@]/g`,
+];
+
+/**
+ * Determine if a document is a translation file and the locale of its translations.
+ * The locale comes from the header of the file, the file name, or the path.
+ * @param doc - the document
+ * @returns undefined if it is not a translation file.
+ */
+export function detectTranslationFile(doc: Pick<TextDocument, 'uri' | 'getText'>): TranslationFileInfo | undefined {
+    const path = Uri.parse(doc.uri).path;
+    const segments = path.split('/').filter((s) => !!s);
+    const filename = segments.pop() || '';
+    const extIndex = filename.lastIndexOf('.');
+    if (extIndex <= 0) return undefined;
+    const format = formatsByExtension[filename.slice(extIndex).toLowerCase()];
+    if (!format) return undefined;
+    const basename = filename.slice(0, extIndex);
+
+    const regExpHeader = regExpLocaleHeader[format];
+    const header = regExpHeader && doc.getText().match(regExpHeader);
+    const locale = toLocale(header?.[1]) || localeFromFilename(format, basename) || localeFromDirectories(segments);
+
+    // Most JSON files are not translation files.
+    const inTranslationDirectory = segments.some((s) => translationDirectories.has(s.toLowerCase()));
+    if (format === 'json' && !(locale && (header || toLocale(basename) || inTranslationDirectory))) return undefined;
+    return { format, locale };
+}
+
+/**
+ * Calculate the settings to check a translation file.
+ * The locale of the file is used and only the translations are checked.
+ * @param doc - the document
+ * @param settings - the settings for the document.
+ * @returns undefined if `checkTranslationFiles` is not enabled or it is not a translation file.
+ */
+export function calcTranslationFileSettings(
+    doc: Pick<TextDocument, 'uri' | 'getText'>,
+    settings: CSpellUserSettings,
+): CSpellUserSettings | undefined {
+    if (!settings.checkTranslationFiles) return undefined;
+    const info = detectTranslationFile(doc);
+    if (!info) return undefined;
+    const { includeRegExpList = [], ignoreRegExpList = [] } = settings;
+    return {
+        ...settings,
+        language: info.locale || settings.language,
+        includeRegExpList: [...includeRegExpList, ...translationValues[info.format]],
+        ignoreRegExpList: [...ignoreRegExpList, ...placeholders],
+    };
+}
+
+function localeFromFilename(format: TranslationFileFormat, basename: string): string | undefined {
+    if (format === 'properties') return toLocale(basename.match(regExpPropertiesLocale)?.[1]);
+    return toLocale(basename);
+}
+
+function localeFromDirectories(segments: string[]): string | undefined {
+    for (const segment of [...segments].reverse()) {
+        const locale = toLocale(segment);
+        if (locale) return locale;
+    }
+    return undefined;
+}
+
+function toLocale(code: string | undefined): string | undefined {
+    if (!code || !regExpLocaleCode.test(code) || !lookupLocaleInfo(code)) return undefined;
+    return normalizeCode(code, true);
+}
@@ -0,0 +1,119 @@
+import { constructSettingsForText, getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { calcTranslationFileSettings, detectTranslationFile } from './translationFiles.mjs';
+import * as Validator from './validator.mjs';
+
+// cspell:ignore colour favourite neighbour msgstr msgid colr favrite nieghbor
+
+const timeout = 30000; // 30 seconds
+
+const sampleJson = `{
+    "greeting.colr": "My favourite colour",
+    "items": "{count, plural, =0 {No items} one {# item} other {# items}}",
+    "welcome": "Welcome {name}, you have {{count}} messages",
+    "typo": "The nieghbor"
+}
+`;
+
+const samplePo = `msgid ""
+msgstr ""
+"Language: en-GB\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+
+msgid "My favrite color"
+msgstr "My favourite colour, %s and %1$d"
+
+msgid "The neighbor"
+msgstr "The nieghbor "
+"and the neighbour"
+`;
+
+const sampleProperties = `# colr comments are skipped
+greeting.colr = My favourite colour {0}
+typo: The nieghbor
+`;
+
+const sampleXliff = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2">
+  <file source-language="en" target-language="en-GB" datatype="plaintext" original="messages">
+    <body>
+      <trans-unit id="colr">
+        <source>My favrite color</source>
+        <target>My favourite colour</target>
+      </trans-unit>
+      <trans-unit id="typo">
+        <source>The neighbor</source>
+        <target>The nieghbor</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+describe('translationFiles', () => {
+    test.each`
+        uri                                            | text                               | expected
+        ${'file:///project/package.json'}              | ${'{}'}                            | ${undefined}
+        ${'file:///project/src/app.ts'}                | ${''}                              | ${undefined}
+        ${'file:///project/locales/en-GB.json'}        | ${'{}'}                            | ${{ format: 'json', locale: 'en-GB' }}
+        ${'file:///project/de.json'}                   | ${'{}'}                            | ${{ format: 'json', locale: 'de' }}
+        ${'file:///project/i18n/fr/common.json'}       | ${'{}'}                            | ${{ format: 'json', locale: 'fr' }}
+        ${'file:///project/locales/common.json'}       | ${'{}'}                            | ${undefined}
+        ${'file:///project/src/fr/common.json'}        | ${'{}'}                            | ${undefined}
+        ${'file:///project/lib/l10n/app.arb'}          | ${'{\n  "@@locale": "de_DE"\n}'}   | ${{ format: 'json', locale: 'de-DE' }}
+        ${'file:///project/messages_de.properties'}    | ${''}                              | ${{ format: 'properties', locale: 'de' }}
+        ${'file:///project/messages_pt_BR.properties'} | ${''}                              | ${{ format: 'properties', locale: 'pt-BR' }}
+        ${'file:///project/messages.properties'}       | ${''}                              | ${{ format: 'properties', locale: undefined }}
+        ${'file:///project/po/messages.po'}            | ${samplePo}                        | ${{ format: 'po', locale: 'en-GB' }}
+        ${'file:///project/po/nl.po'}                  | ${'msgid ""\nmsgstr ""\n'}         | ${{ format: 'po', locale: 'nl' }}
+        ${'file:///project/messages.xlf'}              | ${sampleXliff}                     | ${{ format: 'xliff', locale: 'en-GB' }}
+        ${'file:///project/locale/es/messages.xliff'}  | ${'<xliff version="2.0"></xliff>'} | ${{ format: 'xliff', locale: 'es' }}
+    `('detectTranslationFile $uri', ({ uri, text, expected }) => {
+        expect(detectTranslationFile(doc(uri, text))).toEqual(expected);
+    });
+
+    test('calcTranslationFileSettings', () => {
+        const settings: CSpellUserSettings = { language: 'en', includeRegExpList: ['/a/'], ignoreRegExpList: ['Urls'] };
+        const jsonDoc = doc('file:///project/locales/en-GB.json', sampleJson);
+        expect(calcTranslationFileSettings(jsonDoc, settings)).toBeUndefined();
+        expect(calcTranslationFileSettings(doc('file:///project/src/app.json', '{}'), { checkTranslationFiles: true })).toBeUndefined();
+
+        const result = calcTranslationFileSettings(jsonDoc, { ...settings, checkTranslationFiles: true });
+        expect(result?.language).toBe('en-GB');
+        expect(result?.includeRegExpList).toEqual(['/a/', expect.any(String)]);
+        expect(result?.ignoreRegExpList).toEqual(['Urls', ...Array(4).fill(expect.any(String))]);
+
+        const noLocale = calcTranslationFileSettings(doc('file:///project/messages.properties', ''), {
+            ...settings,
+            checkTranslationFiles: true,
+        });
+        expect(noLocale?.language).toBe('en');
+    });
+
+    test.each`
+        uri                                            | text                | expected
+        ${'file:///project/locales/en-GB.json'}        | ${sampleJson}       | ${['nieghbor']}
+        ${'file:///project/po/messages.po'}            | ${samplePo}         | ${['nieghbor']}
+        ${'file:///project/messages_en_GB.properties'} | ${sampleProperties} | ${['nieghbor']}
+        ${'file:///project/messages.xlf'}              | ${sampleXliff}      | ${['nieghbor']}
+    `(
+        'validate translation file $uri',
+        async ({ uri, text, expected }) => {
+            const textDoc = doc(uri, text);
+            const languageId = uri.split('.').pop();
+            const baseSettings: CSpellUserSettings = { ...getDefaultSettings(), language: 'en', checkTranslationFiles: true };
+            const fileSettings = calcTranslationFileSettings(textDoc, baseSettings) || baseSettings;
+            const settings = constructSettingsForText(fileSettings, text, languageId);
+            const results = await Validator.validateTextDocument(TextDocument.create(uri, languageId, 1, text), settings);
+            expect(results.map((diag) => diag.data?.text)).toEqual(expected);
+        },
+        timeout,
+    );
+});
+
+function doc(uri: string, text: string) {
+    return { uri, getText: () => text };
+}
@@ -81,3 +81,23 @@ export function isTextLikelyMinified(text: string, options: IsTextLikelyMinified
 
     return false;
 }
+
+/**
+ * Check if a document is minified using the `blockChecking*` settings.
+ *
+ * @param text - text to check.
+ * @param settings - settings, missing values use the defaults.
+ * @returns the reason the text should not be checked or false.
+ */
+export function isTextLikelyMinifiedForSettings(text: string, settings: Partial<IsTextLikelyMinifiedOptions>): MinifiedReason | false {
+    const {
+        blockCheckingWhenLineLengthGreaterThan = defaultIsTextLikelyMinifiedOptions.blockCheckingWhenLineLengthGreaterThan,
+        blockCheckingWhenAverageChunkSizeGreaterThan = defaultIsTextLikelyMinifiedOptions.blockCheckingWhenAverageChunkSizeGreaterThan,
+        blockCheckingWhenTextChunkSizeGreaterThan = defaultIsTextLikelyMinifiedOptions.blockCheckingWhenTextChunkSizeGreaterThan,
+    } = settings;
+    return isTextLikelyMinified(text, {
+        blockCheckingWhenAverageChunkSizeGreaterThan,
+        blockCheckingWhenLineLengthGreaterThan,
+        blockCheckingWhenTextChunkSizeGreaterThan,
+    });
+}
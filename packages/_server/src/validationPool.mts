@@ -0,0 +1,278 @@
+import * as path from 'path';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Worker } from 'worker_threads';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import * as Validator from './validator.mjs';
+
+export const defaultValidationWorkerTimeoutMs = 10000;
+/** How often the running validations are checked for staleness while documents are waiting for a worker. */
+const staleCheckIntervalMs = 100;
+
+export interface ValidationRequest {
+    id: number;
+    uri: string;
+    languageId: string;
+    version: number;
+    text: string;
+    settings: CSpellUserSettings;
+}
+
+export type ValidationResponse = ValidationResponseOk | ValidationResponseError;
+
+interface ValidationResponseOk {
+    id: number;
+    diagnostics: Diagnostic[];
+}
+
+interface ValidationResponseError {
+    id: number;
+    error: string;
+}
+
+/**
+ * The parts of a `Worker` used by the pool.
+ */
+export interface ValidationWorker {
+    postMessage(req: ValidationRequest): void;
+    on(event: 'message', listener: (res: ValidationResponse) => void): unknown;
+    on(event: 'error', listener: (err: Error) => void): unknown;
+    terminate(): Promise<unknown>;
+}
+
+export interface ValidationPoolOptions {
+    /** The number of workers. `0` means validate on the main thread. */
+    size: number;
+    /** The time allowed to validate a document. */
+    timeoutMs: number;
+}
+
+export class ValidationCanceledError extends Error {
+    constructor(readonly uri: string) {
+        super(`Validation canceled: ${uri}`);
+    }
+}
+
+export class ValidationTimeoutError extends Error {
+    constructor(
+        readonly uri: string,
+        readonly timeoutMs: number,
+    ) {
+        super(`Validation took longer than ${timeoutMs}ms: ${uri}`);
+    }
+}
+
+interface Task {
+    req: ValidationRequest;
+    isCanceled: () => boolean;
+    resolve: (diags: Diagnostic[]) => void;
+    reject: (err: Error) => void;
+}
+
+interface Slot {
+    worker: ValidationWorker;
+    task?: Task | undefined;
+    timer?: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Validate documents in a pool of worker threads.
+ *
+ * A document that goes stale while it is waiting in the queue is dropped.
+ * A document that goes stale while it is being validated is allowed to finish if no other document is waiting,
+ * the result is discarded. Stopping a worker means reloading the dictionaries, so a worker is only stopped
+ * when a stale validation blocks a document that is waiting.
+ */
+export class ValidationPool {
+    private queue: Task[] = [];
+    private slots: Slot[] = [];
+    private options: ValidationPoolOptions;
+    private nextId = 0;
+    private staleCheckTimer: NodeJS.Timeout | undefined;
+
+    constructor(
+        options: Partial<ValidationPoolOptions> = {},
+        private createWorker: () => ValidationWorker = createValidationWorker,
+    ) {
+        this.options = { size: 0, timeoutMs: defaultValidationWorkerTimeoutMs, ...options };
+    }
+
+    get size(): number {
+        return this.options.size;
+    }
+
+    setOptions(options: Partial<ValidationPoolOptions>): void {
+        this.options = { ...this.options, ...options };
+        this.removeExtraWorkers();
+        this.next();
+    }
+
+    /**
+     * Validate a document.
+     * Rejects with a {@link ValidationCanceledError} if the document became stale or a {@link ValidationTimeoutError}.
+     * @param isCanceled - checked before, while and after the document is validated.
+     */
+    validate(doc: TextDocument, settings: CSpellUserSettings, isCanceled: () => boolean = () => false): Promise<Diagnostic[]> {
+        if (!this.options.size) {
+            return Validator.validateTextDocument(doc, settings);
+        }
+        const { uri, languageId, version } = doc;
+        const req: ValidationRequest = { id: ++this.nextId, uri, languageId, version, text: doc.getText(), settings };
+        return new Promise<Diagnostic[]>((resolve, reject) => {
+            this.queue.push({ req, isCanceled, resolve, reject });
+            this.next();
+        });
+    }
+
+    /**
+     * All the workers are busy.
+     */
+    isBusy(): boolean {
+        return this.options.size > 0 && this.slots.length >= this.options.size && this.slots.every((slot) => !!slot.task);
+    }
+
+    dispose(): void {
+        const tasks = [...this.queue, ...this.slots.map((slot) => slot.task)];
+        this.queue = [];
+        clearTimeout(this.staleCheckTimer);
+        this.staleCheckTimer = undefined;
+        this.slots.forEach((slot) => this.stopWorker(slot));
+        tasks.forEach((task) => task?.reject(new ValidationCanceledError(task.req.uri)));
+    }
+
+    private next(): void {
+        while (this.queue.length) {
+            const task = this.queue[0];
+            if (task.isCanceled()) {
+                this.queue.shift();
+                task.reject(new ValidationCanceledError(task.req.uri));
+                continue;
+            }
+            if (!this.options.size) {
+                // The pool was turned off.
+                this.queue.shift();
+                this.runOnMainThread(task);
+                continue;
+            }
+            const slot = this.findIdleSlot() ?? this.stopStaleValidation();
+            if (!slot) {
+                this.scheduleStaleCheck();
+                return;
+            }
+            this.queue.shift();
+            this.run(slot, task);
+        }
+    }
+
+    private run(slot: Slot, task: Task): void {
+        try {
+            slot.worker.postMessage(task.req);
+        } catch (e) {
+            // The settings could not be sent to the worker, fall back to the main thread.
+            this.runOnMainThread(task);
+            return;
+        }
+        slot.task = task;
+        slot.timer = setTimeout(() => this.handleTimeout(slot), this.options.timeoutMs);
+    }
+
+    private runOnMainThread(task: Task): void {
+        const { req } = task;
+        const doc = TextDocument.create(req.uri, req.languageId, req.version, req.text);
+        Validator.validateTextDocument(doc, req.settings).then(task.resolve).catch(task.reject);
+    }
+
+    private handleResponse(slot: Slot, res: ValidationResponse): void {
+        const task = slot.task;
+        if (!task || task.req.id !== res.id) return;
+        this.releaseSlot(slot);
+        if (task.isCanceled()) {
+            task.reject(new ValidationCanceledError(task.req.uri));
+        } else if ('error' in res) {
+            task.reject(new Error(res.error));
+        } else {
+            task.resolve(res.diagnostics);
+        }
+        this.next();
+    }
+
+    /**
+     * Stop a worker that is validating a stale document to make room for a waiting document.
+     * @returns the slot of the new worker.
+     */
+    private stopStaleValidation(): Slot | undefined {
+        const slot = this.slots.find((slot) => slot.task?.isCanceled());
+        const task = slot?.task;
+        if (!slot || !task) return undefined;
+        this.stopWorker(slot);
+        task.reject(new ValidationCanceledError(task.req.uri));
+        return this.findIdleSlot();
+    }
+
+    private scheduleStaleCheck(): void {
+        if (this.staleCheckTimer) return;
+        this.staleCheckTimer = setTimeout(() => {
+            this.staleCheckTimer = undefined;
+            this.next();
+        }, staleCheckIntervalMs);
+    }
+
+    private handleTimeout(slot: Slot): void {
+        const task = slot.task;
+        // The worker is stuck, replace it.
+        this.stopWorker(slot);
+        task?.reject(new ValidationTimeoutError(task.req.uri, this.options.timeoutMs));
+        this.next();
+    }
+
+    private handleError(slot: Slot, err: Error): void {
+        const task = slot.task;
+        this.stopWorker(slot);
+        task?.reject(err);
+        this.next();
+    }
+
+    private releaseSlot(slot: Slot): void {
+        clearTimeout(slot.timer);
+        slot.timer = undefined;
+        slot.task = undefined;
+        this.removeExtraWorkers();
+    }
+
+    private findIdleSlot(): Slot | undefined {
+        const idle = this.slots.find((slot) => !slot.task);
+        if (idle) return idle;
+        if (this.slots.length >= this.options.size) return undefined;
+        const slot: Slot = { worker: this.createWorker() };
+        slot.worker.on('message', (res) => this.handleResponse(slot, res));
+        slot.worker.on('error', (err) => this.handleError(slot, err));
+        this.slots.push(slot);
+        return slot;
+    }
+
+    /**
+     * Stop idle workers when the pool is larger than the requested size.
+     */
+    private removeExtraWorkers(): void {
+        const extra = this.slots.length - this.options.size;
+        if (extra <= 0) return;
+        this.slots
+            .filter((slot) => !slot.task)
+            .slice(0, extra)
+            .forEach((slot) => this.stopWorker(slot));
+    }
+
+    private stopWorker(slot: Slot): void {
+        clearTimeout(slot.timer);
+        slot.timer = undefined;
+        slot.task = undefined;
+        this.slots = this.slots.filter((s) => s !== slot);
+        slot.worker.terminate().catch(() => undefined);
+    }
+}
+
+function createValidationWorker(): ValidationWorker {
+    // The worker is bundled next to the server, see `build.mjs`.
+    return new Worker(path.join(__dirname, 'validationWorker.cjs'));
+}
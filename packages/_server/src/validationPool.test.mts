@@ -0,0 +1,192 @@
+import type { CSpellSettings } from 'cspell-lib';
+import * as cspell from 'cspell-lib';
+import { getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test, vi } from 'vitest';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import type { ValidationRequest, ValidationResponse, ValidationWorker } from './validationPool.mjs';
+import { ValidationCanceledError, ValidationPool, ValidationTimeoutError } from './validationPool.mjs';
+import { handleValidationRequest } from './validationWorker.mjs';
+
+// cSpell:ignore brouwn wrongg
+
+const defaultSettings: CSpellSettings = { ...getDefaultSettings(), enabledLanguageIds: ['plaintext'] };
+
+const timeout = 30000; // 30 seconds
+
+describe('ValidationPool', () => {
+    test(
+        'validate in a worker',
+        async () => {
+            const workers = createWorkers();
+            const pool = new ValidationPool({ size: 2 }, workers.create);
+            const doc = createDoc('The quick brouwn fox.');
+            const diags = await pool.validate(doc, getSettings(doc));
+            expect(words(diags)).toEqual(['brouwn']);
+            expect(workers.created).toHaveLength(1);
+            expect(workers.created[0].postMessage).toHaveBeenCalledTimes(1);
+            pool.dispose();
+        },
+        timeout,
+    );
+
+    test(
+        'validate on the main thread',
+        async () => {
+            const workers = createWorkers();
+            const pool = new ValidationPool({ size: 0 }, workers.create);
+            const doc = createDoc('const wrongg = 1;');
+            const diags = await pool.validate(doc, getSettings(doc));
+            expect(words(diags)).toEqual(['wrongg']);
+            expect(workers.created).toHaveLength(0);
+            expect(pool.isBusy()).toBe(false);
+        },
+        timeout,
+    );
+
+    test(
+        'stale documents are not validated',
+        async () => {
+            const workers = createWorkers({ manual: true });
+            const pool = new ValidationPool({ size: 1 }, workers.create);
+            const docA = createDoc('The quick brouwn fox.', 'file:///a.txt');
+            const docB = createDoc('const wrongg = 1;', 'file:///b.txt');
+            let isStaleA = false;
+            let isStaleB = false;
+            const pA = pool.validate(docA, getSettings(docA), () => isStaleA);
+            const pB = pool.validate(docB, getSettings(docB), () => isStaleB);
+            expect(pool.isBusy()).toBe(true);
+
+            // B goes stale while waiting, A goes stale while running.
+            isStaleA = true;
+            isStaleB = true;
+            await workers.respond();
+
+            await expect(pA).rejects.toEqual(new ValidationCanceledError(docA.uri));
+            await expect(pB).rejects.toBeInstanceOf(ValidationCanceledError);
+            expect(workers.created[0].postMessage).toHaveBeenCalledTimes(1);
+            expect(pool.isBusy()).toBe(false);
+            pool.dispose();
+        },
+        timeout,
+    );
+
+    test(
+        'a stale validation is stopped when a document is waiting',
+        async () => {
+            vi.useFakeTimers();
+            try {
+                const workers = createWorkers({ manual: true });
+                const pool = new ValidationPool({ size: 1 }, workers.create);
+                const docA = createDoc('The quick brouwn fox.', 'file:///a.txt');
+                const docB = createDoc('const wrongg = 1;', 'file:///b.txt');
+                let isStaleA = false;
+                const pA = pool.validate(docA, getSettings(docA), () => isStaleA);
+                const pB = pool.validate(docB, getSettings(docB));
+                vi.advanceTimersByTime(1000);
+                expect(workers.created).toHaveLength(1);
+
+                // A goes stale while B is waiting.
+                isStaleA = true;
+                vi.advanceTimersByTime(100);
+                await expect(pA).rejects.toEqual(new ValidationCanceledError(docA.uri));
+                expect(workers.created[0].terminate).toHaveBeenCalled();
+                expect(workers.created).toHaveLength(2);
+                expect(workers.created[1].postMessage).toHaveBeenCalledWith(expect.objectContaining({ uri: docB.uri }));
+
+                vi.useRealTimers();
+                await workers.respond();
+                expect(words(await pB)).toEqual(['wrongg']);
+                pool.dispose();
+            } finally {
+                vi.useRealTimers();
+            }
+        },
+        timeout,
+    );
+
+    test('a worker that takes too long is replaced', async () => {
+        vi.useFakeTimers();
+        try {
+            const workers = createWorkers({ manual: true });
+            const pool = new ValidationPool({ size: 1, timeoutMs: 1000 }, workers.create);
+            const doc = createDoc('The quick brown fox.');
+            const p = pool.validate(doc, getSettings(doc));
+            const p2 = pool.validate(doc, getSettings(doc));
+            vi.advanceTimersByTime(1000);
+            await expect(p).rejects.toEqual(new ValidationTimeoutError(doc.uri, 1000));
+            expect(workers.created[0].terminate).toHaveBeenCalled();
+            // The next document is sent to a new worker.
+            expect(workers.created).toHaveLength(2);
+            expect(workers.created[1].postMessage).toHaveBeenCalledTimes(1);
+            pool.dispose();
+            await expect(p2).rejects.toBeInstanceOf(ValidationCanceledError);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    test('reducing the size stops idle workers', async () => {
+        const workers = createWorkers();
+        const pool = new ValidationPool({ size: 2 }, workers.create);
+        const docA = createDoc('The quick brown fox.', 'file:///a.txt');
+        const docB = createDoc('The lazy dog.', 'file:///b.txt');
+        await Promise.all([pool.validate(docA, getSettings(docA)), pool.validate(docB, getSettings(docB))]);
+        expect(workers.created).toHaveLength(2);
+        pool.setOptions({ size: 1 });
+        expect(workers.created.filter((w) => w.terminate.mock.calls.length)).toHaveLength(1);
+        pool.dispose();
+    });
+});
+
+interface FakeWorker extends ValidationWorker {
+    postMessage: ReturnType<typeof vi.fn<[ValidationRequest], void>>;
+    terminate: ReturnType<typeof vi.fn<[], Promise<number>>>;
+}
+
+/**
+ * Fake workers that validate on the main thread.
+ * @param manual - hold the requests until `respond` is called.
+ */
+function createWorkers({ manual = false } = {}) {
+    const created: FakeWorker[] = [];
+    const pending: (() => Promise<void>)[] = [];
+
+    function create(): ValidationWorker {
+        let onMessage: ((res: ValidationResponse) => void) | undefined;
+        const process = async (req: ValidationRequest) => onMessage?.(await handleValidationRequest(req));
+        const worker: FakeWorker = {
+            postMessage: vi.fn((req: ValidationRequest) => {
+                const p = () => process(req);
+                manual ? pending.push(p) : setTimeout(p);
+            }),
+            on: (event: string, listener: (v: never) => void) => {
+                if (event === 'message') onMessage = listener as (res: ValidationResponse) => void;
+            },
+            terminate: vi.fn(async () => 0),
+        };
+        created.push(worker);
+        return worker;
+    }
+
+    async function respond() {
+        const toRun = pending.splice(0);
+        await Promise.all(toRun.map((fn) => fn()));
+    }
+
+    return { create, created, respond };
+}
+
+function createDoc(text: string, uri = 'file:///sample.txt'): TextDocument {
+    return TextDocument.create(uri, 'plaintext', 1, text);
+}
+
+function getSettings(doc: TextDocument): CSpellUserSettings {
+    return cspell.constructSettingsForText(defaultSettings, doc.getText(), doc.languageId);
+}
+
+function words(diags: Diagnostic[]): string[] {
+    return diags.map((d) => (d.data as { text: string }).text);
+}
@@ -0,0 +1,33 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { isMainThread, parentPort } from 'worker_threads';
+
+import { catchPromise } from './utils/catchPromise.mjs';
+import type { ValidationRequest, ValidationResponse } from './validationPool.mjs';
+import * as Validator from './validator.mjs';
+
+/**
+ * Validate a document on behalf of the `ValidationPool`.
+ */
+export async function handleValidationRequest(req: ValidationRequest): Promise<ValidationResponse> {
+    const { id, uri, languageId, version, text, settings } = req;
+    try {
+        const doc = TextDocument.create(uri, languageId, version, text);
+        const diagnostics = await Validator.validateTextDocument(doc, settings);
+        return { id, diagnostics };
+    } catch (e) {
+        return { id, error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+function listen() {
+    const port = parentPort;
+    if (isMainThread || !port) return;
+    port.on('message', (req: ValidationRequest) => {
+        catchPromise(
+            handleValidationRequest(req).then((res) => port.postMessage(res)),
+            'validationWorker',
+        );
+    });
+}
+
+listen();
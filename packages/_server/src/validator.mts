@@ -1,4 +1,5 @@
-import { createTextDocument, DocumentValidator, Text as TextUtil } from 'cspell-lib';
+import type { DocumentValidatorOptions, ValidationIssue } from 'cspell-lib';
+import { createTextDocument, DocumentValidator, IssueType, Text as TextUtil } from 'cspell-lib';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 import type { Diagnostic } from 'vscode-languageserver-types';
 import { DiagnosticSeverity } from 'vscode-languageserver-types';
@@ -7,6 +8,8 @@ import type { SpellCheckerDiagnosticData, SpellingDiagnostic, Suggestion } from
 import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
 import { isScmUri } from './config/docUriHelper.mjs';
 import { diagnosticSource } from './constants.mjs';
+import { applyIdentifierRules, checkIdentifiers } from './identifiers.mjs';
+import { calcRegionSettings, findLocaleRegions, findRegionAt } from './localeRegions.mjs';
 
 export { createTextDocument, validateText } from 'cspell-lib';
 
@@ -14,6 +17,19 @@ export const diagnosticCollectionName = diagnosticSource;
 export const diagSource = diagnosticCollectionName;
 export const defaultCheckLimit = 500;
 
+// Mirror the defaults used by cspell-lib when the limits are not set.
+const defaultMaxNumberOfProblems = 200;
+const defaultMaxDuplicateProblems = 5;
+
+/**
+ * Used to find every issue in a document when some of them are removed after validation.
+ * The limits are applied with `applyProblemLimits` once the issues have been removed.
+ */
+const noProblemLimits = {
+    maxNumberOfProblems: Number.MAX_SAFE_INTEGER,
+    maxDuplicateProblems: Number.MAX_SAFE_INTEGER,
+} as const satisfies CSpellUserSettings;
+
 const diagSeverityMap = new Map<string, DiagnosticSeverity | undefined>([
     ['error', DiagnosticSeverity.Error],
     ['warning', DiagnosticSeverity.Warning],
@@ -22,10 +38,124 @@ const diagSeverityMap = new Map<string, DiagnosticSeverity | undefined>([
     ['off', undefined],
 ]);
 
-export async function validateTextDocument(textDocument: TextDocument, options: CSpellUserSettings): Promise<Diagnostic[]> {
-    const { severity, severityFlaggedWords } = calcSeverity(textDocument.uri, options);
-    const limit = (options.checkLimit || defaultCheckLimit) * 1024;
-    const content = textDocument.getText().slice(0, limit);
+/**
+ * Options that control what is reported, like suggestions.
+ */
+export type ValidatorOptions = Pick<DocumentValidatorOptions, 'generateSuggestions' | 'numSuggestions'>;
+
+export async function validateTextDocument(
+    textDocument: TextDocument,
+    options: CSpellUserSettings,
+    validatorOptions: ValidatorOptions = {},
+): Promise<SpellingDiagnostic[]> {
+    const docVal = await createDocumentValidator(textDocument, options, validatorOptions);
+    const r = checkIdentifiers(docVal, await docVal.checkDocumentAsync(true), options, textDocument.languageId);
+    const issues = await checkLocaleRegions(textDocument, r, options, validatorOptions);
+    return issuesToDiagnostics(textDocument, issues, options);
+}
+
+/**
+ * Check the regions of a document that have their own locale, see `localeRegions`.
+ * The issues found in those regions are replaced with the issues found using the settings of the region.
+ * @param textDocument - document to validate
+ * @param issues - the issues found using the settings of the document.
+ * @param options - settings to use.
+ * @param validatorOptions - options like generating suggestions.
+ * @returns the issues sorted by offset.
+ */
+export async function checkLocaleRegions(
+    textDocument: TextDocument,
+    issues: ValidationIssue[],
+    options: CSpellUserSettings,
+    validatorOptions: ValidatorOptions = {},
+): Promise<ValidationIssue[]> {
+    const { languageId } = textDocument;
+    const regions = findLocaleRegions(textDocument.getText().slice(0, calcCheckLimit(options)), languageId, options.localeRegions);
+    if (!regions.length) return issues;
+
+    const result = issues.filter((issue) => !findRegionAt(regions, issue.offset));
+    const locales = new Set(regions.map((r) => r.locale));
+    for (const locale of locales) {
+        const localeRegions = regions.filter((r) => r.locale === locale);
+        const regionSettings = calcRegionSettings(options, locale, languageId);
+        const docVal = await createDocumentValidator(textDocument, regionSettings, validatorOptions);
+        const regionIssues = checkIdentifiers(docVal, await docVal.checkDocumentAsync(true), regionSettings, languageId);
+        result.push(...regionIssues.filter((issue) => findRegionAt(localeRegions, issue.offset)));
+    }
+    return result.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * The number of characters of a document that will be checked.
+ * @param options - settings
+ * @returns the limit in characters.
+ */
+export function calcCheckLimit(options: Pick<CSpellUserSettings, 'checkLimit'>): number {
+    return (options.checkLimit || defaultCheckLimit) * 1024;
+}
+
+/**
+ * The maximum number of issues reported for a document.
+ * @param options - settings
+ */
+export function calcMaxNumberOfProblems(options: Pick<CSpellUserSettings, 'maxNumberOfProblems'>): number {
+    return options.maxNumberOfProblems ?? defaultMaxNumberOfProblems;
+}
+
+/**
+ * Lift `maxNumberOfProblems` and `maxDuplicateProblems`.
+ * @param options - settings
+ * @returns the settings to use to find every issue in a document.
+ */
+export function liftProblemLimits(options: CSpellUserSettings): CSpellUserSettings {
+    return { ...options, ...noProblemLimits };
+}
+
+/**
+ * Apply `maxNumberOfProblems` and `maxDuplicateProblems` to the diagnostics of a document.
+ * Directives do not count towards the limits.
+ * @param diagnostics - diagnostics sorted by position.
+ * @param options - settings with the limits.
+ * @returns the diagnostics within the limits, `truncated` is true if `maxNumberOfProblems` was reached.
+ */
+export function applyProblemLimits<T extends Diagnostic>(
+    diagnostics: T[],
+    options: Pick<CSpellUserSettings, 'maxNumberOfProblems' | 'maxDuplicateProblems'>,
+): { diagnostics: T[]; truncated: boolean } {
+    const maxNumberOfProblems = calcMaxNumberOfProblems(options);
+    const maxDuplicateProblems = options.maxDuplicateProblems ?? defaultMaxDuplicateProblems;
+    const counts = new Map<string, number>();
+    const result: T[] = [];
+    for (const diag of diagnostics) {
+        const data = diag.data as SpellCheckerDiagnosticData | undefined;
+        if (data?.issueType === IssueType.directive) {
+            result.push(diag);
+            continue;
+        }
+        const text = data?.text ?? '';
+        const n = (counts.get(text) || 0) + 1;
+        counts.set(text, n);
+        if (n > maxDuplicateProblems) continue;
+        result.push(diag);
+        if (result.length >= maxNumberOfProblems) return { diagnostics: result, truncated: true };
+    }
+    return { diagnostics: result, truncated: false };
+}
+
+/**
+ * Create and prepare a DocumentValidator for the text of a document.
+ * The text is limited by `checkLimit`.
+ * @param textDocument - document to validate
+ * @param options - settings to use.
+ * @param validatorOptions - options like generating suggestions.
+ * @returns a prepared DocumentValidator
+ */
+export async function createDocumentValidator(
+    textDocument: TextDocument,
+    options: CSpellUserSettings,
+    validatorOptions: ValidatorOptions = {},
+): Promise<DocumentValidator> {
+    const content = textDocument.getText().slice(0, calcCheckLimit(options));
     const docInfo = {
         uri: textDocument.uri,
         content,
@@ -33,10 +163,25 @@ export async function validateTextDocument(textDocument: TextDocument, options:
         version: textDocument.version,
     };
     const doc = createTextDocument(docInfo);
-    const docVal = new DocumentValidator(doc, { noConfigSearch: true }, options);
+    const docVal = new DocumentValidator(doc, { ...validatorOptions, noConfigSearch: true }, options);
     await docVal.prepare();
-    const r = await docVal.checkDocumentAsync(true);
-    const diags = r
+    return docVal;
+}
+
+/**
+ * Convert validation issues into Diagnostics.
+ * @param textDocument - the document used to calculate the positions.
+ * @param issues - issues found by the DocumentValidator
+ * @param options - settings used to determine the severity.
+ * @returns Diagnostics, issues that are turned `off` are removed. The `identifierRules` are applied.
+ */
+export function issuesToDiagnostics(
+    textDocument: TextDocument,
+    issues: ValidationIssue[],
+    options: CSpellUserSettings,
+): SpellingDiagnostic[] {
+    const { severity, severityFlaggedWords } = calcSeverity(textDocument.uri, options);
+    const diags = issues
         // Convert the offset into a position
         .map((issue) => ({ ...issue, position: textDocument.positionAt(issue.offset) }))
         // Calculate the range
@@ -63,7 +208,7 @@ export async function validateTextDocument(textDocument: TextDocument, options:
             return diag;
         })
         .filter((diag) => !!diag.severity);
-    return diags;
+    return applyIdentifierRules(textDocument, options, diags);
 }
 
 function haveSuggestionsMatchCase(example: string, suggestions: Suggestion[] | undefined): Suggestion[] | undefined {
@@ -6,6 +6,7 @@ import { describe, expect, test } from 'vitest';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { URI } from 'vscode-uri';
 
+import type { CSpellUserSettings, LocaleRegionRule } from './config/cspellConfig/index.mjs';
 import * as Validator from './validator.mjs';
 
 // cSpell:ignore brouwn jumpped lazzy wrongg mispelled ctrip nmove mischecked
@@ -169,8 +170,38 @@ describe('Validator', () => {
         },
         timeout,
     );
+
+    test(
+        'validateTextDocument with localeRegions',
+        async () => {
+            const text = sampleHtml;
+            const languageId = 'html';
+            const uri = URI.file('sample.html').toString();
+            const textDoc = TextDocument.create(uri, languageId, 1, text);
+            const settings: CSpellUserSettings = { ...getSettings(text, languageId), language: 'en' };
+            const localeRegions: LocaleRegionRule[] = [
+                { languageIds: ['html'], pattern: String.raw`/<(\w+)[^>]*\slang="(?<locale>[\w-]+)"[^>]*>(?<text>[\s\S]*?)<\/\1>/g` },
+            ];
+
+            const withoutRegions = await Validator.validateTextDocument(textDoc, settings);
+            expect(withoutRegions.map((diag) => diag.data?.text)).toEqual(['colour', 'favourite', 'neighbour']);
+
+            const results = await Validator.validateTextDocument(textDoc, { ...settings, localeRegions });
+            expect(results.map((diag) => diag.data?.text)).toEqual(['favorite']);
+            expect(results[0].range.start).toEqual({ line: 3, character: 57 });
+        },
+        timeout,
+    );
 });
 
+// cspell:ignore colour favourite neighbour
+
+const sampleHtml = `
+<p>The color of my favorite neighbor.</p>
+
+<p lang="en-GB">The colour of my favourite neighbour, my favorite one.</p>
+`;
+
 const sampleCode = `
 
 // Verify urls do not get checked.
@@ -0,0 +1,219 @@
+import { log } from '@internal/common-utils/log';
+import type { SpellingDictionaryCollection } from 'cspell-lib';
+import { constructSettingsForText, finalizeSettings, getDictionary } from 'cspell-lib';
+import * as fs from 'fs/promises';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { URI as Uri } from 'vscode-uri';
+
+import type { DocumentUri, GetVocabularyReportRequest, GetVocabularyReportResult, VocabularyEntry, VocabularyWordStatus } from './api.js';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { textToWordsForLanguage } from './identifiers.mjs';
+import { calcCheckLimit } from './validator.mjs';
+
+export interface VocabularyReporterDependencies {
+    /**
+     * Find the files to include in the report.
+     * @param uris - the files to consider, all the files in the workspace if not set.
+     */
+    findFiles(uris?: DocumentUri[]): AsyncIterable<{ uri: Uri; languageId: string }>;
+    getOpenDocument(uri: DocumentUri): TextDocument | undefined;
+    /** The settings that apply to a file before the in-document settings are applied. */
+    getSettings(uri: DocumentUri): Promise<CSpellUserSettings>;
+    /** true if the file should not be checked based upon its content. */
+    isBlocked(doc: TextDocument, settings: CSpellUserSettings): boolean;
+}
+
+export interface VocabularyReporter {
+    getVocabularyReport(req: GetVocabularyReportRequest): Promise<GetVocabularyReportResult>;
+}
+
+interface WordLookup {
+    status: VocabularyWordStatus;
+    dictionaries: string[];
+}
+
+interface WordStats {
+    /** The count of each spelling of the word. */
+    forms: Map<string, number>;
+    count: number;
+    files: Set<DocumentUri>;
+    status: VocabularyWordStatus;
+    dictionaries: Set<string>;
+}
+
+/** The dictionaries made from the `words`, `userWords` and `ignoreWords` settings. */
+const settingsDictionaries = new Set(['[words]', '[userWords]', '[ignoreWords]']);
+/** The dictionaries that do not accept words. */
+const nonAcceptingDictionaries = new Set(['[flagWords]', '[suggestWords]']);
+
+const statusRank: Record<VocabularyWordStatus, number> = { unknown: 0, known: 1, forbidden: 2 };
+
+/**
+ * Replacements that turn a spelling into a variant, applied to lower case words.
+ * Only the pairs where both spellings are found are reported.
+ */
+const variantRules: [RegExp, string][] = [
+    // colour / color, behaviours / behaviors
+    [/^(\p{L}{3,})our(s|ed|ing|able|ful|ite|ites)?$/u, '$1or$2'],
+    // cancelled / canceled, travelling / traveling
+    [/^(\p{L}{4,})ll(ed|ing|er|ers)$/u, '$1l$2'],
+    // organise / organize, organisation / organization
+    [/^(\p{L}{3,})is(e|es|ed|ing|er|ers|ation|ations)$/u, '$1iz$2'],
+    // analyse / analyze
+    [/^(\p{L}{2,})ys(e|es|ed|ing|er|ers)$/u, '$1yz$2'],
+    // centre / center, fibres / fibers
+    [/^(\p{L}{2,}[tb])re(s)?$/u, '$1er$2'],
+    // catalogue / catalog
+    [/^(\p{L}{3,})ogue(s)?$/u, '$1og$2'],
+    // e-mail / email
+    [/-/g, ''],
+];
+
+const variantPairs: [string, string][] = [
+    ['grey', 'gray'],
+    ['judgement', 'judgment'],
+    ['acknowledgement', 'acknowledgment'],
+    ['defence', 'defense'],
+    ['licence', 'license'],
+    ['offence', 'offense'],
+    ['programme', 'program'],
+    ['aluminium', 'aluminum'],
+];
+
+/**
+ * Build a report of the words used in the workspace.
+ */
+export function createVocabularyReporter(deps: VocabularyReporterDependencies): VocabularyReporter {
+    async function getVocabularyReport(req: GetVocabularyReportRequest): Promise<GetVocabularyReportResult> {
+        const stats = new Map<string, WordStats>();
+        // The lookups are cached by the dictionaries and settings words used.
+        const lookups = new Map<string, Map<string, WordLookup>>();
+        let filesChecked = 0;
+
+        for await (const file of deps.findFiles(req.uris)) {
+            const uri = file.uri.toString();
+            const text = deps.getOpenDocument(uri)?.getText() ?? (await readFile(file.uri));
+            if (text === undefined) continue;
+            const baseSettings = await deps.getSettings(uri);
+            const doc = TextDocument.create(uri, file.languageId, 0, text);
+            if (deps.isBlocked(doc, baseSettings)) continue;
+            const docSettings: CSpellUserSettings = constructSettingsForText(baseSettings, text, file.languageId);
+            const settings = finalizeSettings(docSettings);
+            const collection = await getDictionary(settings);
+            const key = calcLookupKey(settings, collection);
+            const cache = lookups.get(key) ?? new Map<string, WordLookup>();
+            lookups.set(key, cache);
+            const ignoreCase = !settings.caseSensitive;
+            ++filesChecked;
+
+            const words = textToWordsForLanguage(text.slice(0, calcCheckLimit(docSettings)), docSettings, file.languageId);
+            for (const [word, count] of countWords(words)) {
+                const lookup = cache.get(word) ?? lookupWord(collection, word, ignoreCase);
+                cache.set(word, lookup);
+                addWord(stats, word, count, uri, lookup);
+            }
+        }
+
+        log(`Vocabulary report: ${stats.size} words in ${filesChecked} files`);
+        return { words: toEntries(stats), filesChecked };
+    }
+
+    return { getVocabularyReport };
+}
+
+async function readFile(uri: Uri): Promise<string | undefined> {
+    try {
+        return await fs.readFile(uri.fsPath, 'utf8');
+    } catch (e) {
+        log('Vocabulary report: unable to read file', uri.toString());
+        return undefined;
+    }
+}
+
+function calcLookupKey(settings: CSpellUserSettings, collection: SpellingDictionaryCollection): string {
+    const { words = [], userWords = [], ignoreWords = [], flagWords = [] } = settings;
+    return [collection.dictionaries.map((d) => d.name), words, userWords, ignoreWords, flagWords, [!!settings.caseSensitive]]
+        .map((list) => list.join('\n'))
+        .join('\0');
+}
+
+function lookupWord(collection: SpellingDictionaryCollection, word: string, ignoreCase: boolean): WordLookup {
+    if (collection.isForbidden(word)) return { status: 'forbidden', dictionaries: [] };
+    const dictionaries = collection.dictionaries
+        .filter((d) => !nonAcceptingDictionaries.has(d.name) && d.has(word, { ignoreCase }))
+        .map((d) => d.name);
+    return { status: dictionaries.length ? 'known' : 'unknown', dictionaries };
+}
+
+/**
+ * Count the words, the quotes and hyphens around a word are removed and words without letters are skipped.
+ */
+export function countWords(words: Iterable<string>): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const w of words) {
+        const word = w.replace(/^['-]+|['-]+$/g, '');
+        if (!/\p{L}/u.test(word)) continue;
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    return counts;
+}
+
+function addWord(stats: Map<string, WordStats>, word: string, count: number, uri: DocumentUri, lookup: WordLookup) {
+    const key = word.toLowerCase();
+    const found = stats.get(key);
+    const entry: WordStats = found ?? { forms: new Map(), count: 0, files: new Set(), status: 'unknown', dictionaries: new Set() };
+    stats.set(key, entry);
+    entry.forms.set(word, (entry.forms.get(word) ?? 0) + count);
+    entry.count += count;
+    entry.files.add(uri);
+    entry.status = statusRank[lookup.status] > statusRank[entry.status] ? lookup.status : entry.status;
+    lookup.dictionaries.forEach((name) => entry.dictionaries.add(name));
+}
+
+function toEntries(stats: Map<string, WordStats>): VocabularyEntry[] {
+    const variants = findVariants(stats.keys());
+    const entries = [...stats].map(([key, s]) => {
+        const dictionaries = [...s.dictionaries].sort();
+        return {
+            word: mostCommonForm(s.forms),
+            count: s.count,
+            files: [...s.files],
+            status: s.status,
+            dictionaries,
+            onlyInSettings: !!dictionaries.length && dictionaries.every((name) => settingsDictionaries.has(name)),
+            variants: [...(variants.get(key) ?? [])].map((v) => mostCommonForm(stats.get(v)?.forms ?? new Map([[v, 0]]))),
+        };
+    });
+    return entries.sort((a, b) => b.count - a.count || (a.word < b.word ? -1 : a.word > b.word ? 1 : 0));
+}
+
+/**
+ * The most common spelling, on a tie the lower case spelling wins.
+ */
+function mostCommonForm(forms: Map<string, number>): string {
+    return [...forms].reduce((best, form) => (form[1] > best[1] || (form[1] === best[1] && form[0] > best[0]) ? form : best))[0];
+}
+
+/**
+ * Find the words that are spelling variants of each other, like `colour` and `color`.
+ * @param words - lower case words.
+ * @returns the variants of each word that has any.
+ */
+export function findVariants(words: Iterable<string>): Map<string, Set<string>> {
+    const known = new Set(words);
+    const variants = new Map<string, Set<string>>();
+    const pairs = new Map(variantPairs);
+
+    function add(a: string, b: string) {
+        if (a === b || !known.has(b)) return;
+        variants.set(a, (variants.get(a) ?? new Set()).add(b));
+        variants.set(b, (variants.get(b) ?? new Set()).add(a));
+    }
+
+    for (const word of known) {
+        variantRules.forEach(([regExp, replacement]) => add(word, word.replace(regExp, replacement)));
+        const pair = pairs.get(word);
+        pair && add(word, pair);
+    }
+    return variants;
+}
@@ -0,0 +1,93 @@
+import { getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI as Uri } from 'vscode-uri';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import type { VocabularyReporterDependencies } from './vocabulary.mjs';
+import { countWords, createVocabularyReporter, findVariants } from './vocabulary.mjs';
+
+// cspell:ignore grumf blorp colour cancelled organise brouwn
+
+const timeout = 30000; // 30 seconds
+
+const files: Record<string, string> = {
+    'file:///project/README.md': 'The colour of the grumf. The color was cancelled, the task canceled.\nSee the brouwn blorp.',
+    'file:///project/docs/guide.md': "The guide: don't organise, organize.\n'Quoted' THE end - 42.",
+};
+
+describe('vocabulary', () => {
+    test('countWords', () => {
+        expect(countWords(["'Quoted'", 'the', 'the', '42', '-', "don't", 'e-mail'])).toEqual(
+            new Map([
+                ['Quoted', 1],
+                ['the', 2],
+                ["don't", 1],
+                ['e-mail', 1],
+            ]),
+        );
+    });
+
+    test('findVariants', () => {
+        const words = ['colour', 'color', 'colours', 'cancelled', 'canceled', 'filled', 'filed', 'four', 'for', 'centre', 'center'];
+        const variants = findVariants([...words, 'e-mail', 'email', 'grey', 'gray', 'organisation', 'organization']);
+        expect(Object.fromEntries([...variants].map(([word, v]) => [word, [...v]]))).toEqual({
+            colour: ['color'],
+            color: ['colour'],
+            cancelled: ['canceled'],
+            canceled: ['cancelled'],
+            centre: ['center'],
+            center: ['centre'],
+            'e-mail': ['email'],
+            email: ['e-mail'],
+            grey: ['gray'],
+            gray: ['grey'],
+            organisation: ['organization'],
+            organization: ['organisation'],
+        });
+    });
+
+    test(
+        'getVocabularyReport',
+        async () => {
+            const settings: CSpellUserSettings = { ...getDefaultSettings(), words: ['grumf'], flagWords: ['blorp'] };
+            const reporter = createVocabularyReporter(createDeps(settings));
+            const report = await reporter.getVocabularyReport({});
+            expect(report.filesChecked).toBe(2);
+
+            const byWord = new Map(report.words.map((entry) => [entry.word, entry]));
+            expect(report.words[0]).toEqual(
+                expect.objectContaining({ word: 'the', count: 7, files: Object.keys(files), status: 'known', onlyInSettings: false }),
+            );
+            expect(byWord.get('the')?.dictionaries).toContain('en_us');
+            expect(byWord.get('grumf')).toEqual(
+                expect.objectContaining({ count: 1, status: 'known', dictionaries: ['[words]'], onlyInSettings: true }),
+            );
+            expect(byWord.get('blorp')?.status).toBe('forbidden');
+            expect(byWord.get('brouwn')).toEqual(expect.objectContaining({ status: 'unknown', dictionaries: [], onlyInSettings: false }));
+            expect(byWord.get('colour')?.variants).toEqual(['color']);
+            expect(byWord.get('canceled')?.variants).toEqual(['cancelled']);
+            expect(byWord.get('organize')?.variants).toEqual(['organise']);
+            expect(byWord.get('Quoted')?.count).toBe(1);
+            expect(byWord.has('42')).toBe(false);
+
+            const one = await reporter.getVocabularyReport({ uris: ['file:///project/docs/guide.md'] });
+            expect(one.filesChecked).toBe(1);
+            expect(one.words.find((entry) => entry.word.toLowerCase() === 'the')?.count).toBe(2);
+        },
+        timeout,
+    );
+});
+
+function createDeps(settings: CSpellUserSettings): VocabularyReporterDependencies {
+    return {
+        async *findFiles(uris) {
+            for (const uri of uris ?? Object.keys(files)) {
+                yield { uri: Uri.parse(uri), languageId: 'markdown' };
+            }
+        },
+        getOpenDocument: (uri) => TextDocument.create(uri, 'markdown', 1, files[uri]),
+        getSettings: () => Promise.resolve(settings),
+        isBlocked: () => false,
+    };
+}
@@ -0,0 +1,190 @@
+import { log } from '@internal/common-utils/log';
+import type { DictionaryDefinition, DictionaryDefinitionInline, TextOffset } from 'cspell-lib';
+import { constructSettingsForText, finalizeSettings, Text, traceWords } from 'cspell-lib';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type {
+    DocumentUri,
+    Position,
+    Range,
+    TraceWordDictionary,
+    TraceWordPatternMatch,
+    TraceWordRequest,
+    TraceWordResult,
+    TraceWordStatus,
+} from './api.js';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import { toDictionaryInfo } from './dictionaryInfo.mjs';
+
+export interface WordTracerDependencies {
+    getOpenDocument(uri: DocumentUri): TextDocument | undefined;
+    /**
+     * The settings that apply to a document before the in-document settings are applied.
+     */
+    getSettings(uri: DocumentUri): Promise<CSpellUserSettings>;
+}
+
+export interface WordTracer {
+    traceWord(req: TraceWordRequest): Promise<TraceWordResult>;
+}
+
+type WordListKey = TraceWordResult['inDocument'][number];
+
+const wordListKeys: WordListKey[] = ['words', 'ignoreWords', 'flagWords'];
+
+/** `flagWords` entries can include suggestions: `word->suggestion` or `word:suggestion` */
+const regFlagWordSuggestion = /->|:/;
+
+/**
+ * Explain why a word in a document is accepted or flagged.
+ */
+export function createWordTracer(deps: WordTracerDependencies): WordTracer {
+    async function traceWord(req: TraceWordRequest): Promise<TraceWordResult> {
+        const { uri, position } = req;
+        log('traceWord', uri);
+        const doc = deps.getOpenDocument(uri);
+        if (!doc) {
+            throw new Error(`Unable to trace the word, the document is not open: "${uri}"`);
+        }
+        const wordAt = findWordAtPosition(doc, position);
+        const word = req.word || wordAt?.text || '';
+        const range = wordAt && toRange(doc, wordAt);
+        const offset = doc.offsetAt(position);
+        const [start, end] = wordAt ? [wordAt.offset, wordAt.offset + wordAt.text.length] : [offset, offset];
+
+        const baseSettings = await deps.getSettings(uri);
+        const settings = constructSettingsForText(baseSettings, doc.getText(), doc.languageId);
+        const settingsWithoutDoc = constructSettingsForText(baseSettings, '', doc.languageId);
+        const caseSensitive = !!settings.caseSensitive;
+        const isSameWord = caseSensitive ? (a: string) => a === word : (a: string) => a.toLowerCase() === word.toLowerCase();
+
+        const traces = word ? await traceWords([word], settings, { languageId: doc.languageId, ignoreCase: !caseSensitive }) : [];
+        const defs = new Map((settings.dictionaryDefinitions || []).map((def) => [def.name, def]));
+        const dictionaries: TraceWordDictionary[] = traces
+            .filter((t) => t.found || t.forbidden)
+            .map((t) => {
+                const def = defs.get(t.dictName);
+                const info = def && toDictionaryInfo(def, new Set());
+                return {
+                    name: t.dictName,
+                    uri: info?.uri,
+                    configUri: info?.configUri,
+                    active: t.dictActive,
+                    foundWord: t.foundWord,
+                    forbidden: t.forbidden,
+                    noSuggest: t.noSuggest,
+                };
+            });
+
+        const matchesWord = (entry: string) => isSameWord(entry.split(regFlagWordSuggestion)[0].trim());
+        const flagWords = extractWordList(settings, 'flagWords').filter(matchesWord);
+        const ignoreWords = extractWordList(settings, 'ignoreWords').filter(matchesWord);
+        // The `cspell:` directives are turned into an inline dictionary.
+        const configDictNames = new Set(settingsWithoutDoc.dictionaryDefinitions?.map((d) => d.name));
+        const inDocSettings = { dictionaryDefinitions: settings.dictionaryDefinitions?.filter((d) => !configDictNames.has(d.name)) };
+        const inDocument = wordListKeys.filter((key) => extractWordList(inDocSettings, key).some(matchesWord));
+
+        const text = doc.getText();
+        const ignoredBy = findPatternMatches(settings, 'ignoreRegExpList', text, start, end).map(
+            ({ name, regexp, match }): TraceWordPatternMatch => ({ name, regexp, range: toRange(doc, match) }),
+        );
+        const includeList = settings.includeRegExpList || [];
+        const notIncluded = !!includeList.length && !findPatternMatches(settings, 'includeRegExpList', text, start, end).length;
+
+        const active = dictionaries.filter((d) => d.active);
+        const status = calcStatus();
+
+        function calcStatus(): TraceWordStatus {
+            if (ignoredBy.length || notIncluded) return 'ignored';
+            if (active.some((d) => d.forbidden)) return 'forbidden';
+            if (ignoreWords.length || inDocument.includes('ignoreWords')) return 'ignored';
+            if (active.length) return 'ok';
+            return 'unknown';
+        }
+
+        return {
+            uri,
+            word,
+            range: req.word ? undefined : range,
+            status,
+            caseSensitive,
+            dictionaries,
+            flagWords,
+            ignoreWords,
+            ignoredBy,
+            notIncluded,
+            inDocument,
+        };
+    }
+
+    return {
+        traceWord,
+    };
+}
+
+/**
+ * Find the word at a position, compound words like `camelCase` are split in the same way the spell checker does.
+ */
+export function findWordAtPosition(doc: TextDocument, position: Position): TextOffset | undefined {
+    const lineStart = doc.offsetAt({ line: position.line, character: 0 });
+    const lineText = doc.getText({ start: { line: position.line, character: 0 }, end: { line: position.line + 1, character: 0 } });
+    const words = [...Text.extractWordsFromCode(lineText)];
+    const found = words.find((w) => w.offset <= position.character && position.character <= w.offset + w.text.length);
+    return found && { text: found.text, offset: found.offset + lineStart };
+}
+
+/**
+ * The entries of a word list from the settings and the inline dictionaries.
+ */
+function extractWordList(settings: CSpellUserSettings, key: WordListKey): string[] {
+    const inline = (settings.dictionaryDefinitions || []).flatMap((def) => (isInlineDictionary(def) && def[key]) || []);
+    return [...(settings[key] || []), ...inline];
+}
+
+function isInlineDictionary(def: DictionaryDefinition): def is DictionaryDefinitionInline {
+    const d = def as Partial<DictionaryDefinitionInline>;
+    return !!(d.words || d.flagWords || d.ignoreWords);
+}
+
+interface PatternMatchResult {
+    name: string;
+    regexp: string;
+    match: TextOffset;
+}
+
+function findPatternMatches(
+    settings: CSpellUserSettings,
+    key: 'ignoreRegExpList' | 'includeRegExpList',
+    text: string,
+    start: number,
+    end: number,
+): PatternMatchResult[] {
+    const results: PatternMatchResult[] = [];
+    const endOfRange = Math.max(end, start + 1);
+    for (const pattern of settings[key] || []) {
+        const name = pattern.toString();
+        for (const regexp of resolvePattern(pattern, settings)) {
+            for (const m of text.matchAll(regexp)) {
+                const mStart = m.index || 0;
+                const mEnd = mStart + m[0].length;
+                if (mStart >= endOfRange) break;
+                if (mEnd > start && m[0].length) {
+                    results.push({ name, regexp: regexp.toString(), match: { text: m[0], offset: mStart } });
+                }
+            }
+        }
+    }
+    return results;
+}
+
+/**
+ * Use the settings to resolve a pattern name into regular expressions.
+ */
+function resolvePattern(pattern: string | RegExp, settings: CSpellUserSettings): RegExp[] {
+    const resolved = finalizeSettings({ ignoreRegExpList: [pattern], patterns: settings.patterns }).ignoreRegExpList || [];
+    return resolved.filter((r): r is RegExp => r instanceof RegExp).map((r) => (r.global ? r : new RegExp(r.source, r.flags + 'g')));
+}
+
+function toRange(doc: TextDocument, t: TextOffset): Range {
+    return { start: doc.positionAt(t.offset), end: doc.positionAt(t.offset + t.text.length) };
+}
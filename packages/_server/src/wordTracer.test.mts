@@ -0,0 +1,121 @@
+import type { CSpellSettings } from 'cspell-lib';
+import { getDefaultSettings } from 'cspell-lib';
+import { describe, expect, test, vi } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { WordTracerDependencies } from './wordTracer.mjs';
+import { createWordTracer, findWordAtPosition } from './wordTracer.mjs';
+
+// cSpell:ignore brouwn blorp grumf
+
+const uri = 'file:///project/sample.ts';
+
+const timeout = 30000; // 30 seconds
+
+describe('WordTracer', () => {
+    const settings: CSpellSettings = {
+        ...getDefaultSettings(),
+        flagWords: ['blorp->blob'],
+        ignoreWords: ['grumf'],
+        ignoreRegExpList: ['/0x[0-9a-f]+/g', 'Urls'],
+    };
+
+    const text = [
+        '// The quick brouwn fox.',
+        'const blorp = 1;',
+        'const grumf = 2;',
+        'const quickValue = 0xbadcafe;',
+        '// see https://example.com/brouwn',
+        '// cspell:words brouwn',
+        '',
+    ].join('\n');
+
+    test(
+        'traceWord found in a dictionary',
+        async () => {
+            const tracer = createWordTracer(createDeps(text, settings));
+            const result = await tracer.traceWord({ uri, position: { line: 3, character: 8 } });
+            expect(result).toEqual(
+                expect.objectContaining({
+                    word: 'quick',
+                    range: { start: { line: 3, character: 6 }, end: { line: 3, character: 11 } },
+                    status: 'ok',
+                    caseSensitive: false,
+                    ignoredBy: [],
+                    notIncluded: false,
+                    inDocument: [],
+                }),
+            );
+            expect(result.dictionaries).toContainEqual(expect.objectContaining({ name: 'en_us', active: true, forbidden: false }));
+        },
+        timeout,
+    );
+
+    test(
+        'traceWord flagged, ignored and in document words',
+        async () => {
+            const tracer = createWordTracer(createDeps(text, settings));
+            const blorp = await tracer.traceWord({ uri, position: { line: 1, character: 7 } });
+            expect(blorp.status).toBe('forbidden');
+            expect(blorp.flagWords).toEqual(['blorp->blob']);
+
+            const grumf = await tracer.traceWord({ uri, position: { line: 2, character: 7 } });
+            expect(grumf.status).toBe('ignored');
+            expect(grumf.ignoreWords).toEqual(['grumf']);
+
+            const brouwn = await tracer.traceWord({ uri, position: { line: 0, character: 15 } });
+            expect(brouwn.status).toBe('ok');
+            expect(brouwn.inDocument).toEqual(['words']);
+        },
+        timeout,
+    );
+
+    test(
+        'traceWord excluded by patterns',
+        async () => {
+            const tracer = createWordTracer(createDeps(text, settings));
+            const hex = await tracer.traceWord({ uri, position: { line: 3, character: 22 } });
+            expect(hex.status).toBe('ignored');
+            expect(hex.ignoredBy).toEqual([
+                {
+                    name: '/0x[0-9a-f]+/g',
+                    regexp: '/0x[0-9a-f]+/g',
+                    range: { start: { line: 3, character: 19 }, end: { line: 3, character: 28 } },
+                },
+            ]);
+
+            const url = await tracer.traceWord({ uri, position: { line: 4, character: 30 } });
+            expect(url.ignoredBy.map((m) => m.name)).toEqual(['Urls']);
+
+            const included = createWordTracer(createDeps(text, { ...settings, includeRegExpList: ['/^\\/\\/.*/gm'] }));
+            await expect(included.traceWord({ uri, position: { line: 2, character: 7 } })).resolves.toEqual(
+                expect.objectContaining({ status: 'ignored', notIncluded: true }),
+            );
+        },
+        timeout,
+    );
+
+    test('traceWord requires an open document', async () => {
+        const tracer = createWordTracer({ getOpenDocument: () => undefined, getSettings: vi.fn(async () => settings) });
+        await expect(tracer.traceWord({ uri, position: { line: 0, character: 0 } })).rejects.toThrow('not open');
+    });
+
+    test.each`
+        line                  | character | expected
+        ${'const quickValue'} | ${7}      | ${{ text: 'quick', offset: 6 }}
+        ${'const quickValue'} | ${12}     | ${{ text: 'Value', offset: 11 }}
+        ${'const quickValue'} | ${5}      | ${{ text: 'const', offset: 0 }}
+        ${'a = 1;'}           | ${4}      | ${undefined}
+    `('findWordAtPosition $line $character', ({ line, character, expected }) => {
+        const doc = TextDocument.create(uri, 'typescript', 1, line);
+        expect(findWordAtPosition(doc, { line: 0, character })).toEqual(expected);
+    });
+});
+
+function createDeps(text: string, settings: CSpellSettings) {
+    const doc = TextDocument.create(uri, 'typescript', 1, text);
+    return {
+        getOpenDocument: vi.fn(() => doc),
+        getSettings: vi.fn(async () => settings),
+    } satisfies WordTracerDependencies;
+}
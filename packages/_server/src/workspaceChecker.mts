@@ -0,0 +1,308 @@
+import { log } from '@internal/common-utils/log';
+import { toUri } from '@internal/common-utils/uriHelper';
+import { getLanguageIdsForBaseFilename, isBinaryFile } from 'cspell-lib';
+import type { Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { URI as Uri } from 'vscode-uri';
+import { Utils as UriUtils } from 'vscode-uri';
+
+import type { CheckWorkspaceRequest, CheckWorkspaceResult, DocumentUri, OnWorkspaceCheckProgress, UriString } from './api.js';
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import type { ExcludeIncludeIgnoreInfo } from './config/documentSettings.mjs';
+import { isLanguageEnabled } from './config/documentSettings.mjs';
+import { hashText, IssueCache, issueCacheFilename, settingsToJson } from './issueCache.mjs';
+import { isNotebookFile, notebookLanguageId } from './notebooks.mjs';
+
+/** Time to wait between files to keep the server responsive. */
+const defaultThrottleMs = 5;
+/** Time to wait before checking again if the server is busy validating open documents. */
+const busyWaitMs = 100;
+/** Save the cache after this many files have been checked. */
+const saveCacheEvery = 100;
+
+/** Folders that are never checked. */
+const foldersToSkip = new Set(['.git']);
+
+export interface WorkspaceCheckerDependencies {
+    getWorkspaceFolders(): Promise<UriString[]>;
+    calcIncludeExclude(uri: Uri): Promise<ExcludeIncludeIgnoreInfo>;
+    /** The settings that apply to a file before the in-document settings are applied. */
+    getSettings(uri: DocumentUri): Promise<CSpellUserSettings>;
+    /** true if the file should not be checked based upon its content. */
+    isBlocked(doc: TextDocument, settings: CSpellUserSettings): boolean;
+    validate(doc: TextDocument): Promise<Diagnostic[]>;
+    /** Open documents are validated as they change and are skipped. */
+    isOpen(uri: DocumentUri): boolean;
+    /** true while open documents are being validated. The workspace check waits. */
+    isBusy(): boolean;
+    /**
+     * @param doc - the checked document, undefined if the file no longer exists.
+     */
+    publishDiagnostics(uri: DocumentUri, diagnostics: Diagnostic[], doc?: TextDocument): void;
+    reportProgress(progress: OnWorkspaceCheckProgress): void;
+    throttleMs?: number;
+}
+
+export interface WorkspaceChecker {
+    /**
+     * Check all the files in the workspace. Any check in progress is cancelled.
+     */
+    checkWorkspace(req: CheckWorkspaceRequest): Promise<CheckWorkspaceResult>;
+    cancel(): void;
+    /**
+     * Check a file found by the last workspace check again. Used when a document is closed,
+     * since the open document results are cleared.
+     */
+    recheckFile(uri: DocumentUri): Promise<void>;
+    /**
+     * Publish the results of the files found by the last workspace check again.
+     * Only changed files are validated, the rest come from the cache.
+     */
+    recheckFiles(): Promise<void>;
+    /**
+     * Find the files that would be checked.
+     * @param uris - the files to consider, all the files in the workspace if not set.
+     */
+    findFiles(uris?: DocumentUri[]): AsyncIterable<FileToCheck>;
+}
+
+interface CancelToken {
+    isCancelled: boolean;
+}
+
+export interface FileToCheck {
+    uri: Uri;
+    languageId: string;
+    settings: CSpellUserSettings;
+}
+
+interface CheckFileResult {
+    status: 'checked' | 'cached' | 'skipped';
+    diagnostics: Diagnostic[];
+}
+
+export function createWorkspaceChecker(deps: WorkspaceCheckerDependencies): WorkspaceChecker {
+    const throttleMs = deps.throttleMs ?? defaultThrottleMs;
+    // The settings objects are replaced when the settings change, so the hashes do not need to be cleared.
+    const settingsHashes = new WeakMap<CSpellUserSettings, Promise<string>>();
+    let currentToken: CancelToken = { isCancelled: false };
+    let cache = new IssueCache(undefined);
+    let knownFiles = new Set<DocumentUri>();
+    let seq = 0;
+
+    async function checkWorkspace(req: CheckWorkspaceRequest): Promise<CheckWorkspaceResult> {
+        cancel();
+        const token: CancelToken = { isCancelled: false };
+        currentToken = token;
+
+        const cacheFile = req.cacheFolderUri ? path.join(toUri(req.cacheFolderUri).fsPath, issueCacheFilename) : undefined;
+        cache = new IssueCache(cacheFile);
+        await cache.load();
+
+        const result: CheckWorkspaceResult = { filesChecked: 0, filesFromCache: 0, filesWithIssues: 0, numIssues: 0, cancelled: false };
+        const found = new Set<DocumentUri>();
+        let filesProcessed = 0;
+
+        const folders = await deps.getWorkspaceFolders();
+        log(`Check Workspace: ${folders.length} folders`);
+
+        for (const folder of folders) {
+            for await (const file of walk(toUri(folder), token)) {
+                const uri = file.uri.toString();
+                if (found.has(uri)) continue;
+                found.add(uri);
+                await waitWhileBusy(token);
+                if (token.isCancelled) break;
+                const { status, diagnostics } = await checkFile(file);
+                result.filesChecked += status === 'checked' ? 1 : 0;
+                result.filesFromCache += status === 'cached' ? 1 : 0;
+                result.filesWithIssues += diagnostics.length ? 1 : 0;
+                result.numIssues += diagnostics.length;
+                ++filesProcessed;
+                deps.reportProgress(toProgress(found.size, filesProcessed, uri, false));
+                if (result.filesChecked && !(result.filesChecked % saveCacheEvery)) {
+                    await cache.save();
+                }
+                await sleep(throttleMs);
+            }
+        }
+
+        result.cancelled = token.isCancelled;
+        if (!result.cancelled) {
+            // Files that no longer exist or are now excluded should not linger in the cache.
+            cache.prune(found);
+            knownFiles = found;
+        }
+        await cache.save();
+        deps.reportProgress(toProgress(found.size, filesProcessed, undefined, true));
+        log(`Check Workspace done: ${JSON.stringify(result)}`);
+        return result;
+    }
+
+    function cancel(): void {
+        currentToken.isCancelled = true;
+    }
+
+    async function recheckFile(uri: DocumentUri): Promise<void> {
+        if (!knownFiles.has(uri)) return;
+        const file = await resolveFile(toUri(uri));
+        if (!file) {
+            deps.publishDiagnostics(uri, []);
+            return;
+        }
+        await checkFile(file);
+        await cache.save();
+    }
+
+    async function recheckFiles(): Promise<void> {
+        for (const uri of knownFiles) {
+            const file = await resolveFile(toUri(uri));
+            if (file) await checkFile(file);
+        }
+        await cache.save();
+    }
+
+    async function* findFiles(uris?: DocumentUri[]): AsyncGenerator<FileToCheck> {
+        if (uris) {
+            for (const uri of uris) {
+                const file = await resolveFile(toUri(uri));
+                if (file) yield file;
+            }
+            return;
+        }
+        const token: CancelToken = { isCancelled: false };
+        const found = new Set<DocumentUri>();
+        for (const folder of await deps.getWorkspaceFolders()) {
+            for await (const file of walk(toUri(folder), token)) {
+                const uri = file.uri.toString();
+                if (found.has(uri)) continue;
+                found.add(uri);
+                yield file;
+            }
+        }
+    }
+
+    async function checkFile(file: FileToCheck): Promise<CheckFileResult> {
+        const uri = file.uri.toString();
+        const skipped: CheckFileResult = { status: 'skipped', diagnostics: [] };
+        if (deps.isOpen(uri)) return skipped;
+
+        let text: string;
+        try {
+            text = await fs.readFile(file.uri.fsPath, 'utf8');
+        } catch (e) {
+            log('Check Workspace: unable to read file', uri);
+            return skipped;
+        }
+
+        const hash = hashText(text);
+        const settingsHash = await calcSettingsHash(file.settings);
+        const doc = TextDocument.create(uri, file.languageId, 0, text);
+        const cached = cache.get(uri, hash, settingsHash);
+        if (cached) {
+            deps.publishDiagnostics(uri, cached, doc);
+            return { status: 'cached', diagnostics: cached };
+        }
+
+        const diagnostics = deps.isBlocked(doc, file.settings) ? [] : await deps.validate(doc);
+        cache.set(uri, hash, settingsHash, diagnostics);
+        deps.publishDiagnostics(uri, diagnostics, doc);
+        return { status: 'checked', diagnostics };
+    }
+
+    async function* walk(folder: Uri, token: CancelToken): AsyncGenerator<FileToCheck> {
+        let entries: Dirent[];
+        try {
+            entries = await fs.readdir(folder.fsPath, { withFileTypes: true });
+        } catch (e) {
+            log('Check Workspace: unable to read directory', folder.toString());
+            return;
+        }
+        entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+        for (const entry of entries) {
+            if (token.isCancelled) return;
+            const uri = UriUtils.joinPath(folder, entry.name);
+            if (entry.isDirectory()) {
+                if (foldersToSkip.has(entry.name) || (await isFolderExcluded(uri))) continue;
+                yield* walk(uri, token);
+                continue;
+            }
+            if (!entry.isFile()) continue;
+            const file = await resolveFile(uri);
+            if (file) yield file;
+        }
+    }
+
+    async function isFolderExcluded(uri: Uri): Promise<boolean> {
+        // `files` globs are file based, so only the exclusions apply to folders.
+        const ie = await deps.calcIncludeExclude(uri);
+        return ie.exclude || !!ie.ignored;
+    }
+
+    /**
+     * Determine if a file should be checked.
+     * @returns the file info or undefined if the file should be skipped.
+     */
+    async function resolveFile(uri: Uri): Promise<FileToCheck | undefined> {
+        const languageIds = isNotebookFile(uri) ? [notebookLanguageId] : getLanguageIdsForBaseFilename(UriUtils.basename(uri));
+        if (!languageIds.length || isBinaryFile(uri, languageIds)) return undefined;
+        const ie = await deps.calcIncludeExclude(uri);
+        if (!ie.include || ie.exclude || ie.ignored) return undefined;
+        const settings = await deps.getSettings(uri.toString());
+        if (!settings.enabled) return undefined;
+        const languageId = languageIds.find((id) => isLanguageEnabled(id, settings));
+        return languageId ? { uri, languageId, settings } : undefined;
+    }
+
+    async function waitWhileBusy(token: CancelToken): Promise<void> {
+        while (deps.isBusy() && !token.isCancelled) {
+            await sleep(busyWaitMs);
+        }
+    }
+
+    function calcSettingsHash(settings: CSpellUserSettings): Promise<string> {
+        const found = settingsHashes.get(settings);
+        if (found) return found;
+        const hash = _calcSettingsHash(settings);
+        settingsHashes.set(settings, hash);
+        return hash;
+    }
+
+    function toProgress(filesFound: number, filesProcessed: number, uri: DocumentUri | undefined, done: boolean): OnWorkspaceCheckProgress {
+        return { filesFound, filesProcessed, uri, done, seq: ++seq, ts: Date.now() };
+    }
+
+    return {
+        checkWorkspace,
+        cancel,
+        recheckFile,
+        recheckFiles,
+        findFiles,
+    };
+}
+
+/**
+ * Calculate a hash that changes when the settings or the dictionary files change.
+ */
+async function _calcSettingsHash(settings: CSpellUserSettings): Promise<string> {
+    const dictionaryPaths = (settings.dictionaryDefinitions || []).map((def) => ('path' in def ? def.path : undefined));
+    const dictionaryStats = await Promise.all(
+        dictionaryPaths.map(async (p) => {
+            if (!p) return undefined;
+            try {
+                const stat = await fs.stat(p);
+                return [p, stat.mtimeMs, stat.size];
+            } catch (e) {
+                return [p];
+            }
+        }),
+    );
+    return hashText(settingsToJson(settings) + JSON.stringify(dictionaryStats));
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,184 @@
+import { toFileUri } from '@internal/common-utils/uriHelper';
+import type { CSpellSettings } from 'cspell-lib';
+import * as cspell from 'cspell-lib';
+import { getDefaultSettings } from 'cspell-lib';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterAll, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Diagnostic } from 'vscode-languageserver/node.js';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+
+import type { CSpellUserSettings } from './config/cspellConfig/index.mjs';
+import * as Validator from './validator.mjs';
+import type { WorkspaceCheckerDependencies } from './workspaceChecker.mjs';
+import { createWorkspaceChecker } from './workspaceChecker.mjs';
+
+// cSpell:ignore brouwn wrongg mispelled
+
+const folderDir = path.resolve(__dirname, '../..');
+const tempDir = path.resolve(folderDir, 'temp/workspaceChecker');
+const workspaceDir = path.join(tempDir, 'workspace');
+const cacheDir = path.join(tempDir, 'cache');
+
+const settings: CSpellSettings = { ...getDefaultSettings(), enabled: true, enabledLanguageIds: ['markdown', 'typescript'] };
+
+const timeout = 30000; // 30 seconds
+
+describe('WorkspaceChecker', () => {
+    beforeEach(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+        await writeFiles({
+            'README.md': 'The quick brouwn fox.\n',
+            'src/code.ts': 'const wrongg = 1;\n',
+            'src/data.json': '{ "value": "wrongg" }\n',
+            'src/image.png': 'wrongg',
+            'node_modules/pkg/index.ts': 'const mispelled = 1;\n',
+        });
+    });
+
+    afterAll(async () => {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test(
+        'checkWorkspace checks the included files',
+        async () => {
+            const deps = createDeps();
+            const checker = createWorkspaceChecker(deps);
+            const result = await checker.checkWorkspace({});
+
+            expect(result).toEqual({ filesChecked: 2, filesFromCache: 0, filesWithIssues: 2, numIssues: 2, cancelled: false });
+            expect(publishedWords(deps)).toEqual([
+                ['README.md', ['brouwn']],
+                ['src/code.ts', ['wrongg']],
+            ]);
+            expect(deps.reportProgress).toHaveBeenLastCalledWith(expect.objectContaining({ filesFound: 2, filesProcessed: 2, done: true }));
+        },
+        timeout,
+    );
+
+    test(
+        'checkWorkspace skips open documents',
+        async () => {
+            const deps = createDeps({ isOpen: (uri) => uri.endsWith('README.md') });
+            const checker = createWorkspaceChecker(deps);
+            const result = await checker.checkWorkspace({});
+
+            expect(result).toEqual(expect.objectContaining({ filesChecked: 1, filesWithIssues: 1 }));
+            expect(publishedWords(deps)).toEqual([['src/code.ts', ['wrongg']]]);
+        },
+        timeout,
+    );
+
+    test(
+        'checkWorkspace uses the cache',
+        async () => {
+            const cacheFolderUri = toFileUri(cacheDir).toString();
+            await createWorkspaceChecker(createDeps()).checkWorkspace({ cacheFolderUri });
+
+            // A new checker simulates a restart.
+            const deps = createDeps();
+            const result = await createWorkspaceChecker(deps).checkWorkspace({ cacheFolderUri });
+            expect(result).toEqual({ filesChecked: 0, filesFromCache: 2, filesWithIssues: 2, numIssues: 2, cancelled: false });
+            expect(deps.validate).not.toHaveBeenCalled();
+            expect(publishedWords(deps)).toEqual([
+                ['README.md', ['brouwn']],
+                ['src/code.ts', ['wrongg']],
+            ]);
+
+            // Only the changed file is checked.
+            await writeFiles({ 'README.md': 'The quick brown fox.\n' });
+            const depsAfterChange = createDeps();
+            const resultAfterChange = await createWorkspaceChecker(depsAfterChange).checkWorkspace({ cacheFolderUri });
+            expect(resultAfterChange).toEqual(expect.objectContaining({ filesChecked: 1, filesFromCache: 1, filesWithIssues: 1 }));
+            expect(depsAfterChange.validate).toHaveBeenCalledTimes(1);
+        },
+        timeout,
+    );
+
+    test(
+        'the cache is not used if the settings change',
+        async () => {
+            const cacheFolderUri = toFileUri(cacheDir).toString();
+            await createWorkspaceChecker(createDeps()).checkWorkspace({ cacheFolderUri });
+
+            const changedSettings: CSpellUserSettings = { ...settings, words: ['brouwn'] };
+            const deps = createDeps({ getSettings: async () => changedSettings });
+            const result = await createWorkspaceChecker(deps).checkWorkspace({ cacheFolderUri });
+            expect(result).toEqual(expect.objectContaining({ filesChecked: 2, filesFromCache: 0 }));
+        },
+        timeout,
+    );
+
+    test(
+        'cancel',
+        async () => {
+            const deps = createDeps();
+            const checker = createWorkspaceChecker(deps);
+            deps.publishDiagnostics.mockImplementation(() => checker.cancel());
+            const result = await checker.checkWorkspace({});
+
+            expect(result).toEqual(expect.objectContaining({ filesChecked: 1, cancelled: true }));
+        },
+        timeout,
+    );
+
+    test(
+        'findFiles',
+        async () => {
+            const checker = createWorkspaceChecker(createDeps());
+            const rootUri = toFileUri(workspaceDir).toString() + '/';
+            const names = async (uris?: string[]) => {
+                const found: string[] = [];
+                for await (const file of checker.findFiles(uris)) found.push(file.uri.toString().replace(rootUri, ''));
+                return found.sort();
+            };
+
+            expect(await names()).toEqual(['README.md', 'src/code.ts']);
+            expect(await names([rootUri + 'src/code.ts', rootUri + 'src/image.png'])).toEqual(['src/code.ts']);
+        },
+        timeout,
+    );
+});
+
+function createDeps(overrides: Partial<WorkspaceCheckerDependencies> = {}) {
+    const deps = {
+        getWorkspaceFolders: vi.fn(async () => [toFileUri(workspaceDir).toString()]),
+        calcIncludeExclude: vi.fn(async (uri) => ({
+            uri: uri.toString(),
+            uriUsed: uri.toString(),
+            include: true,
+            exclude: uri.path.includes('/node_modules'),
+            ignored: undefined,
+            gitignoreInfo: undefined,
+        })),
+        getSettings: vi.fn(async () => settings),
+        isBlocked: vi.fn(() => false),
+        validate: vi.fn((doc: TextDocument) => Validator.validateTextDocument(doc, getSettings(doc))),
+        isOpen: vi.fn(() => false),
+        isBusy: vi.fn(() => false),
+        publishDiagnostics: vi.fn(),
+        reportProgress: vi.fn(),
+        throttleMs: 0,
+        ...overrides,
+    } satisfies WorkspaceCheckerDependencies;
+    return vi.mocked(deps);
+}
+
+function getSettings(doc: TextDocument): CSpellUserSettings {
+    return cspell.constructSettingsForText(settings, doc.getText(), doc.languageId);
+}
+
+function publishedWords(deps: ReturnType<typeof createDeps>): [string, string[]][] {
+    const published = deps.publishDiagnostics.mock.calls as [string, Diagnostic[]][];
+    const rootUri = toFileUri(workspaceDir).toString() + '/';
+    return published.map(([uri, diags]) => [uri.replace(rootUri, ''), diags.map((d) => (d.data as { text: string }).text)]);
+}
+
+async function writeFiles(files: Record<string, string>) {
+    for (const [file, content] of Object.entries(files)) {
+        const filename = path.join(workspaceDir, file);
+        await fs.mkdir(path.dirname(filename), { recursive: true });
+        await fs.writeFile(filename, content);
+    }
+}
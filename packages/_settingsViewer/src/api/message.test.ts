@@ -1,8 +1,21 @@
 import { describe, expect, test } from 'vitest';
 
 import { sampleSettings } from '../test/samples/sampleSettings';
-import type { ConfigurationChangeMessage, EnableLocaleMessage, SelectFileMessage, SelectFolderMessage } from './message';
-import { isConfigurationChangeMessage, isEnableLocaleMessage, isMessage, isSelectFileMessage, isSelectFolderMessage } from './message';
+import type {
+    ConfigurationChangeMessage,
+    EnableLocaleMessage,
+    SelectFileMessage,
+    SelectFolderMessage,
+    UpdateSettingMessage,
+} from './message';
+import {
+    isConfigurationChangeMessage,
+    isEnableLocaleMessage,
+    isMessage,
+    isSelectFileMessage,
+    isSelectFolderMessage,
+    isUpdateSettingMessage,
+} from './message';
 
 describe('Validate Messages', () => {
     const msgSelectFolder: SelectFolderMessage = {
@@ -103,4 +116,15 @@ describe('Validate Messages', () => {
         expect(isEnableLocaleMessage({ command: 'EnableLocaleMessage' })).toBe(false);
         expect(isEnableLocaleMessage(msg)).toBe(true);
     });
+
+    test('isUpdateSettingMessage', () => {
+        const msg: UpdateSettingMessage = {
+            command: 'UpdateSettingMessage',
+            value: { scope: 'user', key: 'words', value: '["one"]' },
+        };
+        expect(isUpdateSettingMessage({ command: 'UpdateSettingMessage' })).toBe(false);
+        expect(isUpdateSettingMessage({ ...msg, command: 'EnableLocaleMessage' })).toBe(false);
+        expect(isUpdateSettingMessage(msg)).toBe(true);
+        expect(isMessage(msg)).toBe(true);
+    });
 });
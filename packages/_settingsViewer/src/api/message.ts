@@ -12,6 +12,7 @@ export interface DefinedCommands {
     SelectFolderMessage: SelectFolderMessage;
     SelectTabMessage: SelectTabMessage;
     OpenLinkMessage: OpenLinkMessage;
+    UpdateSettingMessage: UpdateSettingMessage;
 }
 
 type IsAMessageOf = {
@@ -100,6 +101,17 @@ export interface OpenLinkMessage extends IMessage {
     };
 }
 
+export interface UpdateSettingMessage extends IMessage {
+    command: 'UpdateSettingMessage';
+    value: {
+        /** The id of the scope, see `SettingScope`. */
+        scope: string;
+        key: string;
+        /** The new value as JSON, `undefined` removes the setting from the scope. */
+        value: string | undefined;
+    };
+}
+
 export const isConfigurationChangeMessage = isA<ConfigurationChangeMessage>('ConfigurationChangeMessage', [['value', isObject]]);
 export const isEnableLanguageIdMessage = isA<EnableLanguageIdMessage>('EnableLanguageIdMessage', [['value', isObject]]);
 export const isEnableLocaleMessage = isA<EnableLocaleMessage>('EnableLocaleMessage', [['value', isObject]]);
@@ -108,6 +120,7 @@ export const isSelectFileMessage = isA<SelectFileMessage>('SelectFileMessage', [
 export const isSelectFolderMessage = isA<SelectFolderMessage>('SelectFolderMessage', [['value', isString]]);
 export const isSelectTabMessage = isA<SelectTabMessage>('SelectTabMessage', [['value', isString]]);
 export const isOpenLinkMessage = isA<OpenLinkMessage>('OpenLinkMessage', [['value', isObject]]);
+export const isUpdateSettingMessage = isA<UpdateSettingMessage>('UpdateSettingMessage', [['value', isObject]]);
 
 function isObject(v: unknown): v is Record<string, unknown> {
     return typeof v === 'object' && v !== null;
@@ -125,6 +138,7 @@ const isMessageOfMap: IsAMessageOf = {
     SelectFolderMessage: isSelectFolderMessage,
     SelectTabMessage: isSelectTabMessage,
     OpenLinkMessage: isOpenLinkMessage,
+    UpdateSettingMessage: isUpdateSettingMessage,
 };
 
 export function isMessageOf<M extends CommandMessage>(msg: CommandMessage): msg is M {
@@ -7,7 +7,7 @@ import { ConfigTargets, configTargets } from '../api/settings/settingsHelper';
 import { uniqueFilter } from '../api/utils';
 import { compareBy, compareEach } from '../api/utils/Comparable';
 
-type TabTargets = ConfigTarget | 'file' | 'dictionaries' | 'about';
+type TabTargets = ConfigTarget | 'file' | 'settings' | 'dictionaries' | 'trace' | 'about';
 
 export interface Tab {
     label: string;
@@ -19,7 +19,9 @@ const tabs: Tab[] = [
     { label: 'Workspace', target: 'workspace' },
     { label: 'Folder', target: 'folder' },
     { label: 'File', target: 'file' },
+    { label: 'Settings', target: 'settings' },
     { label: 'Dictionaries', target: 'dictionaries' },
+    { label: 'Trace', target: 'trace' },
     { label: 'About', target: 'about' },
 ];
 
@@ -96,6 +98,12 @@ export class AppState implements State {
         if (!this.settings.activeFileUri) {
             hidden.add('file');
         }
+        if (!this.settings.settingsEditor) {
+            hidden.add('settings');
+        }
+        if (!this.settings.wordTrace) {
+            hidden.add('trace');
+        }
         return tabs.filter((tab) => !hidden.has(tab.target));
     }
 
@@ -257,6 +265,15 @@ export class AppState implements State {
         this.messageBus.postMessage({ command: 'EnableLanguageIdMessage', value: { languageId, enable, target, uri } });
     }
 
+    /**
+     * Change the value of a setting in a scope.
+     * @param scope - the id of the scope.
+     * @param value - the new value as JSON, `undefined` to remove the setting from the scope.
+     */
+    @action actionUpdateSetting(scope: string, key: string, value: string | undefined) {
+        this.messageBus.postMessage({ command: 'UpdateSettingMessage', value: { scope, key, value } });
+    }
+
     @action updateSettings(settings: Settings): Settings {
         this._settings = settings;
         return this._settings;
@@ -10,6 +10,8 @@ import { PanelAbout } from './panelAbout';
 import { PanelConfig } from './panelConfig';
 import { PanelDictionaries } from './panelDictionaries';
 import { PanelFile } from './panelFile';
+import { PanelSettings } from './panelSettings';
+import { PanelTrace } from './panelTrace';
 import { CsAppBar as AppBar, CsTab as Tab, CsTabs as Tabs, themeDefault } from './primitives';
 
 @observer
@@ -23,8 +25,12 @@ export class SettingsViewer extends React.Component<{ appState: AppState }> {
                     <PanelConfig appState={appState} target={tab.target}></PanelConfig>
                 ) : tab.target === 'file' ? (
                     <PanelFile appState={appState}></PanelFile>
+                ) : tab.target === 'settings' ? (
+                    <PanelSettings appState={appState}></PanelSettings>
                 ) : tab.target === 'dictionaries' ? (
                     <PanelDictionaries appState={appState}></PanelDictionaries>
+                ) : tab.target === 'trace' ? (
+                    <PanelTrace appState={appState}></PanelTrace>
                 ) : tab.target === 'about' ? (
                     <PanelAbout appState={appState}></PanelAbout>
                 ) : (
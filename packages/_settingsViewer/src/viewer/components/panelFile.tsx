@@ -18,6 +18,7 @@ import { LinkOpenFile } from './link';
 import { CsCheckBox as Checkbox, CsFormControl as FormControl, CsList as List } from './primitives';
 import { SectionConfigFileList } from './sectionConfigFileList';
 import { SectionDictionaries } from './sectionDictionaries';
+import { SectionProvenance } from './sectionProvenance';
 
 @observer
 export class PanelFile extends React.Component<{ appState: AppState }> {
@@ -79,6 +80,7 @@ export class PanelFile extends React.Component<{ appState: AppState }> {
                 </List>
                 <SectionConfigFileList configFiles={configFiles}></SectionConfigFileList>
                 <SectionDictionaries dictionaries={dictionaries} sectionTitle="Active Dictionaries"></SectionDictionaries>
+                {config?.provenance ? <SectionProvenance provenance={config.provenance}></SectionProvenance> : undefined}
                 {appState.debugMode ? (
                     <div>
                         <pre>{JSON.stringify(toJS(config), null, 2)}</pre>
@@ -0,0 +1,101 @@
+import * as React from 'react';
+import { act, create } from 'react-test-renderer';
+import { describe, expect, it } from 'vitest';
+import type { SettingsEditor } from 'webview-api';
+
+import { sampleAppState } from '../../test/fixtures/AppState';
+import { __testing__, PanelSettings } from './panelSettings';
+
+const { checkJson } = __testing__;
+
+const cspellJsonUri = 'file:///Users/cspell/projects/sample/cspell.json';
+
+const sampleEditor: SettingsEditor = {
+    scopes: [
+        { id: 'default', kind: 'default', name: 'Default' },
+        { id: 'user', kind: 'user', name: 'User' },
+        { id: 'workspace', kind: 'workspace', name: 'Workspace' },
+        { id: cspellJsonUri, kind: 'cspell', name: 'cspell.json' },
+    ],
+    entries: [
+        { key: 'checkLimit', values: {}, editableScopes: ['user', 'workspace'] },
+        {
+            key: 'language',
+            values: {
+                default: { value: '"en"', status: 'overridden' },
+                user: { value: '"en,nl"', status: 'overridden' },
+                [cspellJsonUri]: { value: '"en-GB"', status: 'used' },
+            },
+            editableScopes: ['user', 'workspace', cspellJsonUri],
+        },
+        {
+            key: 'words',
+            values: {
+                user: { value: '["one"]', status: 'ignored' },
+                [cspellJsonUri]: { value: '["two"]', status: 'used' },
+            },
+            editableScopes: ['user', 'workspace', cspellJsonUri],
+        },
+    ],
+};
+
+describe('Settings Panel Verification', () => {
+    it('tests the snapshot', () => {
+        const appState = getSampleAppState();
+        const panelRenderer = create(<PanelSettings appState={appState}></PanelSettings>).toJSON();
+        expect(panelRenderer).toMatchSnapshot();
+    });
+
+    it('is empty without the settings', () => {
+        const appState = sampleAppState();
+        expect(create(<PanelSettings appState={appState}></PanelSettings>).toJSON()).toEqual({ type: 'div', props: {}, children: null });
+    });
+
+    it('shows the settings tab', () => {
+        expect(sampleAppState().tabs.map((t) => t.target)).not.toContain('settings');
+        expect(getSampleAppState().tabs.map((t) => t.target)).toContain('settings');
+    });
+
+    it('edits a value', () => {
+        const appState = getSampleAppState();
+        const panel = create(<PanelSettings appState={appState}></PanelSettings>);
+        const editButton = panel.root.findByProps({ 'aria-label': 'Edit words in User' });
+        act(() => editButton.props.onClick());
+        const textField = panel.root.findByProps({ multiline: true });
+        expect(textField.props.value).toBe('[\n  "one"\n]');
+        act(() => textField.props.onChange({ target: { value: '["one", "three"]' } }));
+        const save = panel.root.findAll((node) => node.props.children === 'Save' && !!node.props.onClick)[0];
+        act(() => save.props.onClick());
+        expect(appState._postedMessages).toEqual([
+            { command: 'UpdateSettingMessage', value: { scope: 'user', key: 'words', value: '["one","three"]' } },
+        ]);
+    });
+
+    it('removes a value', () => {
+        const appState = getSampleAppState();
+        const panel = create(<PanelSettings appState={appState}></PanelSettings>);
+        act(() => panel.root.findByProps({ 'aria-label': 'Edit language in cspell.json' }).props.onClick());
+        const remove = panel.root.findAll((node) => node.props.children === 'Remove' && !!node.props.onClick)[0];
+        act(() => remove.props.onClick());
+        expect(appState._postedMessages).toEqual([
+            { command: 'UpdateSettingMessage', value: { scope: cspellJsonUri, key: 'language', value: undefined } },
+        ]);
+    });
+
+    it.each`
+        text         | expected
+        ${'"en"'}    | ${undefined}
+        ${'["one"]'} | ${undefined}
+        ${'["one"'}  | ${'The value must be valid JSON.'}
+        ${'en'}      | ${'The value must be valid JSON.'}
+        ${''}        | ${'The value must be valid JSON.'}
+    `('checkJson $text', ({ text, expected }) => {
+        expect(checkJson(text)).toBe(expected);
+    });
+
+    function getSampleAppState() {
+        const appState = sampleAppState();
+        appState.updateSettings({ ...appState.settings, settingsEditor: sampleEditor });
+        return appState;
+    }
+});
@@ -0,0 +1,184 @@
+import FormControlLabel from '@material-ui/core/FormControlLabel';
+import IconButton from '@material-ui/core/IconButton';
+import Table from '@material-ui/core/Table';
+import TableBody from '@material-ui/core/TableBody';
+import TableCell from '@material-ui/core/TableCell';
+import TableHead from '@material-ui/core/TableHead';
+import TableRow from '@material-ui/core/TableRow';
+import TextField from '@material-ui/core/TextField';
+import IconEdit from '@material-ui/icons/Edit';
+import { observer } from 'mobx-react-lite';
+import * as React from 'react';
+import type { SettingEntry, SettingScope, SettingsEditor, SettingValueStatus } from 'webview-api';
+
+import type { AppState } from '../AppState';
+import { CsButton as Button, CsCheckBox as Checkbox } from './primitives';
+
+const statusStyles: Record<SettingValueStatus, React.CSSProperties> = {
+    used: { fontWeight: 'bold' },
+    merged: { fontWeight: 'bold', fontStyle: 'italic' },
+    overridden: { opacity: 0.6 },
+    ignored: { opacity: 0.6, textDecoration: 'line-through' },
+};
+
+const statusMessages: Record<SettingValueStatus, string> = {
+    used: 'This value is used.',
+    merged: 'This value is combined with the values of the other scopes.',
+    overridden: 'This value is replaced by the value of a more specific scope.',
+    ignored: 'This value is not used because of `cSpell.mergeCSpellSettings`.',
+};
+
+interface EditTarget {
+    key: string;
+    scope: string;
+}
+
+export const PanelSettings = observer((props: { appState: AppState }) => {
+    const editor = props.appState.settings.settingsEditor;
+    if (!editor) return <div></div>;
+    return <SectionSettings appState={props.appState} editor={editor}></SectionSettings>;
+});
+
+function SectionSettings({ appState, editor }: { appState: AppState; editor: SettingsEditor }) {
+    const [filter, setFilter] = React.useState('');
+    const [showAll, setShowAll] = React.useState(false);
+    const [editing, setEditing] = React.useState<EditTarget | undefined>(undefined);
+
+    const search = filter.trim().toLowerCase();
+    const entries = editor.entries.filter(
+        (entry) => (showAll || Object.keys(entry.values).length) && entry.key.toLowerCase().includes(search),
+    );
+
+    function update(value: string | undefined) {
+        if (!editing) return;
+        appState.actionUpdateSetting(editing.scope, editing.key, value);
+        setEditing(undefined);
+    }
+
+    const isEditing = (entry: SettingEntry, scope: SettingScope) => editing?.key === entry.key && editing.scope === scope.id;
+
+    return (
+        <div>
+            <h2>Settings</h2>
+            <div>
+                <TextField label="Filter" value={filter} onChange={(e) => setFilter(e.target.value)} />{' '}
+                <FormControlLabel
+                    control={<Checkbox checked={showAll} onChange={(_e, checked) => setShowAll(checked)} />}
+                    label="Show settings without a value"
+                />
+            </div>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Setting</TableCell>
+                        {editor.scopes.map((scope) => (
+                            <TableCell key={scope.id} title={scope.kind === 'cspell' ? scope.id : undefined}>
+                                {scope.name}
+                            </TableCell>
+                        ))}
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {entries.map((entry) => (
+                        <TableRow key={entry.key}>
+                            <TableCell>
+                                <code>{entry.key}</code>
+                            </TableCell>
+                            {editor.scopes.map((scope) => (
+                                <TableCell key={scope.id}>
+                                    {isEditing(entry, scope) ? (
+                                        <ValueEditor
+                                            value={entry.values[scope.id]?.value}
+                                            onSave={update}
+                                            onCancel={() => setEditing(undefined)}
+                                        ></ValueEditor>
+                                    ) : (
+                                        <ValueView
+                                            entry={entry}
+                                            scope={scope}
+                                            onEdit={() => setEditing({ key: entry.key, scope: scope.id })}
+                                        ></ValueView>
+                                    )}
+                                </TableCell>
+                            ))}
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
+
+function ValueView({ entry, scope, onEdit }: { entry: SettingEntry; scope: SettingScope; onEdit: () => void }) {
+    const value = entry.values[scope.id];
+    const editable = entry.editableScopes.includes(scope.id);
+    return (
+        <span>
+            {value ? (
+                <code style={statusStyles[value.status]} title={statusMessages[value.status]}>
+                    {value.value}
+                </code>
+            ) : undefined}
+            {editable ? (
+                <IconButton size="small" aria-label={`Edit ${entry.key} in ${scope.name}`} onClick={onEdit}>
+                    <IconEdit fontSize="small" />
+                </IconButton>
+            ) : undefined}
+        </span>
+    );
+}
+
+interface ValueEditorProps {
+    /** The current value as JSON. */
+    value: string | undefined;
+    onSave: (value: string | undefined) => void;
+    onCancel: () => void;
+}
+
+function ValueEditor({ value, onSave, onCancel }: ValueEditorProps) {
+    const [text, setText] = React.useState(value === undefined ? '' : JSON.stringify(JSON.parse(value), undefined, 2));
+    const error = checkJson(text);
+    return (
+        <div>
+            <TextField
+                multiline
+                rows={4}
+                fullWidth
+                value={text}
+                error={!!error}
+                helperText={error}
+                onChange={(e) => setText(e.target.value)}
+            />
+            <Button
+                variant="contained"
+                color="primary"
+                size="small"
+                disabled={!!error}
+                onClick={() => onSave(JSON.stringify(JSON.parse(text)))}
+            >
+                Save
+            </Button>{' '}
+            {value !== undefined ? (
+                <Button variant="contained" color="secondary" size="small" onClick={() => onSave(undefined)}>
+                    Remove
+                </Button>
+            ) : undefined}{' '}
+            <Button size="small" onClick={onCancel}>
+                Cancel
+            </Button>
+        </div>
+    );
+}
+
+function checkJson(text: string): string | undefined {
+    try {
+        JSON.parse(text);
+        return undefined;
+    } catch (e) {
+        return 'The value must be valid JSON.';
+    }
+}
+
+export const __testing__ = {
+    checkJson,
+};
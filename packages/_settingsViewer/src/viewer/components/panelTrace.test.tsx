@@ -0,0 +1,69 @@
+import * as React from 'react';
+import { create } from 'react-test-renderer';
+import { describe, expect, it } from 'vitest';
+import type { WordTrace } from 'webview-api';
+
+import { sampleAppState } from '../../test/fixtures/AppState';
+import type { AppState } from '../AppState';
+import { PanelTrace } from './panelTrace';
+
+// cspell:ignore colour
+
+const sampleTrace: WordTrace = {
+    word: 'colour',
+    uri: 'file:///Users/cspell/projects/sample/README.md',
+    fileName: 'README.md',
+    line: 3,
+    status: 'forbidden',
+    caseSensitive: false,
+    dictionaries: [
+        {
+            name: 'en_gb',
+            uri: 'file:///Users/cspell/node_modules/@cspell/dict-en-gb/en_GB.trie.gz',
+            uriName: 'en_GB.trie.gz',
+            active: false,
+            foundWord: 'colour',
+            forbidden: false,
+            noSuggest: false,
+        },
+        {
+            name: 'project-words',
+            uri: 'file:///Users/cspell/projects/sample/words.txt',
+            uriName: 'words.txt',
+            configUri: 'file:///Users/cspell/projects/sample/cspell.json',
+            configUriName: 'cspell.json',
+            active: true,
+            forbidden: true,
+            noSuggest: false,
+        },
+    ],
+    flagWords: ['colour->color'],
+    ignoreWords: [],
+    ignoredBy: [{ name: 'Urls', regexp: '/https?:\\/\\/\\S+/g', text: 'https://example.com/colour' }],
+    notIncluded: false,
+    inDocument: [],
+};
+
+describe('Trace Panel Verification', () => {
+    it('tests the snapshot', () => {
+        const appState = getSampleAppState();
+        const panelRenderer = create(<PanelTrace appState={appState}></PanelTrace>).toJSON();
+        expect(panelRenderer).toMatchSnapshot();
+    });
+
+    it('is empty without a trace', () => {
+        const appState = sampleAppState();
+        expect(create(<PanelTrace appState={appState}></PanelTrace>).toJSON()).toEqual({ type: 'div', props: {}, children: null });
+    });
+
+    it('shows the trace tab', () => {
+        expect(sampleAppState().tabs.map((t) => t.target)).not.toContain('trace');
+        expect(getSampleAppState().tabs.map((t) => t.target)).toContain('trace');
+    });
+
+    function getSampleAppState(): AppState {
+        const appState = sampleAppState();
+        appState.updateSettings({ ...appState.settings, wordTrace: sampleTrace });
+        return appState;
+    }
+});
@@ -0,0 +1,139 @@
+import ListItem from '@material-ui/core/ListItem';
+import ListItemIcon from '@material-ui/core/ListItemIcon';
+import ListItemText from '@material-ui/core/ListItemText';
+import IconBlock from '@material-ui/icons/Block';
+import IconCheck from '@material-ui/icons/Check';
+import IconHelp from '@material-ui/icons/HelpOutline';
+import IconImportContacts from '@material-ui/icons/ImportContacts';
+import IconVisibilityOff from '@material-ui/icons/VisibilityOff';
+import { observer } from 'mobx-react-lite';
+import * as React from 'react';
+import type { WordTrace, WordTraceDictionary, WordTraceStatus } from 'webview-api';
+
+import type { AppState } from '../AppState';
+import { LinkOpenFile } from './link';
+import { CsList as List } from './primitives';
+
+const statusMessages: Record<WordTraceStatus, string> = {
+    ok: 'is accepted, it was found in a dictionary.',
+    ignored: 'is ignored.',
+    forbidden: 'is flagged as forbidden.',
+    unknown: 'is not found in any of the dictionaries.',
+};
+
+const statusIcons: Record<WordTraceStatus, JSX.Element> = {
+    ok: <IconCheck />,
+    ignored: <IconVisibilityOff />,
+    forbidden: <IconBlock />,
+    unknown: <IconHelp />,
+};
+
+export const PanelTrace = observer((props: { appState: AppState }) => {
+    const trace = props.appState.settings.wordTrace;
+    if (!trace) return <div></div>;
+    return <SectionTrace trace={trace}></SectionTrace>;
+});
+
+function SectionTrace({ trace }: { trace: WordTrace }) {
+    const { word, uri, fileName, line, status, caseSensitive } = trace;
+    const reasons = [...listReasons(trace)];
+    return (
+        <div>
+            <h2>
+                Trace: <i>{word}</i>
+            </h2>
+            <List>
+                <ListItem>
+                    <ListItemIcon>{statusIcons[status]}</ListItemIcon>
+                    <ListItemText
+                        primary={
+                            <span>
+                                <b>{word}</b> {statusMessages[status]}
+                            </span>
+                        }
+                        secondary={
+                            <span>
+                                {LinkOpenFile({ uri, text: line ? `${fileName}:${line}` : fileName, line })}
+                                <br />
+                                {caseSensitive ? 'Case sensitive, the case of the word must match.' : 'Case insensitive.'}
+                            </span>
+                        }
+                    />
+                </ListItem>
+                {reasons.map((reason, index) => (
+                    <ListItem key={'reason-' + index}>
+                        <ListItemIcon>
+                            <IconVisibilityOff />
+                        </ListItemIcon>
+                        <ListItemText primary={reason.primary} secondary={reason.secondary} />
+                    </ListItem>
+                ))}
+            </List>
+            <h2>Dictionaries</h2>
+            <List>
+                {trace.dictionaries.length ? (
+                    trace.dictionaries.map((dict, index) => (
+                        <ListItem key={'dict-' + index}>
+                            <ListItemIcon>{dict.forbidden ? <IconBlock /> : <IconImportContacts />}</ListItemIcon>
+                            <ListItemText primary={dictionaryPrimary(dict)} secondary={dictionarySecondary(dict)} />
+                        </ListItem>
+                    ))
+                ) : (
+                    <ListItem>
+                        <ListItemText primary="The word is not in any dictionary." />
+                    </ListItem>
+                )}
+            </List>
+        </div>
+    );
+}
+
+interface Reason {
+    primary: string | JSX.Element;
+    secondary?: string | JSX.Element;
+}
+
+function* listReasons(trace: WordTrace): Iterable<Reason> {
+    for (const m of trace.ignoredBy) {
+        yield { primary: <span>Excluded by the pattern: {m.name}</span>, secondary: <code>{m.text}</code> };
+    }
+    if (trace.notIncluded) {
+        yield { primary: 'The text is not matched by any of the `includeRegExpList` patterns.' };
+    }
+    if (trace.flagWords.length) {
+        yield { primary: 'Matching `flagWords`', secondary: trace.flagWords.join(', ') };
+    }
+    if (trace.ignoreWords.length) {
+        yield { primary: 'Matching `ignoreWords`', secondary: trace.ignoreWords.join(', ') };
+    }
+    if (trace.inDocument.length) {
+        yield { primary: 'Found in the `cspell:` directives of the document', secondary: trace.inDocument.join(', ') };
+    }
+}
+
+function dictionaryPrimary(dict: WordTraceDictionary) {
+    const notes = [
+        dict.forbidden && 'forbidden',
+        dict.noSuggest && 'not suggested',
+        !dict.active && 'not used with this file',
+        dict.foundWord && `found as "${dict.foundWord}"`,
+    ].filter((a): a is string => !!a);
+    return (
+        <span>
+            {dict.name} {notes.length ? <i>({notes.join(', ')})</i> : undefined}
+        </span>
+    );
+}
+
+function dictionarySecondary(dict: WordTraceDictionary) {
+    const file = dict.uri && dict.uriName && LinkOpenFile({ uri: dict.uri, text: dict.uriName });
+    const config = dict.configUri && dict.configUriName && LinkOpenFile({ uri: dict.configUri, text: dict.configUriName });
+    if (!file && !config) return undefined;
+    return (
+        <span>
+            {file}
+            {file && config ? <br /> : undefined}
+            {config ? <span>Defined in: {config}</span> : undefined}
+        </span>
+    );
+}
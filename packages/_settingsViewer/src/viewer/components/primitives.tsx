@@ -175,6 +175,20 @@ export const themeDefault = createTheme({
                 color: colors.textPrimary,
             },
         },
+        MuiTableCell: {
+            root: {
+                color: colors.textPrimary,
+                verticalAlign: 'top',
+            },
+            head: {
+                color: colors.textPrimary,
+            },
+        },
+        MuiInputBase: {
+            root: {
+                color: colors.textPrimary,
+            },
+        },
         MuiInput: {
             underline: {
                 '&:after': {
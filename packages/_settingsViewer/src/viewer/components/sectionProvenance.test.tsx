@@ -0,0 +1,58 @@
+import * as React from 'react';
+import { act, create } from 'react-test-renderer';
+import { describe, expect, it } from 'vitest';
+import type { SettingProvenance } from 'webview-api';
+
+import { SectionProvenance } from './sectionProvenance';
+
+const cspellJsonUri = 'file:///Users/cspell/projects/sample/cspell.json';
+const extJsonUri = 'file:///Users/cspell/projects/sample/sub/cspell-ext.json';
+
+const sampleProvenance: SettingProvenance[] = [
+    { key: 'enabled', sources: [{ source: { kind: 'default', name: 'Default Settings' } }] },
+    { key: 'language', sources: [{ source: { kind: 'cspell', name: 'cspell.json', uri: cspellJsonUri, line: 7 } }] },
+    {
+        key: 'words',
+        sources: [
+            { value: 'one', source: { kind: 'user', name: 'User Settings' } },
+            {
+                value: 'two',
+                source: {
+                    kind: 'cspell',
+                    name: 'cspell-ext.json',
+                    uri: extJsonUri,
+                    line: 2,
+                    importChain: [{ uri: cspellJsonUri, name: 'cspell.json' }],
+                },
+            },
+            { value: 'three', source: { kind: 'document', name: 'In-Document Settings' } },
+        ],
+    },
+];
+
+describe('SectionProvenance Verification', () => {
+    it('tests the snapshot', () => {
+        const panelRenderer = create(<SectionProvenance provenance={sampleProvenance}></SectionProvenance>).toJSON();
+        expect(panelRenderer).toMatchSnapshot();
+    });
+
+    it('hides the defaults', () => {
+        const section = create(<SectionProvenance provenance={sampleProvenance}></SectionProvenance>);
+        expect(settingKeys()).toEqual(['language', 'words', 'words', 'words']);
+        act(() => section.root.findByProps({ label: 'Show the defaults' }).props.control.props.onChange({}, true));
+        expect(settingKeys()).toEqual(['enabled', 'language', 'words', 'words', 'words']);
+
+        function settingKeys() {
+            return section.root
+                .findAllByType('code')
+                .map((c) => c.props.children)
+                .filter((k) => sampleProvenance.some((p) => p.key === k));
+        }
+    });
+
+    it('filters the settings', () => {
+        const section = create(<SectionProvenance provenance={sampleProvenance}></SectionProvenance>);
+        act(() => section.root.findByProps({ label: 'Filter' }).props.onChange({ target: { value: 'LANG' } }));
+        expect(section.root.findAllByType('code').map((c) => c.props.children)).toEqual(['language']);
+    });
+});
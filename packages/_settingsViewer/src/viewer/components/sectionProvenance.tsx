@@ -0,0 +1,83 @@
+import FormControlLabel from '@material-ui/core/FormControlLabel';
+import Table from '@material-ui/core/Table';
+import TableBody from '@material-ui/core/TableBody';
+import TableCell from '@material-ui/core/TableCell';
+import TableHead from '@material-ui/core/TableHead';
+import TableRow from '@material-ui/core/TableRow';
+import TextField from '@material-ui/core/TextField';
+import { observer } from 'mobx-react-lite';
+import * as React from 'react';
+import type { SettingProvenance, SettingSource } from 'webview-api';
+
+import { LinkOpenFile } from './link';
+import { CsCheckBox as Checkbox } from './primitives';
+
+export const SectionProvenance = observer(_SectionProvenance);
+function _SectionProvenance({ provenance }: { provenance: SettingProvenance[] }) {
+    const [filter, setFilter] = React.useState('');
+    const [showDefaults, setShowDefaults] = React.useState(false);
+
+    const search = filter.trim().toLowerCase();
+    const rows = provenance
+        .filter((entry) => entry.key.toLowerCase().includes(search))
+        .flatMap((entry) =>
+            entry.sources.filter((s) => showDefaults || s.source.kind !== 'default').map((s) => ({ key: entry.key, ...s })),
+        );
+
+    return (
+        <div>
+            <h2>Setting Sources</h2>
+            <div>
+                <TextField label="Filter" value={filter} onChange={(e) => setFilter(e.target.value)} />{' '}
+                <FormControlLabel
+                    control={<Checkbox checked={showDefaults} onChange={(_e, checked) => setShowDefaults(checked)} />}
+                    label="Show the defaults"
+                />
+            </div>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Setting</TableCell>
+                        <TableCell>Value</TableCell>
+                        <TableCell>Source</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {rows.map((row, index) => (
+                        <TableRow key={'row-' + index}>
+                            <TableCell>
+                                <code>{row.key}</code>
+                            </TableCell>
+                            <TableCell>{row.value !== undefined ? <code>{row.value}</code> : undefined}</TableCell>
+                            <TableCell>
+                                <SourceView source={row.source}></SourceView>
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
+
+function SourceView({ source }: { source: SettingSource }) {
+    const { uri, name, line, importChain = [] } = source;
+    if (!uri) return <span>{name}</span>;
+    const text = line ? `${name}:${line}` : name;
+    return (
+        <span>
+            <LinkOpenFile uri={uri} text={text} line={line}></LinkOpenFile>
+            {importChain.length ? (
+                <span>
+                    {' imported by '}
+                    {importChain.map((file, index) => (
+                        <React.Fragment key={file.uri}>
+                            {index ? ' ← ' : ''}
+                            <LinkOpenFile uri={file.uri} text={file.name}></LinkOpenFile>
+                        </React.Fragment>
+                    ))}
+                </span>
+            ) : undefined}
+        </span>
+    );
+}
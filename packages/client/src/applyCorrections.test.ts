@@ -0,0 +1,64 @@
+import { createTextDocument } from 'jest-mock-vscode';
+import type { WorkspaceConfiguration } from 'vscode';
+import { commands, Diagnostic, Range, TextEdit, Uri, workspace, WorkspaceEdit } from 'vscode';
+
+import { calcSpellingFixWorkspaceEdit } from './applyCorrections';
+import type { SpellCheckerDiagnosticData } from './client';
+import * as di from './di';
+
+// cspell:ignore recieve
+
+describe('applyCorrections', () => {
+    const uri = Uri.file('/project/sample.ts');
+    const otherUri = Uri.file('/project/other.ts');
+    const issueTracker = { getDiagnostics: jest.fn() };
+    const executeCommand = jest.spyOn(commands, 'executeCommand');
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        di.set('issueTracker', issueTracker as any);
+        const config = { get: (key: string) => key === 'fixSpellingWithRenameProvider' };
+        jest.spyOn(workspace, 'getConfiguration').mockReturnValue(config as unknown as WorkspaceConfiguration);
+        executeCommand.mockImplementation(async (command: string, _uri: Uri, _pos: unknown, newText: string) => {
+            if (command !== 'vscode.executeDocumentRenameProvider') return undefined;
+            // The identifier is also used in another file.
+            const wsEdit = new WorkspaceEdit();
+            wsEdit.set(uri, [new TextEdit(new Range(0, 6, 0, 13), newText)]);
+            wsEdit.set(otherUri, [new TextEdit(new Range(3, 0, 3, 7), newText)]);
+            return wsEdit;
+        });
+    });
+
+    afterAll(di.__testing__.init);
+
+    test('a whole word fix is a simple edit', async () => {
+        const doc = createTextDocument(uri, 'const recieve = 1;\n', 'typescript');
+        const range = new Range(0, 6, 0, 13);
+        issueTracker.getDiagnostics.mockReturnValue([diag(range, { text: 'recieve' })]);
+        const wsEdit = await calcSpellingFixWorkspaceEdit(doc, [new TextEdit(range, 'receive')]);
+        expect(executeCommand).not.toHaveBeenCalledWith(
+            'vscode.executeDocumentRenameProvider',
+            expect.anything(),
+            expect.anything(),
+            'receive',
+        );
+        expect(wsEdit.entries()).toEqual([[uri, [new TextEdit(range, 'receive')]]]);
+    });
+
+    test('the fix of a whole identifier is a rename', async () => {
+        const doc = createTextDocument(uri, 'const recieve = 1;\n', 'typescript');
+        const range = new Range(0, 6, 0, 13);
+        issueTracker.getDiagnostics.mockReturnValue([diag(range, { text: 'recieve', isWholeIdentifier: true })]);
+        const wsEdit = await calcSpellingFixWorkspaceEdit(doc, [new TextEdit(range, 'receive')]);
+        expect(executeCommand).toHaveBeenCalledWith('vscode.executeDocumentRenameProvider', uri, range.start, 'receive');
+        expect(wsEdit.entries()).toEqual([
+            [uri, [new TextEdit(range, 'receive')]],
+            [otherUri, [new TextEdit(new Range(3, 0, 3, 7), 'receive')]],
+        ]);
+    });
+});
+
+function diag(range: Range, data: SpellCheckerDiagnosticData): Diagnostic & { data: SpellCheckerDiagnosticData } {
+    const d = new Diagnostic(range, `"${data.text}": Unknown word.`);
+    return Object.assign(d, { data });
+}
@@ -91,7 +91,9 @@ async function calcRename(document: TextDocument, edit: TextEdit, refInfo: UseRe
     }
     const { useReference, removeRegExp } = refInfo;
     const bounds = await findEditBounds(document, range, useReference);
-    if (!bounds || !bounds.range.contains(range) || !bounds.referenced) {
+    // The fix of an identifier reported by `reportWholeIdentifier` is a rename of that identifier.
+    const isRename = bounds?.referenced || (bounds?.range.isEqual(range) && isWholeIdentifierIssue(document.uri, range));
+    if (!bounds || !bounds.range.contains(range) || !isRename) {
         return undefined;
     }
     const wordRange = bounds.range;
@@ -108,6 +110,11 @@ async function calcRename(document: TextDocument, edit: TextEdit, refInfo: UseRe
     return (workspaceEdit?.size && workspaceEdit) || undefined;
 }
 
+function isWholeIdentifierIssue(uri: Uri, range: Range): boolean {
+    const diags = di.get('issueTracker').getDiagnostics(uri);
+    return diags.some((diag) => diag.data?.isWholeIdentifier && diag.range.isEqual(range));
+}
+
 interface UseRefInfo {
     useRename: boolean;
     useReference: boolean;
@@ -265,7 +272,10 @@ function filterEditsMatchingWorkspaceEdit(workspaceEdit: WorkspaceEdit, doc: Tex
 
 function injectEditsIntoWorkspaceEdit(workspaceEdit: WorkspaceEdit, edits: [Uri, TextEdit[]][]): void {
     for (const [uri, textEdits] of edits) {
-        workspaceEdit.set(uri, textEdits);
+        const existing = workspaceEdit.get(uri);
+        // `set` replaces the edits for a uri, so keep the ones from earlier renames.
+        const newEdits = textEdits.filter((edit) => !existing.some((e) => e.range.isEqual(edit.range)));
+        workspaceEdit.set(uri, [...existing, ...newEdits]);
     }
 }
 
@@ -289,6 +299,14 @@ async function calcWorkspaceEditsForDocument(doc: TextDocument, edits: TextEdit[
     return wsEdit;
 }
 
+/**
+ * Calculate the WorkspaceEdit to apply spelling fixes to a document.
+ * The rename provider is used if `fixSpellingWithRenameProvider` is enabled.
+ */
+export function calcSpellingFixWorkspaceEdit(doc: TextDocument, edits: TextEdit[]): Promise<WorkspaceEdit> {
+    return calcWorkspaceEditsForDocument(doc, edits, calcUseRefInfo(doc));
+}
+
 async function applyTextEditsToDocumentWithRename(doc: TextDocument, edits: TextEdit[], refInfo: UseRefInfo): Promise<boolean | undefined> {
     const wsEdit = await calcWorkspaceEditsForDocument(doc, edits, refInfo);
     return applyWorkspaceEdit(wsEdit, 'applyTextEditsToDocumentWithRename');
@@ -0,0 +1,32 @@
+import { runWorkspaceCheck } from './checkWorkspace';
+import type { UpdateBaselineMode } from './client';
+import * as di from './di';
+import { pvShowInformationMessage } from './util/vscodeHelpers';
+
+/**
+ * Record all the issues in the workspace in the baseline files.
+ * Issues in the baseline are no longer reported, new issues are.
+ */
+export function actionRefreshBaseline(): Promise<void> {
+    return updateBaseline('refresh');
+}
+
+/**
+ * Remove the issues that have been fixed from the baseline files.
+ */
+export function actionPruneBaseline(): Promise<void> {
+    return updateBaseline('prune');
+}
+
+async function updateBaseline(mode: UpdateBaselineMode): Promise<void> {
+    // All the issues need to be known to update the baseline.
+    const check = await runWorkspaceCheck('Spell checking the workspace for the baseline');
+    if (check.cancelled) {
+        return pvShowInformationMessage('Workspace spell check cancelled, the baseline was not updated.');
+    }
+    const result = await di.get('client').updateBaseline({ mode });
+    if (!result.baselineFiles.length) {
+        return pvShowInformationMessage('No baseline file found.');
+    }
+    return pvShowInformationMessage(`Baseline updated: ${result.numIssues} issues in ${result.numFiles} files.`);
+}
@@ -0,0 +1,47 @@
+import { ProgressLocation, window } from 'vscode';
+
+import type { CheckWorkspaceResult } from './client';
+import * as di from './di';
+import { pvShowInformationMessage } from './util/vscodeHelpers';
+
+/**
+ * Spell check all the files in the workspace.
+ * The results are cached in the workspace storage, so only changed files are checked again.
+ */
+export async function actionCheckWorkspace(): Promise<void> {
+    const result = await runWorkspaceCheck('Spell checking the workspace');
+    await pvShowInformationMessage(formatResult(result));
+}
+
+/**
+ * Spell check all the files in the workspace while showing the progress.
+ * @param title - the title of the progress notification.
+ */
+export async function runWorkspaceCheck(title: string): Promise<CheckWorkspaceResult> {
+    const client = di.get('client');
+    const cacheFolderUri = di.get('extensionContext').storageUri?.toString();
+
+    return window.withProgress({ location: ProgressLocation.Notification, title, cancellable: true }, async (progress, token) => {
+        const disposable = client.onWorkspaceCheckProgress((p) => {
+            if (p.done) return;
+            progress.report({ message: `${p.filesProcessed} of ${p.filesFound} files` });
+        });
+        const onCancel = token.onCancellationRequested(() => client.cancelWorkspaceCheck());
+        try {
+            return await client.checkWorkspace({ cacheFolderUri });
+        } finally {
+            disposable.dispose();
+            onCancel.dispose();
+        }
+    });
+}
+
+export function actionCancelWorkspaceCheck(): Promise<void> {
+    return di.get('client').cancelWorkspaceCheck();
+}
+
+function formatResult(result: CheckWorkspaceResult): string {
+    const { filesChecked, filesFromCache, filesWithIssues, numIssues, cancelled } = result;
+    const status = cancelled ? 'cancelled' : 'done';
+    return `Workspace spell check ${status}: found ${numIssues} issues in ${filesWithIssues} of ${filesChecked + filesFromCache} files.`;
+}
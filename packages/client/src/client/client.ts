@@ -22,11 +22,32 @@ import { findConicalDocumentScope } from '../util/documentUri';
 import { logErrors, silenceErrors } from '../util/errors';
 import { Resolvable } from './Resolvable';
 import type {
+    CheckDocumentOptions,
+    CheckDocumentResult,
+    CheckTextRequest,
+    CheckWorkspaceRequest,
+    CheckWorkspaceResult,
     FieldExistsInTarget,
+    FindWordInDictionariesRequest,
+    FindWordInDictionariesResult,
     GetConfigurationForDocumentResult,
+    GetDictionariesForDocumentResult,
+    GetVocabularyReportRequest,
+    GetVocabularyReportResult,
     IsSpellCheckEnabledResult,
+    LintSettingsRequest,
+    LintSettingsResult,
     OnSpellCheckDocumentStep,
+    OnWorkspaceCheckProgress,
+    RegExpProfile,
+    RuntimeDictionaryDefinition,
     ServerApi,
+    TextDocumentInfo as ServerTextDocumentInfo,
+    TextMateGrammarDefinition,
+    TraceWordRequest,
+    TraceWordResult,
+    UpdateBaselineRequest,
+    UpdateBaselineResult,
     WorkspaceConfigForDocumentRequest,
     WorkspaceConfigForDocumentResponse,
 } from './server';
@@ -59,6 +80,7 @@ export class CSpellClient implements Disposable {
     private serverApi: ServerApi;
     private disposables: Set<Disposable> = new Set();
     private broadcasterOnSpellCheckDocument = createBroadcaster<OnSpellCheckDocumentStep>();
+    private runtimeDictionaries = new Set<RuntimeDictionaryDefinition[]>();
     private ready: Resolvable<void> = new Resolvable();
 
     /**
@@ -179,6 +201,50 @@ export class CSpellClient implements Disposable {
         );
     }
 
+    /**
+     * Register dictionaries to be used with every document.
+     * @returns a disposable that removes the dictionaries.
+     */
+    public registerDictionaries(dictionaries: RuntimeDictionaryDefinition[]): Disposable {
+        const entry = [...dictionaries];
+        this.runtimeDictionaries.add(entry);
+        this.sendRuntimeDictionaries();
+        return new Disposable(() => {
+            if (!this.runtimeDictionaries.delete(entry)) return;
+            this.sendRuntimeDictionaries();
+        });
+    }
+
+    private sendRuntimeDictionaries(): Promise<void> {
+        const dictionaries = [...this.runtimeDictionaries].flat();
+        return logErrors(
+            this.whenReady(() => this.serverApi.setRuntimeDictionaries(dictionaries)),
+            'setRuntimeDictionaries',
+        );
+    }
+
+    /**
+     * Set the TextMate grammars used to find the scopes listed in `cSpell.checkScopes`.
+     */
+    public setTextMateGrammars(grammars: TextMateGrammarDefinition[]): Promise<void> {
+        return logErrors(
+            this.whenReady(() => this.serverApi.setTextMateGrammars(grammars)),
+            'setTextMateGrammars',
+        );
+    }
+
+    /**
+     * Choose the locale used to check a document.
+     * @param uri - the document
+     * @param locale - the locale to use, undefined to detect it.
+     */
+    public setDocumentLocale(uri: Uri, locale: string | undefined): Promise<void> {
+        return logErrors(
+            this.whenReady(() => this.serverApi.setDocumentLocale({ uri: uri.toString(), locale })),
+            'setDocumentLocale',
+        );
+    }
+
     get diagnostics(): Maybe<DiagnosticCollection> {
         return (this.client && this.client.diagnostics) || undefined;
     }
@@ -235,7 +301,7 @@ export class CSpellClient implements Disposable {
         return actions;
     }
 
-    public async requestSpellingSuggestions(word: string, document: TextDocument): Promise<SpellingSuggestionsResult> {
+    public async requestSpellingSuggestions(word: string, document: Pick<TextDocument, 'uri'>): Promise<SpellingSuggestionsResult> {
         const doc = { uri: document.uri.toString() };
         return this.serverApi.spellingSuggestions(word, doc);
     }
@@ -253,6 +319,89 @@ export class CSpellClient implements Disposable {
         });
     }
 
+    /**
+     * Spell check a document and return the issues. Nothing is published as diagnostics.
+     * If `text` is not given, the open document or the file is used.
+     */
+    public checkDocument(doc: ServerTextDocumentInfo, options?: CheckDocumentOptions): Promise<CheckDocumentResult> {
+        return this.whenReady(() => this.serverApi.checkDocument(doc, options));
+    }
+
+    /**
+     * Spell check some text and return the issues. The `uri` is only used to look up the settings.
+     */
+    public checkText(req: CheckTextRequest): Promise<CheckDocumentResult> {
+        return this.whenReady(() => this.serverApi.checkText(req));
+    }
+
+    /**
+     * List the dictionaries used to spell check a document.
+     */
+    public getDictionariesForDocument(doc: Partial<ServerTextDocumentInfo>): Promise<GetDictionariesForDocumentResult> {
+        return this.whenReady(() => this.serverApi.getDictionariesForDocument(doc));
+    }
+
+    /**
+     * Find the dictionaries, used with a document, that contain a word.
+     */
+    public findWordInDictionaries(req: FindWordInDictionariesRequest): Promise<FindWordInDictionariesResult> {
+        return this.whenReady(() => this.serverApi.findWordInDictionaries(req));
+    }
+
+    /**
+     * Explain why the word at a position in an open document is accepted or flagged.
+     */
+    public traceWord(req: TraceWordRequest): Promise<TraceWordResult> {
+        return this.whenReady(() => this.serverApi.traceWord(req));
+    }
+
+    /**
+     * Check all the files in the workspace. Results are sent as diagnostics, see {@link onDiagnostics}.
+     */
+    public checkWorkspace(req: CheckWorkspaceRequest): Promise<CheckWorkspaceResult> {
+        return this.whenReady(() => this.serverApi.checkWorkspace(req));
+    }
+
+    /**
+     * Record the known issues in the baseline files. Run {@link checkWorkspace} first to know all the issues.
+     */
+    public updateBaseline(req: UpdateBaselineRequest): Promise<UpdateBaselineResult> {
+        return this.whenReady(() => this.serverApi.updateBaseline(req));
+    }
+
+    /**
+     * Collect the words used in the workspace, how often they are used and how they are accepted.
+     */
+    public getVocabularyReport(req: GetVocabularyReportRequest): Promise<GetVocabularyReportResult> {
+        return this.whenReady(() => this.serverApi.getVocabularyReport(req));
+    }
+
+    /**
+     * Find problems in the settings of a cspell config file or a VS Code settings file.
+     */
+    public lintSettings(req: LintSettingsRequest): Promise<LintSettingsResult> {
+        return this.whenReady(() => this.serverApi.lintSettings(req));
+    }
+
+    /**
+     * The time each pattern of `ignoreRegExpList` and `includeRegExpList` took on the open documents.
+     */
+    public getRegExpProfile(): Promise<RegExpProfile> {
+        return this.whenReady(() => this.serverApi.getRegExpProfile());
+    }
+
+    public cancelWorkspaceCheck(): Promise<void> {
+        return this.whenReady(() => this.serverApi.cancelWorkspaceCheck());
+    }
+
+    public onWorkspaceCheckProgress(fn: (p: OnWorkspaceCheckProgress) => void) {
+        return this.serverApi.onWorkspaceCheckProgress(fn);
+    }
+
+    public onRegExpProfile(fn: (profile: RegExpProfile) => void) {
+        return this.serverApi.onRegExpProfile(fn);
+    }
+
     private async initWhenReady() {
         await this.onReady();
         this.registerHandleNotificationsFromServer();
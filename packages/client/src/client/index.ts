@@ -1,5 +1,9 @@
 export * from './client';
 export type {
+    CheckDocumentOptions,
+    CheckDocumentResult,
+    CheckTextRequest,
+    CheckWorkspaceResult,
     ClientSideCommandHandlerApi,
     ConfigKind,
     ConfigScope,
@@ -14,10 +18,36 @@ export type {
     CustomDictionaryScope,
     DictionaryDefinition,
     DictionaryDefinitionCustom,
+    DictionaryInfo,
+    DictionarySource,
+    DocumentLocale,
+    FindWordInDictionariesResult,
     GetConfigurationForDocumentResult,
+    GetVocabularyReportResult,
     NamedPattern,
+    OnSpellCheckDocumentStep,
+    OnWorkspaceCheckProgress,
     PatternMatch,
+    RegExpProfile,
+    RegExpProfileEntry,
+    RuntimeDictionaryDefinition,
+    SettingSource,
+    SettingsProblem,
+    SettingsProblemFix,
+    SettingsProvenance,
     SpellCheckerDiagnosticData,
     SpellCheckerSettingsProperties,
+    TextDocumentInfo,
+    TextMateGrammarDefinition,
+    TraceWordDictionary,
+    TraceWordPatternMatch,
+    TraceWordResult,
+    TraceWordStatus,
+    UpdateBaselineMode,
+    UpdateBaselineRequest,
+    UpdateBaselineResult,
+    VocabularyEntry,
+    VocabularyWordStatus,
+    WordInDictionary,
 } from './server';
 export { normalizeLocale } from './server';
@@ -3,6 +3,11 @@ import { createClientSideApi } from 'code-spell-checker-server/api';
 import type { CodeAction, CodeActionParams, Command, LanguageClient } from 'vscode-languageclient/node';
 import { CodeActionRequest } from 'vscode-languageclient/node';
 export type {
+    CheckDocumentOptions,
+    CheckDocumentResult,
+    CheckTextRequest,
+    CheckWorkspaceRequest,
+    CheckWorkspaceResult,
     ClientSideCommandHandlerApi,
     ConfigKind,
     ConfigScope,
@@ -17,33 +22,80 @@ export type {
     CustomDictionaryScope,
     DictionaryDefinition,
     DictionaryDefinitionCustom,
+    DictionaryInfo,
+    DictionarySource,
+    DocumentLocale,
     FieldExistsInTarget,
+    FindWordInDictionariesRequest,
+    FindWordInDictionariesResult,
     GetConfigurationForDocumentResult,
+    GetDictionariesForDocumentResult,
+    GetVocabularyReportRequest,
+    GetVocabularyReportResult,
     IsSpellCheckEnabledResult,
     LanguageSetting,
+    LintSettingsRequest,
+    LintSettingsResult,
     MatchPatternsToDocumentResult,
     NamedPattern,
     OnSpellCheckDocumentStep,
+    OnWorkspaceCheckProgress,
     PatternMatch,
+    RegExpProfile,
+    RegExpProfileEntry,
+    RuntimeDictionaryDefinition,
+    SettingSource,
+    SettingsProblem,
+    SettingsProblemFix,
+    SettingsProvenance,
     SpellCheckerDiagnosticData,
     SpellCheckerSettingsProperties,
     SplitTextIntoWordsResult,
+    TextDocumentInfo,
+    TextMateGrammarDefinition,
+    TraceWordDictionary,
+    TraceWordPatternMatch,
+    TraceWordRequest,
+    TraceWordResult,
+    TraceWordStatus,
+    UpdateBaselineMode,
+    UpdateBaselineRequest,
+    UpdateBaselineResult,
+    VocabularyEntry,
+    VocabularyWordStatus,
+    WordInDictionary,
     WorkspaceConfigForDocumentRequest,
     WorkspaceConfigForDocumentResponse,
 } from 'code-spell-checker-server/api';
 
 interface ServerSide {
+    checkDocument: ClientSideApi['serverRequest']['checkDocument'];
+    checkText: ClientSideApi['serverRequest']['checkText'];
+    checkWorkspace: ClientSideApi['serverRequest']['checkWorkspace'];
+    cancelWorkspaceCheck: ClientSideApi['serverNotification']['cancelWorkspaceCheck'];
+    findWordInDictionaries: ClientSideApi['serverRequest']['findWordInDictionaries'];
     getConfigurationForDocument: ClientSideApi['serverRequest']['getConfigurationForDocument'];
+    getDictionariesForDocument: ClientSideApi['serverRequest']['getDictionariesForDocument'];
+    getRegExpProfile: ClientSideApi['serverRequest']['getRegExpProfile'];
+    getVocabularyReport: ClientSideApi['serverRequest']['getVocabularyReport'];
     isSpellCheckEnabled: ClientSideApi['serverRequest']['isSpellCheckEnabled'];
+    lintSettings: ClientSideApi['serverRequest']['lintSettings'];
     notifyConfigChange: ClientSideApi['serverNotification']['notifyConfigChange'];
     registerConfigurationFile: ClientSideApi['serverNotification']['registerConfigurationFile'];
+    setRuntimeDictionaries: ClientSideApi['serverNotification']['setRuntimeDictionaries'];
+    setDocumentLocale: ClientSideApi['serverNotification']['setDocumentLocale'];
+    setTextMateGrammars: ClientSideApi['serverNotification']['setTextMateGrammars'];
+    traceWord: ClientSideApi['serverRequest']['traceWord'];
     spellingSuggestions: ClientSideApi['serverRequest']['spellingSuggestions'];
+    updateBaseline: ClientSideApi['serverRequest']['updateBaseline'];
 }
 
 interface ExtensionSide {
     onSpellCheckDocument: ClientSideApi['clientNotification']['onSpellCheckDocument']['subscribe'];
     onWorkspaceConfigForDocumentRequest: ClientSideApi['clientRequest']['onWorkspaceConfigForDocumentRequest']['subscribe'];
     onDiagnostics: ClientSideApi['clientNotification']['onDiagnostics']['subscribe'];
+    onWorkspaceCheckProgress: ClientSideApi['clientNotification']['onWorkspaceCheckProgress']['subscribe'];
+    onRegExpProfile: ClientSideApi['clientNotification']['onRegExpProfile']['subscribe'];
 }
 export interface ServerApi extends ServerSide, ExtensionSide, Disposable {}
 
@@ -62,18 +114,34 @@ export async function requestCodeAction(client: LanguageClient, params: CodeActi
 export function createServerApi(client: LanguageClient): ServerApi {
     const def: ClientSideApiDef = {
         serverRequests: {
+            checkDocument: true,
+            checkText: true,
+            checkWorkspace: true,
+            findWordInDictionaries: true,
             isSpellCheckEnabled: true,
             getConfigurationForDocument: true,
+            getDictionariesForDocument: true,
+            getRegExpProfile: true,
+            getVocabularyReport: true,
+            lintSettings: true,
             spellingSuggestions: true,
             splitTextIntoWords: true,
+            traceWord: true,
+            updateBaseline: true,
         },
         serverNotifications: {
+            cancelWorkspaceCheck: true,
             notifyConfigChange: true,
             registerConfigurationFile: true,
+            setRuntimeDictionaries: true,
+            setDocumentLocale: true,
+            setTextMateGrammars: true,
         },
         clientNotifications: {
             onSpellCheckDocument: true,
             onDiagnostics: true,
+            onWorkspaceCheckProgress: true,
+            onRegExpProfile: true,
         },
         clientRequests: {
             onWorkspaceConfigForDocumentRequest: true,
@@ -88,10 +156,26 @@ export function createServerApi(client: LanguageClient): ServerApi {
         isSpellCheckEnabled: log2Sfn(serverRequest.isSpellCheckEnabled, 'isSpellCheckEnabled'),
         getConfigurationForDocument: log2Sfn(serverRequest.getConfigurationForDocument, 'getConfigurationForDocument'),
         spellingSuggestions: log2Sfn(serverRequest.spellingSuggestions, 'spellingSuggestions'),
+        checkDocument: log2Sfn(serverRequest.checkDocument, 'checkDocument'),
+        checkText: log2Sfn(serverRequest.checkText, 'checkText'),
+        checkWorkspace: log2Sfn(serverRequest.checkWorkspace, 'checkWorkspace'),
+        getDictionariesForDocument: log2Sfn(serverRequest.getDictionariesForDocument, 'getDictionariesForDocument'),
+        getRegExpProfile: log2Sfn(serverRequest.getRegExpProfile, 'getRegExpProfile'),
+        getVocabularyReport: log2Sfn(serverRequest.getVocabularyReport, 'getVocabularyReport'),
+        lintSettings: log2Sfn(serverRequest.lintSettings, 'lintSettings'),
+        findWordInDictionaries: log2Sfn(serverRequest.findWordInDictionaries, 'findWordInDictionaries'),
+        traceWord: log2Sfn(serverRequest.traceWord, 'traceWord'),
+        updateBaseline: log2Sfn(serverRequest.updateBaseline, 'updateBaseline'),
+        cancelWorkspaceCheck: log2Sfn(serverNotification.cancelWorkspaceCheck, 'cancelWorkspaceCheck'),
         notifyConfigChange: log2Sfn(serverNotification.notifyConfigChange, 'notifyConfigChange'),
         registerConfigurationFile: log2Sfn(serverNotification.registerConfigurationFile, 'registerConfigurationFile'),
+        setRuntimeDictionaries: log2Sfn(serverNotification.setRuntimeDictionaries, 'setRuntimeDictionaries'),
+        setDocumentLocale: log2Sfn(serverNotification.setDocumentLocale, 'setDocumentLocale'),
+        setTextMateGrammars: log2Sfn(serverNotification.setTextMateGrammars, 'setTextMateGrammars'),
         onSpellCheckDocument: (fn) => clientNotification.onSpellCheckDocument.subscribe(log2Cfn(fn, 'onSpellCheckDocument')),
         onDiagnostics: (fn) => clientNotification.onDiagnostics.subscribe(log2Cfn(fn, 'onDiagnostics')),
+        onWorkspaceCheckProgress: (fn) => clientNotification.onWorkspaceCheckProgress.subscribe(log2Cfn(fn, 'onWorkspaceCheckProgress')),
+        onRegExpProfile: (fn) => clientNotification.onRegExpProfile.subscribe(log2Cfn(fn, 'onRegExpProfile')),
         onWorkspaceConfigForDocumentRequest: (fn) =>
             clientRequest.onWorkspaceConfigForDocumentRequest.subscribe(log2Cfn(fn, 'onWorkspaceConfigForDocumentRequest')),
 
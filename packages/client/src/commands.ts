@@ -4,11 +4,16 @@ import type { Position as LsPosition, Range as LsRange, TextEdit as LsTextEdit }
 
 import { addWordToFolderDictionary, addWordToTarget, addWordToUserDictionary, addWordToWorkspaceDictionary, fnWTarget } from './addWords';
 import { actionAutoFixSpellingIssues, handleApplyLsTextEdits, handleFixSpellingIssue } from './applyCorrections';
+import { actionPruneBaseline, actionRefreshBaseline } from './baseline';
+import { actionCancelWorkspaceCheck, actionCheckWorkspace } from './checkWorkspace';
 import type { ClientSideCommandHandlerApi } from './client';
 import { actionSuggestSpellingCorrections } from './codeActions/actionSuggestSpellingCorrections';
+import { actionCommitWithSpellCheck } from './commitMessage';
 import * as di from './di';
 import { getCSpellDiags } from './diags';
 import { onCommandUseDiagsSelectionOrPrompt } from './promptUser';
+import { actionShowRegExpProfile } from './regExpProfile';
+import { actionReviewSpellingFixes } from './reviewSpellingFixes';
 import type { ConfigTargetLegacy, TargetsAndScopes } from './settings';
 import * as Settings from './settings';
 import {
@@ -50,6 +55,7 @@ import { performance, toMilliseconds } from './util/perf';
 import { pVoid } from './util/pVoid';
 import { scrollToText } from './util/textEditor';
 import { toUri } from './util/uriHelper';
+import { actionExportVocabularyReport } from './vocabularyReport';
 import { findMatchingDocument } from './vscode/findDocument';
 
 const commandsFromServer: ClientSideCommandHandlerApi = {
@@ -147,10 +153,35 @@ export const commandHandlers = {
     'cSpell.selectRange': handleSelectRange,
     'cSpell.fixSpellingIssue': handleFixSpellingIssue,
     'cSpell.autoFixSpellingIssues': actionAutoFixSpellingIssues,
+    'cSpell.reviewSpellingFixes': actionReviewSpellingFixes,
+
+    'cSpell.checkWorkspace': actionCheckWorkspace,
+    'cSpell.cancelWorkspaceCheck': actionCancelWorkspaceCheck,
+    'cSpell.refreshBaseline': actionRefreshBaseline,
+    'cSpell.pruneBaseline': actionPruneBaseline,
+    'cSpell.exportVocabularyReport': actionExportVocabularyReport,
+    'cSpell.showRegExpProfile': actionShowRegExpProfile,
+
+    'cSpell.commitWithSpellCheck': actionCommitWithSpellCheck,
 
     'cSpell.issueViewer.item.openSuggestionsForIssue': handlerResolvedLater,
     'cSpell.issueViewer.item.autoFixSpellingIssues': handlerResolvedLater,
     'cSpell.issueViewer.item.addWordToDictionary': handlerResolvedLater,
+    'cSpell.issueViewer.showWorkspaceIssues': handlerResolvedLater,
+    'cSpell.issueViewer.showDocumentIssues': handlerResolvedLater,
+
+    'cSpell.dictionaryViewer.search': handlerResolvedLater,
+    'cSpell.dictionaryViewer.clearSearch': handlerResolvedLater,
+    'cSpell.dictionaryViewer.refresh': handlerResolvedLater,
+    'cSpell.dictionaryViewer.item.openDictionary': handlerResolvedLater,
+    'cSpell.dictionaryViewer.item.sortWords': handlerResolvedLater,
+    'cSpell.dictionaryViewer.item.removeDuplicateWords': handlerResolvedLater,
+    'cSpell.dictionaryViewer.item.renameWord': handlerResolvedLater,
+    'cSpell.dictionaryViewer.item.moveWord': handlerResolvedLater,
+    'cSpell.dictionaryViewer.item.deleteWord': handlerResolvedLater,
+
+    'cSpell.traceWord': handlerResolvedLater,
+    'cSpell.selectDocumentLocale': handlerResolvedLater,
 } as const satisfies CommandHandler;
 
 type ImplementedCommandHandlers = typeof commandHandlers;
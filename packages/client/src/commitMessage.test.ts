@@ -0,0 +1,24 @@
+import type { CheckDocumentResult } from './client';
+import { summarizeCommitMessageIssues } from './commitMessage';
+
+// cspell:ignore recieve wrogn
+
+describe('commitMessage', () => {
+    test('summarizeCommitMessageIssues', () => {
+        const issues = [issue(0, 'recieve', ['receive', 'relieve', 'deceive', 'receiver']), issue(2, 'wrogn', [])];
+        expect(summarizeCommitMessageIssues(issues)).toEqual({
+            message: 'Found 2 spelling issues in the commit message.',
+            detail: 'Line 1: "recieve" → receive, relieve, deceive\nLine 3: "wrogn"',
+        });
+        expect(summarizeCommitMessageIssues([issue(0, 'wrogn', ['wrong'])]).message).toBe('Found 1 spelling issue in the commit message.');
+    });
+});
+
+function issue(line: number, text: string, suggestions: string[]): CheckDocumentResult['issues'][number] {
+    return {
+        range: { start: { line, character: 0 }, end: { line, character: text.length } },
+        message: `Unknown word (${text})`,
+        source: 'cSpell',
+        data: { text, suggestions: suggestions.map((word) => ({ word })) },
+    };
+}
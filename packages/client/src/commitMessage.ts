@@ -0,0 +1,86 @@
+import type { SourceControl } from 'vscode';
+import { commands, extensions, Uri, window } from 'vscode';
+
+import type { CheckDocumentResult } from './client';
+import * as di from './di';
+import { handleErrors } from './util/errors';
+import { pvShowErrorMessage } from './util/vscodeHelpers';
+
+type CommitMessageIssue = CheckDocumentResult['issues'][number];
+
+/**
+ * The part of the API of the built-in git extension used to read the commit message.
+ */
+interface GitExtension {
+    getAPI(version: 1): GitApi;
+}
+
+interface GitApi {
+    repositories: GitRepository[];
+}
+
+interface GitRepository {
+    rootUri: Uri;
+    inputBox: { value: string };
+}
+
+export interface CommitMessageSummary {
+    message: string;
+    detail: string;
+}
+
+/**
+ * Spell check the commit message of a repository before committing.
+ * If there are issues, a summary is shown and the commit only happens if it is confirmed.
+ * @param sourceControl - the source control the command was invoked from, the first repository is used if undefined.
+ */
+export function actionCommitWithSpellCheck(sourceControl?: SourceControl): Promise<void> {
+    return handleErrors(commitWithSpellCheck(sourceControl), 'actionCommitWithSpellCheck');
+}
+
+async function commitWithSpellCheck(sourceControl: SourceControl | undefined): Promise<void> {
+    const repo = await findRepository(sourceControl?.rootUri);
+    if (!repo) {
+        return pvShowErrorMessage('No git repository found.');
+    }
+    const text = repo.inputBox.value;
+    // git asks for a message if it is empty.
+    if (text.trim()) {
+        // The settings of the repository are used with the rules for commit messages.
+        const uri = Uri.joinPath(repo.rootUri, '.git', 'COMMIT_EDITMSG').toString();
+        const result = await di.get('client').checkText({ uri, text, languageId: 'git-commit', forceCheck: true });
+        if (result.issues.length && !(await confirmCommit(summarizeCommitMessageIssues(result.issues)))) return;
+    }
+    await commands.executeCommand('git.commit', sourceControl);
+}
+
+async function confirmCommit(summary: CommitMessageSummary): Promise<boolean> {
+    const commitAnyway = 'Commit Anyway';
+    const choice = await window.showWarningMessage(summary.message, { modal: true, detail: summary.detail }, commitAnyway);
+    return choice === commitAnyway;
+}
+
+async function findRepository(rootUri: Uri | undefined): Promise<GitRepository | undefined> {
+    const gitExtension = extensions.getExtension<GitExtension>('vscode.git');
+    if (!gitExtension) return undefined;
+    const git = (gitExtension.isActive ? gitExtension.exports : await gitExtension.activate()).getAPI(1);
+    const root = rootUri?.toString();
+    return git.repositories.find((repo) => repo.rootUri.toString() === root) || git.repositories[0];
+}
+
+/**
+ * Summarize the spelling issues found in a commit message.
+ */
+export function summarizeCommitMessageIssues(issues: CommitMessageIssue[]): CommitMessageSummary {
+    const plural = issues.length === 1 ? 'issue' : 'issues';
+    const message = `Found ${issues.length} spelling ${plural} in the commit message.`;
+    const detail = issues
+        .map((issue) => {
+            const line = issue.range.start.line + 1;
+            const suggestions = issue.data.suggestions?.slice(0, 3).map((s) => s.word) || [];
+            const fix = suggestions.length ? ` → ${suggestions.join(', ')}` : '';
+            return `Line ${line}: "${issue.data.text}"${fix}`;
+        })
+        .join('\n');
+    return { message, detail };
+}
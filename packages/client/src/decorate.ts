@@ -47,7 +47,8 @@ export class SpellingIssueDecorator implements Disposable {
     refreshDiagnosticsInEditor(editor: TextEditor) {
         if (!this.decorationTypeForIssues || !this.decorationTypeForFlagged) return;
         const doc = editor.document;
-        const diags = this.issueTracker.getDiagnostics(doc.uri) || [];
+        // Baselined issues are not reported.
+        const diags = this.issueTracker.getDiagnostics(doc.uri).filter((diag) => !diag.data?.isBaselined);
 
         const decorationsIssues: DecorationOptions[] = diags
             .filter((diag) => diag.severity === DiagnosticSeverity.Hint)
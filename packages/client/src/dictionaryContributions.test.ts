@@ -0,0 +1,50 @@
+import * as path from 'path';
+import { Uri } from 'vscode';
+
+import { readDictionaryContributions } from './dictionaryContributions';
+
+describe('dictionaryContributions', () => {
+    const extensionUri = Uri.file(path.join(__dirname, 'extension'));
+
+    test('readDictionaryContributions', () => {
+        const exts = [
+            { id: 'none', extensionUri, packageJSON: {} },
+            { id: 'no-contributions', extensionUri, packageJSON: { contributes: { commands: [] } } },
+            {
+                id: 'publisher.framework-words',
+                extensionUri,
+                packageJSON: {
+                    contributes: {
+                        cSpellDictionaries: [
+                            { name: 'framework', path: './dict/framework.txt' },
+                            { name: 'framework-ts', path: 'dict/ts.trie', description: 'TypeScript', languageId: 'typescript' },
+                            { name: 'framework-fr', path: 'dict/fr.txt', locale: ['fr', 'fr-CA'] },
+                            { name: 'missing-path' },
+                            'not an object',
+                        ],
+                    },
+                },
+            },
+        ];
+
+        expect(readDictionaryContributions(exts)).toEqual([
+            {
+                name: 'framework',
+                description: 'Contributed by publisher.framework-words',
+                path: Uri.joinPath(extensionUri, 'dict/framework.txt').fsPath,
+            },
+            {
+                name: 'framework-ts',
+                description: 'TypeScript',
+                path: Uri.joinPath(extensionUri, 'dict/ts.trie').fsPath,
+                languageId: 'typescript',
+            },
+            {
+                name: 'framework-fr',
+                description: 'Contributed by publisher.framework-words',
+                path: Uri.joinPath(extensionUri, 'dict/fr.txt').fsPath,
+                locale: ['fr', 'fr-CA'],
+            },
+        ]);
+    });
+});
@@ -0,0 +1,53 @@
+import type { Extension } from 'vscode';
+import { Disposable, extensions, Uri } from 'vscode';
+
+import type { CSpellClient, RuntimeDictionaryDefinition } from './client';
+import type { DictionaryContribution, PackageJson } from './vscode/packageJson';
+
+type ExtensionInfo = Pick<Extension<unknown>, 'id' | 'extensionUri' | 'packageJSON'>;
+
+/**
+ * Register the dictionaries contributed by other extensions in `contributes.cSpellDictionaries`.
+ * The dictionaries are registered again when extensions are installed or removed.
+ */
+export function activateDictionaryContributions(client: CSpellClient): Disposable {
+    let registration = register();
+
+    function register(): Disposable | undefined {
+        const dictionaries = readDictionaryContributions(extensions.all);
+        return dictionaries.length ? client.registerDictionaries(dictionaries) : undefined;
+    }
+
+    const onChange = extensions.onDidChange(() => {
+        registration?.dispose();
+        registration = register();
+    });
+
+    return new Disposable(() => {
+        onChange.dispose();
+        registration?.dispose();
+    });
+}
+
+export function readDictionaryContributions(exts: readonly ExtensionInfo[]): RuntimeDictionaryDefinition[] {
+    return exts.flatMap((ext) => {
+        const pkg: PackageJson | undefined = ext.packageJSON;
+        const contributions = pkg?.contributes?.cSpellDictionaries;
+        if (!Array.isArray(contributions)) return [];
+        return contributions.filter(isDictionaryContribution).map((c) => toRuntimeDictionary(ext, c));
+    });
+}
+
+function toRuntimeDictionary(ext: ExtensionInfo, contribution: DictionaryContribution): RuntimeDictionaryDefinition {
+    const { name, path, description = `Contributed by ${ext.id}`, languageId, locale } = contribution;
+    const dict: RuntimeDictionaryDefinition = { name, description, path: Uri.joinPath(ext.extensionUri, path).fsPath };
+    if (languageId) dict.languageId = languageId;
+    if (locale) dict.locale = locale;
+    return dict;
+}
+
+function isDictionaryContribution(c: unknown): c is DictionaryContribution {
+    if (!c || typeof c !== 'object') return false;
+    const { name, path } = c as Partial<DictionaryContribution>;
+    return !!name && typeof name === 'string' && !!path && typeof path === 'string';
+}
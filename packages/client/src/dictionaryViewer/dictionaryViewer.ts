@@ -0,0 +1,423 @@
+import { uriToName } from '@internal/common-utils';
+import { createDisposableList } from 'utils-disposables';
+import type { Disposable, ExtensionContext, ProviderResult, TreeDataProvider } from 'vscode';
+import * as vscode from 'vscode';
+import { TreeItem, Uri } from 'vscode';
+
+import type { CSpellClient, DictionaryInfo, DictionarySource, FindWordInDictionariesResult } from '../client';
+import { knownCommands } from '../commands';
+import { createDictionaryTargetForFile } from '../settings/DictionaryTarget';
+import { vscodeFs } from '../settings/fs';
+import { createEmitter } from '../Subscribables';
+import { logErrors } from '../util/errors';
+import { parseWordList, removeDuplicateWords, removeWords, renameWord, sortWordList } from './wordList';
+
+export function activate(context: ExtensionContext, client: CSpellClient) {
+    const explorer = DictionaryExplorer.register(client);
+    context.subscriptions.push(explorer);
+    context.subscriptions.push(
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.search'], () => explorer.search()),
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.clearSearch'], () => explorer.clearSearch()),
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.refresh'], () => explorer.refresh()),
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.item.openDictionary'], handleOpenDictionary),
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.item.sortWords'], handleSortWords),
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.item.removeDuplicateWords'], handleRemoveDuplicateWords),
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.item.renameWord'], handleRenameWord),
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.item.moveWord'], handleMoveWord),
+        vscode.commands.registerCommand(knownCommands['cSpell.dictionaryViewer.item.deleteWord'], handleDeleteWord),
+    );
+}
+
+type OnDidChangeEventType = DictionaryTreeItemBase | undefined;
+
+/** The VS Code context key used to show the clear search button. */
+const contextKeyHasSearch = 'cSpell.dictionaryViewer.hasSearch';
+
+/** Large word lists are cut short, use search to find a word. */
+const maxWordsToShow = 1000;
+
+const sourceLabels: Record<DictionarySource, string> = {
+    folder: 'Folder',
+    workspace: 'Workspace',
+    user: 'User',
+    config: 'CSpell Configuration',
+    extension: 'Extensions',
+    builtIn: 'Built-in',
+    other: 'Other',
+};
+
+const sourceOrder = Object.keys(sourceLabels) as DictionarySource[];
+
+class DictionaryExplorer {
+    private disposeList = createDisposableList();
+    private treeView: vscode.TreeView<DictionaryTreeItemBase>;
+    private treeDataProvider: DictionaryTreeDataProvider;
+
+    constructor(client: CSpellClient) {
+        const treeDataProvider = new DictionaryTreeDataProvider({
+            client,
+            setDescription: (des) => {
+                this.treeView.description = des;
+            },
+            setMessage: (msg) => {
+                this.treeView.message = msg;
+            },
+        });
+        this.treeDataProvider = treeDataProvider;
+        this.treeView = vscode.window.createTreeView(DictionaryExplorer.viewID, { treeDataProvider, showCollapseAll: true });
+        this.disposeList.push(this.treeView, treeDataProvider);
+        this.treeView.title = 'Dictionaries';
+    }
+
+    async search() {
+        const word = await vscode.window.showInputBox({
+            title: 'Search Dictionaries',
+            prompt: 'Find the dictionaries that contain a word.',
+            value: this.treeDataProvider.searchWord,
+        });
+        if (word === undefined) return;
+        return this.treeDataProvider.setSearchWord(word.trim() || undefined);
+    }
+
+    clearSearch() {
+        return this.treeDataProvider.setSearchWord(undefined);
+    }
+
+    refresh() {
+        this.treeDataProvider.refresh();
+    }
+
+    readonly dispose = this.disposeList.dispose;
+
+    static viewID = 'cspell-info.dictionariesView';
+
+    static register(client: CSpellClient) {
+        return new DictionaryExplorer(client);
+    }
+}
+
+interface Context {
+    client: CSpellClient;
+    searchWord: string | undefined;
+    searchResult: FindWordInDictionariesResult | undefined;
+    /** The dictionaries that can be edited, used to move words. */
+    editableDictionaries: DictionaryInfo[];
+    invalidate: (item: OnDidChangeEventType) => void;
+}
+
+interface ProviderOptions {
+    client: CSpellClient;
+    setMessage(msg: string | undefined): void;
+    setDescription(des: string | undefined): void;
+}
+
+class DictionaryTreeDataProvider implements TreeDataProvider<DictionaryTreeItemBase> {
+    private emitOnDidChange = createEmitter<OnDidChangeEventType>();
+    private disposeList = createDisposableList();
+    private currentDocUri: Uri | undefined = undefined;
+    private client: CSpellClient;
+    searchWord: string | undefined = undefined;
+    private searchResult: FindWordInDictionariesResult | undefined = undefined;
+
+    constructor(private options: ProviderOptions) {
+        this.client = options.client;
+        this.currentDocUri = vscode.window.activeTextEditor?.document.uri;
+        this.disposeList.push(
+            this.emitOnDidChange,
+            vscode.window.onDidChangeActiveTextEditor((editor) => this.updateDocument(editor?.document.uri)),
+            vscode.workspace.onDidSaveTextDocument((doc) => this.handleOnDidSave(doc)),
+        );
+    }
+
+    async setSearchWord(word: string | undefined) {
+        this.searchWord = word;
+        this.searchResult = undefined;
+        await vscode.commands.executeCommand('setContext', contextKeyHasSearch, !!word);
+        if (word) {
+            const uri = this.currentDocUri?.toString();
+            this.searchResult = await this.client.findWordInDictionaries({ word, uri });
+        }
+        this.emitOnDidChange.notify(undefined);
+    }
+
+    refresh() {
+        this.emitOnDidChange.notify(undefined);
+    }
+
+    getTreeItem(element: DictionaryTreeItemBase): TreeItem | Promise<TreeItem> {
+        return element.getTreeItem();
+    }
+
+    getChildren(element?: DictionaryTreeItemBase | undefined): ProviderResult<DictionaryTreeItemBase[]> {
+        if (element) {
+            return element.getChildren();
+        }
+        return this.getSourceGroups();
+    }
+
+    private async getSourceGroups(): Promise<SourceTreeItem[]> {
+        const uri = this.currentDocUri;
+        const { dictionaries } = await this.client.getDictionariesForDocument({ uri: uri?.toString() });
+        const context = this.createContext(dictionaries.filter((d) => d.editable));
+        const groups = sourceOrder
+            .map((source) => new SourceTreeItem(context, source, filterBySource(dictionaries, source)))
+            .filter((g) => g.dictionaries.length);
+        this.options.setDescription(uri && uriToName(uri));
+        this.options.setMessage(this.searchMessage());
+        return groups;
+    }
+
+    private searchMessage(): string | undefined {
+        const { searchWord, searchResult } = this;
+        if (!searchWord || !searchResult) return undefined;
+        const found = searchResult.found.filter((f) => !f.forbidden).map((f) => f.name);
+        const forbidden = searchResult.found.filter((f) => f.forbidden).map((f) => f.name);
+        const messages: string[] = [];
+        found.length && messages.push(`"${searchWord}" is found in: ${found.join(', ')}.`);
+        forbidden.length && messages.push(`"${searchWord}" is forbidden by: ${forbidden.join(', ')}.`);
+        return messages.join(' ') || `"${searchWord}" was not found.`;
+    }
+
+    private createContext(editableDictionaries: DictionaryInfo[]): Context {
+        return {
+            client: this.client,
+            searchWord: this.searchWord,
+            searchResult: this.searchResult,
+            editableDictionaries,
+            invalidate: (item) => this.emitOnDidChange.notify(item),
+        };
+    }
+
+    onDidChangeTreeData(listener: (e: OnDidChangeEventType) => void, thisArg?: unknown, disposables?: Disposable[]): Disposable {
+        const fn = thisArg ? listener.bind(thisArg) : listener;
+        const d = this.emitOnDidChange.subscribe((e) => fn(e));
+        if (disposables) {
+            disposables.push(d);
+        }
+        return d;
+    }
+
+    private handleOnDidSave(doc: vscode.TextDocument) {
+        // Word lists are saved after they are edited.
+        if (!doc.uri.path.endsWith('.txt')) return;
+        this.refresh();
+    }
+
+    private updateDocument(uri: Uri | undefined) {
+        if (!uri || uri.toString() === this.currentDocUri?.toString()) return;
+        this.currentDocUri = uri;
+        if (this.searchWord) {
+            logErrors(this.setSearchWord(this.searchWord), 'DictionaryTreeDataProvider updateDocument');
+            return;
+        }
+        this.emitOnDidChange.notify(undefined);
+    }
+
+    readonly dispose = this.disposeList.dispose;
+}
+
+const icons = {
+    dictionary: new vscode.ThemeIcon('book'),
+    found: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    forbidden: new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground')),
+    word: new vscode.ThemeIcon('symbol-text'),
+    more: new vscode.ThemeIcon('ellipsis'),
+} as const;
+
+abstract class DictionaryTreeItemBase {
+    abstract getTreeItem(): TreeItem | Promise<TreeItem>;
+    abstract getChildren(): ProviderResult<DictionaryTreeItemBase[]>;
+}
+
+class SourceTreeItem extends DictionaryTreeItemBase {
+    constructor(
+        readonly context: Context,
+        readonly source: DictionarySource,
+        readonly dictionaries: DictionaryInfo[],
+    ) {
+        super();
+    }
+
+    getTreeItem(): TreeItem {
+        const hasMatch = this.dictionaries.some((d) => findInSearchResult(this.context, d));
+        const isSettings = this.source === 'folder' || this.source === 'workspace' || this.source === 'user';
+        const expand = hasMatch || isSettings || this.source === 'config';
+        const item = new TreeItem(
+            sourceLabels[this.source],
+            expand ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+        );
+        item.description = `${this.dictionaries.length}`;
+        item.contextValue = 'source';
+        return item;
+    }
+
+    getChildren() {
+        const comp = new Intl.Collator().compare;
+        return this.dictionaries.map((d) => new DictionaryTreeItem(this.context, d)).sort((a, b) => comp(a.dict.name, b.dict.name));
+    }
+}
+
+class DictionaryTreeItem extends DictionaryTreeItemBase {
+    constructor(
+        readonly context: Context,
+        readonly dict: DictionaryInfo,
+    ) {
+        super();
+    }
+
+    get uri(): Uri | undefined {
+        return this.dict.uri ? Uri.parse(this.dict.uri) : undefined;
+    }
+
+    getTreeItem(): TreeItem {
+        const { dict } = this;
+        const item = new TreeItem(
+            dict.name,
+            dict.editable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        );
+        const found = findInSearchResult(this.context, dict);
+        item.iconPath = found ? (found.forbidden ? icons.forbidden : icons.found) : icons.dictionary;
+        item.description = dict.description;
+        const tooltip = new vscode.MarkdownString().appendMarkdown(`**${dict.name}**`);
+        dict.description && tooltip.appendMarkdown(`\n\n${dict.description}`);
+        const uri = this.uri;
+        uri && tooltip.appendMarkdown(`\n\nFile: \`${uriToName(uri)}\``);
+        dict.configUri && tooltip.appendMarkdown(`\n\nDefined in: \`${uriToName(Uri.parse(dict.configUri))}\``);
+        item.tooltip = tooltip;
+        item.contextValue = dict.editable ? 'dictionary.editable' : uri ? 'dictionary.file' : 'dictionary';
+        return item;
+    }
+
+    async getChildren(): Promise<DictionaryTreeItemBase[] | undefined> {
+        const uri = this.uri;
+        if (!uri || !this.dict.editable) return undefined;
+        const words = parseWordList(await readWordList(uri));
+        const searchWord = this.context.searchWord?.toLowerCase();
+        const matching = searchWord ? words.filter((w) => w.toLowerCase().includes(searchWord)) : words;
+        const items: DictionaryTreeItemBase[] = matching.slice(0, maxWordsToShow).map((w) => new WordTreeItem(this.context, this, w));
+        if (matching.length > maxWordsToShow) {
+            items.push(new MoreWordsTreeItem(matching.length - maxWordsToShow));
+        }
+        return items;
+    }
+
+    updateWords(fn: (text: string) => string) {
+        const uri = this.uri;
+        if (!uri) return;
+        return updateWordList(uri, fn);
+    }
+}
+
+class WordTreeItem extends DictionaryTreeItemBase {
+    constructor(
+        readonly context: Context,
+        readonly parent: DictionaryTreeItem,
+        readonly word: string,
+    ) {
+        super();
+    }
+
+    getTreeItem(): TreeItem {
+        const item = new TreeItem(this.word);
+        item.iconPath = icons.word;
+        item.contextValue = 'word';
+        return item;
+    }
+
+    getChildren() {
+        return undefined;
+    }
+}
+
+class MoreWordsTreeItem extends DictionaryTreeItemBase {
+    constructor(readonly count: number) {
+        super();
+    }
+
+    getTreeItem(): TreeItem {
+        const item = new TreeItem(`${this.count} more words`);
+        item.iconPath = icons.more;
+        item.tooltip = 'Search to find a word.';
+        return item;
+    }
+
+    getChildren() {
+        return undefined;
+    }
+}
+
+function filterBySource(dictionaries: DictionaryInfo[], source: DictionarySource): DictionaryInfo[] {
+    return dictionaries.filter((d) => d.source === source);
+}
+
+function findInSearchResult(context: Context, dict: DictionaryInfo) {
+    return context.searchResult?.found.find((f) => f.name === dict.name);
+}
+
+async function readWordList(uri: Uri): Promise<string> {
+    try {
+        return await vscodeFs.readFile(uri, 'utf8');
+    } catch (e) {
+        if (vscodeFs.isFileNotFoundError(e)) return '';
+        throw e;
+    }
+}
+
+async function updateWordList(uri: Uri, fn: (text: string) => string): Promise<void> {
+    const text = await readWordList(uri);
+    const updated = fn(text);
+    if (updated === text) return;
+    await vscodeFs.writeFile(uri, updated);
+}
+
+async function handleOpenDictionary(item?: DictionaryTreeItem) {
+    if (!(item instanceof DictionaryTreeItem)) return;
+    const uri = item.uri;
+    if (!uri) return;
+    await vscode.window.showTextDocument(uri);
+}
+
+async function handleSortWords(item?: DictionaryTreeItem) {
+    if (!(item instanceof DictionaryTreeItem)) return;
+    await item.updateWords(sortWordList);
+    item.context.invalidate(item);
+}
+
+async function handleRemoveDuplicateWords(item?: DictionaryTreeItem) {
+    if (!(item instanceof DictionaryTreeItem)) return;
+    await item.updateWords(removeDuplicateWords);
+    item.context.invalidate(item);
+}
+
+async function handleRenameWord(item?: WordTreeItem) {
+    if (!(item instanceof WordTreeItem)) return;
+    const { word, parent } = item;
+    const newWord = await vscode.window.showInputBox({ title: `Rename "${word}"`, value: word, valueSelection: [0, word.length] });
+    if (!newWord?.trim() || newWord.trim() === word) return;
+    await parent.updateWords((text) => renameWord(text, word, newWord.trim()));
+    item.context.invalidate(parent);
+}
+
+async function handleMoveWord(item?: WordTreeItem) {
+    if (!(item instanceof WordTreeItem)) return;
+    const { word, parent, context } = item;
+    const targets = context.editableDictionaries
+        .filter((d) => d.uri && d.uri !== parent.dict.uri)
+        .map((dict) => ({ label: dict.name, description: dict.description, dict }));
+    if (!targets.length) {
+        await vscode.window.showInformationMessage('There are no other dictionaries to move the word to.');
+        return;
+    }
+    const pick = await vscode.window.showQuickPick(targets, { title: `Move "${word}" to Dictionary` });
+    if (!pick?.dict.uri) return;
+    await createDictionaryTargetForFile(Uri.parse(pick.dict.uri), pick.dict.name).addWords([word]);
+    await parent.updateWords((text) => removeWords(text, [word]));
+    context.invalidate(undefined);
+}
+
+async function handleDeleteWord(item?: WordTreeItem) {
+    if (!(item instanceof WordTreeItem)) return;
+    const { word, parent } = item;
+    await parent.updateWords((text) => removeWords(text, [word]));
+    item.context.invalidate(parent);
+}
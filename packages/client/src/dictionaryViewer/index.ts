@@ -0,0 +1 @@
+export { activate as activateDictionaryViewer } from './dictionaryViewer';
@@ -0,0 +1,36 @@
+import { parseWordList, removeDuplicateWords, removeWords, renameWord, sortWordList } from './wordList';
+
+describe('wordList', () => {
+    const sample = ['# Project words', '', 'zebra', '# Why apple is here', 'apple', 'mango', 'apple', '  ', 'banana', ''].join('\n');
+
+    test('parseWordList', () => {
+        expect(parseWordList(sample)).toEqual(['zebra', 'apple', 'mango', 'apple', 'banana']);
+        expect(parseWordList('')).toEqual([]);
+    });
+
+    test('renameWord', () => {
+        expect(renameWord('one\r\ntwo\n# two\n', 'two', 'three')).toBe('one\nthree\n# two\n');
+    });
+
+    test('removeWords', () => {
+        expect(removeWords(sample, ['apple', 'banana'])).toBe(
+            ['# Project words', '', 'zebra', '# Why apple is here', 'mango', '  ', ''].join('\n'),
+        );
+        expect(removeWords('one\n', ['one'])).toBe('');
+    });
+
+    test('removeDuplicateWords', () => {
+        expect(parseWordList(removeDuplicateWords(sample))).toEqual(['zebra', 'apple', 'mango', 'banana']);
+        expect(removeDuplicateWords(sample)).toEqual(expect.stringContaining('# Why apple is here'));
+    });
+
+    test.each`
+        text                          | expected
+        ${sample}                     | ${['# Project words', '', '# Why apple is here', 'apple', 'apple', 'banana', 'mango', 'zebra', ''].join('\n')}
+        ${'b\na\n# trailing comment'} | ${'a\nb\n# trailing comment\n'}
+        ${'# only comments\n'}        | ${'# only comments\n'}
+        ${''}                         | ${''}
+    `('sortWordList $text', ({ text, expected }) => {
+        expect(sortWordList(text)).toBe(expected);
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Editing helpers for word list (`.txt`) dictionaries.
+ *
+ * A word list has one entry per line. Lines starting with `#` are comments.
+ * The helpers keep the comments and only touch the lines they need to.
+ */
+
+const regComment = /^\s*#/;
+
+function splitLines(text: string): string[] {
+    const lines = text.split(/\r?\n/g);
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+}
+
+function joinLines(lines: string[]): string {
+    return lines.length ? lines.join('\n') + '\n' : '';
+}
+
+function isWordLine(line: string): boolean {
+    return !!line.trim() && !regComment.test(line);
+}
+
+export function parseWordList(text: string): string[] {
+    return splitLines(text)
+        .filter(isWordLine)
+        .map((line) => line.trim());
+}
+
+export function renameWord(text: string, word: string, newWord: string): string {
+    return joinLines(splitLines(text).map((line) => (isWordLine(line) && line.trim() === word ? newWord : line)));
+}
+
+export function removeWords(text: string, words: string[]): string {
+    const toRemove = new Set(words);
+    return joinLines(splitLines(text).filter((line) => !isWordLine(line) || !toRemove.has(line.trim())));
+}
+
+/**
+ * Only keep the first occurrence of each word.
+ */
+export function removeDuplicateWords(text: string): string {
+    const seen = new Set<string>();
+    function keep(line: string): boolean {
+        if (!isWordLine(line)) return true;
+        const word = line.trim();
+        if (seen.has(word)) return false;
+        seen.add(word);
+        return true;
+    }
+    return joinLines(splitLines(text).filter(keep));
+}
+
+/**
+ * Sort the words. The comments at the top of the file stay at the top,
+ * other comments move with the word that follows them. Blank lines are removed.
+ */
+export function sortWordList(text: string): string {
+    const lines = splitLines(text);
+    const headerLength = lines.findIndex(isWordLine);
+    if (headerLength < 0) return text;
+    const header = lines.slice(0, headerLength);
+
+    interface Entry {
+        word: string;
+        lines: string[];
+    }
+
+    const entries: Entry[] = [];
+    let pending: string[] = [];
+    for (const line of lines.slice(headerLength)) {
+        if (!line.trim()) continue;
+        if (!isWordLine(line)) {
+            pending.push(line);
+            continue;
+        }
+        entries.push({ word: line.trim(), lines: [...pending, line] });
+        pending = [];
+    }
+
+    const compare = new Intl.Collator().compare;
+    entries.sort((a, b) => compare(a.word, b.word));
+    return joinLines([...header, ...entries.flatMap((e) => e.lines), ...pending]);
+}
@@ -10,15 +10,21 @@ import * as commands from './commands';
 import { updateDocumentRelatedContext } from './context';
 import { SpellingIssueDecorator } from './decorate';
 import * as di from './di';
-import type { ExtensionApi } from './extensionApi';
+import { activateDictionaryContributions } from './dictionaryContributions';
+import { activateDictionaryViewer } from './dictionaryViewer';
+import type { CheckDocumentOptions, CheckDocumentRequest, CheckTextRequest, ExtensionApi } from './extensionApi';
+import { createExtensionApiV1 } from './extensionApiV1';
 import * as ExtensionRegEx from './extensionRegEx';
+import { activateGrammarContributions } from './grammarContributions';
 import * as settingsViewer from './infoViewer/infoView';
 import { IssueTracker } from './issueTracker';
 import { activateIssueViewer } from './issueViewer';
 import * as modules from './modules';
+import { activateRegExpProfile } from './regExpProfile';
 import type { ConfigTargetLegacy } from './settings';
 import * as settings from './settings';
 import { sectionCSpell } from './settings';
+import { activateSettingsLinter } from './settingsLinter';
 import { initStatusBar } from './statusbar';
 import { logErrors, silenceErrors } from './util/errors';
 import { performance } from './util/perf';
@@ -70,6 +76,7 @@ export async function activate(context: ExtensionContext): Promise<ExtensionApi>
     const configWatcher = vscode.workspace.createFileSystemWatcher(settings.configFileLocationGlob);
     const decorator = new SpellingIssueDecorator(issueTracker);
     activateIssueViewer(context, issueTracker, client);
+    activateDictionaryViewer(context, client);
 
     // Push the disposable to the context's subscriptions so that the
     // client can be deactivated on extension deactivation
@@ -88,6 +95,10 @@ export async function activate(context: ExtensionContext): Promise<ExtensionApi>
         vscode.window.onDidChangeVisibleTextEditors(handleOnDidChangeVisibleTextEditors),
         vscode.languages.onDidChangeDiagnostics(handleOnDidChangeDiagnostics),
         decorator,
+        activateDictionaryContributions(client),
+        activateGrammarContributions(client),
+        activateSettingsLinter(client),
+        activateRegExpProfile(client),
         registerSpellCheckerCodeActionProvider(issueTracker),
 
         ...commands.registerCommands(),
@@ -173,6 +184,10 @@ export async function activate(context: ExtensionContext): Promise<ExtensionApi>
         disableLocale: (target: ConfigTargetLegacy | boolean, locale: string) => commands.enableDisableLocaleLegacy(target, locale, false),
     };
 
+    const apiVersions = {
+        1: createExtensionApiV1(),
+    };
+
     const server = {
         registerConfig,
         triggerGetSettings,
@@ -186,6 +201,10 @@ export async function activate(context: ExtensionContext): Promise<ExtensionApi>
         disableLocale: methods.disableLocale,
         updateSettings: () => false,
         cSpellClient: () => client,
+        checkDocument: (doc: CheckDocumentRequest, options?: CheckDocumentOptions) =>
+            client.checkDocument({ ...doc, uri: doc.uri.toString() }, options),
+        checkText: (req: CheckTextRequest) => client.checkText(req),
+        getApi: (version: 1) => apiVersions[version],
         getConfigurationForDocument: (doc: vscode.TextDocument) => client.getConfigurationForDocument(doc),
 
         // Legacy
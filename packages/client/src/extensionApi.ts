@@ -1,8 +1,36 @@
-import type { Uri } from 'vscode';
+import type { Disposable, Uri } from 'vscode';
 
-import type { CSpellClient } from './client';
+import type {
+    CheckDocumentOptions,
+    CheckDocumentResult,
+    CheckTextRequest,
+    ConfigTarget,
+    CSpellClient,
+    DiagnosticsFromServer,
+    GetConfigurationForDocumentResult,
+    OnSpellCheckDocumentStep,
+    RuntimeDictionaryDefinition,
+    TextDocumentInfo,
+} from './client';
+import type { SpellingDiagnostic } from './issueTracker';
 import type { ConfigTargetLegacy } from './settings';
 
+export type {
+    CheckDocumentOptions,
+    CheckDocumentResult,
+    CheckTextRequest,
+    ConfigTarget,
+    GetConfigurationForDocumentResult,
+    OnSpellCheckDocumentStep,
+    RuntimeDictionaryDefinition,
+    TextDocumentInfo,
+} from './client';
+export type { SpellingDiagnostic } from './issueTracker';
+
+export interface CheckDocumentRequest extends Omit<TextDocumentInfo, 'uri'> {
+    uri: string | Uri;
+}
+
 export interface ExtensionApi {
     registerConfig(path: string): void;
     triggerGetSettings(): void;
@@ -16,6 +44,87 @@ export interface ExtensionApi {
     disableLocale(target: ConfigTargetLegacy, locale: string): Thenable<void>;
     updateSettings(): boolean;
     cSpellClient(): CSpellClient;
+    /**
+     * Spell check a document using its settings. If `text` is not given, the open document or the file is checked.
+     * The issues are returned, they are not shown in the editor.
+     */
+    checkDocument(doc: CheckDocumentRequest, options?: CheckDocumentOptions): Thenable<CheckDocumentResult>;
+    /**
+     * Spell check some text. If a `uri` is given, the settings for that document are used.
+     */
+    checkText(req: CheckTextRequest): Thenable<CheckDocumentResult>;
+    /**
+     * Get a versioned api. Prefer it over the other members, they are kept for backwards compatibility.
+     * @param version - the api version.
+     */
+    getApi(version: 1): ExtensionApiV1;
+    /** @deprecated use {@link ExtensionApi.enableLocale} */
     enableLocal(isGlobal: boolean, locale: string): Thenable<void>;
+    /** @deprecated use {@link ExtensionApi.disableLocale} */
     disableLocal(isGlobal: boolean, locale: string): Thenable<void>;
 }
+
+/**
+ * Where to add or remove words:
+ * - `user`, `workspace` or `folder` - the closest dictionary or settings in that scope.
+ * - a target from {@link GetConfigurationForDocumentResult.configTargets}, see {@link ExtensionApiV1.getSettings}.
+ */
+export type WordsTarget = 'user' | 'workspace' | 'folder' | ConfigTarget;
+
+export type DiagnosticsEvent = DiagnosticsFromServer;
+
+/**
+ * Version 1 of the api.
+ *
+ * It follows semver: members are only added, never removed or changed.
+ * A breaking change means a new version, the older versions stay available from {@link ExtensionApi.getApi}.
+ */
+export interface ExtensionApiV1 {
+    readonly version: 1;
+    /**
+     * Spell check some text. If a `uri` is given, the settings for that document are used.
+     * The issues include the suggestions.
+     */
+    checkText(req: CheckTextRequest): Thenable<CheckDocumentResult>;
+    /**
+     * Spell check a document using its settings. If `text` is not given, the open document or the file is checked.
+     * The issues are returned, they are not shown in the editor.
+     */
+    checkDocument(doc: CheckDocumentRequest, options?: CheckDocumentOptions): Thenable<CheckDocumentResult>;
+    /**
+     * The issues currently shown for a document. Only open documents and the results of a workspace check have issues.
+     */
+    getIssues(uri: Uri): SpellingDiagnostic[];
+    /**
+     * Called each time the issues for a document are published.
+     */
+    onDiagnostics(listener: (event: DiagnosticsEvent) => void): Disposable;
+    /**
+     * Called when the server has checked a document.
+     */
+    onSpellCheckDocument(listener: (event: OnSpellCheckDocumentStep) => void): Disposable;
+    /**
+     * Add words to a dictionary or settings.
+     * @param words - the words to add.
+     * @param target - where to add the words.
+     * @param uri - the related document, used to find the folder and workspace targets.
+     */
+    addWords(words: string[], target: WordsTarget, uri?: Uri): Thenable<void>;
+    /**
+     * Remove words from a dictionary or settings.
+     * @param words - the words to remove.
+     * @param target - where to remove the words.
+     * @param uri - the related document, used to find the folder and workspace targets.
+     */
+    removeWords(words: string[], target: WordsTarget, uri?: Uri): Thenable<void>;
+    /**
+     * Add dictionaries to the settings of every document.
+     * @returns a disposable that removes the dictionaries.
+     */
+    registerDictionaries(dictionaries: RuntimeDictionaryDefinition[]): Disposable;
+    /**
+     * The settings that apply to a document.
+     * @param doc - the document, undefined for the workspace settings.
+     */
+    getSettings(doc?: { uri: Uri; languageId?: string }): Thenable<GetConfigurationForDocumentResult>;
+}
@@ -0,0 +1,79 @@
+import { ConfigurationTarget, Uri } from 'vscode';
+
+import type { ConfigTarget } from './client';
+import * as di from './di';
+import { __testing__, createExtensionApiV1 } from './extensionApiV1';
+import { createClientConfigTargetVSCode, UnableToFindTarget } from './settings/configTargetHelper';
+
+const { resolveWordsTarget } = __testing__;
+
+describe('extensionApiV1', () => {
+    const client = {
+        checkText: jest.fn(),
+        checkDocument: jest.fn(),
+        onDiagnostics: jest.fn(),
+        onSpellCheckDocumentNotification: jest.fn(),
+        registerDictionaries: jest.fn(),
+        getConfigurationForDocument: jest.fn(),
+    };
+    const issueTracker = { getDiagnostics: jest.fn() };
+    const dictionaryHelper = { addWordsToTargets: jest.fn(), removeWordsFromTargets: jest.fn() };
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        di.set('client', client as any);
+        di.set('issueTracker', issueTracker as any);
+        di.set('dictionaryHelper', dictionaryHelper as any);
+    });
+
+    afterAll(di.__testing__.init);
+
+    test('delegates to the client', () => {
+        const api = createExtensionApiV1();
+        const uri = Uri.file(__filename);
+        expect(api.version).toBe(1);
+
+        api.checkText({ text: 'text' });
+        expect(client.checkText).toHaveBeenLastCalledWith({ text: 'text' });
+
+        api.checkDocument({ uri }, { forceCheck: true });
+        expect(client.checkDocument).toHaveBeenLastCalledWith({ uri: uri.toString() }, { forceCheck: true });
+
+        api.getIssues(uri);
+        expect(issueTracker.getDiagnostics).toHaveBeenLastCalledWith(uri);
+
+        const listener = jest.fn();
+        api.onDiagnostics(listener);
+        expect(client.onDiagnostics).toHaveBeenLastCalledWith(listener);
+        api.onSpellCheckDocument(listener);
+        expect(client.onSpellCheckDocumentNotification).toHaveBeenLastCalledWith(listener);
+
+        const dictionaries = [{ name: 'words', path: '/words.txt' }];
+        api.registerDictionaries(dictionaries);
+        expect(client.registerDictionaries).toHaveBeenLastCalledWith(dictionaries);
+
+        api.getSettings({ uri });
+        expect(client.getConfigurationForDocument).toHaveBeenLastCalledWith({ uri });
+    });
+
+    test('addWords and removeWords', () => {
+        const api = createExtensionApiV1();
+        const uri = Uri.file(__filename);
+        api.addWords(['one'], 'user', uri);
+        expect(dictionaryHelper.addWordsToTargets).toHaveBeenLastCalledWith(['one'], expect.any(Function), uri);
+        api.removeWords(['one'], 'workspace');
+        expect(dictionaryHelper.removeWordsFromTargets).toHaveBeenLastCalledWith(['one'], expect.any(Function), undefined);
+    });
+
+    test('resolveWordsTarget', () => {
+        const user = createClientConfigTargetVSCode(ConfigurationTarget.Global, undefined, undefined);
+        const workspace = createClientConfigTargetVSCode(ConfigurationTarget.Workspace, undefined, undefined);
+        const matchUser = resolveWordsTarget('user');
+        const matchFolder = resolveWordsTarget('folder');
+        expect(typeof matchUser === 'function' && matchUser([workspace, user])).toEqual([user]);
+        expect(() => typeof matchFolder === 'function' && matchFolder([workspace, user])).toThrow(UnableToFindTarget);
+
+        const target: ConfigTarget = { kind: 'dictionary', scope: 'workspace', name: 'words', dictionaryUri: 'file:///words.txt' };
+        expect(resolveWordsTarget(target)).toEqual([expect.objectContaining({ kind: 'dictionary', name: 'words' })]);
+    });
+});
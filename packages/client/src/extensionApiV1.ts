@@ -0,0 +1,58 @@
+import * as di from './di';
+import type { CheckDocumentRequest, ExtensionApiV1, WordsTarget } from './extensionApi';
+import type { ClientConfigTarget } from './settings/clientConfigTarget';
+import type { ConfigTargetMatchPattern, MatchTargetsSyncFn } from './settings/configTargetHelper';
+import {
+    createConfigTargetMatchPattern,
+    findBestMatchingConfigTargets,
+    matchKindAll,
+    matchScopeFolder,
+    matchScopeUser,
+    matchScopeWorkspace,
+    UnableToFindTarget,
+} from './settings/configTargetHelper';
+import { mapConfigTargetToClientConfigTarget } from './settings/mappers/configTarget';
+
+const scopeMasks: Record<Exclude<WordsTarget, object>, ConfigTargetMatchPattern> = {
+    user: matchScopeUser,
+    workspace: matchScopeWorkspace,
+    folder: matchScopeFolder,
+};
+
+export function createExtensionApiV1(): ExtensionApiV1 {
+    const client = () => di.get('client');
+
+    return {
+        version: 1,
+        checkText: (req) => client().checkText(req),
+        checkDocument: (doc: CheckDocumentRequest, options) => client().checkDocument({ ...doc, uri: doc.uri.toString() }, options),
+        getIssues: (uri) => di.get('issueTracker').getDiagnostics(uri),
+        onDiagnostics: (listener) => client().onDiagnostics(listener),
+        onSpellCheckDocument: (listener) => client().onSpellCheckDocumentNotification(listener),
+        addWords: (words, target, uri) => di.get('dictionaryHelper').addWordsToTargets(words, resolveWordsTarget(target), uri),
+        removeWords: (words, target, uri) => di.get('dictionaryHelper').removeWordsFromTargets(words, resolveWordsTarget(target), uri),
+        registerDictionaries: (dictionaries) => client().registerDictionaries(dictionaries),
+        getSettings: (doc) => client().getConfigurationForDocument(doc),
+    };
+}
+
+function resolveWordsTarget(target: WordsTarget): ClientConfigTarget[] | MatchTargetsSyncFn {
+    if (typeof target === 'object') return [mapConfigTargetToClientConfigTarget(target)];
+    return bestMatchTarget(target, scopeMasks[target]);
+}
+
+/**
+ * Like the `dictionaryTargetBestMatches*` functions, but never asks the user to choose.
+ */
+function bestMatchTarget(name: string, scope: ConfigTargetMatchPattern): MatchTargetsSyncFn {
+    const pattern = createConfigTargetMatchPattern(matchKindAll, scope);
+    return (configTargets) => {
+        const [found] = findBestMatchingConfigTargets(pattern, configTargets);
+        if (!found) throw new UnableToFindTarget(`No matching configuration found for "${name}".`);
+        return [found];
+    };
+}
+
+export const __testing__ = {
+    resolveWordsTarget,
+};
@@ -0,0 +1,37 @@
+import * as path from 'path';
+import { Uri } from 'vscode';
+
+import { readGrammarContributions } from './grammarContributions';
+
+describe('grammarContributions', () => {
+    const extensionUri = Uri.file(path.join(__dirname, 'extension'));
+
+    test('readGrammarContributions', () => {
+        const exts = [
+            { extensionUri, packageJSON: {} },
+            { extensionUri, packageJSON: { contributes: { commands: [] } } },
+            {
+                extensionUri,
+                packageJSON: {
+                    contributes: {
+                        grammars: [
+                            { language: 'typescript', scopeName: 'source.ts', path: './syntaxes/TypeScript.tmLanguage.json' },
+                            // Injection grammars do not have a language.
+                            { scopeName: 'documentation.injection.ts', path: './syntaxes/jsdoc.ts.injection.tmLanguage.json' },
+                            { language: 'python', scopeName: 'source.python' },
+                            'not an object',
+                        ],
+                    },
+                },
+            },
+        ];
+
+        expect(readGrammarContributions(exts)).toEqual([
+            {
+                languageId: 'typescript',
+                scopeName: 'source.ts',
+                path: Uri.joinPath(extensionUri, 'syntaxes/TypeScript.tmLanguage.json').fsPath,
+            },
+        ]);
+    });
+});
@@ -0,0 +1,42 @@
+import type { Extension } from 'vscode';
+import { Disposable, extensions, Uri } from 'vscode';
+
+import type { CSpellClient, TextMateGrammarDefinition } from './client';
+import type { GrammarContribution, PackageJson } from './vscode/packageJson';
+
+type ExtensionInfo = Pick<Extension<unknown>, 'extensionUri' | 'packageJSON'>;
+
+/**
+ * Send the TextMate grammars contributed by the installed extensions to the server.
+ * They are used to find the scopes listed in `cSpell.checkScopes`.
+ * The grammars are sent again when extensions are installed or removed.
+ */
+export function activateGrammarContributions(client: CSpellClient): Disposable {
+    function send() {
+        return client.setTextMateGrammars(readGrammarContributions(extensions.all));
+    }
+
+    send();
+    const onChange = extensions.onDidChange(send);
+
+    return new Disposable(() => onChange.dispose());
+}
+
+export function readGrammarContributions(exts: readonly ExtensionInfo[]): TextMateGrammarDefinition[] {
+    return exts.flatMap((ext) => {
+        const pkg: PackageJson | undefined = ext.packageJSON;
+        const contributions = pkg?.contributes?.grammars;
+        if (!Array.isArray(contributions)) return [];
+        return contributions.filter(isLanguageGrammar).map((c) => ({
+            languageId: c.language,
+            scopeName: c.scopeName,
+            path: Uri.joinPath(ext.extensionUri, c.path).fsPath,
+        }));
+    });
+}
+
+function isLanguageGrammar(c: unknown): c is Required<GrammarContribution> {
+    if (!c || typeof c !== 'object') return false;
+    const { language, scopeName, path } = c as Partial<GrammarContribution>;
+    return !!language && typeof language === 'string' && typeof scopeName === 'string' && !!path && typeof path === 'string';
+}
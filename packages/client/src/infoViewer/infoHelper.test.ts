@@ -1,9 +1,11 @@
 import type { CSpellSettings } from '@cspell/cspell-types';
 import { importCSpellLib } from '@internal/cspell-helper';
 import assert from 'assert';
+import { Uri } from 'vscode';
 
+import type { TraceWordResult } from '../client';
 import { isDefined } from '../util';
-import { __testing__ } from './infoHelper';
+import { __testing__, toWordTrace } from './infoHelper';
 
 const { applyEnableFiletypesToEnabledLanguageIds, calcEnableLang, extractDictionariesFromConfig, normalizeLocales, splitBangPrefix } =
     __testing__;
@@ -83,6 +85,51 @@ describe('infoHelper', () => {
     test('extractDictionariesFromConfig undefined', async () => {
         expect(extractDictionariesFromConfig(undefined)).toEqual([]);
     });
+
+    test('toWordTrace', () => {
+        const uri = Uri.file(__filename);
+        const result: TraceWordResult = {
+            uri: uri.toString(),
+            word: 'example',
+            range: { start: { line: 4, character: 10 }, end: { line: 4, character: 17 } },
+            status: 'ignored',
+            caseSensitive: false,
+            dictionaries: [{ name: 'en_us', active: true, forbidden: false, noSuggest: false, foundWord: 'example' }],
+            flagWords: [],
+            ignoreWords: [],
+            ignoredBy: [
+                { name: 'Urls', regexp: '/https?:\\S+/g', range: { start: { line: 4, character: 0 }, end: { line: 4, character: 20 } } },
+            ],
+            notIncluded: false,
+            inDocument: [],
+        };
+        const getText = jest.fn(() => 'https://example.com/');
+        expect(toWordTrace(result, { uri, getText })).toEqual({
+            word: 'example',
+            uri: uri.toString(),
+            fileName: expect.stringContaining('infoHelper.test.ts'),
+            line: 5,
+            status: 'ignored',
+            caseSensitive: false,
+            dictionaries: [
+                {
+                    name: 'en_us',
+                    uriName: undefined,
+                    configUriName: undefined,
+                    active: true,
+                    forbidden: false,
+                    noSuggest: false,
+                    foundWord: 'example',
+                },
+            ],
+            flagWords: [],
+            ignoreWords: [],
+            ignoredBy: [{ name: 'Urls', regexp: '/https?:\\S+/g', text: 'https://example.com/' }],
+            notIncluded: false,
+            inDocument: [],
+        });
+        expect(getText).toHaveBeenCalledTimes(1);
+    });
 });
 
 let sampleSettings: CSpellSettings | undefined;
@@ -10,6 +10,7 @@ import type {
     FileConfig,
     Settings,
     TextDocument,
+    WordTrace,
     Workspace,
     WorkspaceFolder,
 } from 'webview-api';
@@ -22,6 +23,8 @@ import type {
     DictionaryDefinition,
     DictionaryDefinitionCustom,
     GetConfigurationForDocumentResult,
+    TraceWordPatternMatch,
+    TraceWordResult,
 } from '../client';
 import type { Inspect, InspectValues } from '../settings';
 import { inspectConfig } from '../settings';
@@ -29,6 +32,7 @@ import type { Maybe } from '../util';
 import { uniqueFilter } from '../util';
 import { defaultTo, map, pipe } from '../util/pipe';
 import { toUri } from '../util/uriHelper';
+import { toSettingProvenance } from './settingsProvenance';
 
 type Logger = typeof console.log;
 
@@ -83,7 +87,7 @@ function extractViewerConfigFromConfig(
         user: extractNearestConfig(1, config),
         workspace: extractNearestConfig(2, config),
         folder: extractNearestConfig(3, config),
-        file: extractFileConfig(docConfig, doc, log),
+        file: extractFileConfig(docConfig, doc, config, log),
     };
 }
 
@@ -140,6 +144,7 @@ function mapExcludedBy(refs: GetConfigurationForDocumentResult['excludedBy']): F
 function extractFileConfig(
     docConfig: GetConfigurationForDocumentResult,
     doc: vscode.TextDocument | undefined,
+    config: Inspect<CSpellUserSettings>,
     log: Logger,
 ): FileConfig | undefined {
     if (!doc) return undefined;
@@ -154,6 +159,7 @@ function extractFileConfig(
         excludedBy,
         uriUsed,
         workspaceFolderUri,
+        provenance,
     } = docConfig;
     const enabledDicts = new Set<string>((docSettings && docSettings.dictionaries) || []);
     const dictionaries = extractDictionariesFromConfig(docSettings).filter((dic) => enabledDicts.has(dic.name));
@@ -196,10 +202,37 @@ function extractFileConfig(
         gitignoreInfo: extractGitignoreInfo(),
         blockedReason: docConfig.blockedReason,
         workspaceFolder: folderInfo(folder),
+        provenance: provenance && toSettingProvenance(provenance, config),
     };
     return cfg;
 }
 
+/**
+ * Convert the result of tracing a word into the form used by the viewer.
+ * @param result - the trace result from the server.
+ * @param document - the document that was traced, used to extract the text matched by patterns.
+ */
+export function toWordTrace(result: TraceWordResult, document: Pick<vscode.TextDocument, 'getText' | 'uri'>): WordTrace {
+    const { word, status, caseSensitive, flagWords, ignoreWords, notIncluded, inDocument } = result;
+    const toName = (uri: string | undefined) => (uri ? normalizeUriToFriendlyName(toUri(uri)) : undefined);
+    const toRange = ({ start, end }: TraceWordPatternMatch['range']) =>
+        new vscode.Range(start.line, start.character, end.line, end.character);
+    return {
+        word,
+        uri: result.uri,
+        fileName: uriToName(document.uri),
+        line: result.range && result.range.start.line + 1,
+        status,
+        caseSensitive,
+        dictionaries: result.dictionaries.map((d) => ({ ...d, uriName: toName(d.uri), configUriName: toName(d.configUri) })),
+        flagWords,
+        ignoreWords,
+        ignoredBy: result.ignoredBy.map(({ name, regexp, range }) => ({ name, regexp, text: document.getText(toRange(range)) })),
+        notIncluded,
+        inDocument,
+    };
+}
+
 function folderInfo(folder: vscode.WorkspaceFolder | undefined): WorkspaceFolder | undefined {
     if (!folder) return undefined;
 
@@ -6,6 +6,7 @@ import type {
     SelectFileMessage,
     SelectFolderMessage,
     SelectTabMessage,
+    UpdateSettingMessage,
     WebviewApi,
 } from '@internal/settings-webview';
 import { MessageBus } from '@internal/settings-webview';
@@ -13,17 +14,19 @@ import * as Kefir from 'kefir';
 import { format, promisify } from 'util';
 import * as vscode from 'vscode';
 import { Uri } from 'vscode';
-import type { ConfigTarget, Settings } from 'webview-api';
+import type { ConfigTarget, Settings, WordTrace } from 'webview-api';
 
 import type { CSpellClient } from '../client';
-import { enableDisableLanguageId, enableDisableLocale } from '../commands';
+import { enableDisableLanguageId, enableDisableLocale, knownCommands } from '../commands';
 import type { Disposable } from '../disposable';
 import { getSettingFromVSConfig } from '../settings';
 import type { Maybe } from '../util';
+import { showErrors } from '../util/errors';
 import { toUri } from '../util/uriHelper';
 import { findMatchingDocument } from '../vscode/findDocument';
 import { commandDisplayCSpellInfo } from './commands';
-import { calcSettings } from './infoHelper';
+import { calcSettings, toWordTrace } from './infoHelper';
+import { calcSettingsEditor, updateSettingInScope } from './settingsEditor';
 
 const viewerPath = 'packages/_settingsViewer/dist/webapp';
 const title = 'Spell Checker Preferences';
@@ -36,6 +39,7 @@ interface InfoView extends Disposable {
     panel: vscode.WebviewPanel;
     updateView(): Promise<void>;
     reveal(column: vscode.ViewColumn): void;
+    showWordTrace(trace: WordTrace): void;
 }
 
 let currentPanel: InfoView | undefined = undefined;
@@ -48,16 +52,36 @@ const targetToConfigurationTarget: { [key in ConfigTarget]: vscode.Configuration
 };
 
 export function activate(context: vscode.ExtensionContext, client: CSpellClient): void {
+    async function showPanel(): Promise<InfoView> {
+        const column = vscode.window.activeTextEditor?.viewColumn || vscode.ViewColumn.Active;
+        if (currentPanel) {
+            currentPanel.reveal(column);
+        } else {
+            currentPanel = await createView(context, column, client);
+        }
+        currentPanel.updateView();
+        return currentPanel;
+    }
+
+    async function traceWord() {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) return;
+        const { document, selection } = editor;
+        const word = selection.isEmpty || !selection.isSingleLine ? undefined : document.getText(selection).trim() || undefined;
+        const { line, character } = selection.active;
+        const result = await client.traceWord({ uri: document.uri.toString(), position: { line, character }, word });
+        if (!result.word) {
+            return vscode.window.showInformationMessage('No word found at the cursor.');
+        }
+        const panel = await showPanel();
+        panel.showWordTrace(toWordTrace(result, document));
+    }
+
     context.subscriptions.push(
         vscode.commands.registerCommand(commandDisplayCSpellInfo, async () => {
-            const column = vscode.window.activeTextEditor?.viewColumn || vscode.ViewColumn.Active;
-            if (currentPanel) {
-                currentPanel.reveal(column);
-            } else {
-                currentPanel = await createView(context, column, client);
-            }
-            currentPanel.updateView();
+            await showPanel();
         }),
+        vscode.commands.registerCommand(knownCommands['cSpell.traceWord'], traceWord),
         {
             dispose: () => {
                 if (currentPanel) {
@@ -75,6 +99,7 @@ interface State {
     settings: Settings;
     activeDocumentUri: Maybe<Uri>;
     activeFolderUri: Maybe<Uri>;
+    wordTrace: Maybe<WordTrace>;
 }
 
 interface Subscription {
@@ -106,7 +131,9 @@ async function createView(context: vscode.ExtensionContext, column: vscode.ViewC
     async function refreshState() {
         log(`refreshState: uri "${state.activeDocumentUri}"`);
         await wait(500);
-        state.settings = await calcStateSettings(state.activeDocumentUri, state.activeFolderUri);
+        const settings = await calcStateSettings(state.activeDocumentUri, state.activeFolderUri);
+        const settingsEditor = await calcSettingsEditor(state.activeFolderUri, settings.configs.file?.configFiles ?? []);
+        state.settings = { ...settings, wordTrace: state.wordTrace, settingsEditor };
     }
 
     function notifyView() {
@@ -184,6 +211,12 @@ async function createView(context: vscode.ExtensionContext, column: vscode.ViewC
     messageBus.listenFor('ConfigurationChangeMessage', () => {
         /* Do nothing */
     });
+    messageBus.listenFor('UpdateSettingMessage', async (msg: UpdateSettingMessage) => {
+        const { scope, key, value } = msg.value;
+        log(`UpdateSettingMessage: ${scope}, ${key}, ${value}`);
+        await showErrors(updateSettingInScope(scope, key, value, state.activeFolderUri), 'UpdateSettingMessage');
+        return refreshStateAndNotify();
+    });
     messageBus.listenFor('OpenLinkMessage', (msg: OpenLinkMessage) => {
         const uri = Uri.parse(msg.value.uri);
         switch (uri.scheme) {
@@ -239,6 +272,12 @@ async function createView(context: vscode.ExtensionContext, column: vscode.ViewC
         reveal() {
             return panel.reveal();
         },
+        showWordTrace(trace: WordTrace) {
+            state.wordTrace = trace;
+            state.activeTabName = 'Trace';
+            state.settings = { ...state.settings, wordTrace: trace };
+            notifyView();
+        },
         dispose,
     };
     return view;
@@ -277,6 +316,7 @@ async function createView(context: vscode.ExtensionContext, column: vscode.ViewC
             activeDocumentUri,
             activeFolderUri,
             settings,
+            wordTrace: undefined,
         };
     }
 }
@@ -0,0 +1,100 @@
+import type { CSpellUserSettings } from '../client';
+import type { Inspect } from '../settings';
+import { __testing__ } from './settingsEditor';
+
+const { calcIsPassedOn, toSettingsEditor } = __testing__;
+
+const cspellJsonUri = 'file:///workspace/cspell.json';
+
+describe('settingsEditor', () => {
+    const defaultValue: CSpellUserSettings = {
+        enabled: true,
+        language: 'en',
+        mergeCSpellSettings: false,
+        mergeCSpellSettingsFields: { words: true, language: true },
+    };
+
+    test('toSettingsEditor without a config file', () => {
+        const inspect = sampleInspect({ globalValue: { words: ['one'], language: 'en,fr' }, workspaceValue: { words: ['two'] } });
+        const editor = toSettingsEditor(inspect, [], { workspace: true, folder: false });
+
+        expect(editor.scopes.map((s) => s.id)).toEqual(['default', 'user', 'workspace']);
+        const entries = new Map(editor.entries.map((e) => [e.key, e]));
+        expect(entries.get('words')).toEqual({
+            key: 'words',
+            values: {
+                user: { value: '["one"]', status: 'overridden' },
+                workspace: { value: '["two"]', status: 'used' },
+            },
+            editableScopes: ['user', 'workspace'],
+        });
+        expect(entries.get('language')?.values).toEqual({
+            default: { value: '"en"', status: 'overridden' },
+            user: { value: '"en,fr"', status: 'used' },
+        });
+        expect(entries.get('enabled')?.values).toEqual({ default: { value: 'true', status: 'used' } });
+    });
+
+    test('toSettingsEditor with a config file', () => {
+        const inspect = sampleInspect({ globalValue: { words: ['one'], language: 'en,fr', showStatus: false } });
+        const configFile = { uri: cspellJsonUri, name: 'cspell.json', settings: { words: ['three'], language: 'nl' } };
+        const editor = toSettingsEditor(inspect, [configFile], { workspace: true, folder: true });
+
+        expect(editor.scopes.map((s) => s.id)).toEqual(['default', 'user', 'workspace', 'folder', cspellJsonUri]);
+        const entries = new Map(editor.entries.map((e) => [e.key, e]));
+        // `mergeCSpellSettings` is false, so the VS Code settings are not used.
+        expect(entries.get('words')?.values).toEqual({
+            user: { value: '["one"]', status: 'ignored' },
+            [cspellJsonUri]: { value: '["three"]', status: 'used' },
+        });
+        expect(entries.get('words')?.editableScopes).toEqual(['user', 'workspace', 'folder', cspellJsonUri]);
+        expect(entries.get('showStatus')?.values).toEqual({ user: { value: 'false', status: 'used' } });
+        expect(entries.get('showStatus')?.editableScopes).toEqual(['user', 'workspace', 'folder', cspellJsonUri]);
+        expect(entries.get('checkLimit')?.editableScopes).toEqual(['user', 'workspace', 'folder']);
+    });
+
+    test('toSettingsEditor merges the lists', () => {
+        const inspect = sampleInspect({
+            globalValue: { words: ['one'], language: 'en,fr' },
+            workspaceValue: { mergeCSpellSettings: true },
+        });
+        const configFile = { uri: cspellJsonUri, name: 'cspell.json', settings: { words: ['three'], language: 'nl' } };
+        const editor = toSettingsEditor(inspect, [configFile], { workspace: true, folder: false });
+
+        const entries = new Map(editor.entries.map((e) => [e.key, e]));
+        expect(entries.get('words')?.values).toEqual({
+            user: { value: '["one"]', status: 'merged' },
+            [cspellJsonUri]: { value: '["three"]', status: 'merged' },
+        });
+        expect(entries.get('language')?.values).toEqual({
+            default: { value: '"en"', status: 'overridden' },
+            user: { value: '"en,fr"', status: 'overridden' },
+            [cspellJsonUri]: { value: '"nl"', status: 'used' },
+        });
+    });
+
+    test('toSettingsEditor with a config file that cannot be read', () => {
+        const configFile = { uri: 'file:///workspace/cspell.config.js', name: 'cspell.config.js', settings: undefined };
+        const editor = toSettingsEditor(sampleInspect({}), [configFile], { workspace: false, folder: false });
+
+        expect(editor.scopes.map((s) => s.id)).toEqual(['default', 'user', configFile.uri]);
+        expect(editor.entries.find((e) => e.key === 'words')?.editableScopes).toEqual(['user']);
+    });
+
+    test.each`
+        values                                                                                            | hasConfigFile | key             | expected
+        ${{}}                                                                                             | ${false}      | ${'words'}      | ${true}
+        ${{}}                                                                                             | ${true}       | ${'words'}      | ${false}
+        ${{}}                                                                                             | ${true}       | ${'checkLimit'} | ${true}
+        ${{ globalValue: { mergeCSpellSettings: true } }}                                                 | ${true}       | ${'words'}      | ${true}
+        ${{ globalValue: { mergeCSpellSettings: true }, workspaceValue: { mergeCSpellSettings: false } }} | ${true}       | ${'words'}      | ${false}
+        ${{ globalValue: { mergeCSpellSettings: true, mergeCSpellSettingsFields: { words: false } } }}    | ${true}       | ${'words'}      | ${false}
+        ${{ globalValue: { mergeCSpellSettings: true, mergeCSpellSettingsFields: { words: false } } }}    | ${true}       | ${'language'}   | ${true}
+    `('calcIsPassedOn $values $hasConfigFile $key', ({ values, hasConfigFile, key, expected }) => {
+        expect(calcIsPassedOn(sampleInspect(values), hasConfigFile)(key)).toBe(expected);
+    });
+
+    function sampleInspect(values: Partial<Inspect<CSpellUserSettings>>): Inspect<CSpellUserSettings> {
+        return { key: 'cSpell', defaultValue, ...values };
+    }
+});
@@ -0,0 +1,177 @@
+import { ConfigFields as CSpellConfigFields } from '@cspell/cspell-types';
+import * as vscode from 'vscode';
+import type {
+    ConfigFile,
+    ConfigTarget,
+    SettingEntry,
+    SettingScope,
+    SettingScopeValue,
+    SettingsEditor,
+    SettingValueStatus,
+} from 'webview-api';
+
+import type { CSpellUserSettings } from '../client';
+import type { Inspect } from '../settings';
+import { ConfigFields, inspectConfig } from '../settings';
+import { readConfigFile } from '../settings/configFileReadWrite';
+import type { ConfigRepository } from '../settings/configRepository';
+import { createCSpellConfigRepository, createVSCodeConfigRepository } from '../settings/configRepository';
+import { clientConfigScopeToConfigurationTarget } from '../settings/targetAndScope';
+import type { Maybe } from '../util';
+import { toUri } from '../util/uriHelper';
+
+type ConfigKey = keyof CSpellUserSettings;
+
+interface ScopeSettings {
+    scope: SettingScope;
+    settings: CSpellUserSettings | undefined;
+    editable: boolean;
+}
+
+export interface ConfigFileSettings extends ConfigFile {
+    /** The content of the config file, `undefined` if it cannot be read. */
+    settings: CSpellUserSettings | undefined;
+}
+
+export interface SettingsEditorScopes {
+    workspace: boolean;
+    folder: boolean;
+}
+
+const configTargets = new Set<string>(['user', 'workspace', 'folder'] satisfies ConfigTarget[]);
+
+const cspellConfigKeys = new Set<string>(Object.keys(CSpellConfigFields));
+
+/**
+ * Read the value of every setting in each scope: the VS Code settings and the cspell config files.
+ * @param folderUri - the folder used to read the folder settings.
+ * @param configFiles - the cspell config files, the most specific first.
+ */
+export async function calcSettingsEditor(folderUri: Maybe<vscode.Uri>, configFiles: ConfigFile[]): Promise<SettingsEditor> {
+    const files = await Promise.all(
+        configFiles.map(async (file) => ({ ...file, settings: await readConfigFile(toUri(file.uri)).catch(() => undefined) })),
+    );
+    const scopes: SettingsEditorScopes = { workspace: !!vscode.workspace.workspaceFolders?.length, folder: !!folderUri };
+    return toSettingsEditor(inspectConfig(folderUri), files, scopes);
+}
+
+/**
+ * Write the value of a setting to a scope.
+ * @param scopeId - `user`, `workspace`, `folder` or the uri of a cspell config file.
+ * @param key - the setting.
+ * @param value - the new value as JSON, `undefined` to remove the setting.
+ * @param folderUri - the folder used for the folder settings.
+ */
+export async function updateSettingInScope(
+    scopeId: string,
+    key: string,
+    value: string | undefined,
+    folderUri: Maybe<vscode.Uri>,
+): Promise<void> {
+    if (!(key in ConfigFields)) throw new Error(`Unknown setting: "${key}"`);
+    const repo = scopeIdToConfigRepository(scopeId, folderUri);
+    const newValue = value === undefined ? undefined : JSON.parse(value);
+    await repo.setValue(key as ConfigKey, newValue);
+}
+
+function scopeIdToConfigRepository(scopeId: string, folderUri: Maybe<vscode.Uri>): ConfigRepository {
+    if (isConfigTarget(scopeId)) {
+        return createVSCodeConfigRepository(clientConfigScopeToConfigurationTarget(scopeId), folderUri, false);
+    }
+    return createCSpellConfigRepository(toUri(scopeId));
+}
+
+function isConfigTarget(scopeId: string): scopeId is ConfigTarget {
+    return configTargets.has(scopeId);
+}
+
+/**
+ * Put the settings of all the scopes side by side and find out which values are used.
+ *
+ * The spell checker uses the VS Code settings, where the most specific scope wins, and merges them with the cspell config file.
+ * Lists are combined and the config file wins for other values.
+ * If there is a config file, `cSpell.mergeCSpellSettings` and `cSpell.mergeCSpellSettingsFields` decide
+ * which of the VS Code settings are passed on.
+ */
+function toSettingsEditor(
+    inspect: Inspect<CSpellUserSettings>,
+    configFiles: ConfigFileSettings[],
+    scopes: SettingsEditorScopes,
+): SettingsEditor {
+    const sources: ScopeSettings[] = [
+        { scope: { id: 'default', kind: 'default', name: 'Default' }, settings: inspect.defaultValue, editable: false },
+        { scope: { id: 'user', kind: 'user', name: 'User' }, settings: inspect.globalValue, editable: true },
+    ];
+    scopes.workspace &&
+        sources.push({
+            scope: { id: 'workspace', kind: 'workspace', name: 'Workspace' },
+            settings: inspect.workspaceValue,
+            editable: true,
+        });
+    scopes.folder &&
+        sources.push({ scope: { id: 'folder', kind: 'folder', name: 'Folder' }, settings: inspect.workspaceFolderValue, editable: true });
+    const files = [...configFiles].reverse();
+    sources.push(
+        ...files.map(({ uri, name, settings }) => ({ scope: { id: uri, kind: 'cspell' as const, name }, settings, editable: !!settings })),
+    );
+
+    const isPassedOn = calcIsPassedOn(inspect, configFiles.length > 0);
+    const keys = Object.keys(ConfigFields).sort() as ConfigKey[];
+
+    return {
+        scopes: sources.map((s) => s.scope),
+        entries: keys.map((key) => calcSettingEntry(key, sources, isPassedOn(key))),
+    };
+}
+
+/**
+ * Same as `filterMergeFields` in the server.
+ * @returns a function to check if a VS Code setting is passed on to the spell checker.
+ */
+function calcIsPassedOn(inspect: Inspect<CSpellUserSettings>, hasConfigFile: boolean): (key: ConfigKey) => boolean {
+    if (!hasConfigFile) return () => true;
+    const { defaultValue, globalValue, workspaceValue, workspaceFolderValue } = inspect;
+    const values = [defaultValue, globalValue, workspaceValue, workspaceFolderValue];
+    const mergeCSpellSettings = values.reduce((v, cfg) => cfg?.mergeCSpellSettings ?? v, false as boolean | undefined);
+    const mergeFields = Object.assign({}, ...values.map((cfg) => cfg?.mergeCSpellSettingsFields));
+    // The default value lists all the fields that are filtered.
+    const filteredFields = new Set(Object.keys(defaultValue?.mergeCSpellSettingsFields ?? {}));
+    return (key) => !filteredFields.has(key) || (!!mergeCSpellSettings && mergeFields[key] !== false);
+}
+
+function calcSettingEntry(key: ConfigKey, sources: ScopeSettings[], isPassedOn: boolean): SettingEntry {
+    const defined = sources.filter((s) => s.settings?.[key] !== undefined);
+    const fromVSCode = isPassedOn ? defined.filter((s) => s.scope.kind !== 'cspell') : [];
+    const fromFiles = defined.filter((s) => s.scope.kind === 'cspell');
+    const candidates = [...fromVSCode, ...fromFiles];
+    const topValue = candidates[candidates.length - 1]?.settings?.[key];
+    // VS Code merges objects, but not lists, between its scopes.
+    const used = new Set(
+        Array.isArray(topValue) ? [...fromVSCode.slice(-1), ...fromFiles] : isObject(topValue) ? candidates : candidates.slice(-1),
+    );
+
+    function calcStatus(s: ScopeSettings): SettingValueStatus {
+        if (used.has(s)) return used.size > 1 ? 'merged' : 'used';
+        return s.scope.kind === 'cspell' || isPassedOn ? 'overridden' : 'ignored';
+    }
+
+    const values: Record<string, SettingScopeValue> = {};
+    for (const s of defined) {
+        values[s.scope.id] = { value: JSON.stringify(s.settings?.[key]), status: calcStatus(s) };
+    }
+
+    const editableScopes = sources
+        .filter((s) => s.editable && (s.scope.kind !== 'cspell' || cspellConfigKeys.has(key)))
+        .map((s) => s.scope.id);
+
+    return { key, values, editableScopes };
+}
+
+function isObject(v: unknown): v is object {
+    return typeof v === 'object' && v !== null;
+}
+
+export const __testing__ = {
+    calcIsPassedOn,
+    toSettingsEditor,
+};
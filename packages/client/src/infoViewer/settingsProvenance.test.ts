@@ -0,0 +1,75 @@
+import type { CSpellUserSettings, SettingsProvenance } from '../client';
+import type { Inspect } from '../settings';
+import { __testing__, toSettingProvenance } from './settingsProvenance';
+
+const { findVSCodeScope } = __testing__;
+
+const cspellJsonUri = 'file:///workspace/cspell.json';
+const extJsonUri = 'file:///workspace/sub/cspell-ext.json';
+
+describe('settingsProvenance', () => {
+    const inspect: Inspect<CSpellUserSettings> = {
+        key: 'cSpell',
+        defaultValue: { enabled: true, language: 'en' },
+        globalValue: { words: ['one'], language: 'en,nl' },
+        workspaceValue: { words: ['two'], dictionaryDefinitions: [{ name: 'project-words', path: './words.txt' }] },
+    };
+
+    test('toSettingProvenance', () => {
+        const provenance: SettingsProvenance = {
+            sources: [
+                { kind: 'default', name: 'Defaults' },
+                { kind: 'vscode', name: 'VS Code Settings' },
+                { kind: 'configFile', name: '/workspace/sub/cspell-ext.json', uri: extJsonUri, importChain: [cspellJsonUri] },
+                { kind: 'document', name: 'In-Document Settings' },
+            ],
+            fields: { language: { source: 2, line: 3 }, enabled: { source: 1 } },
+            elements: {
+                words: [
+                    { value: 'one', source: 1 },
+                    { value: 'three', source: 2, line: 1 },
+                    { value: 'four', source: 3 },
+                ],
+            },
+        };
+
+        expect(toSettingProvenance(provenance, inspect)).toEqual([
+            { key: 'enabled', sources: [{ source: { kind: 'default', name: 'Default Settings' } }] },
+            {
+                key: 'language',
+                sources: [
+                    {
+                        source: {
+                            kind: 'cspell',
+                            name: expect.stringContaining('cspell-ext.json'),
+                            uri: extJsonUri,
+                            line: 4,
+                            importChain: [{ uri: cspellJsonUri, name: expect.stringContaining('cspell.json') }],
+                        },
+                    },
+                ],
+            },
+            {
+                key: 'words',
+                sources: [
+                    { value: 'one', source: { kind: 'user', name: 'User Settings' } },
+                    { value: 'three', source: expect.objectContaining({ kind: 'cspell', line: 2 }) },
+                    { value: 'four', source: { kind: 'document', name: 'In-Document Settings' } },
+                ],
+            },
+        ]);
+    });
+
+    test.each`
+        key                        | value              | expected
+        ${'language'}              | ${undefined}       | ${'user'}
+        ${'enabled'}               | ${undefined}       | ${'default'}
+        ${'words'}                 | ${'one'}           | ${'user'}
+        ${'words'}                 | ${'two'}           | ${'workspace'}
+        ${'words'}                 | ${'three'}         | ${'default'}
+        ${'dictionaryDefinitions'} | ${'project-words'} | ${'workspace'}
+        ${'ignorePaths'}           | ${'dist/**'}       | ${'default'}
+    `('findVSCodeScope $key $value', ({ key, value, expected }) => {
+        expect(findVSCodeScope(inspect, key, value).kind).toBe(expected);
+    });
+});
@@ -0,0 +1,82 @@
+import { uriToName } from '@internal/common-utils/uriHelper';
+import type { ConfigSource, SettingProvenance, SettingSource, SettingSourceKind } from 'webview-api';
+
+import type { CSpellUserSettings, SettingSource as ServerSettingSource, SettingsProvenance } from '../client';
+import type { Inspect, InspectValues } from '../settings';
+import { toUri } from '../util/uriHelper';
+
+type InspectKeys = keyof InspectValues<CSpellUserSettings>;
+
+/** The VS Code scopes, the most specific first. */
+const vscodeScopes: [InspectKeys, ConfigSource, string][] = [
+    ['workspaceFolderValue', 'folder', 'Folder Settings'],
+    ['workspaceValue', 'workspace', 'Workspace Settings'],
+    ['globalValue', 'user', 'User Settings'],
+    ['defaultValue', 'default', 'Default Settings'],
+];
+
+const sourceKinds: Record<ServerSettingSource['kind'], SettingSourceKind> = {
+    default: 'default',
+    vscode: 'default',
+    configFile: 'cspell',
+    document: 'document',
+    calculated: 'calculated',
+};
+
+/**
+ * Convert the provenance calculated by the server into the form used by the viewer.
+ *
+ * The server only knows that a value came from the VS Code settings, the scope is found with `inspect`.
+ * @param provenance - the provenance from the server.
+ * @param inspect - the VS Code settings of each scope.
+ */
+export function toSettingProvenance(provenance: SettingsProvenance, inspect: Inspect<CSpellUserSettings>): SettingProvenance[] {
+    const { sources, fields, elements } = provenance;
+
+    function toSource(index: number, key: string, line: number | undefined, value?: string): SettingSource {
+        const source = sources[index];
+        if (source.kind === 'vscode') return findVSCodeScope(inspect, key, value);
+        const { name, uri, importChain } = source;
+        const kind = sourceKinds[source.kind];
+        if (kind !== 'cspell' || !uri) return { kind, name };
+        return {
+            kind,
+            name: uriToName(toUri(uri)),
+            uri,
+            line: line === undefined ? undefined : line + 1,
+            importChain: importChain?.map((uri) => ({ uri, name: uriToName(toUri(uri)) })),
+        };
+    }
+
+    const fieldEntries = Object.entries(fields).map(([key, ref]) => ({ key, sources: [{ source: toSource(ref.source, key, ref.line) }] }));
+    const listEntries = Object.entries(elements).map(([key, refs]) => ({
+        key,
+        sources: refs.map((ref) => ({ value: ref.value, source: toSource(ref.source, key, ref.line, ref.value) })),
+    }));
+
+    return [...fieldEntries, ...listEntries].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+/**
+ * Find the most specific VS Code scope that has the value.
+ * @param value - the element of a list, `undefined` for other settings.
+ */
+function findVSCodeScope(inspect: Inspect<CSpellUserSettings>, key: string, value: string | undefined): SettingSource {
+    const found = vscodeScopes.find(([inspectKey]) => hasValue(inspect[inspectKey]?.[key as keyof CSpellUserSettings], value));
+    // Some values do not come from `cSpell` settings, like the `search.exclude` globs.
+    const [, kind, name] = found ?? vscodeScopes[vscodeScopes.length - 1];
+    return { kind, name };
+}
+
+function hasValue(setting: unknown, value: string | undefined): boolean {
+    if (value === undefined || !Array.isArray(setting)) return setting !== undefined;
+    return setting.some((element) => element === value || (isNamed(element) && element.name === value));
+}
+
+function isNamed(v: unknown): v is { name: unknown } {
+    return typeof v === 'object' && v !== null && 'name' in v;
+}
+
+export const __testing__ = {
+    findVSCodeScope,
+};
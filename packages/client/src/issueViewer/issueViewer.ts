@@ -1,7 +1,7 @@
 import { uriToName } from '@internal/common-utils';
 import type { Suggestion } from 'code-spell-checker-server/api';
 import { createDisposableList } from 'utils-disposables';
-import type { Disposable, ExtensionContext, ProviderResult, Range, TextDocument, TreeDataProvider, Uri } from 'vscode';
+import type { Disposable, ExtensionContext, ProviderResult, Range, TreeDataProvider, Uri } from 'vscode';
 import * as vscode from 'vscode';
 import { TreeItem } from 'vscode';
 
@@ -12,28 +12,38 @@ import { commandHandlers, knownCommands } from '../commands';
 import type { IssueTracker, SpellingDiagnostic } from '../issueTracker';
 import { createEmitter } from '../Subscribables';
 import { logErrors } from '../util/errors';
-import { findEditor, findTextDocument } from '../util/findEditor';
+import { findEditor, findNotebookCell, findTextDocument } from '../util/findEditor';
 
 export function activate(context: ExtensionContext, issueTracker: IssueTracker, client: CSpellClient) {
-    context.subscriptions.push(IssueExplorer.register(issueTracker, client));
+    const explorer = IssueExplorer.register(issueTracker, client);
+    context.subscriptions.push(explorer);
     context.subscriptions.push(
         vscode.commands.registerCommand(knownCommands['cSpell.issueViewer.item.openSuggestionsForIssue'], handleOpenSuggestionsForIssue),
         vscode.commands.registerCommand(knownCommands['cSpell.issueViewer.item.autoFixSpellingIssues'], handleAutoFixSpellingIssues),
         vscode.commands.registerCommand(knownCommands['cSpell.issueViewer.item.addWordToDictionary'], handleAddWordToDictionary),
+        vscode.commands.registerCommand(knownCommands['cSpell.issueViewer.showWorkspaceIssues'], () => explorer.showWorkspaceIssues(true)),
+        vscode.commands.registerCommand(knownCommands['cSpell.issueViewer.showDocumentIssues'], () => explorer.showWorkspaceIssues(false)),
     );
 }
 
 type OnDidChangeEventType = IssueTreeItemBase | undefined;
 
+/** The VS Code context key used to toggle between the document and workspace issues. */
+const contextKeyShowWorkspace = 'cSpell.issueViewer.showWorkspace';
+
+/** Delay used to batch the updates while the workspace is being checked. */
+const workspaceUpdateDelayMs = 250;
+
 interface RequestSuggestionsParam {
     readonly word: string;
-    readonly document: TextDocument;
+    readonly uri: Uri;
     readonly onUpdate: (suggestions: Suggestion[]) => void;
 }
 
 class IssueExplorer {
     private disposeList = createDisposableList();
     private treeView: vscode.TreeView<IssueTreeItemBase>;
+    private treeDataProvider: IssuesTreeDataProvider;
 
     constructor(issueTracker: IssueTracker, client: CSpellClient) {
         const treeDataProvider = new IssuesTreeDataProvider({
@@ -46,12 +56,17 @@ class IssueExplorer {
                 this.treeView.message = msg;
             },
         });
+        this.treeDataProvider = treeDataProvider;
         this.treeView = vscode.window.createTreeView(IssueExplorer.viewID, { treeDataProvider, showCollapseAll: true });
-        this.disposeList.push(this.treeView);
+        this.disposeList.push(this.treeView, treeDataProvider);
         this.treeView.title = 'Spelling Issues';
         this.treeView.message = 'No open documents.';
     }
 
+    showWorkspaceIssues(show: boolean) {
+        this.treeDataProvider.showWorkspaceIssues(show);
+    }
+
     readonly dispose = this.disposeList.dispose;
 
     static viewID = 'cspell-info.issuesView';
@@ -64,7 +79,7 @@ class IssueExplorer {
 interface Context {
     client: CSpellClient;
     issueTracker: IssueTracker;
-    document: TextDocument;
+    uri: Uri;
     invalidate: (item: OnDidChangeEventType) => void;
     requestSuggestions: (item: RequestSuggestionsParam) => Suggestion[] | undefined;
 }
@@ -84,6 +99,8 @@ class IssuesTreeDataProvider implements TreeDataProvider<IssueTreeItemBase> {
     private suggestions = new Map<string, Suggestion[]>();
     private issueTracker: IssueTracker;
     private client: CSpellClient;
+    private showWorkspace = false;
+    private pendingWorkspaceUpdate: NodeJS.Timeout | undefined = undefined;
 
     constructor(private options: ProviderOptions) {
         this.issueTracker = options.issueTracker;
@@ -93,9 +110,19 @@ class IssuesTreeDataProvider implements TreeDataProvider<IssueTreeItemBase> {
             this.emitOnDidChange,
             vscode.window.onDidChangeActiveTextEditor((editor) => this.updateEditor(editor)),
             this.issueTracker.onDidChangeDiagnostics((e) => this.handleOnDidChangeDiagnostics(e)),
+            // Show the results as soon as a workspace check starts.
+            this.client.onWorkspaceCheckProgress(() => this.showWorkspaceIssues(true)),
+            () => clearTimeout(this.pendingWorkspaceUpdate),
         );
     }
 
+    showWorkspaceIssues(show: boolean) {
+        if (this.showWorkspace === show) return;
+        this.showWorkspace = show;
+        logErrors(vscode.commands.executeCommand('setContext', contextKeyShowWorkspace, show), 'showWorkspaceIssues');
+        this.emitOnDidChange.notify(undefined);
+    }
+
     getTreeItem(element: IssueTreeItemBase): TreeItem | Promise<TreeItem> {
         return element.getTreeItem();
     }
@@ -104,22 +131,58 @@ class IssuesTreeDataProvider implements TreeDataProvider<IssueTreeItemBase> {
         if (element) {
             return element.getChildren();
         }
+        if (this.showWorkspace) {
+            return this.getWorkspaceChildren();
+        }
         const editor = this.currentEditor;
         const document = editor?.document || findTextDocument(this.currentDocUri);
         if (!document) return this.updateMessage('No open documents.');
-        const context: Context = {
+        // The issues of all the cells of a notebook are shown together.
+        const cell = findNotebookCell(document.uri);
+        if (cell) {
+            const cells = collectNotebookCells(this.createContext(cell.notebook.uri), cell.notebook);
+            this.updateMessage(cells.length ? undefined : 'No issues found...');
+            return cells;
+        }
+        const issues = collectIssues(this.createContext(document.uri));
+        this.updateMessage(issues.length ? undefined : 'No issues found...');
+        return issues;
+    }
+
+    private getWorkspaceChildren(): (FileIssuesTreeItem | NotebookIssuesTreeItem)[] {
+        const comp = new Intl.Collator().compare;
+        const notebooks = new Map<string, NotebookIssuesTreeItem>();
+        const files: (FileIssuesTreeItem | NotebookIssuesTreeItem)[] = [];
+        for (const uri of this.issueTracker.getUrisWithIssues()) {
+            // Notebook cells are grouped under their notebook.
+            const notebook = findNotebookCell(uri)?.notebook;
+            if (!notebook) {
+                files.push(new FileIssuesTreeItem(this.createContext(uri)));
+                continue;
+            }
+            const key = notebook.uri.toString();
+            if (notebooks.has(key)) continue;
+            const item = new NotebookIssuesTreeItem(this.createContext(notebook.uri), notebook);
+            notebooks.set(key, item);
+            files.push(item);
+        }
+        files.sort((a, b) => comp(a.context.uri.path, b.context.uri.path));
+        this.options.setDescription('Workspace');
+        this.options.setMessage(files.length ? undefined : 'No issues found...');
+        return files;
+    }
+
+    private createContext(uri: Uri): Context {
+        return {
             issueTracker: this.issueTracker,
             client: this.client,
-            document: document,
+            uri,
             invalidate: (item) => this.emitOnDidChange.notify(item),
             requestSuggestions: (item) => {
                 logErrors(this.fetchSuggestions(item), 'IssuesTreeDataProvider requestSuggestions');
                 return this.suggestions.get(item.word);
             },
         };
-        const issues = collectIssues(context);
-        this.updateMessage(issues.length ? undefined : 'No issues found...');
-        return issues;
     }
 
     onDidChangeTreeData(listener: (e: OnDidChangeEventType) => void, thisArg?: unknown, disposables?: Disposable[]): Disposable {
@@ -132,17 +195,31 @@ class IssuesTreeDataProvider implements TreeDataProvider<IssueTreeItemBase> {
     }
 
     private handleOnDidChangeDiagnostics(e: vscode.DiagnosticChangeEvent) {
-        const current = this.currentEditor?.document.uri.toString();
+        if (this.showWorkspace) {
+            this.scheduleWorkspaceUpdate();
+            return;
+        }
+        const current = this.currentEditor?.document.uri;
         if (!current) return;
-        const matching = e.uris.filter((u) => u.toString() === current);
+        const notebook = findNotebookCell(current)?.notebook;
+        const shown = new Set(notebook ? notebook.getCells().map((cell) => cell.document.uri.toString()) : [current.toString()]);
+        const matching = e.uris.filter((u) => shown.has(u.toString()));
         if (matching.length) {
             this.emitOnDidChange.notify(undefined);
         }
     }
 
+    private scheduleWorkspaceUpdate() {
+        if (this.pendingWorkspaceUpdate) return;
+        this.pendingWorkspaceUpdate = setTimeout(() => {
+            this.pendingWorkspaceUpdate = undefined;
+            this.emitOnDidChange.notify(undefined);
+        }, workspaceUpdateDelayMs);
+    }
+
     private async fetchSuggestions(item: RequestSuggestionsParam) {
-        const { word, document } = item;
-        const result = await this.client.requestSpellingSuggestions(word, document);
+        const { word, uri } = item;
+        const result = await this.client.requestSpellingSuggestions(word, { uri });
         const suggestions = result.suggestions;
         this.suggestions.set(word, suggestions);
         // this.updateVSCodeContext();
@@ -191,6 +268,10 @@ const icons = {
     doc: new vscode.ThemeIcon('go-to-file'),
     suggestion: new vscode.ThemeIcon('pencil'), // new vscode.ThemeIcon('lightbulb'),
     suggestionPreferred: new vscode.ThemeIcon('pencil'), // new vscode.ThemeIcon('lightbulb-autofix'),
+    baselined: new vscode.ThemeIcon('history'),
+    notebook: new vscode.ThemeIcon('notebook'),
+    markupCell: new vscode.ThemeIcon('markdown'),
+    codeCell: new vscode.ThemeIcon('code'),
 } as const;
 
 abstract class IssueTreeItemBase {
@@ -198,6 +279,80 @@ abstract class IssueTreeItemBase {
     abstract getChildren(): ProviderResult<IssueTreeItemBase[]>;
 }
 
+class FileIssuesTreeItem extends IssueTreeItemBase {
+    constructor(readonly context: Context) {
+        super();
+    }
+
+    getTreeItem(): TreeItem {
+        const { uri, issueTracker } = this.context;
+        const item = new TreeItem(uri, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = vscode.ThemeIcon.File;
+        item.description = `${issueTracker.getDiagnostics(uri).length}`;
+        item.tooltip = uriToName(uri);
+        item.contextValue = 'file';
+        return item;
+    }
+
+    getChildren() {
+        return collectIssues(this.context);
+    }
+}
+
+class NotebookIssuesTreeItem extends IssueTreeItemBase {
+    constructor(
+        readonly context: Context,
+        readonly notebook: vscode.NotebookDocument,
+    ) {
+        super();
+    }
+
+    getTreeItem(): TreeItem {
+        const { issueTracker } = this.context;
+        const { uri } = this.notebook;
+        const count = this.notebook.getCells().reduce((sum, cell) => sum + issueTracker.getDiagnostics(cell.document.uri).length, 0);
+        const item = new TreeItem(uri, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = icons.notebook;
+        item.description = `${count}`;
+        item.tooltip = uriToName(uri);
+        item.contextValue = 'notebook';
+        return item;
+    }
+
+    getChildren() {
+        return collectNotebookCells(this.context, this.notebook);
+    }
+}
+
+class NotebookCellIssuesTreeItem extends IssueTreeItemBase {
+    constructor(
+        readonly context: Context,
+        readonly cell: vscode.NotebookCell,
+    ) {
+        super();
+    }
+
+    getTreeItem(): TreeItem {
+        const { uri, issueTracker } = this.context;
+        const label = `Cell ${this.cell.index + 1}`;
+        const item = new TreeItem(label, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = this.cell.kind === vscode.NotebookCellKind.Markup ? icons.markupCell : icons.codeCell;
+        item.description = `${issueTracker.getDiagnostics(uri).length}`;
+        item.tooltip = `${uriToName(this.cell.notebook.uri)} - ${label}`;
+        item.command = {
+            title: 'Go to Cell',
+            command: knownCommands['cSpell.selectRange'],
+            arguments: [uri, new vscode.Range(0, 0, 0, 0)],
+        };
+        item.contextValue = 'notebook.cell';
+        return item;
+    }
+
+    getChildren() {
+        return collectIssues(this.context);
+    }
+}
+
 class IssueTreeItem extends IssueTreeItemBase {
     suggestions: Suggestion[] | undefined;
     constructor(
@@ -206,7 +361,7 @@ class IssueTreeItem extends IssueTreeItemBase {
         readonly diags: SpellingDiagnostic[] = [],
     ) {
         super();
-        this.suggestions = context.requestSuggestions({ word, document: context.document, onUpdate: (sugs) => this.onUpdate(sugs) });
+        this.suggestions = context.requestSuggestions({ word, uri: context.uri, onUpdate: (sugs) => this.onUpdate(sugs) });
     }
 
     addIssue(issue: SpellingDiagnostic) {
@@ -217,15 +372,18 @@ class IssueTreeItem extends IssueTreeItemBase {
         const item = new TreeItem(this.word);
         const hasPreferred = this.hasPreferred();
         const isFlagged = this.diags[0]?.data?.isFlagged;
-        item.iconPath = isFlagged ? icons.error : icons.warning;
-        item.description = this.diags.length + (hasPreferred ? ' (auto fix)' : '');
+        const numBaselined = this.diags.filter((d) => d.data?.isBaselined).length;
+        const allBaselined = numBaselined === this.diags.length;
+        item.iconPath = allBaselined ? icons.baselined : isFlagged ? icons.error : icons.warning;
+        item.description = this.diags.length + (hasPreferred ? ' (auto fix)' : '') + formatBaselined(numBaselined, allBaselined);
         const cWord = cleanWord(this.word);
         item.tooltip = new vscode.MarkdownString().appendMarkdown((isFlagged ? 'Flagged' : 'Unknown') + ' word: `' + cWord + '`');
+        numBaselined && item.tooltip.appendMarkdown(`\n\n${numBaselined} recorded in the baseline, not reported as problems.`);
         // if (this.diags.length === 1) {
         //     item.command = {
         //         title: 'Goto Issue',
         //         command: knownCommands['cSpell.selectRange'],
-        //         arguments: [this.context.document.uri, this.diags[0].range],
+        //         arguments: [this.context.uri, this.diags[0].range],
         //     };
         // }
         item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
@@ -261,11 +419,11 @@ class IssueTreeItem extends IssueTreeItemBase {
     async autoFix() {
         const pref = this.getPreferred();
         if (!pref) return;
-        return handleFixSpellingIssue(this.context.document.uri, pref.text, pref.newText, pref.ranges);
+        return handleFixSpellingIssue(this.context.uri, pref.text, pref.newText, pref.ranges);
     }
 
     async addToDictionary() {
-        return commandHandlers['cSpell.addWordToDictionary'](this.word, this.context.document.uri);
+        return commandHandlers['cSpell.addWordToDictionary'](this.word, this.context.uri);
     }
 
     private onUpdate(suggestions: Suggestion[]) {
@@ -328,11 +486,11 @@ class IssueLocationTreeItem extends IssueTreeItemBase {
         const range = this.diag.range;
         const item = new TreeItem(`${range.start.line + 1}:${range.start.character + 1}`);
         item.iconPath = icons.doc;
-        item.description = this.word;
+        item.description = this.word + (this.diag.data?.isBaselined ? ' (baselined)' : '');
         item.command = {
             title: 'Goto Issue',
             command: knownCommands['cSpell.selectRange'],
-            arguments: [this.context.document.uri, this.diag.range],
+            arguments: [this.context.uri, this.diag.range],
         };
         item.contextValue = 'issue.location';
         return item;
@@ -366,7 +524,7 @@ class IssueSuggestionTreeItem extends IssueTreeItemBase {
         item.command = {
             title: fixMessage,
             command: knownCommands['cSpell.fixSpellingIssue'],
-            arguments: [this.context.document.uri, this.word, word, this.diags.map((d) => d.range)],
+            arguments: [this.context.uri, this.word, word, this.diags.map((d) => d.range)],
         };
         item.tooltip = fixMessage;
         item.accessibilityInformation = { label: fixMessage };
@@ -388,8 +546,8 @@ class IssueSuggestionTreeItem extends IssueTreeItemBase {
 }
 
 function collectIssues(context: Context): IssueTreeItem[] {
-    const doc = context.document;
-    const issues = context.issueTracker.getDiagnostics(doc.uri);
+    const doc = findTextDocument(context.uri);
+    const issues = context.issueTracker.getDiagnostics(context.uri);
     const groupedByWord = new Map<string, IssueTreeItem>();
     const getGroup = getResolve(groupedByWord, (word) => new IssueTreeItem(context, word));
     issues.forEach(groupIssue);
@@ -401,7 +559,8 @@ function collectIssues(context: Context): IssueTreeItem[] {
     return sorted;
 
     function getWord(issue: SpellingDiagnostic): string {
-        return doc.getText(issue.range);
+        // Files found by a workspace check might not be open.
+        return doc?.getText(issue.range) ?? issue.data?.text ?? '';
     }
 
     function groupIssue(issue: SpellingDiagnostic) {
@@ -410,6 +569,16 @@ function collectIssues(context: Context): IssueTreeItem[] {
     }
 }
 
+/**
+ * The cells of a notebook with issues, in the order of the notebook.
+ */
+function collectNotebookCells(context: Context, notebook: vscode.NotebookDocument): NotebookCellIssuesTreeItem[] {
+    return notebook
+        .getCells()
+        .filter((cell) => context.issueTracker.getDiagnostics(cell.document.uri).length)
+        .map((cell) => new NotebookCellIssuesTreeItem({ ...context, uri: cell.document.uri }, cell));
+}
+
 function getResolve<K, V>(map: Map<K, V>, resolver: (k: K) => V): (k: K) => V {
     return (k: K) => {
         const v = map.get(k);
@@ -422,7 +591,7 @@ function getResolve<K, V>(map: Map<K, V>, resolver: (k: K) => V): (k: K) => V {
 
 function handleOpenSuggestionsForIssue(item?: IssueTreeItem) {
     if (!(item instanceof IssueTreeItemBase)) return;
-    return actionSuggestSpellingCorrections(item.context.document.uri, item.getRange(), item.word);
+    return actionSuggestSpellingCorrections(item.context.uri, item.getRange(), item.word);
 }
 
 function handleAutoFixSpellingIssues(item?: IssueTreeItem) {
@@ -446,6 +615,11 @@ interface PreferredFix {
 //     if (!issues.length) return undefined;
 // }
 
+function formatBaselined(numBaselined: number, allBaselined: boolean): string {
+    if (!numBaselined) return '';
+    return allBaselined ? ' (baselined)' : ` (${numBaselined} baselined)`;
+}
+
 /**
  * Clean a word for markdown.
  * @param word
@@ -0,0 +1,74 @@
+import type { RegExpProfile } from './client';
+import { profileToDefinitionProblems, toQuickPickItems } from './regExpProfile';
+
+const sampleProfile: RegExpProfile = {
+    patterns: [
+        {
+            key: 'ignoreRegExpList',
+            entry: 'Slow',
+            regexp: '/(a+)+$/g',
+            maxElapsedTimeMs: 1100,
+            totalElapsedTimeMs: 1250.5,
+            slowestUri: 'file:///workspace/src/big.txt',
+            documents: 3,
+            disabledUris: ['file:///workspace/src/big.txt', 'file:///workspace/src/other.txt'],
+            definition: { source: 'cspell.json', uri: 'file:///workspace/cspell.json', line: 4 },
+        },
+        {
+            key: 'ignoreRegExpList',
+            entry: '/(\\w+\\s*)+$/g',
+            regexp: '/(\\w+\\s*)+$/g',
+            maxElapsedTimeMs: 120,
+            totalElapsedTimeMs: 120,
+            slowestUri: 'file:///workspace/src/big.txt',
+            documents: 1,
+            disabledUris: ['file:///workspace/src/big.txt'],
+            definition: { source: 'VS Code Settings' },
+        },
+        {
+            key: 'includeRegExpList',
+            entry: '/fast/g',
+            regexp: '/fast/g',
+            maxElapsedTimeMs: 0.25,
+            totalElapsedTimeMs: 0.5,
+            slowestUri: 'file:///workspace/src/a.txt',
+            documents: 2,
+            disabledUris: [],
+        },
+    ],
+};
+
+describe('regExpProfile', () => {
+    test('profileToDefinitionProblems', () => {
+        expect(profileToDefinitionProblems(sampleProfile)).toEqual([
+            {
+                uri: 'file:///workspace/cspell.json',
+                line: 4,
+                message: 'The pattern Slow /(a+)+$/g took 1100ms, it is not used to check 2 documents.',
+                slowestUri: 'file:///workspace/src/big.txt',
+            },
+        ]);
+        expect(profileToDefinitionProblems({ patterns: [] })).toEqual([]);
+    });
+
+    test('toQuickPickItems', () => {
+        const toName = (uri: string) => uri.replace('file:///workspace/', '');
+        expect(toQuickPickItems(sampleProfile, toName).map(({ label, description, detail }) => ({ label, description, detail }))).toEqual([
+            {
+                label: '$(warning) Slow /(a+)+$/g',
+                description: '1100ms max, 1251ms total',
+                detail: 'ignoreRegExpList, slowest on src/big.txt, disabled on 2 of 3 documents, defined in cspell.json',
+            },
+            {
+                label: '$(warning) /(\\w+\\s*)+$/g',
+                description: '120ms max, 120ms total',
+                detail: 'ignoreRegExpList, slowest on src/big.txt, disabled on 1 of 1 documents, defined in VS Code Settings',
+            },
+            {
+                label: '/fast/g',
+                description: '0.3ms max, 0.5ms total',
+                detail: 'includeRegExpList, slowest on src/a.txt',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,131 @@
+import type { QuickPickItem } from 'vscode';
+import {
+    Diagnostic,
+    DiagnosticRelatedInformation,
+    DiagnosticSeverity,
+    Disposable,
+    languages,
+    Location,
+    Range,
+    Uri,
+    window,
+    workspace,
+} from 'vscode';
+
+import type { CSpellClient, RegExpProfile, RegExpProfileEntry } from './client';
+import * as di from './di';
+import { pvShowInformationMessage } from './util/vscodeHelpers';
+
+const diagnosticSource = 'cSpell Patterns';
+const maxReportEntries = 50;
+
+interface DefinitionProblem {
+    uri: string;
+    line: number;
+    message: string;
+    slowestUri: string;
+}
+
+interface ProfileQuickPickItem extends QuickPickItem {
+    entry: RegExpProfileEntry;
+}
+
+/**
+ * Show a diagnostic where a pattern is defined when the regular expression profiler of the server
+ * stops using the pattern because it is too slow.
+ */
+export function activateRegExpProfile(client: CSpellClient): Disposable {
+    const collection = languages.createDiagnosticCollection(diagnosticSource);
+
+    function update(profile: RegExpProfile) {
+        collection.clear();
+        const byUri = new Map<string, Diagnostic[]>();
+        for (const problem of profileToDefinitionProblems(profile)) {
+            const diag = new Diagnostic(
+                new Range(problem.line, 0, problem.line, Number.MAX_SAFE_INTEGER),
+                problem.message,
+                DiagnosticSeverity.Warning,
+            );
+            diag.source = diagnosticSource;
+            const slowest = Uri.parse(problem.slowestUri);
+            diag.relatedInformation = [
+                new DiagnosticRelatedInformation(
+                    new Location(slowest, new Range(0, 0, 0, 0)),
+                    `Slowest on ${workspace.asRelativePath(slowest, false)}`,
+                ),
+            ];
+            const diags = byUri.get(problem.uri) ?? [];
+            diags.push(diag);
+            byUri.set(problem.uri, diags);
+        }
+        byUri.forEach((diags, uri) => collection.set(Uri.parse(uri), diags));
+    }
+
+    const subscription = client.onRegExpProfile(update);
+
+    return new Disposable(() => {
+        subscription.dispose();
+        collection.dispose();
+    });
+}
+
+/**
+ * Show the slowest patterns of the open documents, the selected pattern is opened where it is defined.
+ */
+export async function actionShowRegExpProfile(): Promise<void> {
+    const profile = await di.get('client').getRegExpProfile();
+    if (!profile.patterns.length) {
+        await pvShowInformationMessage('No patterns have been timed. Enable `cSpell.regExpProfiler` and open some files.');
+        return;
+    }
+    const toName = (uri: string) => workspace.asRelativePath(Uri.parse(uri), false);
+    const picked = await window.showQuickPick(toQuickPickItems(profile, toName), {
+        title: 'The Slowest Regular Expressions',
+        matchOnDescription: true,
+        matchOnDetail: true,
+    });
+    if (!picked) return;
+    const { definition, slowestUri } = picked.entry;
+    const uri = Uri.parse(definition?.uri ?? slowestUri);
+    const line = definition?.uri ? definition.line ?? 0 : 0;
+    await window.showTextDocument(uri, { selection: new Range(line, 0, line, 0) });
+}
+
+/**
+ * A problem for each disabled pattern that has a known definition in a config file.
+ */
+export function profileToDefinitionProblems(profile: RegExpProfile): DefinitionProblem[] {
+    return profile.patterns
+        .filter((entry) => entry.disabledUris.length && entry.definition?.uri)
+        .map((entry) => ({
+            uri: entry.definition?.uri ?? '',
+            line: entry.definition?.line ?? 0,
+            message:
+                `The pattern ${formatPattern(entry)} took ${formatTime(entry.maxElapsedTimeMs)}, ` +
+                `it is not used to check ${entry.disabledUris.length === 1 ? '1 document' : `${entry.disabledUris.length} documents`}.`,
+            slowestUri: entry.slowestUri,
+        }));
+}
+
+export function toQuickPickItems(profile: RegExpProfile, toName: (uri: string) => string): ProfileQuickPickItem[] {
+    return profile.patterns.slice(0, maxReportEntries).map((entry) => ({
+        label: (entry.disabledUris.length ? '$(warning) ' : '') + formatPattern(entry),
+        description: `${formatTime(entry.maxElapsedTimeMs)} max, ${formatTime(entry.totalElapsedTimeMs)} total`,
+        detail: [
+            `${entry.key}, slowest on ${toName(entry.slowestUri)}`,
+            entry.disabledUris.length ? `disabled on ${entry.disabledUris.length} of ${entry.documents} documents` : undefined,
+            entry.definition ? `defined in ${entry.definition.uri ? toName(entry.definition.uri) : entry.definition.source}` : undefined,
+        ]
+            .filter((s) => !!s)
+            .join(', '),
+        entry,
+    }));
+}
+
+function formatPattern(entry: RegExpProfileEntry): string {
+    return entry.entry === entry.regexp ? entry.regexp : `${entry.entry} ${entry.regexp}`;
+}
+
+function formatTime(ms: number): string {
+    return ms < 10 ? `${ms.toFixed(1)}ms` : `${Math.round(ms)}ms`;
+}
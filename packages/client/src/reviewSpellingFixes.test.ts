@@ -0,0 +1,90 @@
+import type { Uri } from 'vscode';
+import { Diagnostic, Range, TextEdit, Uri as VSUri } from 'vscode';
+
+import type { SpellCheckerDiagnosticData } from './client';
+import type { SpellingDiagnostic } from './issueTracker';
+import { addNonOverlappingEdits, groupIssuesByWord } from './reviewSpellingFixes';
+
+// cspell:ignore recieve fourty teh
+
+describe('reviewSpellingFixes', () => {
+    const uriA = VSUri.file('/project/a.ts');
+    const uriB = VSUri.file('/project/b.ts');
+
+    test('groupIssuesByWord', () => {
+        const diags: [Uri, SpellingDiagnostic[]][] = [
+            [
+                uriA,
+                [
+                    diag(0, 'recieve', { suggestions: [{ word: 'receive', isPreferred: true }, { word: 'relieve' }] }),
+                    diag(1, 'fourty', { suggestions: [{ word: 'forty' }] }),
+                    diag(2, 'colour', { suggestions: [] }),
+                    diag(3, 'hint', { suggestions: [{ word: 'hints' }], isSuggestion: true }),
+                    diag(5, 'teh', { suggestions: [{ word: 'the' }], isBaselined: true }),
+                ],
+            ],
+            [uriB, [diag(4, 'recieve', { suggestions: [{ word: 'receive' }, { word: 'deceive' }] })]],
+        ];
+
+        expect(groupIssuesByWord(diags)).toEqual([
+            {
+                word: 'fourty',
+                suggestions: ['forty'],
+                issues: [{ uri: uriA, range: range(1) }],
+                action: { kind: 'replace', suggestion: 'forty' },
+            },
+            {
+                word: 'recieve',
+                suggestions: ['receive', 'relieve', 'deceive'],
+                issues: [
+                    { uri: uriA, range: range(0) },
+                    { uri: uriB, range: range(4) },
+                ],
+                action: { kind: 'replace', suggestion: 'receive' },
+            },
+        ]);
+    });
+
+    test('groupIssuesByWord no issues', () => {
+        expect(groupIssuesByWord([])).toEqual([]);
+        expect(groupIssuesByWord([[uriA, [new Diagnostic(range(0), 'no data')]]])).toEqual([]);
+    });
+
+    test('addNonOverlappingEdits', () => {
+        const accepted = new Map<string, TextEdit[]>();
+        // `recieveFourty` renamed from a.ts and b.ts gives the same edits.
+        const receive = new TextEdit(new Range(0, 4, 0, 17), 'receiveFourty');
+        const receiveB = new TextEdit(new Range(3, 0, 3, 13), 'receiveFourty');
+        expect(
+            addNonOverlappingEdits(accepted, [
+                [uriA, [receive]],
+                [uriB, [receiveB]],
+                [uriA, [receive]],
+            ]),
+        ).toEqual([
+            [uriA, [receive]],
+            [uriB, [receiveB]],
+        ]);
+
+        // The rename of `fourty` in the same identifier overlaps.
+        const forty = new TextEdit(new Range(0, 4, 0, 17), 'recieveForty');
+        expect(addNonOverlappingEdits(accepted, [[uriA, [forty]]])).toBeUndefined();
+        expect(addNonOverlappingEdits(accepted, [[uriB, [new TextEdit(new Range(3, 7, 3, 13), 'Forty')]]])).toBeUndefined();
+        expect(accepted.get(uriA.toString())).toEqual([receive]);
+
+        // Edits next to each other do not overlap.
+        const teh = new TextEdit(new Range(0, 17, 0, 20), 'the');
+        expect(addNonOverlappingEdits(accepted, [[uriA, [teh]]])).toEqual([[uriA, [teh]]]);
+        expect(accepted.get(uriA.toString())).toEqual([receive, teh]);
+    });
+});
+
+function range(line: number) {
+    return new Range(line, 0, line, 5);
+}
+
+function diag(line: number, text: string, data: SpellCheckerDiagnosticData): SpellingDiagnostic {
+    const d: SpellingDiagnostic = new Diagnostic(range(line), `Unknown word (${text})`);
+    d.data = { text, ...data };
+    return d;
+}
@@ -0,0 +1,263 @@
+import { uriToName } from '@internal/common-utils';
+import type { QuickPickItem, Range, Uri, WorkspaceEditEntryMetadata } from 'vscode';
+import { QuickPickItemKind, TextEdit, window, workspace, WorkspaceEdit } from 'vscode';
+
+import { addWordToTarget } from './addWords';
+import { calcSpellingFixWorkspaceEdit } from './applyCorrections';
+import * as di from './di';
+import type { SpellingDiagnostic } from './issueTracker';
+import { dictionaryTargetBestMatches } from './settings/configTargetHelper';
+import { handleErrors } from './util/errors';
+import { pvShowErrorMessage, pvShowInformationMessage, pvShowWarningMessage } from './util/vscodeHelpers';
+
+export type FixAction = { kind: 'replace'; suggestion: string } | { kind: 'skip' } | { kind: 'addToDictionary' };
+
+export interface FixIssue {
+    uri: Uri;
+    range: Range;
+}
+
+/**
+ * All the issues in the workspace for a misspelled word.
+ */
+export interface FixGroup {
+    word: string;
+    suggestions: string[];
+    issues: FixIssue[];
+    action: FixAction;
+}
+
+interface GroupQuickPickItem extends QuickPickItem {
+    group?: FixGroup;
+}
+
+interface ActionQuickPickItem extends QuickPickItem {
+    action: FixAction;
+}
+
+interface ReviewWorkspaceEdit {
+    wsEdit: WorkspaceEdit;
+    /** The words that are not fixed because their edits overlap the edits of another word. */
+    conflicts: string[];
+    /** The files where the issues no longer match the text. */
+    outdated: Uri[];
+}
+
+export function actionReviewSpellingFixes(): Promise<void> {
+    return handleErrors(reviewSpellingFixes(), 'actionReviewSpellingFixes');
+}
+
+async function reviewSpellingFixes(): Promise<void> {
+    const groups = groupIssuesByWord(di.get('issueTracker').getDiagnostics());
+    if (!groups.length) {
+        return pvShowInformationMessage('No spelling issues with suggestions found.');
+    }
+
+    if (!(await chooseFixes(groups))) return;
+
+    const accepted = groups.filter((g) => g.action.kind === 'replace');
+    const toAdd = groups.filter((g) => g.action.kind === 'addToDictionary');
+
+    if (accepted.length) {
+        const { wsEdit, conflicts, outdated } = await calcReviewWorkspaceEdit(accepted);
+        const success = await workspace.applyEdit(wsEdit, { isRefactoring: true });
+        if (!success) {
+            return pvShowErrorMessage('Failed to apply spelling changes to the workspace.');
+        }
+        const skipped = [
+            conflicts.length ? `${conflicts.join(', ')} overlapped other changes` : undefined,
+            outdated.length ? `the issues in ${outdated.map((uri) => uriToName(uri)).join(', ')} are outdated` : undefined,
+        ].filter((s) => !!s);
+        if (skipped.length) {
+            await pvShowWarningMessage(`Some spelling issues were not fixed: ${skipped.join('; ')}.`);
+        }
+    }
+
+    for (const group of toAdd) {
+        await addWordToTarget(group.word, dictionaryTargetBestMatches, group.issues[0]?.uri);
+    }
+}
+
+/**
+ * Let the user decide what to do with each group.
+ * @returns true if the changes should be applied.
+ */
+async function chooseFixes(groups: FixGroup[]): Promise<boolean> {
+    const applyItem: GroupQuickPickItem = { label: '$(check-all) Preview and Apply Changes', alwaysShow: true };
+    let activeGroup: FixGroup | undefined;
+
+    for (;;) {
+        const groupItems = groups.map(toGroupQuickPickItem);
+        const items: GroupQuickPickItem[] = [applyItem, { label: 'Issues', kind: QuickPickItemKind.Separator }, ...groupItems];
+        const quickPick = window.createQuickPick<GroupQuickPickItem>();
+        quickPick.title = 'Review Spelling Fixes';
+        quickPick.placeholder = 'Select a word to change how it is fixed.';
+        quickPick.items = items;
+        quickPick.activeItems = groupItems.filter((item) => item.group === activeGroup);
+        const picked = await new Promise<GroupQuickPickItem | undefined>((resolve) => {
+            quickPick.onDidAccept(() => resolve(quickPick.selectedItems[0]));
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+
+        if (!picked) return false;
+        if (picked === applyItem) return true;
+        activeGroup = picked.group;
+        if (!activeGroup) continue;
+        const action = await chooseAction(activeGroup);
+        if (action) activeGroup.action = action;
+    }
+}
+
+async function chooseAction(group: FixGroup): Promise<FixAction | undefined> {
+    const { word, suggestions, action } = group;
+    const current = action.kind === 'replace' ? action.suggestion : undefined;
+    const items: ActionQuickPickItem[] = [
+        ...suggestions.map(
+            (suggestion): ActionQuickPickItem => ({
+                label: `${suggestion === current ? '$(check)' : '$(replace)'} ${suggestion}`,
+                description: suggestion === current ? 'accepted' : undefined,
+                action: { kind: 'replace', suggestion },
+            }),
+        ),
+        { label: '$(debug-step-over) Skip', description: action.kind === 'skip' ? 'current' : undefined, action: { kind: 'skip' } },
+        {
+            label: '$(book) Add to Dictionary',
+            description: action.kind === 'addToDictionary' ? 'current' : undefined,
+            action: { kind: 'addToDictionary' },
+        },
+    ];
+    const picked = await window.showQuickPick(items, { title: `Fix "${word}"` });
+    return picked?.action;
+}
+
+function toGroupQuickPickItem(group: FixGroup): GroupQuickPickItem {
+    const { word, action, issues } = group;
+    const files = new Set(issues.map((issue) => issue.uri.toString())).size;
+    const detail = `${issues.length} ${issues.length === 1 ? 'issue' : 'issues'} in ${files} ${files === 1 ? 'file' : 'files'}`;
+    return { label: `${word} ${describeAction(action)}`, detail, group };
+}
+
+function describeAction(action: FixAction): string {
+    switch (action.kind) {
+        case 'replace':
+            return `→ ${action.suggestion}`;
+        case 'skip':
+            return '(skip)';
+        case 'addToDictionary':
+            return '(add to dictionary)';
+    }
+}
+
+/**
+ * Group the spelling issues that have suggestions by the misspelled word.
+ * Baselined issues are skipped.
+ * Each group is set to be replaced with its first suggestion.
+ */
+export function groupIssuesByWord(diagnostics: [Uri, SpellingDiagnostic[]][]): FixGroup[] {
+    const groups = new Map<string, FixGroup>();
+
+    for (const [uri, diags] of diagnostics) {
+        for (const diag of diags) {
+            const { text, suggestions, issueType, isSuggestion, isBaselined } = diag.data || {};
+            if (!text || !suggestions?.length || issueType || isSuggestion || isBaselined) continue;
+            const group = groups.get(text) || {
+                word: text,
+                suggestions: [],
+                issues: [],
+                action: { kind: 'replace', suggestion: suggestions[0].word },
+            };
+            group.suggestions = [...new Set([...group.suggestions, ...suggestions.map((s) => s.word)])];
+            group.issues.push({ uri, range: diag.range });
+            groups.set(text, group);
+        }
+    }
+
+    return [...groups.values()].sort((a, b) => a.word.localeCompare(b.word));
+}
+
+/**
+ * Build a single WorkspaceEdit for all the accepted groups.
+ * Each group is labeled so it can be reviewed in the refactor preview.
+ * VS Code rejects a WorkspaceEdit with overlapping edits, a group with edits that overlap an earlier group is skipped.
+ */
+async function calcReviewWorkspaceEdit(groups: FixGroup[]): Promise<ReviewWorkspaceEdit> {
+    const wsEdit = new WorkspaceEdit();
+    const accepted = new Map<string, TextEdit[]>();
+    const conflicts: string[] = [];
+    const outdated: Uri[] = [];
+
+    for (const group of groups) {
+        if (group.action.kind !== 'replace') continue;
+        const { word } = group;
+        const { suggestion } = group.action;
+        const metadata: WorkspaceEditEntryMetadata = { label: `${word} → ${suggestion}`, needsConfirmation: true };
+
+        const groupEdits: [Uri, TextEdit[]][] = [];
+        for (const [uri, ranges] of groupRangesByUri(group.issues)) {
+            const doc = await workspace.openTextDocument(uri);
+            const edits = ranges.filter((range) => doc.getText(range) === word).map((range) => new TextEdit(range, suggestion));
+            if (!edits.length) {
+                outdated.push(uri);
+                continue;
+            }
+            groupEdits.push(...(await calcSpellingFixWorkspaceEdit(doc, edits)).entries());
+        }
+
+        const toApply = addNonOverlappingEdits(accepted, groupEdits);
+        if (!toApply) {
+            conflicts.push(word);
+            continue;
+        }
+        for (const [uri, edits] of toApply) {
+            edits.forEach((edit) => wsEdit.replace(uri, edit.range, edit.newText, metadata));
+        }
+    }
+
+    return { wsEdit, conflicts, outdated };
+}
+
+/**
+ * Add the edits of a group to the accepted edits.
+ * An edit identical to an accepted edit is dropped, it comes from renaming the same symbol from more than one file.
+ * @param accepted - the accepted edits by uri, it is updated if there is no overlap.
+ * @param groupEdits - the edits of the group.
+ * @returns the edits to apply, undefined if an edit overlaps an accepted edit or another edit of the group.
+ */
+export function addNonOverlappingEdits(
+    accepted: Map<string, TextEdit[]>,
+    groupEdits: [Uri, TextEdit[]][],
+): [Uri, TextEdit[]][] | undefined {
+    const added = new Map<string, [Uri, TextEdit[]]>();
+    for (const [uri, edits] of groupEdits) {
+        const key = uri.toString();
+        const entry = added.get(key) || [uri, []];
+        added.set(key, entry);
+        for (const edit of edits) {
+            const existing = [...(accepted.get(key) || []), ...entry[1]];
+            if (existing.some((e) => e.range.isEqual(edit.range) && e.newText === edit.newText)) continue;
+            if (existing.some((e) => doRangesOverlap(e.range, edit.range))) return undefined;
+            entry[1].push(edit);
+        }
+    }
+    for (const [key, [, edits]] of added) {
+        accepted.set(key, [...(accepted.get(key) || []), ...edits]);
+    }
+    return [...added.values()].filter(([, edits]) => edits.length);
+}
+
+function doRangesOverlap(a: Range, b: Range): boolean {
+    const intersection = a.intersection(b);
+    return !!intersection && (!intersection.isEmpty || a.isEqual(b));
+}
+
+function groupRangesByUri(issues: FixIssue[]): [Uri, Range[]][] {
+    const byUri = new Map<string, [Uri, Range[]]>();
+    for (const { uri, range } of issues) {
+        const entry = byUri.get(uri.toString()) || [uri, []];
+        entry[1].push(range);
+        byUri.set(uri.toString(), entry);
+    }
+    return [...byUri.values()];
+}
@@ -17,20 +17,32 @@ export const ConfigFields: CSpellUserSettingsFields = {
     'advanced.feature.useReferenceProviderWithRename': 'advanced.feature.useReferenceProviderWithRename',
     autoFormatConfigFile: 'autoFormatConfigFile',
     allowedSchemas: 'allowedSchemas',
+    baselineFile: 'baselineFile',
     blockCheckingWhenAverageChunkSizeGreaterThan: 'blockCheckingWhenAverageChunkSizeGreaterThan',
     blockCheckingWhenLineLengthGreaterThan: 'blockCheckingWhenLineLengthGreaterThan',
     blockCheckingWhenTextChunkSizeGreaterThan: 'blockCheckingWhenTextChunkSizeGreaterThan',
+    changedLinesBaseBranch: 'changedLinesBaseBranch',
     checkLimit: 'checkLimit',
+    checkNotebookOutputs: 'checkNotebookOutputs',
     checkOnlyEnabledFileTypes: 'checkOnlyEnabledFileTypes',
+    checkScopes: 'checkScopes',
+    checkTranslationFiles: 'checkTranslationFiles',
+    commitMessageDictionaries: 'commitMessageDictionaries',
+    commitMessageProfile: 'commitMessageProfile',
     customDictionaries: 'customDictionaries',
     customFolderDictionaries: 'customFolderDictionaries',
     customUserDictionaries: 'customUserDictionaries',
     customWorkspaceDictionaries: 'customWorkspaceDictionaries',
+    detectLocale: 'detectLocale',
     diagnosticLevel: 'diagnosticLevel',
     diagnosticLevelFlaggedWords: 'diagnosticLevelFlaggedWords',
     diagnosticLevelSCM: 'diagnosticLevelSCM',
     fixSpellingWithRenameProvider: 'fixSpellingWithRenameProvider',
     hideAddToDictionaryCodeActions: 'hideAddToDictionaryCodeActions',
+    identifierRules: 'identifierRules',
+    incrementalValidation: 'incrementalValidation',
+    incrementalValidationContextLines: 'incrementalValidationContextLines',
+    localeRegions: 'localeRegions',
     logLevel: 'logLevel',
     logFile: 'logFile',
     mapOfEnabledFileTypes: 'mapOfEnabledFileTypes',
@@ -39,6 +51,9 @@ export const ConfigFields: CSpellUserSettingsFields = {
     mergeCSpellSettings: 'mergeCSpellSettings',
     mergeCSpellSettingsFields: 'mergeCSpellSettingsFields',
     noSuggestDictionaries: 'noSuggestDictionaries',
+    regExpProfiler: 'regExpProfiler',
+    regExpProfilerBudgetMs: 'regExpProfilerBudgetMs',
+    reportChangedLinesOnly: 'reportChangedLinesOnly',
     showAutocompleteSuggestions: 'showAutocompleteSuggestions',
     showCommandsInEditorContextMenu: 'showCommandsInEditorContextMenu',
     showStatus: 'showStatus',
@@ -49,6 +64,8 @@ export const ConfigFields: CSpellUserSettingsFields = {
     suggestionMenuType: 'suggestionMenuType',
     suggestionNumChanges: 'suggestionNumChanges',
     suggestionsTimeout: 'suggestionsTimeout',
+    validationWorkerPoolSize: 'validationWorkerPoolSize',
+    validationWorkerTimeoutMs: 'validationWorkerTimeoutMs',
     workspaceRootPath: 'workspaceRootPath',
     decorateIssues: 'decorateIssues',
     textDecoration: 'textDecoration',
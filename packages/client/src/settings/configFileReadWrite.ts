@@ -54,6 +54,15 @@ export async function readConfigFile(uri: Uri, defaultValueIfNotFound?: CSpellSe
     }
 }
 
+/**
+ * Parse the content of a configuration file, like the text of an open document.
+ * @param uri - uri of the configuration file, used to select the file format.
+ * @param content - the content of the file.
+ */
+export function parseConfigFileContent(uri: Uri, content: string): CSpellSettings {
+    return createConfigFileReaderWriter(uri).parse(content);
+}
+
 export function writeConfigFile(uri: Uri, cfg: CSpellSettings): Promise<void> {
     const rw = createConfigFileReaderWriter(uri);
     return rw.write(cfg);
@@ -181,6 +190,7 @@ export interface ConfigFileReaderWriter extends ConfigReaderWriter {
     readonly uri: Uri;
     _update(fn: ConfigUpdateFn): Promise<void>;
     _read(): Promise<CSpellUserSettings>;
+    parse(content: string): CSpellUserSettings;
 }
 
 abstract class AbstractConfigFileReaderWriter implements ConfigFileReaderWriter {
@@ -190,7 +200,12 @@ abstract class AbstractConfigFileReaderWriter implements ConfigFileReaderWriter
         return extractKeys(await this._read(), keys);
     }
 
-    abstract _read(): Promise<CSpellUserSettings>;
+    async _read(): Promise<CSpellUserSettings> {
+        const content = await fs.readFile(this.uri, 'utf8');
+        return this.parse(content);
+    }
+
+    abstract parse(content: string): CSpellUserSettings;
     abstract write(settings: CSpellSettings): Promise<void>;
 
     update<K extends keyof CSpellUserSettings>(fn: ConfigUpdateFn, keys: K[]): Promise<void> {
@@ -218,11 +233,8 @@ class ConfigFileReaderWriterJson extends AbstractConfigFileReaderWriter {
         return fs.writeFile(this.uri, content);
     }
 
-    async _read(): Promise<CSpellSettings> {
-        const uri = this.uri;
-        const content = await fs.readFile(uri, 'utf8');
-        const s = parseJson(content) as CSpellSettings;
-        return s;
+    parse(content: string): CSpellSettings {
+        return parseJson(content) as CSpellSettings;
     }
 }
 
@@ -242,8 +254,7 @@ class ConfigFileReaderWriterPackage extends AbstractConfigFileReaderWriter {
         return fs.writeFile(this.uri, stringifyJson(pkg, spacesPackage, false));
     }
 
-    async _read(): Promise<CSpellSettings> {
-        const content = await fs.readFile(this.uri, 'utf8');
+    parse(content: string): CSpellSettings {
         const pkg = parseJson(content) as { cspell?: CSpellPackageSettings };
         if (!pkg.cspell || typeof pkg.cspell !== 'object') {
             throw new SysLikeError('`cspell` section missing from package.json', 'ENOENT');
@@ -264,8 +275,7 @@ class ConfigFileReaderWriterYaml extends AbstractConfigFileReaderWriter {
         return fs.writeFile(this.uri, stringifyYaml(cfg));
     }
 
-    async _read(): Promise<CSpellSettings> {
-        const content = await fs.readFile(this.uri, 'utf8');
+    parse(content: string): CSpellSettings {
         return parseYaml(content) as CSpellSettings;
     }
 }
@@ -47,6 +47,10 @@ export class MemoryConfigFileReaderWriter extends MemoryReaderWriter implements
     ) {
         super(data);
     }
+
+    parse(content: string): CSpellUserSettings {
+        return JSON.parse(content);
+    }
 }
 
 export class MemoryConfigVSReaderWriter extends MemoryReaderWriter implements VSConfigReaderWriter {
@@ -0,0 +1,136 @@
+import { Uri } from 'vscode';
+
+import { __testing__, findProblemRange, fixToTextEdit } from './settingsLinter';
+
+const { settingsFileKind, readSettings, vscodeSettingsBaseUri } = __testing__;
+
+const sampleJson = `{
+    // comment
+    "dictionaries": ["typescrpt", "softwareTerms"],
+    "ignorePaths": [
+        "node_modules",
+        "*.md"
+    ],
+    "import": ["./missing.json"]
+}
+`;
+
+const sampleYaml = `dictionaries:
+  - typescrpt
+  - 'softwareTerms'
+ignoreRegExpList:
+  - /[a-z/g
+files: [src, docs]
+words:
+  - one # comment
+`;
+
+const nestedJson = `{
+    "overrides": [{ "filename": "*.md", "words": ["one"] }],
+    "words": ["one"]
+}
+`;
+
+const nestedYaml = `overrides:
+  - filename: '*.md'
+    words: [one]
+words:
+  - one
+`;
+
+describe('settingsLinter', () => {
+    test.each`
+        uri                                                        | expected
+        ${'file:///workspace/cspell.json'}                         | ${'cspell'}
+        ${'file:///workspace/.config/cspell.config.yaml'}          | ${'cspell'}
+        ${'file:///workspace/package.json'}                        | ${'cspell'}
+        ${'file:///workspace/cspell.config.js'}                    | ${undefined}
+        ${'file:///workspace/tsconfig.json'}                       | ${undefined}
+        ${'file:///workspace/.vscode/settings.json'}               | ${'vscode'}
+        ${'vscode-userdata:/Users/cspell/Code/User/settings.json'} | ${'vscode'}
+        ${'file:///workspace/settings.json'}                       | ${undefined}
+    `('settingsFileKind $uri', ({ uri, expected }) => {
+        expect(settingsFileKind(Uri.parse(uri))).toBe(expected);
+    });
+
+    test('readSettings', () => {
+        const cspellJson = Uri.parse('file:///workspace/cspell.json');
+        const vscodeSettings = Uri.parse('file:///workspace/.vscode/settings.json');
+        const packageJson = Uri.parse('file:///workspace/package.json');
+        expect(readSettings(cspellJson, sampleJson, 'cspell')).toEqual(expect.objectContaining({ import: ['./missing.json'] }));
+        expect(readSettings(cspellJson, '{ "words": [', 'cspell')).toBeUndefined();
+        expect(readSettings(packageJson, '{ "name": "pkg" }', 'cspell')).toBeUndefined();
+        expect(readSettings(packageJson, '{ "cspell": { "words": ["one"] } }', 'cspell')).toEqual({ words: ['one'] });
+        const vsJson = '{ "editor.tabSize": 4, "cSpell.words": ["one"], "cSpell.enabled": true }';
+        expect(readSettings(vscodeSettings, vsJson, 'vscode')).toEqual({ words: ['one'], enabled: true });
+        expect(readSettings(vscodeSettings, '{ "editor.tabSize": 4 }', 'vscode')).toBeUndefined();
+    });
+
+    test('vscodeSettingsBaseUri', () => {
+        expect(vscodeSettingsBaseUri(Uri.parse('file:///workspace/.vscode/settings.json'))?.toString()).toBe('file:///workspace');
+        expect(vscodeSettingsBaseUri(Uri.parse('vscode-userdata:/Users/cspell/Code/User/settings.json'))).toBeUndefined();
+    });
+
+    test.each`
+        text          | key                   | value               | format    | keyPrefix    | expected             | isValue
+        ${sampleJson} | ${'dictionaries'}     | ${'typescrpt'}      | ${'json'} | ${''}        | ${'"typescrpt"'}     | ${true}
+        ${sampleJson} | ${'ignorePaths'}      | ${'*.md'}           | ${'json'} | ${''}        | ${'"*.md"'}          | ${true}
+        ${sampleJson} | ${'dictionaries'}     | ${'unknown'}        | ${'json'} | ${''}        | ${'dictionaries'}    | ${false}
+        ${sampleJson} | ${'words'}            | ${'one'}            | ${'json'} | ${''}        | ${undefined}         | ${false}
+        ${vsJson()}   | ${'words'}            | ${'Two'}            | ${'json'} | ${'cSpell.'} | ${'"Two"'}           | ${true}
+        ${sampleYaml} | ${'dictionaries'}     | ${'typescrpt'}      | ${'yaml'} | ${''}        | ${'typescrpt'}       | ${true}
+        ${sampleYaml} | ${'dictionaries'}     | ${'softwareTerms'}  | ${'yaml'} | ${''}        | ${"'softwareTerms'"} | ${true}
+        ${sampleYaml} | ${'ignoreRegExpList'} | ${'/[a-z/g'}        | ${'yaml'} | ${''}        | ${'/[a-z/g'}         | ${true}
+        ${sampleYaml} | ${'import'}           | ${'./missing.json'} | ${'yaml'} | ${''}        | ${undefined}         | ${false}
+    `('findProblemRange $key $value $format', ({ text, key, value, format, keyPrefix, expected, isValue }) => {
+        const found = findProblemRange(text, { key, value }, format, keyPrefix);
+        expect(found && text.slice(found.range.start, found.range.end)).toBe(expected);
+        expect(!!found?.isValue).toBe(isValue);
+    });
+
+    test.each`
+        text          | format    | value    | expected
+        ${nestedJson} | ${'json'} | ${'one'} | ${'"one"'}
+        ${nestedJson} | ${'json'} | ${'two'} | ${'words'}
+        ${nestedYaml} | ${'yaml'} | ${'one'} | ${'one'}
+        ${nestedYaml} | ${'yaml'} | ${'two'} | ${'words'}
+    `('findProblemRange ignores nested keys $value $format', ({ text, format, value, expected }) => {
+        const found = findProblemRange(text, { key: 'words', value }, format);
+        expect(found && text.slice(found.range.start, found.range.end)).toBe(expected);
+        // The key in `overrides` comes first.
+        expect(found?.range.start).toBeGreaterThanOrEqual(text.lastIndexOf('words'));
+    });
+
+    test.each`
+        text          | key                   | value               | fix                                    | format    | expected
+        ${sampleJson} | ${'dictionaries'}     | ${'typescrpt'}      | ${{ title: 'c', value: 'typescript' }} | ${'json'} | ${'"dictionaries": ["typescript", "softwareTerms"],'}
+        ${sampleJson} | ${'dictionaries'}     | ${'typescrpt'}      | ${{ title: 'r' }}                      | ${'json'} | ${'"dictionaries": ["softwareTerms"],'}
+        ${sampleJson} | ${'dictionaries'}     | ${'softwareTerms'}  | ${{ title: 'r' }}                      | ${'json'} | ${'"dictionaries": ["typescrpt"],'}
+        ${sampleJson} | ${'ignorePaths'}      | ${'*.md'}           | ${{ title: 'r' }}                      | ${'json'} | ${'"ignorePaths": [\n        "node_modules"\n    ],'}
+        ${sampleJson} | ${'import'}           | ${'./missing.json'} | ${{ title: 'r' }}                      | ${'json'} | ${'"import": []'}
+        ${sampleYaml} | ${'dictionaries'}     | ${'typescrpt'}      | ${{ title: 'r' }}                      | ${'yaml'} | ${"dictionaries:\n  - 'softwareTerms'\nignoreRegExpList"}
+        ${sampleYaml} | ${'words'}            | ${'one'}            | ${{ title: 'r' }}                      | ${'yaml'} | ${'words:\n'}
+        ${sampleYaml} | ${'ignoreRegExpList'} | ${'/[a-z/g'}        | ${{ title: 'c', value: '/[a-z]/g' }}   | ${'yaml'} | ${'ignoreRegExpList:\n  - /[a-z]/g\n'}
+        ${sampleYaml} | ${'files'}            | ${'src'}            | ${{ title: 'r' }}                      | ${'yaml'} | ${'files: [docs]'}
+        ${sampleYaml} | ${'files'}            | ${'docs'}           | ${{ title: 'c', value: 'doc, *' }}     | ${'yaml'} | ${'files: [src, "doc, *"]'}
+    `('fixToTextEdit $key $value $fix $format', ({ text, key, value, fix, format, expected }) => {
+        const found = findProblemRange(text, { key, value }, format);
+        expect(found?.isValue).toBe(true);
+        const result = found && fixToTextEdit(text, found.range, fix, format);
+        expect(result?.title).toBe(fix.title);
+        const edit = result?.edit;
+        const newText = edit ? text.slice(0, edit.start) + edit.newText + text.slice(edit.end) : text;
+        expect(newText).toContain(expected);
+    });
+
+    test('fixToTextEdit does not remove values that are not in a list', () => {
+        const text = '{ "patterns": [{ "name": "bad", "pattern": "/(/" }] }';
+        const found = findProblemRange(text, { key: 'patterns', value: '/(/' }, 'json');
+        expect(found?.isValue).toBe(true);
+        expect(found && fixToTextEdit(text, found.range, { title: 'Remove' }, 'json')).toBeUndefined();
+    });
+});
+
+function vsJson() {
+    return '{\n    "cSpell.words": ["one", "Two"],\n    "cSpell.flagWords": ["two"]\n}\n';
+}
@@ -0,0 +1,327 @@
+import { findNodeAtLocation, parseTree } from 'jsonc-parser';
+import type { CodeActionProvider, Selection, TextDocument, Uri } from 'vscode';
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, Disposable, languages, Range, workspace, WorkspaceEdit } from 'vscode';
+import { Utils as UriUtils } from 'vscode-uri';
+import { isMap, isNode, isScalar, parseDocument as parseYamlDocument, stringify as stringifyYaml } from 'yaml';
+
+import type { CSpellClient, CSpellUserSettings, SettingsProblem, SettingsProblemFix } from './client';
+import { isHandled, parseConfigFileContent, parseJson } from './settings/configFileReadWrite';
+import { configFileLocations } from './settings/CSpellSettings';
+import { sectionCSpell } from './settings/vsConfig';
+import { isDefined } from './util';
+import { logErrors } from './util/errors';
+
+const diagnosticSource = 'cSpell Settings';
+const lintDelayMs = 500;
+
+type SettingsFileKind = 'cspell' | 'vscode';
+type SettingsFormat = 'json' | 'yaml';
+
+interface TextRange {
+    start: number;
+    end: number;
+}
+
+interface LocatedProblem {
+    range: Range;
+    problem: SettingsProblem;
+}
+
+const configFileSuffixes = configFileLocations.filter((name) => !/\.c?js$/.test(name)).map((name) => '/' + name.toLowerCase());
+
+/**
+ * Show the problems found in the spell checker settings as diagnostics in
+ * cspell configuration files and VS Code `settings.json` files.
+ * The problems are found by the server, quick fixes are offered where possible.
+ */
+export function activateSettingsLinter(client: CSpellClient): Disposable {
+    const collection = languages.createDiagnosticCollection(diagnosticSource);
+    const pending = new Map<string, NodeJS.Timeout>();
+    const located = new Map<string, LocatedProblem[]>();
+
+    async function lint(document: TextDocument) {
+        const kind = settingsFileKind(document.uri);
+        if (!kind) return;
+        const uri = document.uri;
+        const version = document.version;
+        const text = document.getText();
+        const settings = readSettings(uri, text, kind);
+        if (!settings) {
+            collection.delete(uri);
+            located.delete(uri.toString());
+            return;
+        }
+        const baseUri = kind === 'vscode' ? vscodeSettingsBaseUri(uri) : undefined;
+        const { problems } = await client.lintSettings({ uri: uri.toString(), settings, baseUri: baseUri?.toString() });
+        if (document.isClosed || document.version !== version) return;
+        const found = locateProblems(document, problems, kind);
+        located.set(uri.toString(), found);
+        collection.set(uri, found.map(toDiagnostic));
+    }
+
+    function scheduleLint(document: TextDocument) {
+        if (!settingsFileKind(document.uri)) return;
+        const key = document.uri.toString();
+        clearTimeout(pending.get(key));
+        pending.set(
+            key,
+            setTimeout(() => {
+                pending.delete(key);
+                logErrors(lint(document), 'lintSettings');
+            }, lintDelayMs),
+        );
+    }
+
+    function clear(document: TextDocument) {
+        const key = document.uri.toString();
+        clearTimeout(pending.get(key));
+        pending.delete(key);
+        located.delete(key);
+        collection.delete(document.uri);
+    }
+
+    workspace.textDocuments.forEach(scheduleLint);
+
+    const disposables = [
+        collection,
+        workspace.onDidOpenTextDocument(scheduleLint),
+        workspace.onDidChangeTextDocument((e) => scheduleLint(e.document)),
+        workspace.onDidSaveTextDocument(scheduleLint),
+        workspace.onDidCloseTextDocument(clear),
+        languages.registerCodeActionsProvider(
+            { pattern: '**/*.{json,jsonc,yaml,yml}' },
+            new SettingsCodeActionProvider((uri) => located.get(uri.toString()) ?? []),
+            {
+                providedCodeActionKinds: SettingsCodeActionProvider.providedCodeActionKinds,
+            },
+        ),
+    ];
+
+    return new Disposable(() => {
+        pending.forEach((timeout) => clearTimeout(timeout));
+        pending.clear();
+        located.clear();
+        disposables.forEach((d) => d.dispose());
+    });
+}
+
+class SettingsCodeActionProvider implements CodeActionProvider {
+    public static readonly providedCodeActionKinds = [CodeActionKind.QuickFix];
+
+    constructor(readonly getProblems: (uri: Uri) => LocatedProblem[]) {}
+
+    provideCodeActions(document: TextDocument, range: Range | Selection): CodeAction[] {
+        const format = settingsFormat(document.uri);
+        const text = document.getText();
+        return this.getProblems(document.uri)
+            .filter((p) => p.range.intersection(range))
+            .flatMap(({ range, problem }) => {
+                const textRange = { start: document.offsetAt(range.start), end: document.offsetAt(range.end) };
+                return problem.fixes
+                    .map((fix) => fixToTextEdit(text, textRange, fix, format))
+                    .filter(isDefined)
+                    .map(({ title, edit }) => {
+                        const action = new CodeAction(title, CodeActionKind.QuickFix);
+                        action.edit = new WorkspaceEdit();
+                        action.edit.replace(document.uri, toRange(document, edit), edit.newText);
+                        return action;
+                    });
+            });
+    }
+}
+
+function locateProblems(document: TextDocument, problems: SettingsProblem[], kind: SettingsFileKind): LocatedProblem[] {
+    const text = document.getText();
+    const format = settingsFormat(document.uri);
+    const keyPrefix = kind === 'vscode' ? sectionCSpell + '.' : '';
+    return problems.map((problem) => {
+        const found = findProblemRange(text, problem, format, keyPrefix);
+        const range = found ? toRange(document, found.range) : new Range(0, 0, 0, 0);
+        // Fixes can only be applied if the value was found.
+        return { range, problem: found?.isValue ? problem : { ...problem, fixes: [] } };
+    });
+}
+
+function toDiagnostic({ range, problem }: LocatedProblem): Diagnostic {
+    const diag = new Diagnostic(range, problem.message, toDiagnosticSeverity(problem.severity));
+    diag.source = diagnosticSource;
+    diag.code = problem.code;
+    return diag;
+}
+
+function readSettings(uri: Uri, text: string, kind: SettingsFileKind): CSpellUserSettings | undefined {
+    try {
+        if (kind === 'cspell') return parseConfigFileContent(uri, text);
+        const vsSettings = parseJson(text) as Record<string, unknown>;
+        const prefix = sectionCSpell + '.';
+        const entries = Object.entries(vsSettings)
+            .filter(([key]) => key.startsWith(prefix))
+            .map(([key, value]) => [key.slice(prefix.length), value]);
+        return entries.length ? Object.fromEntries(entries) : undefined;
+    } catch {
+        // Incomplete or invalid files are reported by the json and yaml language support.
+        return undefined;
+    }
+}
+
+function settingsFileKind(uri: Uri): SettingsFileKind | undefined {
+    const path = uri.path.toLowerCase();
+    if (path.endsWith('/.vscode/settings.json') || (uri.scheme === 'vscode-userdata' && path.endsWith('/settings.json'))) {
+        return 'vscode';
+    }
+    return configFileSuffixes.some((suffix) => path.endsWith(suffix)) && isHandled(uri) ? 'cspell' : undefined;
+}
+
+function settingsFormat(uri: Uri): SettingsFormat {
+    return /\.ya?ml$/i.test(uri.path) ? 'yaml' : 'json';
+}
+
+/**
+ * The workspace folder a `.vscode/settings.json` file belongs to.
+ */
+function vscodeSettingsBaseUri(uri: Uri): Uri | undefined {
+    if (uri.scheme === 'vscode-userdata') return undefined;
+    return UriUtils.dirname(UriUtils.dirname(uri));
+}
+
+function toDiagnosticSeverity(severity: SettingsProblem['severity']): DiagnosticSeverity {
+    switch (severity) {
+        case 'error':
+            return DiagnosticSeverity.Error;
+        case 'warning':
+            return DiagnosticSeverity.Warning;
+    }
+    return DiagnosticSeverity.Information;
+}
+
+function toRange(document: TextDocument, range: TextRange): Range {
+    return new Range(document.positionAt(range.start), document.positionAt(range.end));
+}
+
+/**
+ * Find the location of a problem in the text of a settings file.
+ * The value is searched for after the key. If the value cannot be found, the key is used.
+ * @param text - the text of the settings file.
+ * @param problem - the problem to find.
+ * @param format - the format of the file.
+ * @param keyPrefix - the prefix of the key, `cSpell.` for VS Code settings.
+ */
+export function findProblemRange(
+    text: string,
+    problem: Pick<SettingsProblem, 'key' | 'value'>,
+    format: SettingsFormat,
+    keyPrefix = '',
+): { range: TextRange; isValue: boolean } | undefined {
+    const property = findProperty(text, keyPrefix + problem.key, format);
+    if (!property) return undefined;
+
+    const candidates = typeof problem.value === 'string' ? valueTokens(problem.value, format) : [];
+    for (const token of candidates) {
+        const start = text.indexOf(token, property.value.start);
+        if (start >= 0 && start + token.length <= property.value.end) return { range: { start, end: start + token.length }, isValue: true };
+    }
+    return { range: property.key, isValue: false };
+}
+
+/**
+ * Find a top level property of a settings file, a key with the same name in a nested object is not a match.
+ * @returns the range of the key, without quotes, and the range of the value.
+ */
+function findProperty(text: string, key: string, format: SettingsFormat): { key: TextRange; value: TextRange } | undefined {
+    if (format === 'json') {
+        const root = parseTree(text);
+        const value = root && findNodeAtLocation(root, [key]);
+        const keyNode = value?.parent?.children?.[0];
+        if (!value || !keyNode) return undefined;
+        return {
+            key: { start: keyNode.offset + 1, end: keyNode.offset + keyNode.length - 1 },
+            value: { start: value.offset, end: value.offset + value.length },
+        };
+    }
+    const doc = parseYamlDocument(text);
+    const pair = isMap(doc.contents) ? doc.contents.items.find((p) => isScalar(p.key) && p.key.value === key) : undefined;
+    const keyRange = pair && isScalar(pair.key) ? pair.key.range : undefined;
+    if (!pair || !keyRange) return undefined;
+    const valueRange = isNode(pair.value) ? pair.value.range : undefined;
+    return {
+        key: { start: keyRange[0], end: keyRange[1] },
+        value: valueRange ? { start: valueRange[0], end: valueRange[1] } : { start: keyRange[1], end: keyRange[1] },
+    };
+}
+
+/**
+ * The ways a string value can be written in the file, the most likely first.
+ */
+function valueTokens(value: string, format: SettingsFormat): string[] {
+    if (format === 'json') return [JSON.stringify(value)];
+    return [...new Set([JSON.stringify(value), `'${value.replace(/'/g, "''")}'`, toYamlScalar(value), value])];
+}
+
+function toYamlScalar(value: string, inFlowList = false): string {
+    // Plain scalars in a `[a, b]` list cannot contain flow indicators.
+    return inFlowList && /[[\]{},]/.test(value) ? JSON.stringify(value) : stringifyYaml(value).trimEnd();
+}
+
+function isInFlowList(text: string, range: TextRange): boolean {
+    return /[[,]\s*$/.test(text.slice(0, range.start));
+}
+
+/**
+ * Convert a fix into a text edit.
+ * A fix with a value replaces the value, a fix without a value removes the value from its list.
+ * @param text - the text of the settings file.
+ * @param range - the location of the value.
+ * @param fix - the fix to apply.
+ * @param format - the format of the file.
+ * @returns the edit or `undefined` if the fix cannot be applied.
+ */
+export function fixToTextEdit(
+    text: string,
+    range: TextRange,
+    fix: SettingsProblemFix,
+    format: SettingsFormat,
+): { title: string; edit: TextRange & { newText: string } } | undefined {
+    if (fix.value !== undefined) {
+        const newText = format === 'json' ? JSON.stringify(fix.value) : toYamlScalar(fix.value, isInFlowList(text, range));
+        return { title: fix.title, edit: { ...range, newText } };
+    }
+    const removal = format === 'yaml' ? findYamlListItem(text, range) ?? findFlowListItem(text, range) : findFlowListItem(text, range);
+    return removal && { title: fix.title, edit: { ...removal, newText: '' } };
+}
+
+/**
+ * Find the text to remove a value from a `[a, b, c]` list, including a separating comma.
+ */
+function findFlowListItem(text: string, range: TextRange): TextRange | undefined {
+    const before = text.slice(0, range.start).match(/([[,])\s*$/);
+    if (!before) return undefined;
+    const after = text.slice(range.end).match(/^\s*([\],])/);
+    if (!after) return undefined;
+    if (after[1] === ',') {
+        const next = text.slice(range.end).match(/^\s*,\s*/)?.[0] ?? '';
+        return { start: range.start, end: range.end + next.length };
+    }
+    if (before[1] === ',') {
+        return { start: range.start - before[0].length, end: range.end };
+    }
+    // The only value in the list.
+    return range;
+}
+
+/**
+ * Find the line of a YAML block sequence entry: `  - value`.
+ */
+function findYamlListItem(text: string, range: TextRange): TextRange | undefined {
+    const lineStart = text.lastIndexOf('\n', range.start - 1) + 1;
+    const lineEndIndex = text.indexOf('\n', range.end);
+    const lineEnd = lineEndIndex < 0 ? text.length : lineEndIndex + 1;
+    if (!/^[ \t]*-[ \t]+$/.test(text.slice(lineStart, range.start))) return undefined;
+    if (!/^[ \t]*(#.*)?\r?\n?$/.test(text.slice(range.end, lineEnd))) return undefined;
+    return { start: lineStart, end: lineEnd };
+}
+
+export const __testing__ = {
+    settingsFileKind,
+    readSettings,
+    vscodeSettingsBaseUri,
+};
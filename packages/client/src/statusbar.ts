@@ -1,15 +1,18 @@
 import { isSupportedDoc, isSupportedUri, uriToName } from '@internal/common-utils/uriHelper';
+import { lookupLocaleInfo } from '@internal/locale-resolver';
 import * as path from 'path';
 import type { ExtensionContext, TextEditor } from 'vscode';
 import { window, workspace } from 'vscode';
 import * as vscode from 'vscode';
 
-import type { CSpellClient, CSpellUserSettings, ServerResponseIsSpellCheckEnabledForFile } from './client';
+import type { CSpellClient, CSpellUserSettings, DocumentLocale, ServerResponseIsSpellCheckEnabledForFile } from './client';
+import { knownCommands } from './commands';
 import { getCSpellDiags } from './diags';
 import * as infoViewer from './infoViewer';
 import { sectionCSpell } from './settings';
 
 const statusBarId = 'spell checker status id';
+const statusBarLocaleId = 'spell checker locale id';
 
 const cspellStatusBarIcon = 'Spell'; // '$(symbol-text)'
 
@@ -23,6 +26,8 @@ export function initStatusBar(context: ExtensionContext, client: CSpellClient):
     const alignment = toStatusBarAlignment(showStatusAlignment);
     const sbCheck = window.createStatusBarItem(statusBarId, alignment);
     sbCheck.name = 'Code Spell Checker';
+    const sbLocale = window.createStatusBarItem(statusBarLocaleId, alignment);
+    sbLocale.name = 'Spell Checker Locale';
 
     let lastUri = '';
 
@@ -110,9 +115,53 @@ export function initStatusBar(context: ExtensionContext, client: CSpellClient):
             sbCheck.tooltip = reason;
             sbCheck.command = infoViewer.commandDisplayCSpellInfo;
             sbCheck.show();
+            updateLocaleStatus(isChecked ? response.documentLocale : undefined, fileName);
         }
     }
 
+    function updateLocaleStatus(docLocale: DocumentLocale | undefined, fileName: string) {
+        if (!docLocale?.locale) {
+            sbLocale.hide();
+            return;
+        }
+        const { locale, name, source } = docLocale;
+        const how = source === 'detected' ? 'Detected' : source === 'override' ? 'Chosen' : 'From settings';
+        sbLocale.text = `$(globe) ${locale}`;
+        sbLocale.tooltip = `${how}: ${name || locale}\nClick to choose the locale used to check "${fileName}".`;
+        sbLocale.command = knownCommands['cSpell.selectDocumentLocale'];
+        sbLocale.show();
+    }
+
+    async function selectDocumentLocale() {
+        const document = selectDocument();
+        if (!document) return;
+        const { documentLocale } = await client.isSpellCheckEnabled(document);
+        if (!documentLocale) {
+            await window.showInformationMessage('Enable "cSpell.detectLocale" to choose the locale of a document.');
+            return;
+        }
+        const { locale, source, candidates } = documentLocale;
+        interface LocaleQuickPickItem extends vscode.QuickPickItem {
+            locale: string | undefined;
+        }
+        const detectItem: LocaleQuickPickItem = {
+            label: '$(sparkle) Detect Automatically',
+            description: source !== 'override' ? 'current' : undefined,
+            locale: undefined,
+        };
+        const items: LocaleQuickPickItem[] = candidates.map((code) => ({
+            label: code,
+            description: [localeName(code), source === 'override' && code === locale ? 'current' : undefined]
+                .filter((a) => !!a)
+                .join(' - '),
+            locale: code,
+        }));
+        const picked = await window.showQuickPick([detectItem, ...items], { title: `Locale for "${path.basename(document.uri.fsPath)}"` });
+        if (!picked) return;
+        await client.setDocumentLocale(document.uri, picked.locale);
+        setTimeout(() => updateStatusBar(document, false), 250);
+    }
+
     function formatFileReason(response: ServerResponseIsSpellCheckEnabledForFile): string {
         if (response.blockedReason) return response.blockedReason.message;
         if (response.fileEnabled) return '';
@@ -144,12 +193,14 @@ export function initStatusBar(context: ExtensionContext, client: CSpellClient):
 
         if (!showStatus) {
             sbCheck.hide();
+            sbLocale.hide();
             return;
         }
 
         if (enabled) {
             updateStatusBarWithSpellCheckStatus(document, showClock);
         } else {
+            sbLocale.hide();
             sbCheck.text = `$(stop) ${cspellStatusBarIcon}`;
             sbCheck.tooltip = 'Enable spell checking';
             sbCheck.command = 'cSpell.enableForGlobal';
@@ -208,7 +259,9 @@ export function initStatusBar(context: ExtensionContext, client: CSpellClient):
         workspace.onDidChangeConfiguration(onDidChangeConfiguration),
         workspace.onDidCloseTextDocument(updateStatusBar),
         vscode.languages.onDidChangeDiagnostics(onDidChangeDiag),
+        vscode.commands.registerCommand(knownCommands['cSpell.selectDocumentLocale'], selectDocumentLocale),
         sbCheck,
+        sbLocale,
     );
 
     if (window.activeTextEditor) {
@@ -223,6 +276,11 @@ export function initStatusBar(context: ExtensionContext, client: CSpellClient):
     };
 }
 
+function localeName(code: string): string | undefined {
+    const info = lookupLocaleInfo(code);
+    return info && info.language + (info.country ? ` (${info.country})` : '');
+}
+
 interface StatusBarTextParams {
     languageEnabled: boolean;
     fileEnabled: boolean;
@@ -1,4 +1,4 @@
-import type { TextDocument, TextEditor, Uri } from 'vscode';
+import type { NotebookCell, TextDocument, TextEditor, Uri } from 'vscode';
 import { window, workspace } from 'vscode';
 
 export function findEditor(uri?: Uri | string): TextEditor | undefined {
@@ -28,3 +28,20 @@ export function findTextDocument(uri?: Uri | string): TextDocument | undefined {
 
     return undefined;
 }
+
+/**
+ * Find the notebook cell of a document.
+ * @returns undefined if the document is not a cell of an open notebook.
+ */
+export function findNotebookCell(uri?: Uri | string): NotebookCell | undefined {
+    if (!uri) return undefined;
+
+    const uriStr = uri.toString();
+
+    for (const notebook of workspace.notebookDocuments) {
+        const cell = notebook.getCells().find((cell) => cell.document.uri.toString() === uriStr);
+        if (cell) return cell;
+    }
+
+    return undefined;
+}
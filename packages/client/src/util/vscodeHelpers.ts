@@ -15,6 +15,17 @@ export function pvShowErrorMessage(message: string): Promise<void> {
     return pVoid(window.showErrorMessage(message), 'showErrorMessage helper');
 }
 
+/**
+ * Show a warning message.
+ *
+ * Wrap the promise so it cannot throw an error.
+ * @param message - message to show
+ * @returns window.showWarningMessage() result or `undefined` if the promise was rejected.
+ */
+export function pvShowWarningMessage(message: string): Promise<void> {
+    return pVoid(window.showWarningMessage(message), 'showWarningMessage helper');
+}
+
 /**
  * Show an information message to users. Optionally provide an array of items which will be presented as
  * clickable buttons.
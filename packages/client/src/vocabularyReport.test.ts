@@ -0,0 +1,64 @@
+import type { GetVocabularyReportResult } from './client';
+import { toVocabularyReport, vocabularyToCsv, vocabularyToJson } from './vocabularyReport';
+
+// cspell:ignore colour
+
+const result: GetVocabularyReportResult = {
+    filesChecked: 2,
+    words: [
+        {
+            word: 'colour',
+            count: 3,
+            files: ['file:///project/README.md', 'file:///project/docs/a,b.md'],
+            status: 'known',
+            dictionaries: ['en-gb', 'softwareTerms'],
+            onlyInSettings: false,
+            variants: ['color'],
+        },
+        {
+            word: 'say "hi"',
+            count: 1,
+            files: ['file:///project/README.md'],
+            status: 'unknown',
+            dictionaries: [],
+            onlyInSettings: false,
+            variants: [],
+        },
+        {
+            word: 'cspell',
+            count: 1,
+            files: ['file:///project/README.md'],
+            status: 'known',
+            dictionaries: ['[words]'],
+            onlyInSettings: true,
+            variants: [],
+        },
+    ],
+};
+
+const report = toVocabularyReport(result, (uri) => uri.replace('file:///project/', ''));
+
+describe('vocabularyReport', () => {
+    test('toVocabularyReport', () => {
+        expect(report.words[0].files).toEqual([
+            { uri: 'file:///project/README.md', name: 'README.md' },
+            { uri: 'file:///project/docs/a,b.md', name: 'docs/a,b.md' },
+        ]);
+    });
+
+    test('vocabularyToCsv', () => {
+        expect(vocabularyToCsv(report).split('\r\n')).toEqual([
+            'word,count,status,dictionaries,onlyInSettings,variants,files',
+            'colour,3,known,en-gb;softwareTerms,false,color,"README.md;docs/a,b.md"',
+            '"say ""hi""",1,unknown,,false,,README.md',
+            'cspell,1,known,[words],true,,README.md',
+            '',
+        ]);
+    });
+
+    test('vocabularyToJson', () => {
+        const json = JSON.parse(vocabularyToJson(report));
+        expect(json.filesChecked).toBe(2);
+        expect(json.words[0]).toEqual({ ...result.words[0], files: ['README.md', 'docs/a,b.md'] });
+    });
+});
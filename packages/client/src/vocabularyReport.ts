@@ -0,0 +1,95 @@
+import { ProgressLocation, Uri, window, workspace } from 'vscode';
+import type { VocabularyExportFormat, VocabularyReport } from 'webview-api';
+
+import type { GetVocabularyReportResult } from './client';
+import * as di from './di';
+import { vscodeFs } from './settings/fs';
+import { pvShowInformationMessage } from './util/vscodeHelpers';
+
+const csvColumns = ['word', 'count', 'status', 'dictionaries', 'onlyInSettings', 'variants', 'files'] as const;
+
+const exportFilters: Record<VocabularyExportFormat, Record<string, string[]>> = {
+    csv: { CSV: ['csv'] },
+    json: { JSON: ['json'] },
+};
+
+/**
+ * Build the vocabulary report of the workspace and save it as CSV or JSON.
+ */
+export async function actionExportVocabularyReport(): Promise<void> {
+    const format = await window.showQuickPick<{ label: string; format: VocabularyExportFormat }>(
+        [
+            { label: 'CSV', format: 'csv' },
+            { label: 'JSON', format: 'json' },
+        ],
+        { title: 'Export the vocabulary report as' },
+    );
+    if (!format) return;
+    await exportVocabularyReport(await runVocabularyReport(), format.format);
+}
+
+/**
+ * Collect the words used in the workspace while showing the progress.
+ */
+export async function runVocabularyReport(): Promise<VocabularyReport> {
+    const result = await window.withProgress(
+        { location: ProgressLocation.Notification, title: 'Collecting the vocabulary of the workspace' },
+        () => di.get('client').getVocabularyReport({}),
+    );
+    return toVocabularyReport(result, (uri) => workspace.asRelativePath(Uri.parse(uri), false));
+}
+
+/**
+ * Save a vocabulary report to a file chosen by the user.
+ * @returns true if the report was saved.
+ */
+export async function exportVocabularyReport(report: VocabularyReport, format: VocabularyExportFormat): Promise<boolean> {
+    const folder = workspace.workspaceFolders?.[0]?.uri;
+    const defaultUri = folder && Uri.joinPath(folder, `vocabulary.${format}`);
+    const uri = await window.showSaveDialog({ defaultUri, filters: exportFilters[format], title: 'Export the vocabulary report' });
+    if (!uri) return false;
+    await vscodeFs.writeFile(uri, format === 'csv' ? vocabularyToCsv(report) : vocabularyToJson(report));
+    await pvShowInformationMessage(`Vocabulary report saved: ${report.words.length} words.`);
+    return true;
+}
+
+/**
+ * Convert the result of the language server into a report.
+ * @param toName - the name of a file to show, like its path relative to the workspace.
+ */
+export function toVocabularyReport(result: GetVocabularyReportResult, toName: (uri: string) => string): VocabularyReport {
+    return {
+        filesChecked: result.filesChecked,
+        words: result.words.map((entry) => ({ ...entry, files: entry.files.map((uri) => ({ uri, name: toName(uri) })) })),
+    };
+}
+
+/**
+ * Format a vocabulary report as CSV, one row per word. The lists are separated by `;`.
+ */
+export function vocabularyToCsv(report: VocabularyReport): string {
+    const rows = report.words.map((entry) =>
+        [
+            entry.word,
+            entry.count,
+            entry.status,
+            entry.dictionaries.join(';'),
+            entry.onlyInSettings,
+            entry.variants.join(';'),
+            entry.files.map((f) => f.name).join(';'),
+        ].map((value) => csvField(value.toString())),
+    );
+    return [csvColumns, ...rows].map((row) => row.join(',') + '\r\n').join('');
+}
+
+/**
+ * Format a vocabulary report as JSON, the files are listed by name.
+ */
+export function vocabularyToJson(report: VocabularyReport): string {
+    const words = report.words.map((entry) => ({ ...entry, files: entry.files.map((f) => f.name) }));
+    return JSON.stringify({ filesChecked: report.filesChecked, words }, undefined, 2) + '\n';
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
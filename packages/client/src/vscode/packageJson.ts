@@ -8,6 +8,8 @@ export interface PackageJson {
 interface Contributes {
     menus?: Menus;
     commands?: CommandItem[];
+    cSpellDictionaries?: DictionaryContribution[];
+    grammars?: GrammarContribution[];
 }
 
 type MenuTypes = 'editor/context' | 'commandPalette' | 'view/item/context';
@@ -27,3 +29,30 @@ interface CommandItem {
     category?: string;
     title?: string;
 }
+
+/**
+ * A dictionary contributed by an extension in `contributes.cSpellDictionaries`.
+ * See `resources/schemas/dictionary-contributions.schema.json`.
+ */
+export interface DictionaryContribution {
+    /** The name of the dictionary, it must be unique. */
+    name: string;
+    /** The path to a word list (`.txt`) or `.trie` file, relative to the extension. */
+    path: string;
+    description?: string;
+    /** Only use the dictionary for these languages. */
+    languageId?: string | string[];
+    /** Only use the dictionary for these locales. */
+    locale?: string | string[];
+}
+
+/**
+ * A TextMate grammar contributed by an extension in `contributes.grammars`.
+ */
+export interface GrammarContribution {
+    /** The language of the grammar, injection grammars do not have one. */
+    language?: string;
+    scopeName: string;
+    /** The path to the grammar file, relative to the extension. */
+    path: string;
+}
@@ -0,0 +1,49 @@
+import { Diagnostic, Range } from 'vscode';
+
+import type { SpellingDiagnostic } from '../../issueTracker';
+import { toDocumentIssues } from './documentIssues';
+
+// cspell:ignore Nmae
+
+describe('documentIssues', () => {
+    test('toDocumentIssues', () => {
+        const url = 'file:///project/code.ts';
+        const diags = [
+            diag(new Range(1, 6, 1, 17), 'getUserNmae', {
+                words: [{ text: 'Nmae', offset: 7 }],
+                suggestions: [{ word: 'getUserName', isPreferred: true }, { word: 'getUserNam' }],
+            }),
+            diag(new Range(2, 0, 2, 4), 'darn', { isFlagged: true }),
+            diag(new Range(3, 0, 3, 4), 'known', { isBaselined: true }),
+        ];
+        expect(toDocumentIssues(url, diags)).toEqual({
+            url,
+            issues: [
+                {
+                    word: 'getUserNmae',
+                    words: ['Nmae'],
+                    range: { start: { line: 1, character: 6 }, end: { line: 1, character: 17 } },
+                    message: '"getUserNmae": Unknown word.',
+                    isFlagged: false,
+                    suggestions: ['getUserName', 'getUserNam'],
+                    preferredSuggestion: 'getUserName',
+                },
+                {
+                    word: 'darn',
+                    words: ['darn'],
+                    range: { start: { line: 2, character: 0 }, end: { line: 2, character: 4 } },
+                    message: '"darn": Unknown word.',
+                    isFlagged: true,
+                    suggestions: [],
+                    preferredSuggestion: undefined,
+                },
+            ],
+        });
+    });
+});
+
+function diag(range: Range, text: string, data: SpellingDiagnostic['data']): SpellingDiagnostic {
+    const d: SpellingDiagnostic = new Diagnostic(range, `"${text}": Unknown word.`);
+    d.data = { text, ...data };
+    return d;
+}
@@ -0,0 +1,35 @@
+import type { Range } from 'vscode';
+import type { DocumentIssue, DocumentIssues } from 'webview-api';
+
+import type { SpellingDiagnostic } from '../../issueTracker';
+
+/**
+ * Convert the spelling diagnostics of a document into the issues shown in the webviews.
+ * The issues in the baseline are not shown.
+ */
+export function toDocumentIssues(url: string, diags: SpellingDiagnostic[]): DocumentIssues {
+    const issues = diags.filter((diag) => !diag.data?.isBaselined).map(toDocumentIssue);
+    return { url, issues };
+}
+
+function toDocumentIssue(diag: SpellingDiagnostic): DocumentIssue {
+    const data = diag.data;
+    const word = data?.text ?? '';
+    const suggestions = data?.suggestions ?? [];
+    return {
+        word,
+        words: data?.words?.map((w) => w.text) ?? [word],
+        range: toRange(diag.range),
+        message: diag.message,
+        isFlagged: !!data?.isFlagged,
+        suggestions: suggestions.map((sug) => sug.word),
+        preferredSuggestion: suggestions.find((sug) => sug.isPreferred)?.word,
+    };
+}
+
+function toRange(range: Range): DocumentIssue['range'] {
+    return {
+        start: { line: range.start.line, character: range.start.character },
+        end: { line: range.end.line, character: range.end.character },
+    };
+}
@@ -9,15 +9,16 @@ import { getDependencies } from '../../di';
 import { calcSettings } from '../../infoViewer/infoHelper';
 import { createSubscribableView, pipe, rx, throttle } from '../../Subscribables';
 import { toSubscriberFn } from '../../Subscribables/helpers/toSubscriber';
-import type { MakeSubscribable, StoreValue } from '../../Subscribables/StoreValue';
+import type { MakeSubscribable } from '../../Subscribables/StoreValue';
 import { createStoreValue } from '../../Subscribables/StoreValue';
 import type { SubscriberLike } from '../../Subscribables/Subscribables';
 import { getLogger } from '../api/api';
 import type { AppStateData } from '../apiTypes';
+import { toDocumentIssues } from './documentIssues';
 
 export interface Storage {
     seq: number;
-    state: MakeSubscribable<AppStateData, 'currentDocument'>;
+    state: MakeSubscribable<AppStateData, 'currentDocument' | 'documentIssues'>;
     dispose(): void;
 }
 
@@ -33,9 +34,12 @@ export function getWebviewGlobalStore(): Storage {
     const currentDocumentSub = rx(subscribeToCurrentDocument);
     const currentDocument = pipe(currentDocumentSub, throttle(500), /* delayUnsubscribe(5000), */ createSubscribableView);
     // currentDocument.onEvent('onNotify', (event) => console.log('current document update: %o', event));
+    const documentIssuesSub = rx(subscribeToDocumentIssues);
+    const documentIssues = pipe(documentIssuesSub, throttle(500), createSubscribableView);
 
     function dispose() {
         disposeOf(currentDocumentSub);
+        disposeOf(documentIssuesSub);
         const _store = store;
         store = undefined;
         if (!_store) return;
@@ -44,7 +48,6 @@ export function getWebviewGlobalStore(): Storage {
 
     const writableState = {
         logDebug: createStoreValue(getLogger().isMethodEnabled('debug')),
-        todos: createStoreValue<AppStateData['todos']>([]),
     } as const;
 
     const _store: Storage = injectDisposable(
@@ -53,6 +56,7 @@ export function getWebviewGlobalStore(): Storage {
             state: {
                 ...writableState,
                 currentDocument,
+                documentIssues,
             },
         },
         dispose,
@@ -96,27 +100,40 @@ function subscribeToCurrentDocument(subscriber: SubscriberLike<AppStateData['cur
     }
 }
 
+function subscribeToDocumentIssues(subscriber: SubscriberLike<AppStateData['documentIssues']>): DisposableHybrid {
+    const emitter = toSubscriberFn(subscriber);
+    const issueTracker = getDependencies().issueTracker;
+    const disposables: DisposableLike[] = [];
+    const disposable = createDisposableFromList(disposables);
+
+    setDocumentIssues(window.activeTextEditor);
+    disposables.push(disposeClassic(window.onDidChangeActiveTextEditor(setDocumentIssues, undefined)));
+    disposables.push(
+        disposeClassic(
+            issueTracker.onDidChangeDiagnostics((event) => {
+                const uri = window.activeTextEditor?.document.uri;
+                uri && event.uris.some((u) => !compareUrl(u, uri)) && setDocumentIssues(window.activeTextEditor);
+            }),
+        ),
+    );
+
+    return disposable;
+
+    function setDocumentIssues(textEditor: TextEditor | undefined) {
+        // Keep the issues of the last document when the focus moves to something that isn't a text editor.
+        if (!textEditor) return;
+
+        const uri = textEditor.document.uri;
+        emitter(toDocumentIssues(uri.toString(), issueTracker.getDiagnostics(uri)));
+    }
+}
+
 export async function calcDocSettings(doc?: string) {
     const textDoc = (doc && findMatchTextDocument(doc)) || undefined;
     const di = getDependencies();
     return calcSettings(textDoc, undefined, di.client, console.log);
 }
 
-export interface StateUpdate<T> {
-    seq: number;
-    success: boolean;
-    value: T;
-}
-
-export function updateState<T>(seq: number | undefined, value: T, s: StoreValue<T>): StateUpdate<T> {
-    const store = getWebviewGlobalStore();
-    if (seq && seq !== store.seq) return { seq: store.seq, value: s.value, success: false };
-
-    store.seq++;
-    s.set(value);
-    return { seq: store.seq, value: s.value, success: true };
-}
-
 export function watchFieldList(fieldsToWatch: Set<WatchFields>, onChange: (changedFields: WatchFieldList) => void): DisposableHybrid {
     const store = getWebviewGlobalStore();
     const list = [...fieldsToWatch];
@@ -1,16 +1,17 @@
 import { createDisposableList, type DisposableLike, disposeOf, injectDisposable, makeDisposable } from 'utils-disposables';
 import { createLogger, LogLevel } from 'utils-logger';
-import { Uri, window } from 'vscode';
+import { Range, Uri, window } from 'vscode';
 import { type MessageConnection } from 'vscode-jsonrpc/node';
-import type { RequestResult, SetValueRequest, SetValueResult, WatchFieldList, WatchFields } from 'webview-api';
+import type { FixIssueRequest, RequestResult, VocabularyReport, WatchFieldList, WatchFields } from 'webview-api';
 import { createServerSideSpellInfoWebviewApi } from 'webview-api';
 
-import type { StoreValue } from '../../Subscribables/StoreValue';
+import { handleFixSpellingIssue } from '../../applyCorrections';
+import { commandHandlers } from '../../commands';
 import type { Subscribable } from '../../Subscribables/Subscribables';
+import { exportVocabularyReport, runVocabularyReport } from '../../vocabularyReport';
 import type { ServerSideApi, ServerSideApiDef } from '../apiTypes';
 import { awaitSubscribable, getWebviewGlobalStore } from '../AppState';
-import { calcDocSettings, type Storage, updateState, watchFieldList } from '../AppState/store';
-import { sampleList } from './staticTestData';
+import { calcDocSettings, type Storage, watchFieldList } from '../AppState/store';
 
 export function createApi(connection: MessageConnection) {
     return bindApiAndStore(connection, getWebviewGlobalStore());
@@ -29,21 +30,25 @@ export function getLogger() {
 
 export function bindApiAndStore(connection: MessageConnection, store: Storage): ServerSideApi {
     let watcher: DisposableLike | undefined = undefined;
+    /** The last report sent to the webview, it is the one exported. */
+    let vocabulary: VocabularyReport | undefined = undefined;
     const fieldsToWatch = new Set<WatchFields>();
     const disposables = createDisposableList([() => disposeOf(watcher)], 'bindApiAndStore');
     const dispose = disposables.dispose;
 
     const api: ServerSideApiDef = {
         serverRequests: {
-            whatTimeIsIt,
             getLogDebug: () => store.state.logDebug.value,
-            getTodos: () => resolveRequest(store.state.todos),
             getCurrentDocument: () => resolveRequest(store.state.currentDocument),
+            getDocumentIssues: () => resolveRequest(store.state.documentIssues),
             getDocSettings: calcDocSettings,
             setLogDebug: (r) => (store.state.logDebug.value = r),
-            setTodos: (r) => updateStateRequest(r, store.state.todos),
             watchFields,
-            resetTodos,
+            fixIssue,
+            ignoreWord: (r) => commandHandlers['cSpell.addIgnoreWord'](r.words.join(' '), r.url),
+            addWordToDictionary: (r) => commandHandlers['cSpell.addWordToDictionary'](r.words.join(' '), r.url),
+            getVocabularyReport: async () => (vocabulary = await runVocabularyReport()),
+            exportVocabularyReport: async (format) => !!vocabulary && (await exportVocabularyReport(vocabulary, format)),
         },
         serverNotifications: {
             async showInformationMessage(message) {
@@ -76,26 +81,13 @@ export function bindApiAndStore(connection: MessageConnection, store: Storage):
     }
 
     /**
-     * Get the time
+     * Replace the text of an issue, the text must not have changed.
      */
-    function whatTimeIsIt() {
-        return new Date().toString();
+    function fixIssue(req: FixIssueRequest) {
+        const { start, end } = req.range;
+        const range = new Range(start.line, start.character, end.line, end.character);
+        return handleFixSpellingIssue(Uri.parse(req.url), req.word, req.suggestion, [range]);
     }
-
-    /**
-     * Reset the Todo list
-     */
-    function resetTodos() {
-        return updateState(
-            undefined,
-            sampleList.map((todo) => ({ ...todo })),
-            store.state.todos,
-        );
-    }
-}
-
-function updateStateRequest<T>(r: SetValueRequest<T>, s: StoreValue<T>): SetValueResult<T> {
-    return updateState(r.seq, r.value, s);
 }
 
 function resolveRequest<T>(s: Subscribable<T>): Promise<RequestResult<T>> {
@@ -1,7 +0,0 @@
-import type { TodoList } from '../apiTypes';
-
-export const sampleList: TodoList = [
-    { uuid: 1, done: false, text: 'finish Svelte tutorial' },
-    { uuid: 2, done: false, text: 'build an app' },
-    { uuid: 3, done: false, text: 'world domination' },
-];
@@ -1 +1 @@
-export type { AppStateData, ServerSideApi, ServerSideApiDef, TodoList } from 'webview-api';
+export type { AppStateData, DocumentIssue, DocumentIssues, ServerSideApi, ServerSideApiDef } from 'webview-api';
@@ -2,25 +2,25 @@ import { createDisposableList } from 'utils-disposables';
 import type { Uri, WebviewPanel } from 'vscode';
 import { ViewColumn, window } from 'vscode';
 
-import { HelloWorldView } from '../views/HelloWorldView';
+import { VocabularyView } from '../views/VocabularyView';
 
 /**
- * This class manages the state and behavior of HelloWorld webview panels.
+ * This class manages the state and behavior of vocabulary report webview panels.
  *
  * It contains all the data and methods for:
  *
- * - Creating and rendering HelloWorld webview panels
+ * - Creating and rendering vocabulary report webview panels
  * - Properly cleaning up and disposing of webview resources when the panel is closed
  * - Setting the HTML (and by proxy CSS/JavaScript) content of the webview panel
  * - Setting message listeners so data can be passed between the webview and extension
  */
-export class HelloWorldPanel {
-    public static currentPanel: HelloWorldPanel | undefined;
+export class VocabularyPanel {
+    public static currentPanel: VocabularyPanel | undefined;
     private readonly _panel: WebviewPanel;
-    private _disposables = createDisposableList(undefined, 'HelloWorldPanel');
+    private _disposables = createDisposableList(undefined, 'VocabularyPanel');
 
     /**
-     * The HelloWorldPanel class private constructor (called only from the render method).
+     * The VocabularyPanel class private constructor (called only from the render method).
      *
      * @param panel A reference to the webview panel
      * @param extensionUri The URI of the directory containing the extension
@@ -32,7 +32,7 @@ export class HelloWorldPanel {
         // Set an event listener to listen for when the panel is disposed (i.e. when the user closes
         // the panel or when the panel is closed programmatically)
         this._disposables.push(this._panel.onDidDispose(() => this.dispose()));
-        this._disposables.push(HelloWorldView.bindView(this._panel.webview, extensionUri));
+        this._disposables.push(VocabularyView.bindView(this._panel.webview, extensionUri));
     }
 
     /**
@@ -42,33 +42,33 @@ export class HelloWorldPanel {
      * @param extensionUri The URI of the directory containing the extension.
      */
     public static render(extensionUri: Uri) {
-        if (HelloWorldPanel.currentPanel) {
+        if (VocabularyPanel.currentPanel) {
             // If the webview panel already exists reveal it
-            HelloWorldPanel.currentPanel._panel.reveal(ViewColumn.One);
+            VocabularyPanel.currentPanel._panel.reveal(ViewColumn.One);
             return;
         }
 
         // If a webview panel does not already exist create and show a new one
         const panel = window.createWebviewPanel(
             // Panel view type
-            'showHelloWorld',
+            'showVocabularyReport',
             // Panel title
-            'Hello World',
+            'Vocabulary',
             // The editor column the panel should be displayed in
             ViewColumn.One,
             // Extra panel configurations
             {}, // set later
         );
 
-        HelloWorldPanel.currentPanel = new HelloWorldPanel(panel, extensionUri);
+        VocabularyPanel.currentPanel = new VocabularyPanel(panel, extensionUri);
     }
 
     /**
      * Cleans up and disposes of webview resources when the webview panel is closed.
      */
     public dispose() {
-        if (HelloWorldPanel.currentPanel === this) {
-            HelloWorldPanel.currentPanel = undefined;
+        if (VocabularyPanel.currentPanel === this) {
+            VocabularyPanel.currentPanel = undefined;
         }
 
         // Dispose of the current webview panel
@@ -23,7 +23,7 @@ export class AppView {
     public readonly dispose = this._disposables.dispose;
 
     /**
-     * The HelloWorldPanel class private constructor (called only from the render method).
+     * Bind a webview to a view of the app.
      *
      * @param panel A reference to the webview panel
      * @param extensionUri The URI of the directory containing the extension
@@ -81,7 +81,7 @@ export class AppView {
       <!DOCTYPE html>
       <html lang="en">
         <head>
-          <title>Hello World</title>
+          <title>Spell Checker</title>
           <meta charset="UTF-8" />
           <meta name="viewport" content="width=device-width, initial-scale=1.0" />
           <meta http-equiv="Content-Security-Policy" content="
@@ -3,8 +3,8 @@ import { supportedViewsByName } from 'webview-api';
 
 import { AppView } from './AppView';
 
-export class TodoView {
+export class DashboardView {
     public static bindView(webview: Webview, extensionUri: Uri): AppView {
-        return new AppView(webview, extensionUri, supportedViewsByName.todo);
+        return new AppView(webview, extensionUri, supportedViewsByName.dashboard);
     }
 }
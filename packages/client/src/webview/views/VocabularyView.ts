@@ -3,8 +3,8 @@ import { supportedViewsByName } from 'webview-api';
 
 import { AppView } from './AppView';
 
-export class HelloWorldView {
+export class VocabularyView {
     public static bindView(webview: Webview, extensionUri: Uri): AppView {
-        return new AppView(webview, extensionUri, supportedViewsByName['hello-world']);
+        return new AppView(webview, extensionUri, supportedViewsByName['vocabulary']);
     }
 }
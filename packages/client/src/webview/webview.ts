@@ -4,11 +4,11 @@ import { supportedViewsByName } from 'webview-api';
 
 import { getWebviewGlobalStore } from './AppState';
 // import { getWebviewGlobalStore } from './AppState/store';
-import { HelloWorldPanel } from './panels/HelloWorldPanel';
-import { TodoViewProvider } from './providers/TodoViewProvider';
+import { DashboardPanel } from './panels/DashboardPanel';
+import { VocabularyPanel } from './panels/VocabularyPanel';
 import { WebviewApiViewProvider } from './providers/viewProviders';
 
-export const registeredCommands = ['cspell-info.showHelloWorld'] as const;
+export const registeredCommands = ['cSpell.showDashboard', 'cSpell.showVocabularyReport'] as const;
 
 type CommandNames = (typeof registeredCommands)[number];
 
@@ -24,7 +24,7 @@ export function activate(context: ExtensionContext) {
     // subscriptions.push(debugDispose('Dispose Activate 0'));
 
     const views = [
-        new TodoViewProvider(extensionUri),
+        new WebviewApiViewProvider(extensionUri, supportedViewsByName.dashboard, 'cspell-info.dashboardView'),
         new WebviewApiViewProvider(extensionUri, supportedViewsByName['cspell-info'], 'cspell-info.infoView'),
     ];
 
@@ -34,15 +34,23 @@ export function activate(context: ExtensionContext) {
 
     // subscriptions.push(debugDispose('Dispose Activate 1'));
 
-    // Create the show hello world command
-    const showHelloWorldCommand = commands.registerCommand(rCommands['cspell-info.showHelloWorld'], () => {
-        HelloWorldPanel.render(context.extensionUri);
+    // Create the commands to show the panels
+    const showDashboardCommand = commands.registerCommand(rCommands['cSpell.showDashboard'], () => {
+        DashboardPanel.render(extensionUri);
+    });
+    const showVocabularyReportCommand = commands.registerCommand(rCommands['cSpell.showVocabularyReport'], () => {
+        VocabularyPanel.render(extensionUri);
     });
 
     // subscriptions.push(debugDispose('Dispose Activate 2'));
 
     // Add command to the extension context
-    subscriptions.push(showHelloWorldCommand, { dispose: () => HelloWorldPanel.currentPanel?.dispose() });
+    subscriptions.push(
+        showDashboardCommand,
+        showVocabularyReportCommand,
+        { dispose: () => DashboardPanel.currentPanel?.dispose() },
+        { dispose: () => VocabularyPanel.currentPanel?.dispose() },
+    );
 
     // subscriptions.push(debugDispose('Dispose Activate 3'));
 
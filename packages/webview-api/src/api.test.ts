@@ -22,21 +22,23 @@ describe('api', () => {
                 openTextDocument: true,
             },
             serverRequests: {
+                addWordToDictionary: true,
+                exportVocabularyReport: true,
+                fixIssue: true,
                 getCurrentDocument: true,
                 getDocSettings: true,
+                getDocumentIssues: true,
                 getLogDebug: true,
-                getTodos: true,
-                resetTodos: true,
+                getVocabularyReport: true,
+                ignoreWord: true,
                 setLogDebug: true,
-                setTodos: true,
                 watchFields: true,
-                whatTimeIsIt: true,
             },
         };
         const client = api.createClientSideSpellInfoWebviewApi(connection, clientInterface, undefined);
         expect(client).toBeDefined();
-        expect(client.serverRequest.getTodos).toBeTypeOf('function');
-        const fn: (...p: any) => any = client.serverRequest.setTodos;
+        expect(client.serverRequest.getDocumentIssues).toBeTypeOf('function');
+        const fn: (...p: any) => any = client.serverRequest.fixIssue;
         expect(fn).toBeTypeOf('function');
         const methods = Object.entries(client).flatMap(([key, value]) =>
             Object.entries(value).map(([k, v]) => [key + '.' + k, v] as const),
@@ -11,19 +11,31 @@ import type {
 } from 'json-rpc-api';
 import { createClientApi, createServerApi } from 'json-rpc-api';
 
-import type { RequestResult, Settings, SetValueRequest, SetValueResult, TextDocumentRef, TodoList, WatchFieldList } from './apiModels';
+import type { RequestResult, Settings, TextDocumentRef, WatchFieldList } from './apiModels';
+import type { DocumentIssues, FixIssueRequest, WordActionRequest } from './models/dashboard';
+import type { VocabularyExportFormat, VocabularyReport } from './models/vocabulary';
 
 /** Requests that can be made to the extension */
 export interface ServerRequestsAPI {
-    whatTimeIsIt(): string;
     setLogDebug(enable: boolean): boolean;
     getLogDebug(): boolean;
-    getTodos(): RequestResult<TodoList>;
     getCurrentDocument(): RequestResult<TextDocumentRef | null>;
+    getDocumentIssues(): RequestResult<DocumentIssues | null>;
     getDocSettings(docUrl?: string): Settings | null;
-    resetTodos(): SetValueResult<TodoList>;
-    setTodos(req: SetValueRequest<TodoList>): SetValueResult<TodoList>;
     watchFields(req: WatchFieldList): void;
+    /** Replace the text of an issue with a suggestion. */
+    fixIssue(req: FixIssueRequest): void;
+    /** Add the words to the `ignoreWords` setting. */
+    ignoreWord(req: WordActionRequest): void;
+    /** Add the words to the dictionary that best matches the document. */
+    addWordToDictionary(req: WordActionRequest): void;
+    /** Collect the words used in the workspace. */
+    getVocabularyReport(): VocabularyReport;
+    /**
+     * Save the last vocabulary report to a file chosen by the user.
+     * @returns true if the file was saved.
+     */
+    exportVocabularyReport(format: VocabularyExportFormat): boolean;
 }
 
 /** Notifications that can be sent to the extension */
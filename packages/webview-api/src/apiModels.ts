@@ -1,12 +1,6 @@
-export { Settings } from './models/settings';
-
-export interface Todo {
-    uuid: number;
-    done: boolean;
-    text: string;
-}
+import type { DocumentIssues } from './models/dashboard';
 
-export type TodoList = Todo[];
+export { Settings } from './models/settings';
 
 export interface TextDocumentRef {
     url: string;
@@ -14,9 +8,10 @@ export interface TextDocumentRef {
 }
 
 export interface AppStateData {
-    todos: TodoList;
     logDebug: boolean;
     readonly currentDocument: TextDocumentRef | null;
+    /** The issues found in the current document. */
+    readonly documentIssues: DocumentIssues | null;
 }
 
 export type WatchFields = keyof AppStateData;
@@ -28,14 +23,3 @@ export interface RequestResult<T> {
     /** the current value */
     value: T;
 }
-
-export interface SetValueRequest<T> {
-    /** Use the sequence number to ensure it is the right version to update. */
-    seq?: number | undefined;
-    value: T;
-}
-
-export interface SetValueResult<T> extends RequestResult<T> {
-    /** was it successful? */
-    success: boolean;
-}
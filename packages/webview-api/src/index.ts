@@ -1,17 +1,9 @@
 export type { ClientSideApi, ClientSideApiDef, ServerSideApi, ServerSideApiDef } from './api';
 export { createClientSideSpellInfoWebviewApi, createServerSideSpellInfoWebviewApi } from './api';
-export type {
-    AppStateData,
-    RequestResult,
-    SetValueRequest,
-    SetValueResult,
-    TextDocumentRef,
-    Todo,
-    TodoList,
-    WatchFieldList,
-    WatchFields,
-} from './apiModels';
+export type { AppStateData, RequestResult, TextDocumentRef, WatchFieldList, WatchFields } from './apiModels';
+export type * from './models/dashboard';
 export type * from './models/settings';
+export type * from './models/vocabulary';
 export type * from './models/workspace';
 export type { SupportedViews } from './views';
 export { supportedViewsByName } from './views';
@@ -0,0 +1,45 @@
+import type { FileUri } from './settings';
+
+/** A zero based position in a document. */
+export interface Position {
+    line: number;
+    character: number;
+}
+
+export interface Range {
+    start: Position;
+    end: Position;
+}
+
+export interface DocumentIssue {
+    /** The text of the issue, a word or an identifier. */
+    word: string;
+    /** The misspelled words in the text of the issue. */
+    words: string[];
+    range: Range;
+    message: string;
+    /** The word is forbidden. */
+    isFlagged: boolean;
+    suggestions: string[];
+    /** The suggestion to use to fix the issue without asking. */
+    preferredSuggestion?: string | undefined;
+}
+
+export interface DocumentIssues {
+    url: FileUri;
+    issues: DocumentIssue[];
+}
+
+export interface FixIssueRequest {
+    url: FileUri;
+    word: string;
+    range: Range;
+    /** The text to replace the word with. */
+    suggestion: string;
+}
+
+export interface WordActionRequest {
+    /** The document containing the words, used to choose where to store the words. */
+    url: FileUri;
+    words: string[];
+}
@@ -7,6 +7,10 @@ export interface Settings {
     workspace?: Workspace;
     activeFileUri?: string;
     activeFolderUri?: string;
+    /** The result of tracing a word, see `cSpell.traceWord`. */
+    wordTrace?: WordTrace | undefined;
+    /** The value of each setting in every scope. */
+    settingsEditor?: SettingsEditor | undefined;
 }
 
 export type LocaleId = string;
@@ -53,6 +57,8 @@ export interface FileConfig extends TextDocument, IsSpellCheckEnabledResult {
     workspaceFolder?: WorkspaceFolder | undefined;
     /** Uri used to calculate the settings. Might be different from the document uri. */
     uriActual?: FileUri;
+    /** Where each setting used to check the file comes from. */
+    provenance?: SettingProvenance[] | undefined;
 }
 
 export interface ExcludeRef {
@@ -92,3 +98,113 @@ export interface ConfigFile {
     uri: FileUri;
     name: string;
 }
+
+export type WordTraceStatus = 'ok' | 'ignored' | 'forbidden' | 'unknown';
+
+export interface WordTraceDictionary {
+    name: string;
+    uri?: FileUri | undefined;
+    uriName?: string | undefined;
+    configUri?: FileUri | undefined;
+    configUriName?: string | undefined;
+    /** The dictionary is used with the document. */
+    active: boolean;
+    foundWord?: string | undefined;
+    forbidden: boolean;
+    noSuggest: boolean;
+}
+
+export interface WordTracePatternMatch {
+    name: string;
+    regexp: string;
+    /** The matching text. */
+    text: string;
+}
+
+export interface WordTrace {
+    word: string;
+    /** The document containing the word. */
+    uri: FileUri;
+    fileName: string;
+    /** 1 based line number. */
+    line?: number | undefined;
+    status: WordTraceStatus;
+    caseSensitive: boolean;
+    dictionaries: WordTraceDictionary[];
+    flagWords: string[];
+    ignoreWords: string[];
+    ignoredBy: WordTracePatternMatch[];
+    notIncluded: boolean;
+    /** The lists from `cspell:` directives in the document that contain the word. */
+    inDocument: string[];
+}
+
+export type SettingScopeKind = ConfigSource | 'cspell';
+
+export interface SettingScope {
+    /** The config target or the uri of a cspell config file. */
+    id: string;
+    kind: SettingScopeKind;
+    name: string;
+}
+
+/**
+ * How the value of a setting in a scope is used by the spell checker.
+ * - `used` - the value is used.
+ * - `merged` - the value is combined with the values of other scopes.
+ * - `overridden` - the value is replaced by the value of a more specific scope.
+ * - `ignored` - the value is not passed to the spell checker, see `cSpell.mergeCSpellSettings`.
+ */
+export type SettingValueStatus = 'used' | 'merged' | 'overridden' | 'ignored';
+
+export interface SettingScopeValue {
+    /** The value as JSON. */
+    value: string;
+    status: SettingValueStatus;
+}
+
+export interface SettingEntry {
+    key: string;
+    /** The values by scope id, only the scopes with a value are present. */
+    values: Record<string, SettingScopeValue>;
+    /** The ids of the scopes where the setting can be changed. */
+    editableScopes: string[];
+}
+
+export interface SettingsEditor {
+    /** The scopes, from the least to the most specific. */
+    scopes: SettingScope[];
+    entries: SettingEntry[];
+}
+
+/**
+ * - `default` - the defaults of the spell checker.
+ * - `user`, `workspace`, `folder` - the VS Code settings.
+ * - `cspell` - a cspell config file.
+ * - `document` - `cspell:` directives in the document.
+ * - `calculated` - settings applied by the spell checker, like `languageSettings`.
+ */
+export type SettingSourceKind = ConfigSource | 'cspell' | 'document' | 'calculated';
+
+export interface SettingSource {
+    kind: SettingSourceKind;
+    name: string;
+    /** The config file. */
+    uri?: FileUri | undefined;
+    /** 1 based line number of the value in the config file. */
+    line?: number | undefined;
+    /** The config files that imported the config file, the closest first. */
+    importChain?: ConfigFile[] | undefined;
+}
+
+export interface SettingProvenanceSource {
+    /** The element of a list, `undefined` for other settings. */
+    value?: string | undefined;
+    source: SettingSource;
+}
+
+export interface SettingProvenance {
+    key: string;
+    /** The source of the value, or of each element of a list. */
+    sources: SettingProvenanceSource[];
+}
@@ -0,0 +1,30 @@
+import type { FileUri } from './settings';
+
+export type VocabularyWordStatus = 'known' | 'unknown' | 'forbidden';
+
+export type VocabularyExportFormat = 'csv' | 'json';
+
+export interface VocabularyFile {
+    uri: FileUri;
+    /** The path relative to the workspace. */
+    name: string;
+}
+
+export interface VocabularyEntry {
+    word: string;
+    /** The number of times the word is used. */
+    count: number;
+    files: VocabularyFile[];
+    status: VocabularyWordStatus;
+    /** The names of the dictionaries that contain the word. */
+    dictionaries: string[];
+    /** The word is only accepted because of a `words`, `userWords` or `ignoreWords` setting. */
+    onlyInSettings: boolean;
+    /** Other spellings of the word found in the workspace, like `colour` and `color`. */
+    variants: string[];
+}
+
+export interface VocabularyReport {
+    words: VocabularyEntry[];
+    filesChecked: number;
+}
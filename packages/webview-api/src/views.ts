@@ -1,4 +1,4 @@
-export const namedViews = ['todo', 'hello-world', 'cspell-info'] as const;
+export const namedViews = ['dashboard', 'cspell-info', 'vocabulary'] as const;
 
 export type SupportedViews = (typeof namedViews)[number];
 
@@ -5,7 +5,6 @@ import { type ClientSideApi, createClientSideSpellInfoWebviewApi } from 'webview
 
 import type { WebViewState } from './types';
 
-export type { Todo } from 'webview-api';
 export { supportedViewsByName } from 'webview-api';
 
 export interface API extends ClientSideApi {}
@@ -46,15 +45,17 @@ function createApi(): API {
                 openTextDocument: true,
             },
             serverRequests: {
+                addWordToDictionary: true,
+                exportVocabularyReport: true,
+                fixIssue: true,
                 getCurrentDocument: true,
                 getDocSettings: true,
+                getDocumentIssues: true,
                 getLogDebug: true,
-                getTodos: true,
-                resetTodos: true,
+                getVocabularyReport: true,
+                ignoreWord: true,
                 setLogDebug: true,
-                setTodos: true,
                 watchFields: true,
-                whatTimeIsIt: true,
             },
             clientNotifications: {
                 onStateChange: true,
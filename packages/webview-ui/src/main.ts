@@ -14,7 +14,6 @@ function getView() {
 const app = new App({
     target: document.body,
     props: {
-        name: 'web world',
         view: getView(),
     },
 });
@@ -13,8 +13,8 @@ const api = getClientApi();
 
 class AppState {
     private csLogDebug: ClientServerStore<AppStateData['logDebug'], 'logDebug'> | undefined;
-    private csTodos: ClientServerStore<AppStateData['todos'], 'todos'> | undefined;
     private csCurrentDocument: ReadonlyClientServerStore<AppStateData['currentDocument'], 'currentDocument'> | undefined;
+    private csDocumentIssues: ReadonlyClientServerStore<AppStateData['documentIssues'], 'documentIssues'> | undefined;
 
     logDebug() {
         if (this.csLogDebug) {
@@ -36,21 +36,6 @@ class AppState {
         return cs.client;
     }
 
-    todos() {
-        if (this.csTodos) {
-            return this.csTodos.client;
-        }
-        const cs = createClientServerStore<AppStateData['todos'], 'todos'>({
-            name: 'todos',
-            initialValue: [],
-            query: async () => (await api.serverRequest.getTodos()).value,
-            watch: watchFields('todos'),
-            mutate: async (value, set) => set((await api.serverRequest.setTodos({ value })).value),
-        });
-        this.csTodos = cs;
-        return cs.client;
-    }
-
     currentDocument() {
         if (this.csCurrentDocument) {
             return this.csCurrentDocument.client;
@@ -65,6 +50,20 @@ class AppState {
         return cs.client;
     }
 
+    documentIssues() {
+        if (this.csDocumentIssues) {
+            return this.csDocumentIssues.client;
+        }
+        const cs = createReadonlyClientServerStore<AppStateData['documentIssues'], 'documentIssues'>({
+            name: 'documentIssues',
+            initialValue: null,
+            query: async () => (await api.serverRequest.getDocumentIssues()).value,
+            watch: watchFields('documentIssues'),
+        });
+        this.csDocumentIssues = cs;
+        return cs.client;
+    }
+
     // docSettings() {
     //     if (this.csDocSettings) {
     //         return this.csDocSettings.client;
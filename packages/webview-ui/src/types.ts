@@ -1,6 +1,5 @@
-export interface WebViewState {
-    showVsCodeComponents?: boolean;
-}
+/** The state VS Code keeps for a webview while it is hidden. */
+export interface WebViewState {}
 
 export type ChangeEvent<T extends EventTarget = Element, E extends Event = Event> = E & { currentTarget: EventTarget & T; target: T };
 export type TextInputEvent<T extends EventTarget = HTMLInputElement, E extends InputEvent = InputEvent> = E & { target: T };